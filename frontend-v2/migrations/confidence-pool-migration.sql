@@ -0,0 +1,84 @@
+-- Confidence pool migration
+-- Confidence pool leagues pick every game of a week and rank the picks with
+-- unique confidence values 1..N. Each pick is a normal straight pick; a win
+-- scores its confidence value, so standings sum confidence points.
+
+ALTER TABLE leagues DROP CONSTRAINT IF EXISTS leagues_format_check;
+ALTER TABLE leagues
+  ADD CONSTRAINT leagues_format_check CHECK (format IN ('weekly', 'survivor', 'confidence'));
+
+-- Confidence pools grade picks straight up or against the spread
+ALTER TABLE leagues
+  ADD COLUMN IF NOT EXISTS confidence_bet_type TEXT NOT NULL DEFAULT 'moneyline'
+    CHECK (confidence_bet_type IN ('moneyline', 'spread'));
+
+ALTER TABLE picks ADD COLUMN IF NOT EXISTS confidence SMALLINT CHECK (confidence > 0);
+
+-- A member can only use each confidence value once per week
+CREATE UNIQUE INDEX IF NOT EXISTS idx_picks_confidence_unique
+  ON picks (user_id, season_id, season_type, week, confidence)
+  WHERE confidence IS NOT NULL;
+
+-- Replace a member's open confidence picks for a week in one transaction.
+-- p_pick_ids are the open picks being replaced and p_picks holds the new
+-- picks' columns. Nothing changes if any of those games has kicked off since
+-- the picks were checked. Returns the new picks.
+CREATE OR REPLACE FUNCTION replace_confidence_picks(
+  p_user_id UUID,
+  p_season_id BIGINT,
+  p_season_type INTEGER,
+  p_week INTEGER,
+  p_pick_ids BIGINT[],
+  p_picks JSONB
+) RETURNS SETOF picks
+LANGUAGE plpgsql AS $$
+BEGIN
+  PERFORM 1 FROM picks
+  WHERE user_id = p_user_id
+    AND season_id = p_season_id
+    AND season_type = p_season_type
+    AND week = p_week
+  FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM games
+    WHERE start_time <= NOW()
+      AND (
+        id IN (SELECT game_id FROM picks WHERE id = ANY(p_pick_ids))
+        OR id IN (SELECT (pick->>'game_id')::BIGINT FROM jsonb_array_elements(p_picks) AS pick)
+      )
+  ) THEN
+    RAISE EXCEPTION 'Confidence picks for week % are locked', p_week;
+  END IF;
+
+  DELETE FROM picks
+  WHERE id = ANY(p_pick_ids)
+    AND user_id = p_user_id
+    AND season_id = p_season_id;
+
+  RETURN QUERY
+  INSERT INTO picks (
+    user_id, game_id, season_id, week, season_type, pick_type,
+    bet_type, selection, selection_data, confidence,
+    odds_snapshot_id, locked_sportsbook, locked_point, odds_price, locked_at
+  )
+  SELECT
+    p_user_id,
+    (pick->>'game_id')::BIGINT,
+    p_season_id,
+    p_week,
+    p_season_type,
+    'straight',
+    pick->>'bet_type',
+    pick->>'selection',
+    pick->'selection_data',
+    (pick->>'confidence')::SMALLINT,
+    (pick->>'odds_snapshot_id')::BIGINT,
+    pick->>'locked_sportsbook',
+    (pick->>'locked_point')::NUMERIC,
+    (pick->>'odds_price')::INTEGER,
+    (pick->>'locked_at')::TIMESTAMPTZ
+  FROM jsonb_array_elements(p_picks) AS pick
+  RETURNING *;
+END;
+$$;
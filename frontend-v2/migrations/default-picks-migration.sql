@@ -0,0 +1,21 @@
+-- Default picks migration
+-- A league policy for members who miss a week. After the last game of the week
+-- kicks off, /api/cron/apply-default-picks gives each member without a pick
+-- either an auto-pick (graded like any other pick) or an already-graded loss.
+-- Auto-picks on a game that was already scored are graded through
+-- apply_late_game_scoring (scoring-transaction-migration.sql), so they get the
+-- same audit trail.
+
+ALTER TABLE league_pick_rules
+  ADD COLUMN IF NOT EXISTS missed_pick_policy TEXT NOT NULL DEFAULT 'none'
+    CHECK (missed_pick_policy IN ('none', 'home_favorite', 'closest_game', 'no_pick_loss', 'penalty')),
+  ADD COLUMN IF NOT EXISTS missed_pick_penalty NUMERIC(4, 1) NOT NULL DEFAULT 0
+    CHECK (missed_pick_penalty BETWEEN 0 AND 10);
+
+ALTER TABLE picks ADD COLUMN IF NOT EXISTS is_auto_pick BOOLEAN NOT NULL DEFAULT false;
+
+-- Missed weeks scored as a loss are stored as bet_type = 'no_pick'
+ALTER TABLE picks DROP CONSTRAINT IF EXISTS picks_bet_type_check;
+ALTER TABLE picks
+  ADD CONSTRAINT picks_bet_type_check
+  CHECK (bet_type IN ('moneyline', 'spread', 'total', 'player_prop', 'parlay', 'no_pick'));
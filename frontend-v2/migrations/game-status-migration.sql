@@ -0,0 +1,80 @@
+-- Game status migration
+-- /api/cron/sync-game-status now records ESPN's postponed, suspended and
+-- cancelled statuses. Picks on a cancelled game are voided, or refunded in
+-- leagues that give the pick back, and picks made after a rescheduled game's
+-- new kickoff are voided. void_game_picks writes the picks, parlay legs and
+-- pick_scoring_audit rows together.
+
+-- What happens to straight picks on a cancelled game:
+--   void:   the pick is void and still uses up its slot for the week
+--   refund: the pick is void and the member can make a replacement pick
+ALTER TABLE league_pick_rules
+  ADD COLUMN IF NOT EXISTS cancelled_game_policy TEXT NOT NULL DEFAULT 'void'
+    CHECK (cancelled_game_policy IN ('void', 'refund'));
+
+-- Refunded picks don't count toward the weekly pick quota
+ALTER TABLE picks ADD COLUMN IF NOT EXISTS refunded BOOLEAN NOT NULL DEFAULT false;
+
+-- Void picks and parlay legs on one game. Only ungraded picks and legs are
+-- touched; parlays are settled by the caller once their legs are void.
+-- Returns how many picks and legs changed.
+CREATE OR REPLACE FUNCTION void_game_picks(
+  p_game_id BIGINT,
+  p_source TEXT,
+  p_explanation TEXT,
+  p_pick_ids BIGINT[],
+  p_refund_pick_ids BIGINT[],
+  p_leg_ids BIGINT[]
+) RETURNS JSONB
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_pick RECORD;
+  v_leg RECORD;
+  v_picks_voided INTEGER := 0;
+  v_legs_voided INTEGER := 0;
+BEGIN
+  FOR v_pick IN
+    SELECT id, result, points_awarded
+    FROM picks
+    WHERE id = ANY(COALESCE(p_pick_ids, '{}') || COALESCE(p_refund_pick_ids, '{}'))
+      AND game_id = p_game_id
+      AND result IS NULL
+    FOR UPDATE
+  LOOP
+    UPDATE picks
+    SET result = 'void',
+        points_awarded = 0,
+        refunded = v_pick.id = ANY(COALESCE(p_refund_pick_ids, '{}'))
+    WHERE id = v_pick.id;
+
+    INSERT INTO pick_scoring_audit (
+      pick_id, game_id, old_result, new_result, old_points, new_points, explanation, source
+    ) VALUES (
+      v_pick.id, p_game_id, v_pick.result, 'void', v_pick.points_awarded, 0, p_explanation, p_source
+    );
+
+    v_picks_voided := v_picks_voided + 1;
+  END LOOP;
+
+  FOR v_leg IN
+    SELECT id, pick_id, result
+    FROM pick_legs
+    WHERE id = ANY(COALESCE(p_leg_ids, '{}'))
+      AND game_id = p_game_id
+      AND result IS NULL
+    FOR UPDATE
+  LOOP
+    UPDATE pick_legs SET result = 'void' WHERE id = v_leg.id;
+
+    INSERT INTO pick_scoring_audit (
+      pick_id, pick_leg_id, game_id, old_result, new_result, explanation, source
+    ) VALUES (
+      v_leg.pick_id, v_leg.id, p_game_id, v_leg.result, 'void', p_explanation, p_source
+    );
+
+    v_legs_voided := v_legs_voided + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object('picks_voided', v_picks_voided, 'legs_voided', v_legs_voided);
+END;
+$$;
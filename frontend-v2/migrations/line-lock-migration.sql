@@ -0,0 +1,16 @@
+-- Line lock migration
+-- Ties every pick (and parlay leg) to the exact line the user took: the
+-- snapshot it came from, the book, the point and when it was locked. Grading
+-- uses the locked point instead of re-parsing the selection text.
+
+ALTER TABLE picks
+  ADD COLUMN IF NOT EXISTS odds_snapshot_id BIGINT REFERENCES odds_snapshots(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS locked_sportsbook TEXT,
+  ADD COLUMN IF NOT EXISTS locked_point NUMERIC,
+  ADD COLUMN IF NOT EXISTS locked_at TIMESTAMPTZ;
+
+ALTER TABLE pick_legs
+  ADD COLUMN IF NOT EXISTS odds_snapshot_id BIGINT REFERENCES odds_snapshots(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS locked_sportsbook TEXT,
+  ADD COLUMN IF NOT EXISTS locked_point NUMERIC,
+  ADD COLUMN IF NOT EXISTS locked_at TIMESTAMPTZ;
@@ -0,0 +1,36 @@
+-- NFL calendar migration
+-- Week boundaries come from ESPN's scoreboard calendar instead of hardcoded
+-- September dates. season_type follows ESPN: 1 = preseason, 2 = regular
+-- season, 3 = postseason.
+
+CREATE TABLE IF NOT EXISTS nfl_weeks (
+  id BIGSERIAL PRIMARY KEY,
+  season_year INTEGER NOT NULL,
+  season_type SMALLINT NOT NULL CHECK (season_type IN (1, 2, 3)),
+  week INTEGER NOT NULL,
+  label TEXT NOT NULL,
+  start_date TIMESTAMPTZ NOT NULL,
+  end_date TIMESTAMPTZ NOT NULL,
+  bye_teams TEXT[] NOT NULL DEFAULT '{}',
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (season_year, season_type, week)
+);
+
+CREATE INDEX IF NOT EXISTS idx_nfl_weeks_dates ON nfl_weeks (start_date, end_date);
+
+ALTER TABLE nfl_weeks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "NFL weeks are viewable by everyone" ON nfl_weeks;
+CREATE POLICY "NFL weeks are viewable by everyone" ON nfl_weeks
+  FOR SELECT USING (true);
+
+-- Games carry ESPN's week identity so lookups don't depend on kickoff dates
+ALTER TABLE games ADD COLUMN IF NOT EXISTS week INTEGER;
+ALTER TABLE games ADD COLUMN IF NOT EXISTS season_year INTEGER;
+ALTER TABLE games ADD COLUMN IF NOT EXISTS season_type SMALLINT;
+
+-- Picks record which part of the season their week number belongs to
+ALTER TABLE picks ADD COLUMN IF NOT EXISTS season_type SMALLINT NOT NULL DEFAULT 2;
+
+CREATE INDEX IF NOT EXISTS idx_picks_user_season_week
+  ON picks (user_id, season_id, season_type, week);
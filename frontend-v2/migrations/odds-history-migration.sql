@@ -0,0 +1,55 @@
+-- Odds history migration
+-- `odds` keeps one current row per game/sportsbook (now upserted in place) and
+-- every observed line change is appended to `odds_snapshots`, so opening lines
+-- and movement are never lost.
+
+-- Collapse any duplicate rows left over from delete-and-reinsert syncs
+DELETE FROM odds a
+  USING odds b
+  WHERE a.game_id = b.game_id
+    AND a.sportsbook = b.sportsbook
+    AND a.id < b.id;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_odds_game_sportsbook ON odds(game_id, sportsbook);
+
+CREATE TABLE IF NOT EXISTS odds_snapshots (
+  id BIGSERIAL PRIMARY KEY,
+  game_id BIGINT NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+  sportsbook TEXT NOT NULL,
+  last_update TIMESTAMPTZ,
+  moneyline_home INTEGER,
+  moneyline_away INTEGER,
+  spread_home NUMERIC,
+  spread_away NUMERIC,
+  spread_home_price INTEGER,
+  spread_away_price INTEGER,
+  total_over NUMERIC,
+  total_under NUMERIC,
+  total_over_price INTEGER,
+  total_under_price INTEGER,
+  captured_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_odds_snapshots_game_book_time
+  ON odds_snapshots(game_id, sportsbook, captured_at);
+
+-- Seed history with the lines we currently have
+INSERT INTO odds_snapshots (
+  game_id, sportsbook, last_update,
+  moneyline_home, moneyline_away,
+  spread_home, spread_away, spread_home_price, spread_away_price,
+  total_over, total_under, total_over_price, total_under_price,
+  captured_at
+)
+SELECT
+  game_id, sportsbook, last_update,
+  moneyline_home, moneyline_away,
+  spread_home, spread_away, spread_home_price, spread_away_price,
+  total_over, total_under, total_over_price, total_under_price,
+  COALESCE(last_update, NOW())
+FROM odds;
+
+ALTER TABLE odds_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Odds snapshots are viewable by everyone" ON odds_snapshots
+  FOR SELECT USING (true);
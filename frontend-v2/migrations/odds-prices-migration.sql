@@ -0,0 +1,23 @@
+-- Odds prices migration
+-- Captures the American-odds price for every market and locks the price a
+-- user took onto their pick so leagues can score by risk instead of flat points.
+
+ALTER TABLE odds
+  ADD COLUMN IF NOT EXISTS spread_home_price INTEGER,
+  ADD COLUMN IF NOT EXISTS spread_away_price INTEGER,
+  ADD COLUMN IF NOT EXISTS total_over_price INTEGER,
+  ADD COLUMN IF NOT EXISTS total_under_price INTEGER;
+
+-- Price at submission time (American odds, e.g. -110, +250)
+ALTER TABLE picks ADD COLUMN IF NOT EXISTS odds_price INTEGER;
+ALTER TABLE pick_legs ADD COLUMN IF NOT EXISTS odds_price INTEGER;
+
+-- Odds-weighted payouts are fractional (a -300 favorite pays 0.33 of a win)
+ALTER TABLE picks ALTER COLUMN points_awarded TYPE NUMERIC(10, 2);
+ALTER TABLE user_season_stats ALTER COLUMN total_points TYPE NUMERIC(10, 2);
+
+-- flat:          every win is worth points_per_win
+-- odds_weighted: a win pays points_per_win per unit of profit at the locked price
+ALTER TABLE league_scoring_rules
+  ADD COLUMN IF NOT EXISTS scoring_mode TEXT NOT NULL DEFAULT 'flat'
+  CHECK (scoring_mode IN ('flat', 'odds_weighted'));
@@ -0,0 +1,46 @@
+-- Parlay picks migration
+-- Adds multi-leg parlay support: a pick becomes a container that is either a
+-- single straight bet or a parlay holding N legs across different games.
+
+ALTER TABLE picks
+  ADD COLUMN IF NOT EXISTS pick_type TEXT NOT NULL DEFAULT 'straight'
+  CHECK (pick_type IN ('straight', 'parlay'));
+
+-- Parlay containers store bet_type = 'parlay'; the legs carry the real bet types
+ALTER TABLE picks DROP CONSTRAINT IF EXISTS picks_bet_type_check;
+ALTER TABLE picks
+  ADD CONSTRAINT picks_bet_type_check
+  CHECK (bet_type IN ('moneyline', 'spread', 'total', 'player_prop', 'parlay'));
+
+CREATE TABLE IF NOT EXISTS pick_legs (
+  id BIGSERIAL PRIMARY KEY,
+  pick_id BIGINT NOT NULL REFERENCES picks(id) ON DELETE CASCADE,
+  game_id BIGINT NOT NULL REFERENCES games(id),
+  bet_type TEXT NOT NULL CHECK (bet_type IN ('moneyline', 'spread', 'total', 'player_prop')),
+  selection TEXT NOT NULL,
+  -- player_props rows are replaced on every sync, so this is a soft reference
+  player_prop_id BIGINT,
+  leg_order INTEGER NOT NULL DEFAULT 0,
+  result TEXT CHECK (result IN ('win', 'loss', 'push', 'void')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (pick_id, game_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pick_legs_pick_id ON pick_legs(pick_id);
+CREATE INDEX IF NOT EXISTS idx_pick_legs_game_id_pending ON pick_legs(game_id) WHERE result IS NULL;
+
+-- How a pushed/void leg affects the parlay:
+--   reduce: drop the leg and grade the remaining legs (default)
+--   push:   any pushed leg pushes the whole parlay
+--   loss:   any pushed leg loses the whole parlay
+ALTER TABLE league_scoring_rules
+  ADD COLUMN IF NOT EXISTS parlay_push_rule TEXT NOT NULL DEFAULT 'reduce'
+  CHECK (parlay_push_rule IN ('reduce', 'push', 'loss'));
+
+ALTER TABLE pick_legs ENABLE ROW LEVEL SECURITY;
+
+-- Legs are readable by anyone who can read the parent pick
+CREATE POLICY "Users can view legs of visible picks" ON pick_legs
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM picks WHERE picks.id = pick_legs.pick_id)
+  );
@@ -0,0 +1,38 @@
+-- Period markets migration
+-- Picks can be made on first-half, second-half and quarter moneylines, spreads
+-- and totals (selection_data.period). ESPN's per-period linescores are stored
+-- on games so those picks can be graded, and each league chooses whether
+-- overtime counts toward full-game and second-half results.
+
+-- Points scored in each period: [Q1, Q2, Q3, Q4, OT...]
+ALTER TABLE games
+  ADD COLUMN IF NOT EXISTS home_linescores INTEGER[],
+  ADD COLUMN IF NOT EXISTS away_linescores INTEGER[];
+
+-- include_ot:      full-game and second-half markets are settled on the final score
+-- regulation_only: overtime is ignored, so a game tied after four quarters pushes
+ALTER TABLE league_scoring_rules
+  ADD COLUMN IF NOT EXISTS overtime_rule TEXT NOT NULL DEFAULT 'include_ot'
+  CHECK (overtime_rule IN ('include_ot', 'regulation_only'));
+
+-- Current period lines, one row per game, sportsbook and period. Same columns as odds.
+CREATE TABLE IF NOT EXISTS period_odds (
+  id BIGSERIAL PRIMARY KEY,
+  game_id BIGINT NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+  sportsbook TEXT NOT NULL,
+  period TEXT NOT NULL CHECK (period IN ('h1', 'h2', 'q1', 'q2', 'q3', 'q4')),
+  last_update TIMESTAMPTZ,
+  moneyline_home INTEGER,
+  moneyline_away INTEGER,
+  spread_home NUMERIC,
+  spread_away NUMERIC,
+  spread_home_price INTEGER,
+  spread_away_price INTEGER,
+  total_over NUMERIC,
+  total_under NUMERIC,
+  total_over_price INTEGER,
+  total_under_price INTEGER,
+  UNIQUE (game_id, sportsbook, period)
+);
+
+CREATE INDEX IF NOT EXISTS idx_period_odds_game ON period_odds(game_id);
@@ -0,0 +1,18 @@
+-- Pick lock mode migration
+-- Leagues can lock the whole week at once instead of game by game: at the
+-- week's first Sunday kickoff, or at a day and time the commissioner picks.
+-- A game that kicks off before its week locks still locks at kickoff.
+-- POST /api/picks and pick edits and withdrawals enforce the lock, and pick
+-- visibility treats a pick as locked once its week does.
+
+-- When picks lock:
+--   game_start:   each game locks at its own kickoff
+--   first_sunday: the whole week locks at its first Sunday kickoff
+--   custom:       the whole week locks at lock_day (0 = Sunday) and lock_time, Eastern
+ALTER TABLE league_pick_rules
+  ADD COLUMN IF NOT EXISTS lock_mode TEXT NOT NULL DEFAULT 'game_start'
+    CHECK (lock_mode IN ('game_start', 'first_sunday', 'custom')),
+  ADD COLUMN IF NOT EXISTS lock_day SMALLINT NOT NULL DEFAULT 0
+    CHECK (lock_day BETWEEN 0 AND 6),
+  ADD COLUMN IF NOT EXISTS lock_time TEXT NOT NULL DEFAULT '13:00'
+    CHECK (lock_time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$');
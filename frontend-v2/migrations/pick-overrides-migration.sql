@@ -0,0 +1,148 @@
+-- Pick overrides migration
+-- Lets a league admin void, re-grade, add or reassign a member's pick. Every
+-- change goes through apply_pick_override, which writes the pick and a
+-- pick_overrides row (with a mandatory reason and before/after snapshots) in
+-- one transaction. pick_overrides is append-only.
+--
+-- A pick an admin has graded (voided, re-graded, or added with a result) is
+-- marked overridden_at. Scoring, re-grading and prop grading skip those picks,
+-- and a trigger keeps their result and points if anything else writes them.
+
+-- Voided picks don't count toward records or points
+ALTER TABLE picks DROP CONSTRAINT IF EXISTS picks_result_check;
+ALTER TABLE picks
+  ADD CONSTRAINT picks_result_check
+  CHECK (result IS NULL OR result IN ('win', 'loss', 'push', 'void'));
+
+-- When an admin last decided the pick's result
+ALTER TABLE picks ADD COLUMN IF NOT EXISTS overridden_at TIMESTAMPTZ;
+
+-- Only a new override can change an overridden pick's result or points
+CREATE OR REPLACE FUNCTION protect_overridden_picks()
+RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+BEGIN
+  IF OLD.overridden_at IS NOT NULL AND NEW.overridden_at IS NOT DISTINCT FROM OLD.overridden_at THEN
+    NEW.result := OLD.result;
+    NEW.points_awarded := OLD.points_awarded;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS picks_protect_overrides ON picks;
+CREATE TRIGGER picks_protect_overrides
+  BEFORE UPDATE OF result, points_awarded ON picks
+  FOR EACH ROW EXECUTE FUNCTION protect_overridden_picks();
+
+-- No foreign keys so the log outlives deleted picks and leagues
+CREATE TABLE IF NOT EXISTS pick_overrides (
+  id BIGSERIAL PRIMARY KEY,
+  league_id BIGINT NOT NULL,
+  pick_id BIGINT NOT NULL,
+  admin_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('void', 'regrade', 'add', 'reassign')),
+  reason TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+  -- The pick row before and after the change; before is NULL for 'add'
+  before JSONB,
+  after JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pick_overrides_league ON pick_overrides(league_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_pick_overrides_pick ON pick_overrides(pick_id);
+
+CREATE OR REPLACE FUNCTION prevent_pick_override_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+BEGIN
+  RAISE EXCEPTION 'pick_overrides is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS pick_overrides_append_only ON pick_overrides;
+CREATE TRIGGER pick_overrides_append_only
+  BEFORE UPDATE OR DELETE ON pick_overrides
+  FOR EACH ROW EXECUTE FUNCTION prevent_pick_override_changes();
+
+-- Admins read the log through the API with the service role
+ALTER TABLE pick_overrides ENABLE ROW LEVEL SECURITY;
+
+-- Apply one admin override and log it. p_changes holds:
+--   void:     nothing
+--   regrade:  {result, points_awarded}
+--   reassign: {user_id}
+--   add:      the new straight pick's columns
+-- Returns {pick_id, before, after}.
+CREATE OR REPLACE FUNCTION apply_pick_override(
+  p_league_id BIGINT,
+  p_admin_id UUID,
+  p_action TEXT,
+  p_reason TEXT,
+  p_pick_id BIGINT,
+  p_changes JSONB
+) RETURNS JSONB
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_pick_id BIGINT := p_pick_id;
+  v_before JSONB;
+  v_after JSONB;
+BEGIN
+  IF p_reason IS NULL OR length(trim(p_reason)) = 0 THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  IF p_action = 'add' THEN
+    INSERT INTO picks (
+      user_id, game_id, season_id, week, season_type, pick_type,
+      bet_type, selection, selection_data,
+      result, points_awarded, locked_at, overridden_at
+    ) VALUES (
+      (p_changes->>'user_id')::UUID,
+      (p_changes->>'game_id')::BIGINT,
+      (p_changes->>'season_id')::BIGINT,
+      (p_changes->>'week')::INTEGER,
+      (p_changes->>'season_type')::INTEGER,
+      'straight',
+      p_changes->>'bet_type',
+      p_changes->>'selection',
+      p_changes->'selection_data',
+      p_changes->>'result',
+      COALESCE((p_changes->>'points_awarded')::NUMERIC, 0),
+      NOW(),
+      CASE WHEN p_changes->>'result' IS NOT NULL THEN NOW() END
+    )
+    RETURNING id INTO v_pick_id;
+  ELSE
+    SELECT to_jsonb(picks.*) INTO v_before
+    FROM picks
+    WHERE id = p_pick_id
+    FOR UPDATE;
+
+    IF v_before IS NULL THEN
+      RAISE EXCEPTION 'Pick % not found', p_pick_id;
+    END IF;
+
+    IF p_action = 'void' THEN
+      UPDATE picks SET result = 'void', points_awarded = 0, overridden_at = NOW() WHERE id = p_pick_id;
+    ELSIF p_action = 'regrade' THEN
+      UPDATE picks
+      SET result = p_changes->>'result',
+          points_awarded = COALESCE((p_changes->>'points_awarded')::NUMERIC, 0),
+          overridden_at = NOW()
+      WHERE id = p_pick_id;
+    ELSIF p_action = 'reassign' THEN
+      UPDATE picks SET user_id = (p_changes->>'user_id')::UUID WHERE id = p_pick_id;
+    ELSE
+      RAISE EXCEPTION 'Unknown override action %', p_action;
+    END IF;
+  END IF;
+
+  SELECT to_jsonb(picks.*) INTO v_after FROM picks WHERE id = v_pick_id;
+
+  INSERT INTO pick_overrides (league_id, pick_id, admin_id, action, reason, before, after)
+  VALUES (p_league_id, v_pick_id, p_admin_id, p_action, trim(p_reason), v_before, v_after);
+
+  RETURN jsonb_build_object('pick_id', v_pick_id, 'before', v_before, 'after', v_after);
+END;
+$$;
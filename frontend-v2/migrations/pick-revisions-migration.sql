@@ -0,0 +1,143 @@
+-- Pick revisions migration
+-- Lets a member change or withdraw their own pick until its game starts.
+-- Every change goes through revise_pick, which writes the pick and a
+-- pick_revisions row (with before/after snapshots, legs included) in one
+-- transaction. pick_revisions is append-only.
+
+-- No foreign keys so the history outlives withdrawn picks
+CREATE TABLE IF NOT EXISTS pick_revisions (
+  id BIGSERIAL PRIMARY KEY,
+  pick_id BIGINT NOT NULL,
+  user_id UUID NOT NULL,
+  season_id BIGINT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('edit', 'cancel')),
+  -- The pick row (with a pick_legs array) before and after; after is NULL for 'cancel'
+  before JSONB NOT NULL,
+  after JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pick_revisions_pick ON pick_revisions(pick_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_pick_revisions_user_season ON pick_revisions(user_id, season_id);
+
+CREATE OR REPLACE FUNCTION prevent_pick_revision_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+BEGIN
+  RAISE EXCEPTION 'pick_revisions is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS pick_revisions_append_only ON pick_revisions;
+CREATE TRIGGER pick_revisions_append_only
+  BEFORE UPDATE OR DELETE ON pick_revisions
+  FOR EACH ROW EXECUTE FUNCTION prevent_pick_revision_changes();
+
+-- Read through the API with the service role
+ALTER TABLE pick_revisions ENABLE ROW LEVEL SECURITY;
+
+-- A pick and its legs as one JSONB snapshot
+CREATE OR REPLACE FUNCTION pick_snapshot(p_pick_id BIGINT)
+RETURNS JSONB
+LANGUAGE sql STABLE AS $$
+  SELECT to_jsonb(picks.*) || jsonb_build_object(
+    'pick_legs',
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(pick_legs.*) ORDER BY leg_order) FROM pick_legs WHERE pick_id = p_pick_id),
+      '[]'::jsonb
+    )
+  )
+  FROM picks
+  WHERE id = p_pick_id;
+$$;
+
+-- Change or withdraw a member's own pick and log it. The pick must be
+-- ungraded, none of its games may have started and p_week_lock (the league's
+-- weekly lock, when it has one) must not have passed. p_changes holds the new
+-- ticket's columns for 'edit'; p_legs, when given, replaces a parlay's legs.
+-- Returns {pick_id, before, after}.
+DROP FUNCTION IF EXISTS revise_pick(BIGINT, UUID, TEXT, JSONB, JSONB);
+
+CREATE OR REPLACE FUNCTION revise_pick(
+  p_pick_id BIGINT,
+  p_user_id UUID,
+  p_action TEXT,
+  p_changes JSONB DEFAULT NULL,
+  p_legs JSONB DEFAULT NULL,
+  p_week_lock TIMESTAMPTZ DEFAULT NULL
+) RETURNS JSONB
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_pick picks%ROWTYPE;
+  v_before JSONB;
+  v_after JSONB;
+BEGIN
+  SELECT * INTO v_pick FROM picks WHERE id = p_pick_id FOR UPDATE;
+
+  IF NOT FOUND OR v_pick.user_id <> p_user_id THEN
+    RAISE EXCEPTION 'Pick % not found', p_pick_id;
+  END IF;
+
+  IF v_pick.result IS NOT NULL THEN
+    RAISE EXCEPTION 'Pick % has already been graded', p_pick_id;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM games
+    WHERE start_time <= NOW()
+      AND (id = v_pick.game_id OR id IN (SELECT game_id FROM pick_legs WHERE pick_id = p_pick_id))
+  ) THEN
+    RAISE EXCEPTION 'Pick % is locked', p_pick_id;
+  END IF;
+
+  IF p_week_lock IS NOT NULL AND NOW() >= p_week_lock THEN
+    RAISE EXCEPTION 'Pick % is locked for the week', p_pick_id;
+  END IF;
+
+  v_before := pick_snapshot(p_pick_id);
+
+  IF p_action = 'cancel' THEN
+    -- pick_legs cascade
+    DELETE FROM picks WHERE id = p_pick_id;
+  ELSIF p_action = 'edit' THEN
+    UPDATE picks
+    SET game_id = (p_changes->>'game_id')::BIGINT,
+        bet_type = p_changes->>'bet_type',
+        selection = p_changes->>'selection',
+        selection_data = p_changes->'selection_data',
+        player_prop_id = (p_changes->>'player_prop_id')::BIGINT,
+        odds_snapshot_id = (p_changes->>'odds_snapshot_id')::BIGINT,
+        locked_sportsbook = p_changes->>'locked_sportsbook',
+        locked_point = (p_changes->>'locked_point')::NUMERIC,
+        odds_price = (p_changes->>'odds_price')::INTEGER,
+        locked_at = COALESCE((p_changes->>'locked_at')::TIMESTAMPTZ, NOW()),
+        prop_athlete_id = p_changes->>'prop_athlete_id',
+        prop_market_key = p_changes->>'prop_market_key'
+    WHERE id = p_pick_id;
+
+    IF p_legs IS NOT NULL THEN
+      DELETE FROM pick_legs WHERE pick_id = p_pick_id;
+
+      INSERT INTO pick_legs (
+        pick_id, game_id, bet_type, selection, selection_data, player_prop_id, leg_order,
+        odds_snapshot_id, locked_sportsbook, locked_point, odds_price, locked_at,
+        prop_athlete_id, prop_market_key
+      )
+      SELECT
+        p_pick_id, leg.game_id, leg.bet_type, leg.selection, leg.selection_data, leg.player_prop_id, leg.leg_order,
+        leg.odds_snapshot_id, leg.locked_sportsbook, leg.locked_point, leg.odds_price, COALESCE(leg.locked_at, NOW()),
+        leg.prop_athlete_id, leg.prop_market_key
+      FROM jsonb_populate_recordset(NULL::pick_legs, p_legs) AS leg;
+    END IF;
+
+    v_after := pick_snapshot(p_pick_id);
+  ELSE
+    RAISE EXCEPTION 'Unknown revision action %', p_action;
+  END IF;
+
+  INSERT INTO pick_revisions (pick_id, user_id, season_id, action, before, after)
+  VALUES (p_pick_id, p_user_id, v_pick.season_id, p_action, v_before, v_after);
+
+  RETURN jsonb_build_object('pick_id', p_pick_id, 'before', v_before, 'after', v_after);
+END;
+$$;
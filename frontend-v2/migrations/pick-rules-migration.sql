@@ -0,0 +1,35 @@
+-- Pick rules migration
+-- League-level pick rules, stored next to league_scoring_rules: weekly pick
+-- quotas, picks per game, allowed bet types and prop markets, and a cap on how
+-- big a favorite members may take. Enforced by POST /api/picks for weekly leagues.
+
+CREATE TABLE IF NOT EXISTS league_pick_rules (
+  id BIGSERIAL PRIMARY KEY,
+  league_id BIGINT NOT NULL UNIQUE REFERENCES leagues(id) ON DELETE CASCADE,
+  min_picks_per_week INTEGER NOT NULL DEFAULT 1 CHECK (min_picks_per_week >= 0),
+  -- With a max of 1 a new pick replaces the week's previous pick
+  max_picks_per_week INTEGER NOT NULL DEFAULT 1 CHECK (max_picks_per_week BETWEEN 1 AND 20),
+  max_picks_per_game INTEGER NOT NULL DEFAULT 1 CHECK (max_picks_per_game >= 1),
+  allowed_bet_types TEXT[] NOT NULL DEFAULT ARRAY['moneyline', 'spread', 'total', 'player_prop', 'parlay']
+    CHECK (allowed_bet_types <@ ARRAY['moneyline', 'spread', 'total', 'player_prop', 'parlay'] AND cardinality(allowed_bet_types) > 0),
+  -- Empty means every prop market is allowed
+  allowed_prop_markets TEXT[] NOT NULL DEFAULT '{}',
+  -- Favorites laying more than this many points can't be picked; NULL means no limit
+  max_favorite_spread NUMERIC(4, 1) CHECK (max_favorite_spread >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (min_picks_per_week <= max_picks_per_week),
+  CHECK (max_picks_per_game <= max_picks_per_week)
+);
+
+ALTER TABLE league_pick_rules ENABLE ROW LEVEL SECURITY;
+
+-- Members can read their league's rules; writes go through the API as admin
+CREATE POLICY "Members can view league pick rules" ON league_pick_rules
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM league_memberships
+      WHERE league_memberships.league_id = league_pick_rules.league_id
+        AND league_memberships.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,13 @@
+-- Pick visibility migration
+-- Members' picks are hidden from the rest of the league until they lock, so
+-- nobody can copy a pick before kickoff. Until the league's visibility policy
+-- reveals another member's pick, /api/league-picks returns a "pick submitted"
+-- placeholder for it and /api/picks leaves it out.
+
+-- When members can see each other's picks:
+--   game_start: once the pick's game kicks off (a parlay's last leg)
+--   week_start: once the week's first game kicks off
+--   always:     as soon as the pick is made
+ALTER TABLE league_pick_rules
+  ADD COLUMN IF NOT EXISTS pick_visibility TEXT NOT NULL DEFAULT 'game_start'
+    CHECK (pick_visibility IN ('game_start', 'week_start', 'always'));
@@ -0,0 +1,39 @@
+-- Player prop grading migration
+-- Persists per-athlete box score stats from ESPN and snapshots which athlete and
+-- market a prop pick was on, so it can be graded after player_props is re-synced.
+-- Grades are written through apply_late_game_scoring
+-- (scoring-transaction-migration.sql), with an audit row per pick and leg.
+
+CREATE TABLE IF NOT EXISTS player_game_stats (
+  id BIGSERIAL PRIMARY KEY,
+  game_id BIGINT NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+  espn_game_id TEXT,
+  athlete_id TEXT NOT NULL,
+  athlete_name TEXT,
+  team_abbreviation TEXT,
+  -- One of the values in MARKET_STAT_MAPPING (passing_yards, receptions, ...)
+  stat_key TEXT NOT NULL,
+  value NUMERIC(10,2) NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (game_id, athlete_id, stat_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_player_game_stats_game ON player_game_stats(game_id);
+
+ALTER TABLE player_game_stats ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view player game stats" ON player_game_stats
+  FOR SELECT USING (true);
+
+-- player_props rows are replaced on every sync, so keep what the pick was on
+ALTER TABLE picks
+  ADD COLUMN IF NOT EXISTS player_prop_id BIGINT,
+  ADD COLUMN IF NOT EXISTS prop_athlete_id TEXT,
+  ADD COLUMN IF NOT EXISTS prop_market_key TEXT;
+
+ALTER TABLE pick_legs
+  ADD COLUMN IF NOT EXISTS prop_athlete_id TEXT,
+  ADD COLUMN IF NOT EXISTS prop_market_key TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_picks_open_props
+  ON picks(game_id) WHERE bet_type = 'player_prop' AND result IS NULL;
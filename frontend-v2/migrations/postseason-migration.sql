@@ -0,0 +1,8 @@
+-- Postseason migration
+-- Playoff rounds are ingested as ESPN season type 3 and picked like any other
+-- week. Leagues can weight each round with its own points multiplier, keyed by
+-- postseason week: "1" = Wild Card, "2" = Divisional, "3" = Conference
+-- Championship, "5" = Super Bowl (week 4 is the Pro Bowl).
+
+ALTER TABLE league_scoring_rules
+  ADD COLUMN IF NOT EXISTS playoff_multipliers JSONB NOT NULL DEFAULT '{}';
@@ -0,0 +1,60 @@
+-- Realtime migration
+-- The season page subscribes to Supabase Realtime for the season being viewed
+-- (useSeasonRealtime) and refreshes scoreboards, pick results and standings
+-- when they change. Polling is only used while the channel is down.
+--
+-- games and user_season_stats rows are published as postgres changes, which
+-- respect RLS. picks rows are not: RLS can't apply the league's pick_visibility
+-- rule, so publishing them would leak picks before they're revealed. Instead
+-- every pick change broadcasts a payload-free picks_changed signal on the
+-- season's channel, and clients refetch picks through the API, which does.
+
+-- Add the tables to Supabase's realtime publication, skipping any already in it
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['games', 'user_season_stats']
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = v_table
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', v_table);
+    END IF;
+  END LOOP;
+
+  -- Earlier versions of this migration published picks
+  IF EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = 'picks'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime DROP TABLE public.picks;
+  END IF;
+END;
+$$;
+
+-- Tell the season's channel that its picks changed, without saying which or how
+CREATE OR REPLACE FUNCTION broadcast_season_picks_changed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public AS $$
+DECLARE
+  v_season_id BIGINT := COALESCE(NEW.season_id, OLD.season_id);
+BEGIN
+  IF v_season_id IS NOT NULL THEN
+    PERFORM realtime.send('{}'::JSONB, 'picks_changed', 'season-' || v_season_id, false);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS picks_broadcast_changes ON picks;
+CREATE TRIGGER picks_broadcast_changes
+  AFTER INSERT OR UPDATE OR DELETE ON picks
+  FOR EACH ROW EXECUTE FUNCTION broadcast_season_picks_changed();
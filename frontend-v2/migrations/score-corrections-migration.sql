@@ -0,0 +1,168 @@
+-- Score corrections migration
+-- Re-grades games that were already scored when ESPN corrects a final score
+-- (or an admin asks for a re-grade). apply_score_correction writes the new
+-- score, the changed picks and legs, their pick_scoring_audit rows and a
+-- score_corrections row in one transaction. League members can see the
+-- corrections for their league's games.
+
+CREATE TABLE IF NOT EXISTS score_corrections (
+  id BIGSERIAL PRIMARY KEY,
+  game_id BIGINT NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+  espn_game_id TEXT,
+  reason TEXT NOT NULL CHECK (reason IN ('espn_correction', 'manual_regrade')),
+  old_home_score INTEGER,
+  old_away_score INTEGER,
+  new_home_score INTEGER NOT NULL,
+  new_away_score INTEGER NOT NULL,
+  picks_changed INTEGER NOT NULL DEFAULT 0,
+  points_delta NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  -- NULL until season stats have been recalculated for the affected users
+  stats_updated_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_score_corrections_game ON score_corrections(game_id);
+
+ALTER TABLE score_corrections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view score corrections for their league" ON score_corrections
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1
+      FROM games
+      JOIN seasons ON seasons.id = games.season_id
+      JOIN league_memberships ON league_memberships.league_id = seasons.league_id
+      WHERE games.id = score_corrections.game_id
+        AND league_memberships.user_id = auth.uid()
+    )
+  );
+
+ALTER TABLE pick_scoring_audit
+  ADD COLUMN IF NOT EXISTS score_correction_id BIGINT REFERENCES score_corrections(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_pick_scoring_audit_correction ON pick_scoring_audit(score_correction_id);
+
+-- Apply a re-grade in one transaction. Takes the same JSONB shapes as
+-- apply_game_scoring (each change carries its league's rule_version), with
+-- old_result on legs too. Nothing is written unless the game's stored score is
+-- still p_old_home_score / p_old_away_score, and a pick or leg is only changed
+-- if its result is still old_result.
+DROP FUNCTION IF EXISTS apply_score_correction(BIGINT, TEXT, INTEGER, INTEGER, INTEGER, INTEGER, TEXT, INTEGER, JSONB, JSONB);
+
+CREATE OR REPLACE FUNCTION apply_score_correction(
+  p_game_id BIGINT,
+  p_espn_game_id TEXT,
+  p_old_home_score INTEGER,
+  p_old_away_score INTEGER,
+  p_home_score INTEGER,
+  p_away_score INTEGER,
+  p_reason TEXT,
+  p_pick_results JSONB,
+  p_leg_results JSONB
+) RETURNS JSONB
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_game RECORD;
+  v_correction_id BIGINT;
+  v_change RECORD;
+  v_pick RECORD;
+  v_picks_changed INTEGER := 0;
+  v_points_delta NUMERIC := 0;
+BEGIN
+  SELECT home_score, away_score INTO v_game
+  FROM games
+  WHERE id = p_game_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Game % not found', p_game_id;
+  END IF;
+
+  IF v_game.home_score IS DISTINCT FROM p_old_home_score
+     OR v_game.away_score IS DISTINCT FROM p_old_away_score THEN
+    RETURN jsonb_build_object(
+      'already_applied', true,
+      'score_correction_id', NULL,
+      'picks_changed', 0,
+      'points_delta', 0
+    );
+  END IF;
+
+  UPDATE games
+  SET home_score = p_home_score, away_score = p_away_score
+  WHERE id = p_game_id;
+
+  INSERT INTO score_corrections (
+    game_id, espn_game_id, reason,
+    old_home_score, old_away_score, new_home_score, new_away_score
+  ) VALUES (
+    p_game_id, p_espn_game_id, p_reason,
+    p_old_home_score, p_old_away_score, p_home_score, p_away_score
+  )
+  RETURNING id INTO v_correction_id;
+
+  FOR v_change IN
+    SELECT * FROM jsonb_to_recordset(COALESCE(p_leg_results, '[]'::JSONB))
+      AS x(leg_id BIGINT, pick_id BIGINT, old_result TEXT, new_result TEXT, explanation TEXT, rule_version INTEGER)
+  LOOP
+    UPDATE pick_legs SET result = v_change.new_result
+    WHERE id = v_change.leg_id AND result IS NOT DISTINCT FROM v_change.old_result;
+
+    IF FOUND THEN
+      INSERT INTO pick_scoring_audit (
+        pick_id, pick_leg_id, game_id, score_correction_id,
+        old_result, new_result, rule_version, explanation, source
+      ) VALUES (
+        v_change.pick_id, v_change.leg_id, p_game_id, v_correction_id,
+        v_change.old_result, v_change.new_result, v_change.rule_version, v_change.explanation, p_reason
+      );
+    END IF;
+  END LOOP;
+
+  FOR v_change IN
+    SELECT * FROM jsonb_to_recordset(COALESCE(p_pick_results, '[]'::JSONB))
+      AS x(pick_id BIGINT, old_result TEXT, new_result TEXT, points NUMERIC, explanation TEXT, rule_version INTEGER)
+  LOOP
+    SELECT result, points_awarded INTO v_pick
+    FROM picks
+    WHERE id = v_change.pick_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_pick.result IS DISTINCT FROM v_change.old_result THEN
+      CONTINUE;
+    END IF;
+
+    -- A parlay sent back to pending has no points until it settles again
+    UPDATE picks
+    SET result = v_change.new_result,
+        points_awarded = CASE WHEN v_change.new_result IS NULL THEN 0 ELSE v_change.points END
+    WHERE id = v_change.pick_id;
+
+    INSERT INTO pick_scoring_audit (
+      pick_id, game_id, score_correction_id, old_result, new_result,
+      old_points, new_points, rule_version, explanation, source
+    ) VALUES (
+      v_change.pick_id, p_game_id, v_correction_id, v_pick.result, v_change.new_result,
+      v_pick.points_awarded,
+      CASE WHEN v_change.new_result IS NULL THEN 0 ELSE v_change.points END,
+      v_change.rule_version, v_change.explanation, p_reason
+    );
+
+    v_picks_changed := v_picks_changed + 1;
+    v_points_delta := v_points_delta
+      + (CASE WHEN v_change.new_result IS NULL THEN 0 ELSE v_change.points END)
+      - COALESCE(v_pick.points_awarded, 0);
+  END LOOP;
+
+  UPDATE score_corrections
+  SET picks_changed = v_picks_changed, points_delta = v_points_delta
+  WHERE id = v_correction_id;
+
+  RETURN jsonb_build_object(
+    'already_applied', false,
+    'score_correction_id', v_correction_id,
+    'picks_changed', v_picks_changed,
+    'points_delta', v_points_delta
+  );
+END;
+$$;
@@ -0,0 +1,296 @@
+-- Scoring transaction migration
+-- Scores a completed game in one transaction through apply_game_scoring: the
+-- final score, every graded pick and parlay leg, and the game's scoring_events
+-- row are written together, so a crash can't leave a game half scored. Each
+-- change gets a pick_scoring_audit row with the old and new result, the scoring
+-- rules version and the grading explanation. Games are shared by every league,
+-- so each pick is graded with its own league's rules and records that version.
+
+-- Bumped on every edit so audit rows record which rules graded a pick
+ALTER TABLE league_scoring_rules
+  ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+CREATE OR REPLACE FUNCTION bump_league_scoring_rules_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+BEGIN
+  NEW.version := OLD.version + 1;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS league_scoring_rules_version ON league_scoring_rules;
+CREATE TRIGGER league_scoring_rules_version
+  BEFORE UPDATE ON league_scoring_rules
+  FOR EACH ROW EXECUTE FUNCTION bump_league_scoring_rules_version();
+
+-- Stats are recalculated after the transaction commits; NULL means that
+-- hasn't finished yet and the next scoring run should redo it
+ALTER TABLE scoring_events
+  ADD COLUMN IF NOT EXISTS stats_updated_at TIMESTAMPTZ;
+
+UPDATE scoring_events
+SET stats_updated_at = processed_at
+WHERE stats_updated_at IS NULL;
+
+-- Failed attempts are kept for the dashboard, but a game is only scored once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_scoring_events_game_scored
+  ON scoring_events(game_id) WHERE error_message IS NULL AND game_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS pick_scoring_audit (
+  id BIGSERIAL PRIMARY KEY,
+  pick_id BIGINT NOT NULL REFERENCES picks(id) ON DELETE CASCADE,
+  -- Set when the change was to a parlay leg rather than the pick itself
+  pick_leg_id BIGINT REFERENCES pick_legs(id) ON DELETE CASCADE,
+  game_id BIGINT REFERENCES games(id) ON DELETE SET NULL,
+  scoring_event_id BIGINT REFERENCES scoring_events(id) ON DELETE SET NULL,
+  old_result TEXT,
+  new_result TEXT,
+  old_points NUMERIC(10, 2),
+  new_points NUMERIC(10, 2),
+  -- league_scoring_rules.version; NULL when the league uses the default rules
+  rule_version INTEGER,
+  explanation TEXT,
+  source TEXT NOT NULL DEFAULT 'auto',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pick_scoring_audit_pick ON pick_scoring_audit(pick_id);
+CREATE INDEX IF NOT EXISTS idx_pick_scoring_audit_event ON pick_scoring_audit(scoring_event_id);
+
+-- Only the service role reads and writes the audit trail
+ALTER TABLE pick_scoring_audit ENABLE ROW LEVEL SECURITY;
+
+-- Apply a game's scoring in one transaction. p_pick_results holds
+-- {pick_id, old_result, new_result, points, explanation, rule_version} for
+-- straight picks and settled parlays; p_leg_results holds {leg_id, pick_id,
+-- new_result, explanation, rule_version}. rule_version is the version of the
+-- rules of the league the pick belongs to. A pick is only written if its
+-- result is still old_result and a leg only if it is still ungraded, so
+-- re-runs and concurrent runs can't double score.
+DROP FUNCTION IF EXISTS apply_game_scoring(BIGINT, TEXT, TEXT, INTEGER, INTEGER, INTEGER, JSONB, JSONB);
+
+CREATE OR REPLACE FUNCTION apply_game_scoring(
+  p_game_id BIGINT,
+  p_espn_game_id TEXT,
+  p_status_before TEXT,
+  p_home_score INTEGER,
+  p_away_score INTEGER,
+  p_pick_results JSONB,
+  p_leg_results JSONB
+) RETURNS JSONB
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_event_id BIGINT;
+  v_change RECORD;
+  v_pick RECORD;
+  v_picks_processed INTEGER := 0;
+  v_points NUMERIC := 0;
+  v_user_ids TEXT[] := ARRAY[]::TEXT[];
+BEGIN
+  -- Serialises scoring runs for the same game
+  PERFORM 1 FROM games WHERE id = p_game_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Game % not found', p_game_id;
+  END IF;
+
+  SELECT id INTO v_event_id
+  FROM scoring_events
+  WHERE game_id = p_game_id AND error_message IS NULL
+  LIMIT 1;
+
+  IF v_event_id IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'already_scored', true,
+      'scoring_event_id', v_event_id,
+      'picks_processed', 0,
+      'points_awarded', 0,
+      'user_ids', '[]'::JSONB
+    );
+  END IF;
+
+  UPDATE games
+  SET status = 'completed', home_score = p_home_score, away_score = p_away_score
+  WHERE id = p_game_id;
+
+  INSERT INTO scoring_events (
+    game_id, espn_game_id, status_before, status_after,
+    home_score, away_score, picks_processed, points_awarded
+  ) VALUES (
+    p_game_id, p_espn_game_id, p_status_before, 'completed',
+    p_home_score, p_away_score, 0, 0
+  )
+  RETURNING id INTO v_event_id;
+
+  FOR v_change IN
+    SELECT * FROM jsonb_to_recordset(COALESCE(p_leg_results, '[]'::JSONB))
+      AS x(leg_id BIGINT, pick_id BIGINT, new_result TEXT, explanation TEXT, rule_version INTEGER)
+  LOOP
+    UPDATE pick_legs SET result = v_change.new_result
+    WHERE id = v_change.leg_id AND result IS NULL;
+
+    IF FOUND THEN
+      INSERT INTO pick_scoring_audit (
+        pick_id, pick_leg_id, game_id, scoring_event_id,
+        old_result, new_result, rule_version, explanation
+      ) VALUES (
+        v_change.pick_id, v_change.leg_id, p_game_id, v_event_id,
+        NULL, v_change.new_result, v_change.rule_version, v_change.explanation
+      );
+    END IF;
+  END LOOP;
+
+  FOR v_change IN
+    SELECT * FROM jsonb_to_recordset(COALESCE(p_pick_results, '[]'::JSONB))
+      AS x(pick_id BIGINT, old_result TEXT, new_result TEXT, points NUMERIC, explanation TEXT, rule_version INTEGER)
+  LOOP
+    SELECT user_id, result, points_awarded INTO v_pick
+    FROM picks
+    WHERE id = v_change.pick_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_pick.result IS DISTINCT FROM v_change.old_result THEN
+      CONTINUE;
+    END IF;
+
+    UPDATE picks
+    SET result = v_change.new_result, points_awarded = v_change.points
+    WHERE id = v_change.pick_id;
+
+    INSERT INTO pick_scoring_audit (
+      pick_id, game_id, scoring_event_id, old_result, new_result,
+      old_points, new_points, rule_version, explanation
+    ) VALUES (
+      v_change.pick_id, p_game_id, v_event_id, v_pick.result, v_change.new_result,
+      v_pick.points_awarded, v_change.points, v_change.rule_version, v_change.explanation
+    );
+
+    v_picks_processed := v_picks_processed + 1;
+    v_points := v_points + v_change.points;
+    IF NOT v_pick.user_id::TEXT = ANY(v_user_ids) THEN
+      v_user_ids := array_append(v_user_ids, v_pick.user_id::TEXT);
+    END IF;
+  END LOOP;
+
+  UPDATE scoring_events
+  SET picks_processed = v_picks_processed, points_awarded = v_points
+  WHERE id = v_event_id;
+
+  RETURN jsonb_build_object(
+    'already_scored', false,
+    'scoring_event_id', v_event_id,
+    'picks_processed', v_picks_processed,
+    'points_awarded', v_points,
+    'user_ids', to_jsonb(v_user_ids)
+  );
+END;
+$$;
+
+-- Grade picks on a game after it was scored: player props once the box score
+-- is in (source 'player_prop') and auto-picks added to an earlier game of the
+-- week ('late_pick'). Takes the same JSONB shapes as apply_game_scoring and
+-- writes the picks, legs and pick_scoring_audit rows in one transaction,
+-- attached to the game's existing scoring event. A game that hasn't been
+-- scored yet is left alone and comes back with scored false.
+DROP FUNCTION IF EXISTS apply_late_pick_scoring(BIGINT, JSONB, JSONB);
+
+CREATE OR REPLACE FUNCTION apply_late_game_scoring(
+  p_game_id BIGINT,
+  p_source TEXT,
+  p_pick_results JSONB,
+  p_leg_results JSONB
+) RETURNS JSONB
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_event_id BIGINT;
+  v_change RECORD;
+  v_pick RECORD;
+  v_picks_processed INTEGER := 0;
+  v_points NUMERIC := 0;
+  v_user_ids TEXT[] := ARRAY[]::TEXT[];
+BEGIN
+  -- Serialises with scoring runs for the same game
+  PERFORM 1 FROM games WHERE id = p_game_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Game % not found', p_game_id;
+  END IF;
+
+  SELECT id INTO v_event_id
+  FROM scoring_events
+  WHERE game_id = p_game_id AND error_message IS NULL
+  LIMIT 1;
+
+  IF v_event_id IS NULL THEN
+    RETURN jsonb_build_object(
+      'scored', false,
+      'scoring_event_id', NULL,
+      'picks_processed', 0,
+      'points_awarded', 0,
+      'user_ids', '[]'::JSONB
+    );
+  END IF;
+
+  FOR v_change IN
+    SELECT * FROM jsonb_to_recordset(COALESCE(p_leg_results, '[]'::JSONB))
+      AS x(leg_id BIGINT, pick_id BIGINT, new_result TEXT, explanation TEXT, rule_version INTEGER)
+  LOOP
+    UPDATE pick_legs SET result = v_change.new_result
+    WHERE id = v_change.leg_id AND result IS NULL;
+
+    IF FOUND THEN
+      INSERT INTO pick_scoring_audit (
+        pick_id, pick_leg_id, game_id, scoring_event_id,
+        old_result, new_result, rule_version, explanation, source
+      ) VALUES (
+        v_change.pick_id, v_change.leg_id, p_game_id, v_event_id,
+        NULL, v_change.new_result, v_change.rule_version, v_change.explanation, p_source
+      );
+    END IF;
+  END LOOP;
+
+  FOR v_change IN
+    SELECT * FROM jsonb_to_recordset(COALESCE(p_pick_results, '[]'::JSONB))
+      AS x(pick_id BIGINT, old_result TEXT, new_result TEXT, points NUMERIC, explanation TEXT, rule_version INTEGER)
+  LOOP
+    SELECT user_id, result, points_awarded INTO v_pick
+    FROM picks
+    WHERE id = v_change.pick_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_pick.result IS DISTINCT FROM v_change.old_result THEN
+      CONTINUE;
+    END IF;
+
+    UPDATE picks
+    SET result = v_change.new_result, points_awarded = v_change.points
+    WHERE id = v_change.pick_id;
+
+    INSERT INTO pick_scoring_audit (
+      pick_id, game_id, scoring_event_id, old_result, new_result,
+      old_points, new_points, rule_version, explanation, source
+    ) VALUES (
+      v_change.pick_id, p_game_id, v_event_id, v_pick.result, v_change.new_result,
+      v_pick.points_awarded, v_change.points, v_change.rule_version, v_change.explanation, p_source
+    );
+
+    v_picks_processed := v_picks_processed + 1;
+    v_points := v_points + v_change.points;
+    IF NOT v_pick.user_id::TEXT = ANY(v_user_ids) THEN
+      v_user_ids := array_append(v_user_ids, v_pick.user_id::TEXT);
+    END IF;
+  END LOOP;
+
+  UPDATE scoring_events
+  SET picks_processed = picks_processed + v_picks_processed,
+      points_awarded = points_awarded + v_points
+  WHERE id = v_event_id;
+
+  RETURN jsonb_build_object(
+    'scored', true,
+    'scoring_event_id', v_event_id,
+    'picks_processed', v_picks_processed,
+    'points_awarded', v_points,
+    'user_ids', to_jsonb(v_user_ids)
+  );
+END;
+$$;
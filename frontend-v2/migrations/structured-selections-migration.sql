@@ -0,0 +1,113 @@
+-- Structured selections migration
+-- Picks and parlay legs store their selection as JSONB (market, side, line and,
+-- for props, player_prop_id / athlete_id / prop_market). The text `selection`
+-- column stays as the display label.
+
+ALTER TABLE picks ADD COLUMN IF NOT EXISTS selection_data JSONB;
+ALTER TABLE pick_legs ADD COLUMN IF NOT EXISTS selection_data JSONB;
+
+-- Parse a legacy free-text selection ("home -7.5", "Kansas City Chiefs +3",
+-- "Over 47.5", "Patrick Mahomes player_pass_yds over 250.5"). Returns NULL when
+-- the side can't be worked out; those picks keep grading from the text.
+CREATE OR REPLACE FUNCTION parse_legacy_selection(
+  p_bet_type TEXT,
+  p_selection TEXT,
+  p_home_name TEXT,
+  p_home_abbr TEXT,
+  p_away_name TEXT,
+  p_away_abbr TEXT
+) RETURNS JSONB
+LANGUAGE plpgsql IMMUTABLE AS $$
+DECLARE
+  v_text TEXT := lower(trim(p_selection));
+  v_side TEXT;
+  v_line NUMERIC;
+BEGIN
+  v_line := (regexp_match(v_text, '([+-]?\d+(?:\.\d+)?)\s*$'))[1]::NUMERIC;
+
+  IF p_bet_type IN ('total', 'player_prop') THEN
+    IF v_text ~ '(^|\s)(over|o)(\s|\d|$)' THEN
+      v_side := 'over';
+    ELSIF v_text ~ '(^|\s)(under|u)(\s|\d|$)' THEN
+      v_side := 'under';
+    END IF;
+  ELSIF p_bet_type IN ('moneyline', 'spread') THEN
+    IF v_text ~ '^(home|h)\M'
+       OR position(lower(p_home_name) IN v_text) > 0
+       OR v_text ~ ('(^|\s)' || lower(p_home_abbr) || '(\s|$)') THEN
+      v_side := 'home';
+    ELSIF v_text ~ '^(away|a)\M'
+       OR position(lower(p_away_name) IN v_text) > 0
+       OR v_text ~ ('(^|\s)' || lower(p_away_abbr) || '(\s|$)') THEN
+      v_side := 'away';
+    END IF;
+  END IF;
+
+  IF v_side IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'market', p_bet_type,
+    'side', v_side,
+    'line', CASE WHEN p_bet_type = 'moneyline' THEN NULL ELSE v_line END
+  );
+END;
+$$;
+
+-- Backfill straight picks
+UPDATE picks p
+SET selection_data = parse_legacy_selection(
+  p.bet_type, p.selection, home_t.name, home_t.abbreviation, away_t.name, away_t.abbreviation
+)
+FROM games g
+JOIN teams home_t ON home_t.id = g.home_team_id
+JOIN teams away_t ON away_t.id = g.away_team_id
+WHERE g.id = p.game_id
+  AND p.selection_data IS NULL
+  AND p.pick_type = 'straight';
+
+-- Backfill parlay legs
+UPDATE pick_legs l
+SET selection_data = parse_legacy_selection(
+  l.bet_type, l.selection, home_t.name, home_t.abbreviation, away_t.name, away_t.abbreviation
+)
+FROM games g
+JOIN teams home_t ON home_t.id = g.home_team_id
+JOIN teams away_t ON away_t.id = g.away_team_id
+WHERE g.id = l.game_id
+  AND l.selection_data IS NULL;
+
+-- Locked lines are more reliable than the number in the text
+UPDATE picks
+SET selection_data = jsonb_set(selection_data, '{line}', to_jsonb(locked_point))
+WHERE selection_data IS NOT NULL AND locked_point IS NOT NULL AND bet_type <> 'moneyline';
+
+UPDATE pick_legs
+SET selection_data = jsonb_set(selection_data, '{line}', to_jsonb(locked_point))
+WHERE selection_data IS NOT NULL AND locked_point IS NOT NULL AND bet_type <> 'moneyline';
+
+-- Attach prop identity, from the locked columns or the prop row if it still exists
+UPDATE picks p
+SET selection_data = p.selection_data || jsonb_build_object(
+  'player_prop_id', p.player_prop_id,
+  'athlete_id', COALESCE(p.prop_athlete_id, pp.athlete_id),
+  'prop_market', COALESCE(p.prop_market_key, pp.market_key)
+)
+FROM picks src
+LEFT JOIN player_props pp ON pp.id = src.player_prop_id
+WHERE src.id = p.id
+  AND p.bet_type = 'player_prop'
+  AND p.selection_data IS NOT NULL;
+
+UPDATE pick_legs l
+SET selection_data = l.selection_data || jsonb_build_object(
+  'player_prop_id', l.player_prop_id,
+  'athlete_id', COALESCE(l.prop_athlete_id, pp.athlete_id),
+  'prop_market', COALESCE(l.prop_market_key, pp.market_key)
+)
+FROM pick_legs src
+LEFT JOIN player_props pp ON pp.id = src.player_prop_id
+WHERE src.id = l.id
+  AND l.bet_type = 'player_prop'
+  AND l.selection_data IS NOT NULL;
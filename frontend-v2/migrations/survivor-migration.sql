@@ -0,0 +1,18 @@
+-- Survivor league migration
+-- Leagues get a format. 'weekly' is the original pick-and-score format;
+-- 'survivor' leagues pick one team per week to win straight up, can't reuse a
+-- team, and are eliminated after survivor_strikes losses. Survivor picks are
+-- ordinary moneyline picks, so standings are derived from graded picks.
+
+ALTER TABLE leagues
+  ADD COLUMN IF NOT EXISTS format TEXT NOT NULL DEFAULT 'weekly'
+    CHECK (format IN ('weekly', 'survivor'));
+
+ALTER TABLE leagues
+  ADD COLUMN IF NOT EXISTS survivor_strikes SMALLINT NOT NULL DEFAULT 1
+    CHECK (survivor_strikes BETWEEN 1 AND 5);
+
+-- How a tie counts against a survivor pick: 'loss' costs a strike, 'win' doesn't
+ALTER TABLE leagues
+  ADD COLUMN IF NOT EXISTS survivor_tie_rule TEXT NOT NULL DEFAULT 'loss'
+    CHECK (survivor_tie_rule IN ('loss', 'win'));
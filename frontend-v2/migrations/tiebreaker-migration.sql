@@ -0,0 +1,39 @@
+-- Tiebreaker migration
+-- Members guess the combined score of the week's last game (usually Monday
+-- night) with their picks. Members level on points are separated by the
+-- league's tiebreaker chain, in order, in weekly standings (which decides the
+-- weekly_winner_bonus) and on the season leaderboard.
+
+-- One guess per member per week. game_id is the week's last game when the
+-- guess was made, so a late schedule change doesn't move an existing guess.
+CREATE TABLE IF NOT EXISTS tiebreaker_guesses (
+  id BIGSERIAL PRIMARY KEY,
+  season_id BIGINT NOT NULL REFERENCES seasons(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  week INTEGER NOT NULL,
+  season_type INTEGER NOT NULL DEFAULT 2,
+  game_id BIGINT NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+  total_points INTEGER NOT NULL CHECK (total_points BETWEEN 0 AND 200),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (season_id, user_id, season_type, week)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tiebreaker_guesses_season_week
+  ON tiebreaker_guesses(season_id, season_type, week);
+
+ALTER TABLE tiebreaker_guesses ENABLE ROW LEVEL SECURITY;
+
+-- Members see their own guesses; everyone else's are served by the API once
+-- the tiebreaker game locks. Writes go through the API as admin.
+CREATE POLICY "Users can view their own tiebreaker guesses" ON tiebreaker_guesses
+  FOR SELECT USING (user_id = auth.uid());
+
+-- Tiebreakers applied, in order, to members level on points:
+--   closest_guess:       nearest guess to the tiebreaker game's combined score
+--   fewer_losses:        fewer losing picks
+--   earliest_submission: picks in first
+ALTER TABLE league_scoring_rules
+  ADD COLUMN IF NOT EXISTS tiebreakers TEXT[] NOT NULL
+    DEFAULT ARRAY['closest_guess', 'fewer_losses', 'earliest_submission']
+    CHECK (tiebreakers <@ ARRAY['closest_guess', 'fewer_losses', 'earliest_submission']);
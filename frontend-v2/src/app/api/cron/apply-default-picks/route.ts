@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentNFLWeek, getPreviousNFLWeek } from '@/lib/nfl-week';
+import { applyDefaultPicks } from '@/lib/default-picks';
+
+/**
+ * Default Pick Assignment API
+ * POST /api/cron/apply-default-picks
+ *
+ * Gives members who missed a week their league's default pick once the
+ * week's last game has kicked off. Checks the current and previous calendar
+ * weeks so a week that ends between runs is still picked up.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // CRON secret validation
+    const cronSecret = process.env.CRON_SECRET;
+    const providedSecret = request.headers.get('authorization')?.replace('Bearer ', '') ||
+                          request.headers.get('x-cron-secret');
+
+    if (!cronSecret) {
+      console.error('CRON_SECRET environment variable not configured');
+      return NextResponse.json({
+        error: 'Server configuration error'
+      }, { status: 500 });
+    }
+
+    if (!providedSecret || providedSecret !== cronSecret) {
+      return NextResponse.json({
+        error: 'Unauthorized',
+        message: 'Valid CRON secret required'
+      }, { status: 401 });
+    }
+
+    const now = new Date();
+    const currentWeek = await getCurrentNFLWeek(now);
+
+    if (!currentWeek) {
+      return NextResponse.json({
+        message: 'NFL calendar has not been synced',
+        processed: 0
+      });
+    }
+
+    const previousWeek = await getPreviousNFLWeek(currentWeek);
+    const weeks = previousWeek ? [previousWeek, currentWeek] : [currentWeek];
+
+    const results = [];
+    for (const week of weeks) {
+      const summaries = await applyDefaultPicks(week, now);
+      results.push({
+        week: week.week,
+        season_type: week.season_type,
+        label: week.label,
+        leagues: summaries
+      });
+    }
+
+    const picksCreated = results.reduce((total, result) =>
+      total + result.leagues.reduce((sum, league) => sum + league.picks_created, 0), 0
+    );
+
+    console.log(`Default picks complete: ${picksCreated} picks created`);
+
+    return NextResponse.json({
+      message: 'Default picks applied',
+      picksCreated,
+      weeks: results,
+      timestamp: now.toISOString()
+    });
+
+  } catch (error) {
+    console.error('Default pick assignment failed:', error);
+    return NextResponse.json({
+      error: 'Default pick assignment failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Allow GET for testing/manual trigger
+export async function GET(request: NextRequest) {
+  return POST(request);
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import { getCurrentNFLWeek, getPreviousNFLWeek } from '@/lib/nfl-week';
+import { validateId } from '@/lib/validation';
+import { finishPendingScoreCorrections } from '@/lib/game-scoring';
+import { reconcileWeekScores, regradeGame, type ScoredGame } from '@/lib/score-corrections';
+
+/**
+ * Score Reconciliation API
+ * POST /api/cron/reconcile-scores
+ *
+ * Compares the final scores of games scored in the current and previous
+ * calendar weeks with ESPN and re-grades any game whose score was corrected.
+ * Pass ?game_id= to re-grade one game against its stored score instead, for
+ * fixing a mis-scored pick.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // CRON secret validation
+    const cronSecret = process.env.CRON_SECRET;
+    const providedSecret = request.headers.get('authorization')?.replace('Bearer ', '') ||
+                          request.headers.get('x-cron-secret');
+
+    if (!cronSecret) {
+      console.error('CRON_SECRET environment variable not configured');
+      return NextResponse.json({
+        error: 'Server configuration error'
+      }, { status: 500 });
+    }
+
+    if (!providedSecret || providedSecret !== cronSecret) {
+      return NextResponse.json({
+        error: 'Unauthorized',
+        message: 'Valid CRON secret required'
+      }, { status: 401 });
+    }
+
+    const statsRetried = await finishPendingScoreCorrections();
+
+    const gameId = new URL(request.url).searchParams.get('game_id');
+    if (gameId) {
+      const gameValidation = validateId(gameId, 'Game ID');
+      if (!gameValidation.isValid) {
+        return NextResponse.json({ error: gameValidation.errorMessage }, { status: 400 });
+      }
+
+      const { data: game } = await supabaseAdmin
+        .from('games')
+        .select('id, espn_game_id, season_id, home_score, away_score, home_linescores, away_linescores, status')
+        .eq('id', gameId)
+        .single();
+
+      if (!game || game.status !== 'completed' || game.home_score === null || game.away_score === null) {
+        return NextResponse.json({ error: 'Game not found or not completed' }, { status: 404 });
+      }
+
+      const correction = await regradeGame(
+        game as ScoredGame,
+        { home_score: game.home_score, away_score: game.away_score },
+        'manual_regrade'
+      );
+
+      return NextResponse.json({
+        message: 'Game re-graded',
+        correction,
+        statsRetried
+      });
+    }
+
+    const currentWeek = await getCurrentNFLWeek();
+
+    if (!currentWeek) {
+      return NextResponse.json({
+        message: 'NFL calendar has not been synced',
+        processed: 0
+      });
+    }
+
+    const previousWeek = await getPreviousNFLWeek(currentWeek);
+    const weeks = previousWeek ? [previousWeek, currentWeek] : [currentWeek];
+
+    const results = [];
+    for (const week of weeks) {
+      const result = await reconcileWeekScores(week);
+      results.push({
+        week: week.week,
+        season_type: week.season_type,
+        label: week.label,
+        ...result
+      });
+    }
+
+    const correctionsApplied = results.reduce((total, result) => total + result.corrections.length, 0);
+
+    console.log(`Score reconciliation complete: ${correctionsApplied} games corrected`);
+
+    return NextResponse.json({
+      message: 'Scores reconciled',
+      correctionsApplied,
+      statsRetried,
+      weeks: results,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Score reconciliation failed:', error);
+    return NextResponse.json({
+      error: 'Score reconciliation failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Allow GET for testing/manual trigger
+export async function GET(request: NextRequest) {
+  return POST(request);
+}
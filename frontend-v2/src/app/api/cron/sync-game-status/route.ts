@@ -1,13 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase-admin';
-import { ESPNGame, ESPNGameStatus } from '@/lib/espn-monitor';
+import { ESPNGame, ESPNGameStatus, mapESPNGameStatus, UNPLAYABLE_GAME_STATUSES } from '@/lib/espn-monitor';
+import { voidCancelledGamePicks, voidPicksAfterKickoff, type VoidedPicksSummary } from '@/lib/game-status';
 
 /**
  * Game Status Monitor API
  * POST /api/cron/sync-game-status
  *
- * Monitors game status transitions: scheduled → live → completed
+ * Monitors game status transitions: scheduled → live → completed, plus
+ * postponed, suspended and cancelled games and kickoff changes.
  * This is crucial for pick deadline enforcement and UI state management.
+ * Picks on cancelled games are voided, and picks made after a rescheduled
+ * game's new kickoff are re-checked.
  */
 
 const ESPN_API_BASE = 'https://site.api.espn.com/apis/site/v2/sports/football/nfl';
@@ -30,13 +34,16 @@ export async function POST(request: NextRequest) {
     const tomorrow = new Date(now.getTime() + 24 * 60 * 60 * 1000);
     const yesterday = new Date(now.getTime() - 24 * 60 * 60 * 1000);
 
+    // Postponed and suspended games are watched until ESPN reschedules them
     const { data: games, error: gamesError } = await supabaseAdmin
       .from('games')
       .select('id, espn_game_id, status, start_time')
       .not('espn_game_id', 'is', null)
-      .gte('start_time', yesterday.toISOString())
-      .lte('start_time', tomorrow.toISOString())
-      .not('status', 'eq', 'completed'); // Skip already completed games
+      .or(
+        `and(start_time.gte.${yesterday.toISOString()},start_time.lte.${tomorrow.toISOString()}),` +
+        'status.in.(postponed,suspended)'
+      )
+      .not('status', 'in', '(completed,cancelled)'); // Skip games that are already settled
 
     if (gamesError) {
       console.error('Error fetching games:', gamesError);
@@ -66,7 +73,15 @@ export async function POST(request: NextRequest) {
 
     // Step 3: Check each game for status changes
     let statusChanges = 0;
-    const updates = [];
+    const updates: Array<{
+      id: number;
+      status: string;
+      status_detail: string;
+      start_time?: string;
+      last_updated: string;
+    }> = [];
+    const cancelledGameIds: number[] = [];
+    const rescheduledGames: Array<{ id: number; start_time: string }> = [];
 
     for (const game of games) {
       if (!game.espn_game_id) continue;
@@ -78,7 +93,7 @@ export async function POST(request: NextRequest) {
         const gameTime = new Date(game.start_time);
         const hoursAgo = (now.getTime() - gameTime.getTime()) / (1000 * 60 * 60);
 
-        if (hoursAgo > 4 && game.status !== 'completed') {
+        if (hoursAgo > 4 && !UNPLAYABLE_GAME_STATUSES.includes(game.status)) {
           // Game started over 4 hours ago and not marked completed - likely finished
           console.log(`Marking game ${game.id} as completed (started ${hoursAgo.toFixed(1)}h ago)`);
           updates.push({
@@ -95,34 +110,41 @@ export async function POST(request: NextRequest) {
       const status: ESPNGameStatus = competition.status;
 
       // Determine new status based on ESPN data
-      let newStatus = game.status;
-      let statusDetail = status.type.detail || status.type.description;
-
-      if (status.type.completed) {
-        newStatus = 'completed';
-        statusDetail = 'Final';
-      } else if (status.type.state === 'in') {
-        newStatus = 'live';
-      } else if (status.type.state === 'pre') {
-        newStatus = 'scheduled';
-      }
-
-      // Check if status changed
-      if (newStatus !== game.status) {
-        console.log(`Status change detected for game ${game.id}: ${game.status} → ${newStatus}`);
+      const newStatus = mapESPNGameStatus(status.type);
+      const statusDetail = newStatus === 'completed' ? 'Final' : status.type.detail || status.type.description;
+
+      // A postponed game usually comes back with a new kickoff
+      const newStartTime = espnGame.date && new Date(espnGame.date).getTime() !== new Date(game.start_time).getTime()
+        ? new Date(espnGame.date).toISOString()
+        : null;
+
+      // Check if status or kickoff changed
+      if (newStatus !== game.status || newStartTime) {
+        if (newStatus !== game.status) {
+          console.log(`Status change detected for game ${game.id}: ${game.status} → ${newStatus}`);
+        }
 
         updates.push({
           id: game.id,
           status: newStatus,
           status_detail: statusDetail,
+          ...(newStartTime && { start_time: newStartTime }),
           last_updated: new Date().toISOString()
         });
 
+        if (newStatus === 'cancelled') {
+          cancelledGameIds.push(game.id);
+        } else if (newStartTime) {
+          console.log(`Kickoff change detected for game ${game.id}: ${game.start_time} → ${newStartTime}`);
+          rescheduledGames.push({ id: game.id, start_time: newStartTime });
+        }
+
         statusChanges++;
       }
     }
 
     // Step 4: Apply status updates
+    const updatedGameIds = new Set<number>();
     if (updates.length > 0) {
       for (const update of updates) {
         const { id, ...updateFields } = update;
@@ -135,12 +157,31 @@ export async function POST(request: NextRequest) {
         if (updateError) {
           console.error(`Failed to update game status for ${id}:`, updateError);
         } else {
+          updatedGameIds.add(id);
           console.log(`✅ Updated game ${id} status to: ${update.status}`);
         }
       }
     }
 
-    // Step 5: Log summary
+    // Step 5: Void picks on cancelled games and picks made after a new kickoff
+    const voidedPicks: VoidedPicksSummary[] = [];
+    for (const gameId of cancelledGameIds.filter(id => updatedGameIds.has(id))) {
+      try {
+        voidedPicks.push(await voidCancelledGamePicks(gameId));
+      } catch (voidError) {
+        console.error(`Failed to void picks for cancelled game ${gameId}:`, voidError);
+      }
+    }
+
+    for (const game of rescheduledGames.filter(g => updatedGameIds.has(g.id))) {
+      try {
+        voidedPicks.push(await voidPicksAfterKickoff(game.id, game.start_time));
+      } catch (voidError) {
+        console.error(`Failed to re-check picks for rescheduled game ${game.id}:`, voidError);
+      }
+    }
+
+    // Step 6: Log summary
     if (statusChanges > 0) {
       console.log(`🎯 Status monitor complete: ${statusChanges} games updated`);
     } else {
@@ -153,8 +194,10 @@ export async function POST(request: NextRequest) {
       statusChanges,
       updates: updates.map(u => ({
         gameId: u.id,
-        newStatus: u.status
+        newStatus: u.status,
+        newStartTime: u.start_time
       })),
+      voidedPicks: voidedPicks.filter(v => v.picks_voided + v.legs_voided > 0),
       timestamp: new Date().toISOString()
     });
 
@@ -1,13 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase-admin';
-import { ESPNGame, ESPNGameStatus, ESPNCompetitor, updateTeamInformationFromESPN } from '@/lib/espn-monitor';
+import { ESPNGame, ESPNGameStatus, ESPNCompetitor, getCompetitorLinescores, updateTeamInformationFromESPN } from '@/lib/espn-monitor';
+import { syncPlayerGameStats } from '@/lib/espn-box-score';
+import { hasOpenPlayerProps } from '@/lib/live-picks';
 
 /**
  * Live Score Sync API
  * POST /api/cron/sync-live-scores
  *
- * Fetches current scores and clock info from ESPN for live games
- * and updates the games table with real-time data.
+ * Fetches current scores, per-quarter linescores and clock info from ESPN for
+ * live games and updates the games table with real-time data. Box scores are
+ * refreshed for live games with open player props so the live pick tracker
+ * can show their progress.
  */
 
 const ESPN_API_BASE = 'https://site.api.espn.com/apis/site/v2/sports/football/nfl';
@@ -106,6 +110,8 @@ export async function POST(request: NextRequest) {
         clock: number;
         display_clock: string;
         period: number;
+        home_linescores: number[] | null;
+        away_linescores: number[] | null;
         status_detail: string;
         last_updated: string;
         status?: string;
@@ -115,6 +121,8 @@ export async function POST(request: NextRequest) {
         clock: status.clock || 0,
         display_clock: status.displayClock || '0:00',
         period: status.period || 0,
+        home_linescores: getCompetitorLinescores(homeCompetitor),
+        away_linescores: getCompetitorLinescores(awayCompetitor),
         status_detail: status.type.detail || status.type.description,
         last_updated: new Date().toISOString()
       };
@@ -153,12 +161,29 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    console.log(`✅ Live score sync complete. Updated ${updatedCount} games.`);
+    // Step 5: Refresh in-game box scores for live games with open player props
+    let propStatsSynced = 0;
+    for (const update of updates.filter(update => update.status === 'live')) {
+      const espnGameId = liveGames.find(game => game.id === update.id)?.espn_game_id;
+      if (!espnGameId) continue;
+
+      try {
+        if (await hasOpenPlayerProps(update.id)) {
+          await syncPlayerGameStats(update.id, espnGameId);
+          propStatsSynced++;
+        }
+      } catch (statsError) {
+        console.error(`Failed to sync live player stats for game ${update.id}:`, statsError);
+      }
+    }
+
+    console.log(`✅ Live score sync complete. Updated ${updatedCount} games, ${propStatsSynced} box scores.`);
 
     return NextResponse.json({
       message: 'Live score sync completed',
       processed: liveGames.length,
       updated: updatedCount,
+      propStatsSynced,
       timestamp: new Date().toISOString()
     });
 
@@ -10,7 +10,9 @@ import {
   fetchCompleteESPNSeason,
   EnhancedESPNGame,
   ESPN_TO_FULL_NAME,
+  mapESPNGameStatus,
 } from '@/lib/espn-monitor';
+import { fetchESPNCalendar, saveNFLCalendar, SEASON_TYPES, NFLWeek } from '@/lib/nfl-week';
 
 // Removed unused interfaces - keeping imports clean
 
@@ -19,7 +21,8 @@ import {
  * POST /api/espn/ingest-season
  *
  * This endpoint implements Phase 1 of the Game Architecture Refactor:
- * - Fetches complete NFL season schedule from ESPN (weeks 1-18)
+ * - Fetches the season calendar (week boundaries, season types, bye weeks) into nfl_weeks
+ * - Fetches complete NFL season schedule from ESPN (regular season and playoff rounds)
  * - Creates/updates teams with ESPN data
  * - Populates games table with ESPN as the authoritative source
  * - Sets up ESPN game IDs as primary references
@@ -74,8 +77,9 @@ export async function POST(request: NextRequest) {
       }, { status: 401 });
     }
 
-    // 1. Fetch complete season data from ESPN
-    const seasonData = await fetchCompleteESPNSeason();
+    // 1. Fetch the season calendar and every week's games from ESPN
+    const calendar = await fetchESPNCalendar();
+    const seasonData = await fetchCompleteESPNSeason(calendar);
 
     if (seasonData.games.length === 0) {
       return NextResponse.json({
@@ -85,13 +89,16 @@ export async function POST(request: NextRequest) {
       }, { status: 500 });
     }
 
-    // 2. Ensure we have the necessary sport and season records
-    const { sportId, seasonId } = await ensureNFLSeasonSetup();
+    // 2. Store the calendar so routes and crons can resolve weeks from it
+    const savedWeeks = await saveNFLCalendar(calendar, seasonData.summary.byeTeams);
 
-    // 3. Process all teams from ESPN data
+    // 3. Ensure we have the necessary sport and season records
+    const { sportId, seasonId } = await ensureNFLSeasonSetup(calendar);
+
+    // 4. Process all teams from ESPN data
     await ensureAllTeamsFromESPN(seasonData.games, sportId);
 
-    // 4. Ingest all games
+    // 5. Ingest all games
     const ingestionResults = await ingestGamesFromESPN(seasonData.games, seasonId);
 
     const totalTime = Date.now() - startTime;
@@ -103,6 +110,7 @@ export async function POST(request: NextRequest) {
       summary: {
         totalGames: seasonData.games.length,
         weeklyBreakdown: seasonData.summary.weeklyBreakdown,
+        calendarWeeks: savedWeeks.length,
         season: seasonData.summary.season,
         ingestionResults,
         processingTime: {
@@ -126,7 +134,7 @@ export async function POST(request: NextRequest) {
 /**
  * Ensure NFL sport and season exist with comprehensive error handling
  */
-async function ensureNFLSeasonSetup(): Promise<{ sportId: number; seasonId: number }> {
+async function ensureNFLSeasonSetup(calendar: NFLWeek[]): Promise<{ sportId: number; seasonId: number }> {
   // Step 1: Ensure we have an NFL sport
   const sportResult = await safeDbOperation(
     async () => {
@@ -282,9 +290,12 @@ async function ensureNFLSeasonSetup(): Promise<{ sportId: number; seasonId: numb
 
   const leagueId = league.data.id as number;
 
-  // Step 3: Ensure we have a current season
-  const currentYear = new Date().getFullYear();
+  // Step 3: Ensure we have a current season, spanning ESPN's calendar for it
+  const currentYear = calendar[0]?.season_year ?? new Date().getFullYear();
   const seasonName = `${currentYear} NFL Season`;
+  const regularSeason = calendar.filter(week => week.season_type === SEASON_TYPES.REGULAR_SEASON);
+  const seasonStart = regularSeason[0]?.start_date.split('T')[0] ?? `${currentYear}-09-01`;
+  const seasonEnd = calendar[calendar.length - 1]?.end_date.split('T')[0] ?? `${currentYear + 1}-02-28`;
 
   const seasonResult = await safeDbOperation(
     async () => {
@@ -304,8 +315,8 @@ async function ensureNFLSeasonSetup(): Promise<{ sportId: number; seasonId: numb
         .insert({
           name: seasonName,
           league_id: leagueId,
-          start_date: `${currentYear}-09-01`,
-          end_date: `${currentYear + 1}-02-28`
+          start_date: seasonStart,
+          end_date: seasonEnd
         })
         .select('id')
         .single();
@@ -633,7 +644,7 @@ async function ingestGamesFromESPN(
       // Check if game already exists by ESPN ID
       const { data: existingGame, error: gameCheckError } = await supabaseAdmin
         .from('games')
-        .select('id, home_score, away_score, status')
+        .select('id, home_score, away_score, status, week, season_year, season_type')
         .eq('espn_game_id', espnGame.espnGameId)
         .single();
 
@@ -643,8 +654,10 @@ async function ingestGamesFromESPN(
         away_team_id: awayTeam.id,
         start_time: espnGame.startTime,
         espn_game_id: espnGame.espnGameId,
-        status: espnGame.status.completed ? 'completed' :
-               espnGame.status.state === 'in' ? 'in_progress' : 'scheduled',
+        week: espnGame.week,
+        season_year: espnGame.season.year,
+        season_type: espnGame.season.type,
+        status: mapESPNGameStatus(espnGame.status),
         home_score: espnGame.homeTeam.score,
         away_score: espnGame.awayTeam.score,
       };
@@ -662,11 +675,14 @@ async function ingestGamesFromESPN(
           newGames++;
         }
       } else {
-        // Update existing game if status or scores changed
+        // Update existing game if status, scores or its calendar week changed
         const needsUpdate =
           existingGame.status !== gameData.status ||
           existingGame.home_score !== gameData.home_score ||
-          existingGame.away_score !== gameData.away_score;
+          existingGame.away_score !== gameData.away_score ||
+          existingGame.week !== gameData.week ||
+          existingGame.season_year !== gameData.season_year ||
+          existingGame.season_type !== gameData.season_type;
 
         if (needsUpdate) {
           const { error: updateGameError } = await supabaseAdmin
@@ -675,6 +691,9 @@ async function ingestGamesFromESPN(
               status: gameData.status,
               home_score: gameData.home_score,
               away_score: gameData.away_score,
+              week: gameData.week,
+              season_year: gameData.season_year,
+              season_type: gameData.season_type,
             })
             .eq('id', existingGame.id);
 
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import { validateId } from '@/lib/validation';
+import type { OddsLine } from '@/lib/odds';
+
+interface OddsSnapshot extends OddsLine {
+  id: number;
+  sportsbook: string;
+  last_update: string | null;
+  captured_at: string;
+}
+
+interface SportsbookTimeline {
+  sportsbook: string;
+  opening: OddsSnapshot;
+  current: OddsSnapshot;
+  snapshots: OddsSnapshot[];
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const { gameId } = await params;
+
+    const gameValidation = validateId(gameId, 'Game ID');
+    if (!gameValidation.isValid) {
+      return NextResponse.json({ error: gameValidation.errorMessage }, { status: 400 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const sportsbook = searchParams.get('sportsbook');
+
+    let query = supabaseAdmin
+      .from('odds_snapshots')
+      .select(`
+        id,
+        sportsbook,
+        last_update,
+        captured_at,
+        moneyline_home,
+        moneyline_away,
+        spread_home,
+        spread_away,
+        spread_home_price,
+        spread_away_price,
+        total_over,
+        total_under,
+        total_over_price,
+        total_under_price
+      `)
+      .eq('game_id', gameId)
+      .order('captured_at', { ascending: true });
+
+    if (sportsbook) {
+      query = query.eq('sportsbook', sportsbook);
+    }
+
+    const { data: snapshots, error } = await query;
+
+    if (error) {
+      console.error('Error fetching odds history:', error);
+      return NextResponse.json({ error: 'Failed to fetch odds history' }, { status: 500 });
+    }
+
+    // Group the timeline by sportsbook; snapshots are already in chronological order
+    const timelines = new Map<string, SportsbookTimeline>();
+
+    for (const snapshot of (snapshots || []) as OddsSnapshot[]) {
+      const timeline = timelines.get(snapshot.sportsbook);
+      if (!timeline) {
+        timelines.set(snapshot.sportsbook, {
+          sportsbook: snapshot.sportsbook,
+          opening: snapshot,
+          current: snapshot,
+          snapshots: [snapshot]
+        });
+      } else {
+        timeline.current = snapshot;
+        timeline.snapshots.push(snapshot);
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      game_id: parseInt(gameId),
+      sportsbooks: Array.from(timelines.values()),
+      total: snapshots?.length || 0
+    });
+
+  } catch (error) {
+    console.error('Odds history API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,7 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabaseClient } from '@/lib/supabase-server';
 import { supabaseAdmin } from '@/lib/supabase-admin';
-import { getCurrentNFLWeek, isGameInCurrentWeek, getNFLWeekDateRange } from '@/lib/nfl-week';
+import {
+    getCurrentNFLWeek,
+    getNextNFLWeek,
+    getNFLWeek,
+    isDateInNFLWeek,
+    isNFLSeasonType,
+    SEASON_TYPES
+} from '@/lib/nfl-week';
 import { validateId } from '@/lib/validation';
 
 export async function GET(request: NextRequest) {
@@ -10,6 +17,7 @@ export async function GET(request: NextRequest) {
         const { searchParams } = new URL(request.url);
         const seasonId = searchParams.get('season_id');
         const week = searchParams.get('week');
+        const seasonType = searchParams.get('season_type');
 
         const { data: { user }, error: userError } = await supabase.auth.getUser();
 
@@ -86,6 +94,8 @@ export async function GET(request: NextRequest) {
                     status_detail,
                     last_updated,
                     week,
+                    season_year,
+                    season_type,
                     espn_game_id,
                     venue_name,
                     home_team:teams!games_home_team_id_fkey(
@@ -114,8 +124,28 @@ export async function GET(request: NextRequest) {
                         moneyline_away,
                         spread_home,
                         spread_away,
+                        spread_home_price,
+                        spread_away_price,
                         total_over,
-                        total_under
+                        total_under,
+                        total_over_price,
+                        total_under_price
+                    ),
+                    period_odds(
+                        id,
+                        period,
+                        sportsbook,
+                        last_update,
+                        moneyline_home,
+                        moneyline_away,
+                        spread_home,
+                        spread_away,
+                        spread_home_price,
+                        spread_away_price,
+                        total_over,
+                        total_under,
+                        total_over_price,
+                        total_under_price
                     )
                 `)
                 .order('start_time', { ascending: true });
@@ -133,34 +163,46 @@ export async function GET(request: NextRequest) {
             return NextResponse.json({ error: 'Failed to fetch games' }, { status: 500 });
         }
 
-        const currentWeek = getCurrentNFLWeek();
+        const currentWeek = await getCurrentNFLWeek();
 
         let filteredGames = games || [];
 
-
         if (week) {
-            // Filter by specific week using date ranges
+            // Filter by specific week using the calendar's boundaries
             const weekNum = parseInt(week);
+            const seasonTypeNum = seasonType ? parseInt(seasonType) : SEASON_TYPES.REGULAR_SEASON;
+
+            if (!isNFLSeasonType(seasonTypeNum)) {
+                return NextResponse.json({ error: 'Invalid season type' }, { status: 400 });
+            }
+
             if (weekNum && !isNaN(weekNum)) {
-                const { start: weekStart, end: weekEnd } = getNFLWeekDateRange(weekNum);
-                filteredGames = games?.filter(game => {
-                    const gameDate = new Date(game.start_time);
-                    return gameDate >= weekStart && gameDate <= weekEnd;
-                }) || [];
+                const calendarWeek = currentWeek
+                    ? await getNFLWeek(currentWeek.season_year, seasonTypeNum, weekNum)
+                    : null;
+
+                filteredGames = games?.filter(game => calendarWeek
+                    ? isDateInNFLWeek(game.start_time, calendarWeek)
+                    : game.week === weekNum && (game.season_type ?? SEASON_TYPES.REGULAR_SEASON) === seasonTypeNum
+                ) || [];
             } else {
                 filteredGames = games || [];
             }
-        } else {
-            // Default: show current week games only
+        } else if (currentWeek) {
+            // Default: show the current and next week's games
+            const nextWeek = await getNextNFLWeek(currentWeek);
+            const range = { start_date: currentWeek.start_date, end_date: (nextWeek || currentWeek).end_date };
+
             filteredGames = games?.filter(game =>
-                isGameInCurrentWeek(game.start_time)
+                isDateInNFLWeek(game.start_time, range)
             ) || [];
         }
 
-
         return NextResponse.json({
             games: filteredGames,
-            currentWeek,
+            currentWeek: currentWeek?.week ?? 1,
+            currentSeasonType: currentWeek?.season_type ?? SEASON_TYPES.REGULAR_SEASON,
+            currentWeekLabel: currentWeek?.label ?? null,
             totalGames: games?.length || 0
         });
 
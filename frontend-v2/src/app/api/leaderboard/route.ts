@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabaseClient } from '@/lib/supabase-server';
 import { supabaseAdmin } from '@/lib/supabase-admin';
-import { validateId } from '@/lib/validation';
+import { validateId, validateSeasonType } from '@/lib/validation';
+import { getLeagueScoringRules } from '@/lib/scoring';
+import { getSeasonGuessDifferences, getWeekTiebreakerGuesses, rankWithTiebreakers } from '@/lib/tiebreakers';
 
 interface UserProfile {
   username: string;
@@ -28,6 +30,7 @@ export async function GET(request: NextRequest) {
         const seasonId = searchParams.get('season_id');
         const leagueId = searchParams.get('league_id');
         const week = searchParams.get('week');
+        const seasonType = searchParams.get('season_type') || '2';
         const type = searchParams.get('type') || 'season'; // 'season' or 'week'
 
         const supabase = await createServerSupabaseClient();
@@ -58,7 +61,12 @@ export async function GET(request: NextRequest) {
                 return NextResponse.json({ error: weekValidation.errorMessage }, { status: 400 });
             }
 
-            const leaderboard = await getWeeklyLeaderboard(seasonId, parseInt(week), user.id);
+            const seasonTypeValidation = validateSeasonType(seasonType);
+            if (!seasonTypeValidation.isValid) {
+                return NextResponse.json({ error: seasonTypeValidation.errorMessage }, { status: 400 });
+            }
+
+            const leaderboard = await getWeeklyLeaderboard(seasonId, parseInt(week), parseInt(seasonType), user.id);
             return NextResponse.json(leaderboard);
         }
 
@@ -125,9 +133,17 @@ async function getSeasonLeaderboard(seasonId: string, userId: string) {
             return { error: 'Failed to fetch leaderboard' };
         }
 
+        // Members level on points are separated by the league's tiebreakers:
+        // average tiebreaker guess miss, season losses and first pick in
+        const [scoringRules, guessDifferences, submittedAt] = await Promise.all([
+            getLeagueScoringRules(access.league_id),
+            getSeasonGuessDifferences(parseInt(seasonId)),
+            getFirstPickTimes(seasonId)
+        ]);
+
         // Calculate additional metrics
-        const enhancedLeaderboard = leaderboard?.map((entry: LeaderboardEntry, index: number) => ({
-            rank: index + 1,
+        const enhancedLeaderboard = leaderboard?.map((entry: LeaderboardEntry) => ({
+            rank: 0,
             user_id: entry.user_id,
             username: Array.isArray(entry.profiles) ? entry.profiles[0]?.username : entry.profiles?.username,
             avatar_url: Array.isArray(entry.profiles) ? entry.profiles[0]?.avatar_url : entry.profiles?.avatar_url,
@@ -140,9 +156,13 @@ async function getSeasonLeaderboard(seasonId: string, userId: string) {
             current_streak: entry.current_streak,
             best_streak: entry.best_streak,
             worst_streak: entry.worst_streak,
+            guess_difference: guessDifferences.get(entry.user_id) ?? null,
+            submitted_at: submittedAt.get(entry.user_id) ?? null,
             is_current_user: entry.user_id === userId
         })) || [];
 
+        rankWithTiebreakers(enhancedLeaderboard, scoringRules.tiebreakers);
+
         return {
             success: true,
             leaderboard: enhancedLeaderboard,
@@ -156,7 +176,33 @@ async function getSeasonLeaderboard(seasonId: string, userId: string) {
     }
 }
 
-async function getWeeklyLeaderboard(seasonId: string, week: number, userId: string) {
+/**
+ * When each member's first counted pick of a season was made
+ */
+async function getFirstPickTimes(seasonId: string): Promise<Map<string, string>> {
+    const { data, error } = await supabaseAdmin
+        .from('picks')
+        .select('user_id, created_at')
+        .eq('season_id', seasonId)
+        .not('result', 'is', null)
+        .neq('result', 'void')
+        .order('created_at', { ascending: true });
+
+    if (error) {
+        throw new Error(`Failed to load first picks: ${error.message}`);
+    }
+
+    const firstPicks = new Map<string, string>();
+    for (const pick of data || []) {
+        if (!firstPicks.has(pick.user_id)) {
+            firstPicks.set(pick.user_id, pick.created_at);
+        }
+    }
+
+    return firstPicks;
+}
+
+async function getWeeklyLeaderboard(seasonId: string, week: number, seasonType: number, userId: string) {
     try {
         // Verify user has access to this season
         const { data: access } = await supabaseAdmin
@@ -184,17 +230,25 @@ async function getWeeklyLeaderboard(seasonId: string, week: number, userId: stri
                 user_id,
                 result,
                 points_awarded,
+                created_at,
                 profiles!inner(username, avatar_url),
                 games!inner(season_id, start_time)
             `)
             .eq('games.season_id', seasonId)
             .eq('week', week)
-            .not('result', 'is', null);
+            .eq('season_type', seasonType)
+            .not('result', 'is', null)
+            .neq('result', 'void');
 
         if (error) {
             return { error: 'Failed to fetch weekly stats' };
         }
 
+        const [scoringRules, tiebreakerGuesses] = await Promise.all([
+            getLeagueScoringRules(access.league_id),
+            getWeekTiebreakerGuesses(parseInt(seasonId), week, seasonType)
+        ]);
+
         // Aggregate weekly stats by user
         const userStats = new Map();
 
@@ -209,12 +263,17 @@ async function getWeeklyLeaderboard(seasonId: string, week: number, userId: stri
                     wins: 0,
                     losses: 0,
                     pushes: 0,
-                    total_points: 0
+                    total_points: 0,
+                    guess_difference: tiebreakerGuesses.get(userId as string)?.difference ?? null,
+                    submitted_at: null
                 });
             }
 
             const stats = userStats.get(userId);
             stats.total_picks++;
+            if (!stats.submitted_at || new Date(pick.created_at as string) < new Date(stats.submitted_at)) {
+                stats.submitted_at = pick.created_at;
+            }
             stats.total_points += pick.points_awarded || 0;
 
             if (pick.result === 'win') stats.wins++;
@@ -222,25 +281,24 @@ async function getWeeklyLeaderboard(seasonId: string, week: number, userId: stri
             else if (pick.result === 'push') stats.pushes++;
         });
 
-        // Convert to array and sort by points, then wins
-        const leaderboard = Array.from(userStats.values())
-            .sort((a, b) => {
-                if (b.total_points !== a.total_points) return b.total_points - a.total_points;
-                return b.wins - a.wins;
-            })
-            .map((entry, index) => ({
-                rank: index + 1,
+        // Convert to array and rank by points, then the league's tiebreakers
+        const leaderboard = rankWithTiebreakers(
+            Array.from(userStats.values()).map(entry => ({
+                rank: 0,
                 ...entry,
                 win_percentage: entry.total_picks > 0 ? (entry.wins / entry.total_picks * 100).toFixed(1) : '0.0',
                 is_current_user: entry.user_id === userId
-            }));
+            })),
+            scoringRules.tiebreakers
+        );
 
         return {
             success: true,
             leaderboard,
             type: 'week',
             season_id: seasonId,
-            week: week
+            week: week,
+            season_type: seasonType
         };
 
     } catch (error) {
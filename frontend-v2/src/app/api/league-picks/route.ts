@@ -1,14 +1,37 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabaseClient } from '@/lib/supabase-server';
 import { supabaseAdmin } from '@/lib/supabase-admin';
-import { validateId, validateWeek } from '@/lib/validation';
+import { validateId, validateWeek, validateSeasonType } from '@/lib/validation';
+import { createLivePickTracker, type LiveSelection } from '@/lib/live-picks';
+import { createPickVisibilityCheck, type VisibilityPick } from '@/lib/pick-visibility';
+import { PICK_RULE_BET_TYPES } from '@/lib/pick-rules';
 
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+// 'pending' matches picks that haven't been graded yet
+const RESULT_FILTERS = ['win', 'loss', 'push', 'void', 'pending'];
+const BET_TYPE_FILTERS: string[] = [...PICK_RULE_BET_TYPES, 'no_pick'];
+
+/**
+ * League pick feed, newest first. Picks are scoped to the league's seasons
+ * (or one of them with season_id) and can be filtered by week, member, bet
+ * type and result. Pages are keyed by pick id: pass next_cursor back as
+ * cursor to get the next page.
+ */
 export async function GET(request: NextRequest) {
     try {
         const supabase = await createServerSupabaseClient();
         const { searchParams } = new URL(request.url);
         const leagueId = searchParams.get('league_id');
+        const seasonId = searchParams.get('season_id');
         const week = searchParams.get('week');
+        const seasonType = searchParams.get('season_type');
+        const memberId = searchParams.get('user_id');
+        const betType = searchParams.get('bet_type');
+        const result = searchParams.get('result');
+        const cursor = searchParams.get('cursor');
+        const limit = searchParams.get('limit');
 
         const { data: { user }, error: userError } = await supabase.auth.getUser();
 
@@ -30,6 +53,44 @@ export async function GET(request: NextRequest) {
             }
         }
 
+        if (seasonType) {
+            const seasonTypeValidation = validateSeasonType(seasonType);
+            if (!seasonTypeValidation.isValid) {
+                return NextResponse.json({ error: seasonTypeValidation.errorMessage }, { status: 400 });
+            }
+        }
+
+        if (seasonId) {
+            const seasonValidation = validateId(seasonId, 'Season ID');
+            if (!seasonValidation.isValid) {
+                return NextResponse.json({ error: seasonValidation.errorMessage }, { status: 400 });
+            }
+        }
+
+        if (cursor) {
+            const cursorValidation = validateId(cursor, 'Cursor');
+            if (!cursorValidation.isValid) {
+                return NextResponse.json({ error: cursorValidation.errorMessage }, { status: 400 });
+            }
+        }
+
+        if (limit) {
+            const limitValidation = validateId(limit, 'Limit');
+            if (!limitValidation.isValid || parseInt(limit) > MAX_PAGE_SIZE) {
+                return NextResponse.json({ error: `Limit must be between 1 and ${MAX_PAGE_SIZE}` }, { status: 400 });
+            }
+        }
+
+        if (betType && !BET_TYPE_FILTERS.includes(betType)) {
+            return NextResponse.json({ error: `Bet type must be one of: ${BET_TYPE_FILTERS.join(', ')}` }, { status: 400 });
+        }
+
+        if (result && !RESULT_FILTERS.includes(result)) {
+            return NextResponse.json({ error: `Result must be one of: ${RESULT_FILTERS.join(', ')}` }, { status: 400 });
+        }
+
+        const pageSize = limit ? parseInt(limit) : DEFAULT_PAGE_SIZE;
+
         // Verify user has access to this league (either admin or member)
         const { data: league, error: leagueError } = await supabaseAdmin
             .from('leagues')
@@ -63,17 +124,43 @@ export async function GET(request: NextRequest) {
         // Get all league members
         const { data: members, error: membersError } = await supabaseAdmin
             .from('league_memberships')
-            .select('user_id')
+            .select('user_id, profiles(username)')
             .eq('league_id', leagueId);
 
         if (membersError || !members) {
             return NextResponse.json({ error: 'Failed to fetch league members' }, { status: 500 });
         }
 
-        const memberIds = members.map(m => m.user_id);
+        const memberList = members.map(member => {
+            const profiles = member.profiles as { username?: string } | { username?: string }[] | null;
+            return {
+                user_id: member.user_id,
+                username: (Array.isArray(profiles) ? profiles[0]?.username : profiles?.username) || 'Unknown'
+            };
+        });
+
+        if (memberId && !memberList.some(member => member.user_id === memberId)) {
+            return NextResponse.json({ error: 'User is not a member of this league' }, { status: 400 });
+        }
+
+        // Members can belong to several leagues, so picks are scoped by season
+        const { data: seasons, error: seasonsError } = await supabaseAdmin
+            .from('seasons')
+            .select('id')
+            .eq('league_id', leagueId);
+
+        if (seasonsError) {
+            return NextResponse.json({ error: 'Failed to fetch seasons' }, { status: 500 });
+        }
+
+        const seasonIds = (seasons || []).map(season => season.id);
 
-        if (memberIds.length === 0) {
-            return NextResponse.json({ picks: [] });
+        if (seasonId && !seasonIds.includes(parseInt(seasonId))) {
+            return NextResponse.json({ error: 'Season not found in this league' }, { status: 404 });
+        }
+
+        if (memberList.length === 0 || seasonIds.length === 0) {
+            return NextResponse.json({ picks: [], members: memberList, next_cursor: null });
         }
 
         // Fetch picks from all league members
@@ -82,18 +169,65 @@ export async function GET(request: NextRequest) {
             .select(`
                 id,
                 user_id,
+                season_id,
                 game_id,
                 bet_type,
                 selection,
+                selection_data,
                 result,
                 points_awarded,
                 week,
+                season_type,
+                confidence,
+                is_auto_pick,
                 created_at,
+                odds_price,
+                locked_sportsbook,
+                locked_point,
+                locked_at,
+                pick_type,
+                prop_athlete_id,
+                prop_market_key,
+                pick_legs(
+                    id,
+                    game_id,
+                    bet_type,
+                    selection,
+                    selection_data,
+                    prop_athlete_id,
+                    prop_market_key,
+                    leg_order,
+                    odds_price,
+                    locked_sportsbook,
+                    locked_point,
+                    result,
+                    games(
+                        id,
+                        start_time,
+                        status,
+                        home_score,
+                        away_score,
+                        home_linescores,
+                        away_linescores,
+                        home_team:teams!games_home_team_id_fkey(
+                            name,
+                            abbreviation
+                        ),
+                        away_team:teams!games_away_team_id_fkey(
+                            name,
+                            abbreviation
+                        )
+                    )
+                ),
                 profiles!inner(username),
                 games!inner(
                     id,
                     start_time,
                     status,
+                    home_score,
+                    away_score,
+                    home_linescores,
+                    away_linescores,
                     home_team:teams!games_home_team_id_fkey(
                         name,
                         abbreviation
@@ -104,39 +238,110 @@ export async function GET(request: NextRequest) {
                     )
                 )
             `)
-            .in('user_id', memberIds)
-            .order('created_at', { ascending: false });
+            .in('season_id', seasonId ? [parseInt(seasonId)] : seasonIds)
+            .in('user_id', memberId ? [memberId] : memberList.map(member => member.user_id))
+            // Ids increase with created_at, so they order the feed and key its pages
+            .order('id', { ascending: false })
+            .limit(pageSize + 1);
 
-        // Filter by week if specified
+        // Filter by week if specified; week numbers restart in the postseason
         if (week) {
-            query = query.eq('week', parseInt(week));
+            query = query
+                .eq('week', parseInt(week))
+                .eq('season_type', seasonType ? parseInt(seasonType) : 2);
         }
 
-        const { data: picks, error: picksError } = await query;
+        if (betType) {
+            query = query.eq('bet_type', betType);
+        }
+
+        if (result === 'pending') {
+            query = query.is('result', null);
+        } else if (result) {
+            query = query.eq('result', result);
+        }
+
+        if (cursor) {
+            query = query.lt('id', parseInt(cursor));
+        }
+
+        const { data: pickRows, error: picksError } = await query;
 
         if (picksError) {
             return NextResponse.json({ error: 'Failed to fetch picks' }, { status: 500 });
         }
 
-        // Transform the data to match our interface
-        const transformedPicks = picks?.map(pick => ({
-            id: pick.id,
-            user_id: pick.user_id,
-            game_id: pick.game_id,
-            bet_type: pick.bet_type,
-            selection: pick.selection,
-            result: pick.result,
-            points_awarded: pick.points_awarded,
-            week: pick.week,
-            created_at: pick.created_at,
-            user: {
+        const hasMore = (pickRows || []).length > pageSize;
+        const picks = (pickRows || []).slice(0, pageSize);
+
+        // Other members' picks stay hidden until the league's visibility rule reveals them.
+        // A bet type filter would give a hidden pick's type away, so those are left out.
+        const isVisible = await createPickVisibilityCheck(user.id, picks as unknown as VisibilityPick[]);
+        const visiblePicks = picks.filter(pick => isVisible(pick as unknown as VisibilityPick));
+        const listedPicks = betType ? visiblePicks : picks;
+
+        // Open straight picks and parlay legs on games in progress get a
+        // provisional result for the live tracker
+        const getLiveStatus = await createLivePickTracker(
+            league.id,
+            visiblePicks.flatMap<unknown>(pick =>
+                pick.pick_type === 'parlay' ? pick.pick_legs || [] : [pick]
+            ) as LiveSelection[]
+        );
+
+        // Transform the data to match our interface; hidden picks only say who has picked
+        const transformedPicks = listedPicks.map(pick => {
+            const pickUser = {
                 // eslint-disable-next-line @typescript-eslint/no-explicit-any
                 username: Array.isArray(pick.profiles) ? pick.profiles[0]?.username : (pick.profiles as any)?.username
-            },
-            games: pick.games
-        })) || [];
+            };
+
+            if (!visiblePicks.includes(pick)) {
+                return {
+                    id: pick.id,
+                    user_id: pick.user_id,
+                    week: pick.week,
+                    season_type: pick.season_type,
+                    is_auto_pick: pick.is_auto_pick,
+                    created_at: pick.created_at,
+                    hidden: true,
+                    user: pickUser
+                };
+            }
+
+            return {
+                id: pick.id,
+                user_id: pick.user_id,
+                game_id: pick.game_id,
+                bet_type: pick.bet_type,
+                selection: pick.selection,
+                selection_data: pick.selection_data,
+                result: pick.result,
+                points_awarded: pick.points_awarded,
+                week: pick.week,
+                season_type: pick.season_type,
+                confidence: pick.confidence,
+                is_auto_pick: pick.is_auto_pick,
+                created_at: pick.created_at,
+                odds_price: pick.odds_price,
+                locked_sportsbook: pick.locked_sportsbook,
+                locked_point: pick.locked_point,
+                locked_at: pick.locked_at,
+                pick_type: pick.pick_type,
+                pick_legs: [...(pick.pick_legs || [])]
+                    .sort((a, b) => a.leg_order - b.leg_order)
+                    .map(leg => ({ ...leg, live: getLiveStatus(leg as unknown as LiveSelection) })),
+                live: pick.pick_type === 'parlay' ? null : getLiveStatus(pick as unknown as LiveSelection),
+                user: pickUser,
+                games: pick.games
+            };
+        });
 
-        return NextResponse.json({ picks: transformedPicks });
+        return NextResponse.json({
+            picks: transformedPicks,
+            members: memberList,
+            next_cursor: hasMore ? picks[picks.length - 1].id : null
+        });
 
     } catch (err) {
         console.error('API: Unhandled error:', err);
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase-server';
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import { validateId } from '@/lib/validation';
+import { applyPickOverride, type PickOverrideRequest } from '@/lib/pick-overrides';
+
+// How many log entries the console shows
+const OVERRIDE_LOG_LIMIT = 50;
+
+/**
+ * Resolve the signed-in user and make sure they administer the league
+ */
+async function requireLeagueAdmin(leagueId: string) {
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+        return { error: NextResponse.json({ error: 'Authentication required' }, { status: 401 }) };
+    }
+
+    const { data: league } = await supabaseAdmin
+        .from('leagues')
+        .select('id, admin_id')
+        .eq('id', leagueId)
+        .eq('admin_id', user.id)
+        .single();
+
+    if (!league) {
+        return { error: NextResponse.json({ error: 'League not found or insufficient permissions' }, { status: 403 }) };
+    }
+
+    return { user };
+}
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ leagueId: string }> }
+) {
+    try {
+        const { leagueId } = await params;
+
+        const validation = validateId(leagueId, 'League ID');
+        if (!validation.isValid) {
+            return NextResponse.json({ error: validation.errorMessage }, { status: 400 });
+        }
+
+        const auth = await requireLeagueAdmin(leagueId);
+        if (auth.error) {
+            return auth.error;
+        }
+
+        const { data: overrides, error: overridesError } = await supabaseAdmin
+            .from('pick_overrides')
+            .select('id, pick_id, admin_id, action, reason, before, after, created_at')
+            .eq('league_id', leagueId)
+            .order('created_at', { ascending: false })
+            .limit(OVERRIDE_LOG_LIMIT);
+
+        if (overridesError) {
+            console.error('Pick overrides fetch error:', overridesError);
+            return NextResponse.json({ error: 'Failed to fetch pick overrides' }, { status: 500 });
+        }
+
+        // Usernames for the admins and members named in the log
+        const userIds = new Set<string>();
+        for (const override of overrides || []) {
+            userIds.add(override.admin_id);
+            if (override.before?.user_id) userIds.add(override.before.user_id);
+            if (override.after?.user_id) userIds.add(override.after.user_id);
+        }
+
+        const { data: profiles } = userIds.size > 0
+            ? await supabaseAdmin
+                .from('profiles')
+                .select('id, username')
+                .in('id', [...userIds])
+            : { data: [] };
+
+        const usernames = new Map((profiles || []).map(profile => [profile.id, profile.username]));
+
+        return NextResponse.json({
+            overrides: (overrides || []).map(override => ({
+                id: override.id,
+                pick_id: override.pick_id,
+                action: override.action,
+                reason: override.reason,
+                admin_username: usernames.get(override.admin_id) || 'Unknown',
+                from_username: override.before?.user_id ? usernames.get(override.before.user_id) || 'Unknown' : null,
+                to_username: usernames.get(override.after?.user_id) || 'Unknown',
+                selection: override.after?.selection ?? null,
+                old_result: override.before?.result ?? null,
+                new_result: override.after?.result ?? null,
+                old_points: override.before?.points_awarded ?? null,
+                new_points: override.after?.points_awarded ?? null,
+                created_at: override.created_at
+            }))
+        });
+
+    } catch (err) {
+        console.error('API: Unhandled error:', err);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ leagueId: string }> }
+) {
+    try {
+        const { leagueId } = await params;
+
+        const validation = validateId(leagueId, 'League ID');
+        if (!validation.isValid) {
+            return NextResponse.json({ error: validation.errorMessage }, { status: 400 });
+        }
+
+        const auth = await requireLeagueAdmin(leagueId);
+        if (auth.error) {
+            return auth.error;
+        }
+
+        const body: PickOverrideRequest = await request.json();
+
+        const result = await applyPickOverride(parseInt(leagueId), auth.user.id, body);
+
+        if (!result.success) {
+            return NextResponse.json({ error: result.error }, { status: result.status });
+        }
+
+        return NextResponse.json({
+            success: true,
+            pick_id: result.pickId,
+            before: result.before,
+            after: result.after
+        });
+
+    } catch (err) {
+        console.error('API: Unhandled error:', err);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
@@ -54,6 +54,10 @@ export async function GET(
                 created_at,
                 admin_id,
                 sport_id,
+                format,
+                survivor_strikes,
+                survivor_tie_rule,
+                confidence_bet_type,
                 sports(name)
             `)
             .eq('id', leagueId)
@@ -76,6 +80,10 @@ export async function GET(
             created_at: leagueData.created_at,
             admin_id: leagueData.admin_id,
             sport_id: leagueData.sport_id,
+            format: leagueData.format,
+            survivor_strikes: leagueData.survivor_strikes,
+            survivor_tie_rule: leagueData.survivor_tie_rule,
+            confidence_bet_type: leagueData.confidence_bet_type,
             sport_name: Array.isArray(leagueData.sports)
                 ? leagueData.sports[0]?.name
                 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabaseClient } from '@/lib/supabase-server';
 import { supabaseAdmin } from '@/lib/supabase-admin';
 import { validateRequestBody } from '@/lib/validation';
+import { validateLeagueFormatSettings, DEFAULT_SURVIVOR_SETTINGS } from '@/lib/league-format';
 
 export async function GET() {
     try {
@@ -22,6 +23,7 @@ export async function GET() {
                 created_at,
                 admin_id,
                 sport_id,
+                format,
                 sports(name)
             `)
             .eq('admin_id', user.id);
@@ -38,6 +40,7 @@ export async function GET() {
             created_at: string;
             admin_id: string;
             sport_id: number;
+            format: string;
             sports: { name: string } | null;
         }> = [];
         let memberError = null;
@@ -53,6 +56,7 @@ export async function GET() {
                     created_at,
                     admin_id,
                     sport_id,
+                    format,
                     sports(name)
                 `)
                 .in('id', leagueIds);
@@ -77,6 +81,7 @@ export async function GET() {
             created_at: string;
             admin_id: string;
             sport_id: number;
+            format: string;
             sports: { name: string }[] | null;
         };
 
@@ -100,7 +105,14 @@ export async function GET() {
 
 export async function POST(request: NextRequest) {
     try {
-        const { name, sport_id } = await request.json();
+        const {
+            name,
+            sport_id,
+            format = 'weekly',
+            survivor_strikes = DEFAULT_SURVIVOR_SETTINGS.strikes_allowed,
+            survivor_tie_rule = DEFAULT_SURVIVOR_SETTINGS.tie_rule,
+            confidence_bet_type = 'moneyline'
+        } = await request.json();
 
         // Validate request body to prevent SQL injection
         const bodyValidation = validateRequestBody(
@@ -111,6 +123,16 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: bodyValidation.errorMessage }, { status: 400 });
         }
 
+        const formatValidation = validateLeagueFormatSettings({
+            format,
+            survivor_strikes,
+            survivor_tie_rule,
+            confidence_bet_type
+        });
+        if (!formatValidation.isValid) {
+            return NextResponse.json({ error: formatValidation.errorMessage }, { status: 400 });
+        }
+
         const supabase = await createServerSupabaseClient();
 
         const { data: { user }, error: userError } = await supabase.auth.getUser();
@@ -128,6 +150,10 @@ export async function POST(request: NextRequest) {
                 name: name.trim(),
                 admin_id: user.id,
                 sport_id: sport_id,
+                format,
+                survivor_strikes: Number(survivor_strikes),
+                survivor_tie_rule,
+                confidence_bet_type,
             })
             .select()
             .single();
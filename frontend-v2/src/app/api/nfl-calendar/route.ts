@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentNFLWeek, getNFLSeasonWeeks } from '@/lib/nfl-week';
+
+/**
+ * NFL week calendar ingested from ESPN
+ * GET /api/nfl-calendar
+ * GET /api/nfl-calendar?year=2025
+ *
+ * Without a year, returns the season the current week belongs to.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const yearParam = searchParams.get('year');
+
+    const currentWeek = await getCurrentNFLWeek();
+    const seasonYear = yearParam ? parseInt(yearParam) : currentWeek?.season_year;
+
+    if (yearParam && (!seasonYear || isNaN(seasonYear))) {
+      return NextResponse.json({ error: 'Invalid year' }, { status: 400 });
+    }
+
+    if (!seasonYear) {
+      return NextResponse.json({ success: true, season_year: null, weeks: [], current_week: null });
+    }
+
+    const weeks = await getNFLSeasonWeeks(seasonYear);
+
+    return NextResponse.json({
+      success: true,
+      season_year: seasonYear,
+      weeks,
+      current_week: currentWeek
+    });
+  } catch (error) {
+    console.error('Error fetching NFL calendar:', error);
+    return NextResponse.json({ error: 'Failed to fetch NFL calendar' }, { status: 500 });
+  }
+}
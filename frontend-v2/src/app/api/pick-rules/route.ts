@@ -0,0 +1,201 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase-server';
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import { validateId } from '@/lib/validation';
+import { DEFAULT_PICK_RULES, validatePickRules, type PickRules } from '@/lib/pick-rules';
+
+interface PickRulesRequest extends Partial<PickRules> {
+  league_id: number;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const leagueId = searchParams.get('league_id');
+
+    if (!leagueId) {
+      return NextResponse.json({ error: 'League ID is required' }, { status: 400 });
+    }
+
+    const leagueValidation = validateId(leagueId, 'League ID');
+    if (!leagueValidation.isValid) {
+      return NextResponse.json({ error: leagueValidation.errorMessage }, { status: 400 });
+    }
+
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    // Verify user has access to this league
+    const { data: membership } = await supabaseAdmin
+      .from('league_memberships')
+      .select('league_id')
+      .eq('league_id', leagueId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!membership) {
+      return NextResponse.json({ error: 'League not found or access denied' }, { status: 404 });
+    }
+
+    const { data: rules, error: rulesError } = await supabaseAdmin
+      .from('league_pick_rules')
+      .select('*')
+      .eq('league_id', leagueId)
+      .single();
+
+    if (rulesError && rulesError.code !== 'PGRST116') { // PGRST116 is "no rows returned"
+      return NextResponse.json({ error: 'Failed to fetch pick rules' }, { status: 500 });
+    }
+
+    // Return default rules if none exist
+    const pickRules = rules || {
+      league_id: parseInt(leagueId),
+      ...DEFAULT_PICK_RULES,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    };
+
+    return NextResponse.json({
+      success: true,
+      pick_rules: pickRules
+    });
+
+  } catch (err) {
+    console.error('API: Get pick rules error:', err);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: PickRulesRequest = await request.json();
+    const { league_id, ...input } = body;
+
+    if (!league_id) {
+      return NextResponse.json({ error: 'League ID is required' }, { status: 400 });
+    }
+
+    const leagueValidation = validateId(league_id.toString(), 'League ID');
+    if (!leagueValidation.isValid) {
+      return NextResponse.json({ error: leagueValidation.errorMessage }, { status: 400 });
+    }
+
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    // Verify user is admin of this league
+    const { data: league } = await supabaseAdmin
+      .from('leagues')
+      .select('id, admin_id')
+      .eq('id', league_id)
+      .eq('admin_id', user.id)
+      .single();
+
+    if (!league) {
+      return NextResponse.json({ error: 'League not found or insufficient permissions' }, { status: 403 });
+    }
+
+    const rulesValidation = validatePickRules(input);
+    if (!rulesValidation.isValid || !rulesValidation.rules) {
+      return NextResponse.json({ error: rulesValidation.errorMessage }, { status: 400 });
+    }
+
+    const { data: updatedRules, error: upsertError } = await supabaseAdmin
+      .from('league_pick_rules')
+      .upsert({
+        league_id,
+        ...rulesValidation.rules,
+        updated_at: new Date().toISOString()
+      }, {
+        onConflict: 'league_id'
+      })
+      .select()
+      .single();
+
+    if (upsertError) {
+      console.error('Failed to upsert pick rules:', upsertError);
+      return NextResponse.json({ error: 'Failed to update pick rules' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Pick rules updated successfully',
+      pick_rules: updatedRules
+    });
+
+  } catch (err) {
+    console.error('API: Update pick rules error:', err);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const leagueId = searchParams.get('league_id');
+
+    if (!leagueId) {
+      return NextResponse.json({ error: 'League ID is required' }, { status: 400 });
+    }
+
+    const leagueValidation = validateId(leagueId, 'League ID');
+    if (!leagueValidation.isValid) {
+      return NextResponse.json({ error: leagueValidation.errorMessage }, { status: 400 });
+    }
+
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    // Verify user is admin of this league
+    const { data: league } = await supabaseAdmin
+      .from('leagues')
+      .select('id, admin_id')
+      .eq('id', leagueId)
+      .eq('admin_id', user.id)
+      .single();
+
+    if (!league) {
+      return NextResponse.json({ error: 'League not found or insufficient permissions' }, { status: 403 });
+    }
+
+    // Reset to default pick rules
+    const defaultRules = {
+      league_id: parseInt(leagueId),
+      ...DEFAULT_PICK_RULES,
+      updated_at: new Date().toISOString()
+    };
+
+    const { error: resetError } = await supabaseAdmin
+      .from('league_pick_rules')
+      .upsert(defaultRules, {
+        onConflict: 'league_id'
+      });
+
+    if (resetError) {
+      console.error('Failed to reset pick rules:', resetError);
+      return NextResponse.json({ error: 'Failed to reset pick rules' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Pick rules reset to defaults',
+      pick_rules: defaultRules
+    });
+
+  } catch (err) {
+    console.error('API: Reset pick rules error:', err);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase-server';
+import { validateId } from '@/lib/validation';
+import { rateLimitGeneral } from '@/lib/rate-limit';
+import { editPick, withdrawPick, type PickRevisionResult } from '@/lib/pick-revisions';
+
+/**
+ * Rate limit, validate the pick ID and resolve the signed-in user
+ */
+async function authorize(request: NextRequest, pickId: string) {
+    const ip = request.headers.get('x-forwarded-for') || 'unknown';
+    const rateLimitResult = await rateLimitGeneral(ip);
+
+    if (!rateLimitResult.success) {
+        return {
+            error: NextResponse.json({
+                error: 'Too many requests',
+                message: 'Rate limit exceeded',
+                reset: new Date(rateLimitResult.reset).toISOString()
+            }, {
+                status: 429,
+                headers: {
+                    'X-RateLimit-Limit': rateLimitResult.limit.toString(),
+                    'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
+                    'X-RateLimit-Reset': rateLimitResult.reset.toString()
+                }
+            })
+        };
+    }
+
+    const validation = validateId(pickId, 'Pick ID');
+    if (!validation.isValid) {
+        return { error: NextResponse.json({ error: validation.errorMessage }, { status: 400 }) };
+    }
+
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+        return { error: NextResponse.json({ error: 'Authentication required' }, { status: 401 }) };
+    }
+
+    return { user };
+}
+
+function revisionError(result: Extract<PickRevisionResult, { success: false }>) {
+    return NextResponse.json({ ...result.details, error: result.error }, { status: result.status });
+}
+
+// Change a pick before its game starts. Takes the same body as POST /api/picks.
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: Promise<{ pickId: string }> }
+) {
+    try {
+        const { pickId } = await params;
+
+        const auth = await authorize(request, pickId);
+        if (auth.error) {
+            return auth.error;
+        }
+
+        const body = await request.json();
+
+        const result = await editPick(parseInt(pickId), auth.user.id, body);
+
+        if (!result.success) {
+            return revisionError(result);
+        }
+
+        return NextResponse.json({
+            success: true,
+            pick: result.after,
+            message: 'Pick updated successfully'
+        });
+
+    } catch (err) {
+        console.error('API: Unhandled error:', err);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+// Withdraw a pick before its game starts
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ pickId: string }> }
+) {
+    try {
+        const { pickId } = await params;
+
+        const auth = await authorize(request, pickId);
+        if (auth.error) {
+            return auth.error;
+        }
+
+        const result = await withdrawPick(parseInt(pickId), auth.user.id);
+
+        if (!result.success) {
+            return revisionError(result);
+        }
+
+        return NextResponse.json({
+            success: true,
+            pick_id: result.pickId,
+            message: 'Pick withdrawn'
+        });
+
+    } catch (err) {
+        console.error('API: Unhandled error:', err);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
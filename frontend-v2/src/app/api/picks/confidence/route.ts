@@ -0,0 +1,211 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase-server';
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import { validateId, validateSeasonType } from '@/lib/validation';
+import { rateLimitGeneral } from '@/lib/rate-limit';
+import { lockLine, type LineLock } from '@/lib/line-lock';
+import { validateSelection, type PickSelection } from '@/lib/selection';
+import { getSeasonLeagueFormat } from '@/lib/league-format';
+import { getWeekSlate, replaceConfidencePicks, validateConfidencePicks } from '@/lib/confidence-pool';
+
+/**
+ * Submit a full week of confidence pool picks
+ * POST /api/picks/confidence?season_id=123
+ * Body: { season_year, season_type, week, picks: [{ game_id, side, confidence, ... }] }
+ *
+ * Replaces the member's picks for every game that hasn't kicked off yet.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        // Rate limiting
+        const ip = request.headers.get('x-forwarded-for') || 'unknown';
+        const rateLimitResult = await rateLimitGeneral(ip);
+
+        if (!rateLimitResult.success) {
+            return NextResponse.json({
+                error: 'Too many requests',
+                message: 'Rate limit exceeded',
+                reset: new Date(rateLimitResult.reset).toISOString()
+            }, {
+                status: 429,
+                headers: {
+                    'X-RateLimit-Limit': rateLimitResult.limit.toString(),
+                    'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
+                    'X-RateLimit-Reset': rateLimitResult.reset.toString()
+                }
+            });
+        }
+
+        const supabase = await createServerSupabaseClient();
+        const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+        if (userError || !user) {
+            return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+        }
+
+        const { searchParams } = new URL(request.url);
+        const seasonId = searchParams.get('season_id');
+
+        const seasonIdValidation = validateId(seasonId, 'Season ID');
+        if (!seasonIdValidation.isValid) {
+            return NextResponse.json({ error: seasonIdValidation.errorMessage }, { status: 400 });
+        }
+
+        const { season_year, season_type = 2, week, picks } = await request.json();
+
+        const weekValidation = validateId(week?.toString(), 'Week');
+        if (!weekValidation.isValid) {
+            return NextResponse.json({ error: weekValidation.errorMessage }, { status: 400 });
+        }
+
+        const yearValidation = validateId(season_year?.toString(), 'Season year');
+        if (!yearValidation.isValid) {
+            return NextResponse.json({ error: yearValidation.errorMessage }, { status: 400 });
+        }
+
+        const seasonTypeValidation = validateSeasonType(season_type?.toString());
+        if (!seasonTypeValidation.isValid) {
+            return NextResponse.json({ error: seasonTypeValidation.errorMessage }, { status: 400 });
+        }
+
+        // Verify user has access to this season
+        const { data: season } = await supabaseAdmin
+            .from('seasons')
+            .select(`
+                id,
+                leagues!inner(
+                    id,
+                    league_memberships!inner(user_id)
+                )
+            `)
+            .eq('id', seasonId)
+            .eq('leagues.league_memberships.user_id', user.id)
+            .single();
+
+        if (!season) {
+            return NextResponse.json({ error: 'Season not found or access denied' }, { status: 404 });
+        }
+
+        const leagueFormat = await getSeasonLeagueFormat(seasonId as string);
+        if (!leagueFormat) {
+            return NextResponse.json({ error: 'Season not found' }, { status: 404 });
+        }
+
+        if (leagueFormat.format !== 'confidence') {
+            return NextResponse.json({ error: 'This league is not a confidence pool' }, { status: 400 });
+        }
+
+        const weekNumber = Number(week);
+        const seasonType = Number(season_type);
+
+        const slate = await getWeekSlate(Number(season_year), seasonType, weekNumber);
+        if (!slate || slate.games.length === 0) {
+            return NextResponse.json({ error: 'This week has no games on the NFL calendar yet' }, { status: 400 });
+        }
+
+        // Picks on games that have kicked off stay as they are
+        const { data: existingPicks, error: existingError } = await supabaseAdmin
+            .from('picks')
+            .select('id, game_id, confidence, games!inner(start_time)')
+            .eq('user_id', user.id)
+            .eq('season_id', seasonId)
+            .eq('week', weekNumber)
+            .eq('season_type', seasonType);
+
+        if (existingError) {
+            console.error('Error checking existing picks:', existingError);
+            return NextResponse.json({ error: 'Error checking existing picks' }, { status: 500 });
+        }
+
+        const now = new Date();
+        const isLocked = (pick: { games: unknown }) =>
+            now >= new Date((pick.games as { start_time: string }).start_time);
+        const lockedPicks = (existingPicks || []).filter(isLocked);
+        const openPickIds = (existingPicks || []).filter(pick => !isLocked(pick)).map(pick => pick.id);
+
+        const picksValidation = validateConfidencePicks(picks, slate.games, lockedPicks, now);
+        if (!picksValidation.isValid || !picksValidation.picks) {
+            return NextResponse.json({ error: picksValidation.errorMessage }, { status: 400 });
+        }
+
+        const betType = leagueFormat.confidence.bet_type;
+        const selections: PickSelection[] = [];
+        for (const pick of picksValidation.picks) {
+            const selectionValidation = validateSelection(
+                { market: betType, side: pick.side, line: betType === 'spread' ? pick.expected_point : null },
+                betType
+            );
+            if (!selectionValidation.isValid || !selectionValidation.selection) {
+                return NextResponse.json({ error: selectionValidation.errorMessage }, { status: 400 });
+            }
+            selections.push(selectionValidation.selection);
+        }
+
+        // Lock every line before replacing anything so a moved market leaves the old picks intact
+        const lockResults = await Promise.all(picksValidation.picks.map((pick, index) => lockLine({
+            gameId: pick.game_id,
+            selection: selections[index],
+            sportsbook: pick.sportsbook ?? null,
+            expectedPoint: pick.expected_point ?? null,
+            expectedPrice: pick.expected_price ?? null
+        })));
+
+        const lineLocks: Array<{ lock: LineLock; selection: PickSelection; label: string }> = [];
+        for (const [index, lockResult] of lockResults.entries()) {
+            if (!lockResult.success) {
+                return NextResponse.json({
+                    error: lockResult.error,
+                    current_line: lockResult.currentLine,
+                    game_id: picksValidation.picks[index].game_id
+                }, { status: 409 });
+            }
+            lineLocks.push(lockResult);
+        }
+
+        // The old picks are only removed if every new pick is saved
+        let newPicks;
+        try {
+            newPicks = await replaceConfidencePicks(
+                user.id,
+                Number(seasonId),
+                seasonType,
+                weekNumber,
+                openPickIds,
+                picksValidation.picks.map((pick, index) => ({
+                    game_id: pick.game_id,
+                    bet_type: betType,
+                    selection: lineLocks[index].label,
+                    selection_data: lineLocks[index].selection,
+                    confidence: pick.confidence,
+                    odds_snapshot_id: lineLocks[index].lock.odds_snapshot_id,
+                    locked_sportsbook: lineLocks[index].lock.locked_sportsbook,
+                    locked_point: lineLocks[index].lock.locked_point,
+                    odds_price: lineLocks[index].lock.odds_price,
+                    locked_at: lineLocks[index].lock.locked_at
+                }))
+            );
+        } catch (replaceError) {
+            // A game kicked off between the check above and the write
+            if (replaceError instanceof Error && replaceError.message.includes('are locked')) {
+                return NextResponse.json({
+                    error: 'A game has started since you loaded this week. Its pick is locked, so review your picks and submit again.'
+                }, { status: 409 });
+            }
+
+            return NextResponse.json({
+                error: 'Failed to save confidence picks',
+                details: replaceError instanceof Error ? replaceError.message : 'Unknown error'
+            }, { status: 500 });
+        }
+
+        return NextResponse.json({
+            success: true,
+            picks: newPicks,
+            message: `${newPicks.length} confidence picks submitted`
+        });
+
+    } catch (err) {
+        console.error('API: Unhandled error:', err);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
@@ -1,8 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabaseClient } from '@/lib/supabase-server';
 import { supabaseAdmin } from '@/lib/supabase-admin';
-import { validateId, validateRequestBody } from '@/lib/validation';
+import { validateId, validateSeasonType } from '@/lib/validation';
 import { rateLimitGeneral } from '@/lib/rate-limit';
+import { createPickVisibilityCheck, type VisibilityPick } from '@/lib/pick-visibility';
+import { getTicketColumns, prepareTicket, validateTicket } from '@/lib/pick-tickets';
+import { withdrawPick } from '@/lib/pick-revisions';
 
 export async function GET(request: NextRequest) {
     try {
@@ -28,9 +31,17 @@ export async function GET(request: NextRequest) {
         const supabase = await createServerSupabaseClient();
         const { searchParams } = new URL(request.url);
         const week = searchParams.get('week');
+        const seasonType = searchParams.get('season_type');
         const seasonId = searchParams.get('season_id');
         const userOnly = searchParams.get('user_only') === 'true';
 
+        if (seasonType) {
+            const seasonTypeValidation = validateSeasonType(seasonType);
+            if (!seasonTypeValidation.isValid) {
+                return NextResponse.json({ error: seasonTypeValidation.errorMessage }, { status: 400 });
+            }
+        }
+
         const { data: { user }, error: userError } = await supabase.auth.getUser();
 
         if (userError || !user) {
@@ -42,6 +53,7 @@ export async function GET(request: NextRequest) {
             .from('picks')
             .select(`
                 id,
+                user_id,
                 game_id,
                 season_id,
                 bet_type,
@@ -49,7 +61,37 @@ export async function GET(request: NextRequest) {
                 result,
                 points_awarded,
                 week,
+                season_type,
+                confidence,
                 created_at,
+                selection_data,
+                player_prop_id,
+                odds_price,
+                odds_snapshot_id,
+                locked_sportsbook,
+                locked_point,
+                locked_at,
+                pick_type,
+                pick_legs(
+                    id,
+                    game_id,
+                    bet_type,
+                    selection,
+                    selection_data,
+                    player_prop_id,
+                    leg_order,
+                    odds_price,
+                    locked_sportsbook,
+                    locked_point,
+                    locked_at,
+                    result,
+                    games(
+                        id,
+                        start_time,
+                        home_team:teams!games_home_team_id_fkey(name, abbreviation),
+                        away_team:teams!games_away_team_id_fkey(name, abbreviation)
+                    )
+                ),
                 games!inner(
                     id,
                     start_time,
@@ -81,9 +123,11 @@ export async function GET(request: NextRequest) {
             query = query.eq('season_id', seasonId);
         }
 
-        // Filter by week if provided
+        // Filter by week if provided; week numbers restart in the postseason
         if (week) {
-            query = query.eq('week', parseInt(week));
+            query = query
+                .eq('week', parseInt(week))
+                .eq('season_type', seasonType ? parseInt(seasonType) : 2);
         }
 
         // Order by creation date
@@ -96,8 +140,11 @@ export async function GET(request: NextRequest) {
             return NextResponse.json({ error: 'Failed to fetch picks' }, { status: 500 });
         }
 
+        // Admins listing every pick still can't see other members' picks before they lock
+        const isVisible = await createPickVisibilityCheck(user.id, (picks || []) as unknown as VisibilityPick[]);
+
         return NextResponse.json({
-            picks: picks || [],
+            picks: (picks || []).filter(pick => isVisible(pick as unknown as VisibilityPick)),
             week: week ? parseInt(week) : null
         });
 
@@ -128,7 +175,7 @@ export async function POST(request: NextRequest) {
             });
         }
 
-        const { game_id, bet_type, selection } = await request.json();
+        const body = await request.json();
         const supabase = await createServerSupabaseClient();
 
         const { data: { user }, error: userError } = await supabase.auth.getUser();
@@ -137,45 +184,12 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
         }
 
-        // Validate game_id to prevent SQL injection
-        const gameIdValidation = validateId(game_id, 'Game ID');
-        if (!gameIdValidation.isValid) {
-            return NextResponse.json({ error: gameIdValidation.errorMessage }, { status: 400 });
-        }
-
-        // Validate bet_type and selection
-        const bodyValidation = validateRequestBody(
-            { bet_type, selection },
-            { bet_type: 'string', selection: 'string' }
-        );
-        if (!bodyValidation.isValid) {
-            return NextResponse.json({ error: bodyValidation.errorMessage }, { status: 400 });
-        }
-
-        if (!['moneyline', 'spread', 'total'].includes(bet_type)) {
-            return NextResponse.json({ error: 'Invalid bet type' }, { status: 400 });
-        }
-
-        // Check if game exists and hasn't started
-        const { data: game, error: gameError } = await supabaseAdmin
-            .from('games')
-            .select('id, start_time')
-            .eq('id', game_id)
-            .single();
-
-        if (gameError || !game) {
-            return NextResponse.json({ error: 'Game not found' }, { status: 404 });
-        }
-
-        // Check if game has started (deadline enforcement)
-        const gameTime = new Date(game.start_time);
-        const now = new Date();
-
-        if (now >= gameTime) {
-            return NextResponse.json({
-                error: 'Game has already started. Picks are no longer allowed.'
-            }, { status: 400 });
+        const ticketValidation = validateTicket(body, body.pick_type ?? 'straight');
+        if (!ticketValidation.isValid || !ticketValidation.ticket) {
+            return NextResponse.json({ error: ticketValidation.errorMessage }, { status: 400 });
         }
+        const ticket = ticketValidation.ticket;
+        const isParlay = ticket.pick_type === 'parlay';
 
         // Get the season_id from the request (this should be passed from frontend)
         const { searchParams } = new URL(request.url);
@@ -191,71 +205,90 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: seasonIdValidation.errorMessage }, { status: 400 });
         }
 
-        // Get the season info to calculate week
-        const { data: season, error: seasonError } = await supabaseAdmin
-            .from('seasons')
-            .select('id, start_date')
-            .eq('id', seasonId)
-            .single();
-
-        if (seasonError || !season) {
-            return NextResponse.json({ error: 'Season not found' }, { status: 404 });
+        // Deadlines, line locks and the league's format and bet rules
+        const prepared = await prepareTicket(ticket, seasonId, user.id);
+        if (!prepared.success) {
+            return NextResponse.json(prepared.body, { status: prepared.status });
         }
 
-        // Calculate week number based on game start time and season start
-        const seasonStart = new Date(season.start_date);
-        const gameStart = new Date(game.start_time);
-        const weekNumber = Math.ceil((gameStart.getTime() - seasonStart.getTime()) / (7 * 24 * 60 * 60 * 1000));
+        const { game, pickRules } = prepared;
+        const gameWeek = prepared.week;
+        const weekNumber = gameWeek.week;
+        const now = new Date();
 
-        // Check for existing pick this week in this season
-        const { data: existingPick, error: existingError } = await supabaseAdmin
+        // Check for existing picks this week in this season
+        const { data: existingPicks, error: existingError } = await supabaseAdmin
             .from('picks')
-            .select('id, game_id, games!inner(start_time)')
+            .select('id, game_id, result, games!inner(start_time)')
             .eq('user_id', user.id)
             .eq('week', weekNumber)
+            .eq('season_type', gameWeek.season_type)
             .eq('season_id', seasonId)
-            .single();
+            .eq('refunded', false); // Refunded picks on cancelled games give the slot back
 
-        if (existingError && existingError.code !== 'PGRST116') {
+        if (existingError) {
             console.error('Error checking existing pick:', existingError);
             return NextResponse.json({ error: 'Error checking existing picks' }, { status: 500 });
         }
 
-        // If user already has a pick this week, check if we can overwrite it
-        if (existingPick) {
-            // Check if the existing pick's game has started
-            const existingGameTime = new Date((existingPick.games as unknown as { start_time: string }).start_time);
-            const now = new Date();
+        const weekPicks = existingPicks || [];
+
+        if (pickRules.max_picks_per_week === 1) {
+            // One pick a week: a new pick replaces the previous one until its game starts
+            const existingPick = weekPicks[0];
 
-            if (now >= existingGameTime) {
+            if (existingPick) {
+                // Check if the existing pick's game has started
+                const existingGameTime = new Date((existingPick.games as unknown as { start_time: string }).start_time);
+
+                if (now >= existingGameTime) {
+                    return NextResponse.json({
+                        error: `Cannot change pick for Week ${weekNumber}. Your previous pick's game has already started.`,
+                        existing_pick: existingPick
+                    }, { status: 400 });
+                }
+
+                // A pick voided by a cancellation stays on the record unless the league refunded it
+                if (existingPick.result !== null) {
+                    return NextResponse.json({
+                        error: `Cannot change pick for Week ${weekNumber}. Your previous pick was voided.`,
+                        existing_pick: existingPick
+                    }, { status: 400 });
+                }
+
+                // Withdraw the existing pick so we can create a new one
+                const withdrawal = await withdrawPick(existingPick.id, user.id);
+
+                if (!withdrawal.success) {
+                    return NextResponse.json({ error: withdrawal.error }, { status: withdrawal.status });
+                }
+            }
+        } else {
+            if (weekPicks.length >= pickRules.max_picks_per_week) {
                 return NextResponse.json({
-                    error: `Cannot change pick for Week ${weekNumber}. Your previous pick's game has already started.`,
-                    existing_pick: existingPick
+                    error: `You've already made all ${pickRules.max_picks_per_week} picks for Week ${weekNumber}`
                 }, { status: 400 });
             }
 
-            // Delete the existing pick so we can create a new one
-            const { error: deleteError } = await supabaseAdmin
-                .from('picks')
-                .delete()
-                .eq('id', existingPick.id);
-
-            if (deleteError) {
-                console.error('Error deleting existing pick:', deleteError);
-                return NextResponse.json({ error: 'Failed to update pick' }, { status: 500 });
+            const gamePickCount = weekPicks.filter(pick => pick.game_id === game.id).length;
+            if (gamePickCount >= pickRules.max_picks_per_game) {
+                return NextResponse.json({
+                    error: `This league allows ${pickRules.max_picks_per_game} pick${pickRules.max_picks_per_game > 1 ? 's' : ''} per game`
+                }, { status: 400 });
             }
         }
 
         // Create the new pick
+        const columns = getTicketColumns(ticket, prepared.locks);
         const { data: newPick, error: createError } = await supabaseAdmin
             .from('picks')
             .insert({
                 user_id: user.id,
-                game_id,
+                game_id: game.id,
                 season_id: seasonId,
-                bet_type,
-                selection,
+                ...columns.pick,
                 week: weekNumber,
+                season_type: gameWeek.season_type,
                 result: null // Will be updated when game completes
             })
             .select()
@@ -268,6 +301,28 @@ export async function POST(request: NextRequest) {
             }, { status: 500 });
         }
 
+        if (isParlay) {
+            const { data: newLegs, error: legsError } = await supabaseAdmin
+                .from('pick_legs')
+                .insert(columns.legs.map(leg => ({ pick_id: newPick.id, ...leg })))
+                .select();
+
+            if (legsError) {
+                // Don't leave an empty parlay behind
+                await supabaseAdmin.from('picks').delete().eq('id', newPick.id);
+                return NextResponse.json({
+                    error: 'Failed to create parlay legs',
+                    details: legsError.message
+                }, { status: 500 });
+            }
+
+            return NextResponse.json({
+                success: true,
+                pick: { ...newPick, pick_legs: newLegs },
+                message: 'Parlay submitted successfully'
+            });
+        }
+
         return NextResponse.json({
             success: true,
             pick: newPick,
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase-server';
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import { validateId, validateWeek, validateSeasonType } from '@/lib/validation';
+import { projectStandings, type MemberProjection } from '@/lib/projections';
+
+/**
+ * Projected standings
+ * GET /api/projections?season_id=&week=&season_type=
+ *
+ * Simulates the season's pending picks to give each member's chance of winning
+ * the week and the season, and their projected points once those picks settle.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const seasonId = searchParams.get('season_id');
+    const week = searchParams.get('week');
+    const seasonType = searchParams.get('season_type') || '2';
+
+    if (!seasonId || !week) {
+      return NextResponse.json({ error: 'Season ID and week are required' }, { status: 400 });
+    }
+
+    const seasonValidation = validateId(seasonId, 'Season ID');
+    if (!seasonValidation.isValid) {
+      return NextResponse.json({ error: seasonValidation.errorMessage }, { status: 400 });
+    }
+
+    const weekValidation = validateWeek(week);
+    if (!weekValidation.isValid) {
+      return NextResponse.json({ error: weekValidation.errorMessage }, { status: 400 });
+    }
+
+    const seasonTypeValidation = validateSeasonType(seasonType);
+    if (!seasonTypeValidation.isValid) {
+      return NextResponse.json({ error: seasonTypeValidation.errorMessage }, { status: 400 });
+    }
+
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    // Verify user has access to this season
+    const { data: season } = await supabaseAdmin
+      .from('seasons')
+      .select(`
+        id,
+        league_id,
+        leagues!inner(
+          id,
+          league_memberships!inner(user_id)
+        )
+      `)
+      .eq('id', seasonId)
+      .eq('leagues.league_memberships.user_id', user.id)
+      .single();
+
+    if (!season) {
+      return NextResponse.json({ error: 'Season not found or access denied' }, { status: 404 });
+    }
+
+    const projection = await projectStandings(
+      parseInt(seasonId),
+      season.league_id,
+      parseInt(week),
+      parseInt(seasonType)
+    );
+
+    const markCurrentUser = (standings: MemberProjection[]) =>
+      standings.map(standing => ({ ...standing, is_current_user: standing.user_id === user.id }));
+
+    return NextResponse.json({
+      success: true,
+      season_id: seasonId,
+      week: parseInt(week),
+      season_type: parseInt(seasonType),
+      simulations: projection.simulations,
+      week_standings: markCurrentUser(projection.week_standings),
+      season_standings: markCurrentUser(projection.season_standings)
+    });
+
+  } catch (err) {
+    console.error('API: Projections error:', err);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase-server';
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import { validateId } from '@/lib/validation';
+
+// How many recent corrections a league sees
+const CORRECTIONS_LIMIT = 10;
+
+interface TeamRef {
+  abbreviation: string;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const leagueId = searchParams.get('league_id');
+
+    const leagueValidation = validateId(leagueId, 'League ID');
+    if (!leagueValidation.isValid) {
+      return NextResponse.json({ error: leagueValidation.errorMessage }, { status: 400 });
+    }
+
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    // Verify user has access to this league
+    const { data: membership } = await supabaseAdmin
+      .from('league_memberships')
+      .select('league_id')
+      .eq('league_id', leagueId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!membership) {
+      return NextResponse.json({ error: 'League not found or access denied' }, { status: 404 });
+    }
+
+    const { data: seasons, error: seasonsError } = await supabaseAdmin
+      .from('seasons')
+      .select('id')
+      .eq('league_id', leagueId);
+
+    if (seasonsError) {
+      return NextResponse.json({ error: 'Failed to fetch seasons' }, { status: 500 });
+    }
+
+    const seasonIds = (seasons || []).map(season => season.id);
+    if (seasonIds.length === 0) {
+      return NextResponse.json({ success: true, corrections: [] });
+    }
+
+    // Corrections that changed nothing in any league aren't worth showing
+    const { data: corrections, error: correctionsError } = await supabaseAdmin
+      .from('score_corrections')
+      .select(`
+        id,
+        game_id,
+        reason,
+        old_home_score,
+        old_away_score,
+        new_home_score,
+        new_away_score,
+        picks_changed,
+        created_at,
+        games!inner(
+          season_id,
+          week,
+          season_type,
+          home_team:teams!games_home_team_id_fkey(abbreviation),
+          away_team:teams!games_away_team_id_fkey(abbreviation)
+        )
+      `)
+      .in('games.season_id', seasonIds)
+      .gt('picks_changed', 0)
+      .order('created_at', { ascending: false })
+      .limit(CORRECTIONS_LIMIT);
+
+    if (correctionsError) {
+      console.error('API: Error fetching score corrections:', correctionsError);
+      return NextResponse.json({ error: 'Failed to fetch score corrections' }, { status: 500 });
+    }
+
+    // Which of the current user's picks each correction changed
+    const { data: userAudits } = await supabaseAdmin
+      .from('pick_scoring_audit')
+      .select('score_correction_id, pick_id, picks!inner(user_id)')
+      .in('score_correction_id', (corrections || []).map(correction => correction.id))
+      .eq('picks.user_id', user.id);
+
+    const userPicksByCorrection = new Map<number, Set<number>>();
+    for (const audit of userAudits || []) {
+      const pickIds = userPicksByCorrection.get(audit.score_correction_id) || new Set<number>();
+      pickIds.add(audit.pick_id);
+      userPicksByCorrection.set(audit.score_correction_id, pickIds);
+    }
+
+    const formatted = (corrections || []).map(correction => {
+      const game = Array.isArray(correction.games) ? correction.games[0] : correction.games;
+      const homeTeam = (Array.isArray(game?.home_team) ? game?.home_team[0] : game?.home_team) as TeamRef | null;
+      const awayTeam = (Array.isArray(game?.away_team) ? game?.away_team[0] : game?.away_team) as TeamRef | null;
+
+      return {
+        id: correction.id,
+        game_id: correction.game_id,
+        reason: correction.reason,
+        week: game?.week ?? null,
+        season_type: game?.season_type ?? null,
+        home_team: homeTeam?.abbreviation ?? 'HOME',
+        away_team: awayTeam?.abbreviation ?? 'AWAY',
+        old_home_score: correction.old_home_score,
+        old_away_score: correction.old_away_score,
+        new_home_score: correction.new_home_score,
+        new_away_score: correction.new_away_score,
+        picks_changed: correction.picks_changed,
+        my_picks_changed: userPicksByCorrection.get(correction.id)?.size ?? 0,
+        created_at: correction.created_at
+      };
+    });
+
+    return NextResponse.json({
+      success: true,
+      corrections: formatted
+    });
+
+  } catch (err) {
+    console.error('API: Get score corrections error:', err);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
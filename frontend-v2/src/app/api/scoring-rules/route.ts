@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabaseClient } from '@/lib/supabase-server';
 import { supabaseAdmin } from '@/lib/supabase-admin';
 import { validateId } from '@/lib/validation';
+import { DEFAULT_TIEBREAKERS, validateTiebreakers } from '@/lib/tiebreakers';
 
 interface ScoringRulesRequest {
   league_id: number;
@@ -10,8 +11,20 @@ interface ScoringRulesRequest {
   points_per_push?: number;
   streak_bonus?: number;
   weekly_winner_bonus?: number;
+  parlay_push_rule?: string;
+  scoring_mode?: string;
+  overtime_rule?: string;
+  playoff_multipliers?: Record<string, number>;
+  tiebreakers?: string[];
 }
 
+const PARLAY_PUSH_RULES = ['reduce', 'push', 'loss'];
+const SCORING_MODES = ['flat', 'odds_weighted'];
+const OVERTIME_RULES = ['include_ot', 'regulation_only'];
+// ESPN postseason weeks: Wild Card, Divisional, Conference, (4 is the Pro Bowl), Super Bowl
+const PLAYOFF_WEEKS = ['1', '2', '3', '5'];
+const MAX_PLAYOFF_MULTIPLIER = 10;
+
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
@@ -64,6 +77,11 @@ export async function GET(request: NextRequest) {
       points_per_push: 0,
       streak_bonus: 0,
       weekly_winner_bonus: 0,
+      parlay_push_rule: 'reduce',
+      scoring_mode: 'flat',
+      overtime_rule: 'include_ot',
+      playoff_multipliers: {},
+      tiebreakers: DEFAULT_TIEBREAKERS,
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString()
     };
@@ -82,7 +100,7 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body: ScoringRulesRequest = await request.json();
-    const { league_id, points_per_win, points_per_loss, points_per_push, streak_bonus, weekly_winner_bonus } = body;
+    const { league_id, points_per_win, points_per_loss, points_per_push, streak_bonus, weekly_winner_bonus, parlay_push_rule, scoring_mode, overtime_rule, playoff_multipliers, tiebreakers } = body;
 
     if (!league_id) {
       return NextResponse.json({ error: 'League ID is required' }, { status: 400 });
@@ -120,6 +138,11 @@ export async function POST(request: NextRequest) {
       points_per_push: points_per_push ?? 0,
       streak_bonus: streak_bonus ?? 0,
       weekly_winner_bonus: weekly_winner_bonus ?? 0,
+      parlay_push_rule: parlay_push_rule ?? 'reduce',
+      scoring_mode: scoring_mode ?? 'flat',
+      overtime_rule: overtime_rule ?? 'include_ot',
+      playoff_multipliers: playoff_multipliers ?? {},
+      tiebreakers: tiebreakers ?? DEFAULT_TIEBREAKERS,
       updated_at: new Date().toISOString()
     };
 
@@ -144,6 +167,36 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Weekly winner bonus must be between 0 and 100' }, { status: 400 });
     }
 
+    if (!PARLAY_PUSH_RULES.includes(rules.parlay_push_rule)) {
+      return NextResponse.json({ error: 'Parlay push rule must be one of: reduce, push, loss' }, { status: 400 });
+    }
+
+    if (!SCORING_MODES.includes(rules.scoring_mode)) {
+      return NextResponse.json({ error: 'Scoring mode must be one of: flat, odds_weighted' }, { status: 400 });
+    }
+
+    if (!OVERTIME_RULES.includes(rules.overtime_rule)) {
+      return NextResponse.json({ error: 'Overtime rule must be one of: include_ot, regulation_only' }, { status: 400 });
+    }
+
+    if (typeof rules.playoff_multipliers !== 'object' || Array.isArray(rules.playoff_multipliers) || rules.playoff_multipliers === null) {
+      return NextResponse.json({ error: 'Playoff multipliers must be an object keyed by postseason week' }, { status: 400 });
+    }
+
+    for (const [round, multiplier] of Object.entries(rules.playoff_multipliers)) {
+      if (!PLAYOFF_WEEKS.includes(round)) {
+        return NextResponse.json({ error: `Unknown playoff week: ${round}` }, { status: 400 });
+      }
+      if (typeof multiplier !== 'number' || multiplier <= 0 || multiplier > MAX_PLAYOFF_MULTIPLIER) {
+        return NextResponse.json({ error: `Playoff multipliers must be between 0 and ${MAX_PLAYOFF_MULTIPLIER}` }, { status: 400 });
+      }
+    }
+
+    const tiebreakerValidation = validateTiebreakers(rules.tiebreakers);
+    if (!tiebreakerValidation.isValid) {
+      return NextResponse.json({ error: tiebreakerValidation.errorMessage }, { status: 400 });
+    }
+
     // Upsert scoring rules
     const { data: updatedRules, error: upsertError } = await supabaseAdmin
       .from('league_scoring_rules')
@@ -211,6 +264,11 @@ export async function DELETE(request: NextRequest) {
       points_per_push: 0,
       streak_bonus: 0,
       weekly_winner_bonus: 0,
+      parlay_push_rule: 'reduce',
+      scoring_mode: 'flat',
+      overtime_rule: 'include_ot',
+      playoff_multipliers: {},
+      tiebreakers: DEFAULT_TIEBREAKERS,
       updated_at: new Date().toISOString()
     };
 
@@ -9,15 +9,17 @@ import {
   type ProcessedGameData,
 } from '@/lib/espn-monitor';
 import {
-  ScoringCalculator,
-  getLeagueScoringRules,
-  recalculateUserSeasonStats
-} from '@/lib/scoring';
+  buildGameScoringPlan,
+  applyGameScoring,
+  finishScoringEvent,
+  finishPendingScoringEvents
+} from '@/lib/game-scoring';
 
 interface DatabaseGame {
   id: number;
   espn_game_id: string;
   status: string;
+  season_id: number | null;
   home_team: {
     abbreviation: string;
   };
@@ -26,22 +28,8 @@ interface DatabaseGame {
   };
 }
 
-interface DatabasePick {
-  id: number;
-  user_id: string;
-  game_id: number;
-  bet_type: string;
-  selection: string;
-  result: string | null;
-  points_awarded: number;
-  week: number;
-}
-
 export async function POST(request: NextRequest) {
   const startTime = Date.now();
-  const currentWeek = getCurrentNFLWeek();
-
-  console.log(`Starting automated scoring for week ${currentWeek}`);
 
   try {
     // Rate limiting
@@ -82,13 +70,21 @@ export async function POST(request: NextRequest) {
         message: 'Valid CRON secret required'
       }, { status: 401 });
     }
-    // 1. Fetch ESPN scoreboard data
+    // 1. Fetch ESPN scoreboard data for the calendar's current week
+    const calendarWeek = await getCurrentNFLWeek();
+    const currentWeek = calendarWeek?.week ?? null;
+    const scoreboardEndpoint = calendarWeek
+      ? `/apis/site/v2/sports/football/nfl/scoreboard?seasontype=${calendarWeek.season_type}&week=${calendarWeek.week}`
+      : '/apis/site/v2/sports/football/nfl/scoreboard';
+
+    console.log(`Starting automated scoring for ${calendarWeek?.label ?? 'the current ESPN week'}`);
+
     let espnData;
     let espnError: string | null = null;
     let responseTimeMs = 0;
 
     try {
-      espnData = await fetchESPNScoreboard(currentWeek);
+      espnData = await fetchESPNScoreboard(calendarWeek?.week, calendarWeek?.season_type);
       responseTimeMs = Date.now() - startTime;
     } catch (error) {
       responseTimeMs = Date.now() - startTime;
@@ -96,7 +92,7 @@ export async function POST(request: NextRequest) {
 
       // Log failed API call
       await supabaseAdmin.from('espn_api_calls').insert({
-        endpoint: `/apis/site/v2/sports/football/nfl/scoreboard?week=${currentWeek}`,
+        endpoint: scoreboardEndpoint,
         week: currentWeek,
         status_code: 0,
         games_found: 0,
@@ -118,15 +114,22 @@ export async function POST(request: NextRequest) {
 
     console.log(`ESPN data processed: ${processedGames.length} total games, ${completedGames.length} completed`);
 
-    // 3. Find newly completed games (not already scored)
+    // 3. Finish stats for games a previous run scored but didn't get to recalculate
+    const statsRetried = await finishPendingScoringEvents();
+    if (statsRetried > 0) {
+      console.log(`Finished stats for ${statsRetried} previously scored games`);
+    }
+
+    // 4. Find newly completed games (not already scored)
     const newlyCompletedGames: ProcessedGameData[] = [];
 
     for (const espnGame of completedGames) {
-      // Check if we already processed this game
+      // Check if we already processed this game; failed attempts are retried
       const { data: existingEvent } = await supabaseAdmin
         .from('scoring_events')
         .select('id')
         .eq('espn_game_id', espnGame.espnGameId)
+        .is('error_message', null)
         .single();
 
       if (!existingEvent) {
@@ -136,7 +139,7 @@ export async function POST(request: NextRequest) {
 
     console.log(`Found ${newlyCompletedGames.length} newly completed games to process`);
 
-    // 4. Process each newly completed game
+    // 5. Process each newly completed game
     let totalPicksProcessed = 0;
     let totalPointsAwarded = 0;
     const processedGameIds: string[] = [];
@@ -165,10 +168,10 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // 5. Log successful ESPN API call
+    // 6. Log successful ESPN API call
     await supabaseAdmin.from('espn_api_calls').insert({
-      endpoint: `/apis/site/v2/sports/football/nfl/scoreboard?week=${currentWeek}`,
-      week: currentWeek,
+      endpoint: scoreboardEndpoint,
+      week: currentWeek ?? espnData.week?.number,
       status_code: 200,
       games_found: processedGames.length,
       completed_games: completedGames.length,
@@ -181,7 +184,8 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      week: currentWeek,
+      week: currentWeek ?? espnData.week?.number,
+      seasonType: calendarWeek?.season_type ?? espnData.season?.type,
       summary: {
         totalGames: processedGames.length,
         completedGames: completedGames.length,
@@ -189,6 +193,7 @@ export async function POST(request: NextRequest) {
         picksProcessed: totalPicksProcessed,
         pointsAwarded: totalPointsAwarded,
         processedGameIds,
+        statsRetried,
       },
       timing: {
         espnResponseTime: responseTimeMs,
@@ -207,7 +212,9 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * Process a single completed game and score all picks
+ * Score a single completed game. Picks, parlay legs, their audit rows and the
+ * scoring event are written together by apply_game_scoring, so a failure
+ * leaves the game untouched and it is retried on the next run.
  */
 async function processCompletedGame(espnGame: ProcessedGameData): Promise<{
   picksProcessed: number;
@@ -222,6 +229,7 @@ async function processCompletedGame(espnGame: ProcessedGameData): Promise<{
       id,
       espn_game_id,
       status,
+      season_id,
       home_team:teams!games_home_team_id_fkey(abbreviation),
       away_team:teams!games_away_team_id_fkey(abbreviation)
     `)
@@ -242,6 +250,7 @@ async function processCompletedGame(espnGame: ProcessedGameData): Promise<{
         id,
         espn_game_id,
         status,
+        season_id,
         start_time,
         home_team:teams!games_home_team_id_fkey(abbreviation),
         away_team:teams!games_away_team_id_fkey(abbreviation)
@@ -268,132 +277,51 @@ async function processCompletedGame(espnGame: ProcessedGameData): Promise<{
 
   const typedDbGame = dbGame as unknown as DatabaseGame;
 
-  // 2. Update game status and scores in database
-  await supabaseAdmin
-    .from('games')
-    .update({
-      status: 'completed',
-      home_score: espnGame.homeTeam.score,
-      away_score: espnGame.awayTeam.score,
-    })
-    .eq('id', typedDbGame.id);
-
-  // 3. Get all picks for this game
-  const { data: picks, error: picksError } = await supabaseAdmin
-    .from('picks')
-    .select('*')
-    .eq('game_id', typedDbGame.id)
-    .is('result', null); // Only unprocessed picks
-
-  if (picksError) {
-    throw new Error(`Failed to fetch picks for game ${typedDbGame.id}: ${picksError.message}`);
-  }
-
-  if (!picks || picks.length === 0) {
-    console.log(`No picks found for game ${typedDbGame.id}`);
-
-    // Still create scoring event to mark as processed
-    await supabaseAdmin.from('scoring_events').insert({
-      game_id: typedDbGame.id,
-      espn_game_id: espnGame.espnGameId,
-      status_before: typedDbGame.status,
-      status_after: 'completed',
-      home_score: espnGame.homeTeam.score,
-      away_score: espnGame.awayTeam.score,
-      picks_processed: 0,
-      points_awarded: 0,
-    });
-
-    return { picksProcessed: 0, pointsAwarded: 0 };
-  }
-
-  // 4. Get scoring rules for the season's league
-  const { data: seasonData } = await supabaseAdmin
-    .from('seasons')
-    .select('league_id')
-    .eq('id', (await supabaseAdmin
-      .from('games')
-      .select('season_id')
-      .eq('id', typedDbGame.id)
-      .single()
-    ).data?.season_id)
-    .single();
-
-  const scoringRules = await getLeagueScoringRules(seasonData?.league_id || 1);
-  const calculator = new ScoringCalculator(scoringRules);
-
-  // 5. Score each pick using enhanced calculation
-  let pointsAwarded = 0;
-  const pickUpdates: Array<{ id: number; result: string; points_awarded: number }> = [];
-  const affectedUsers = new Set<string>();
-
-  for (const pick of picks as DatabasePick[]) {
-    const gameResult = {
-      home_score: espnGame.homeTeam.score || 0,
-      away_score: espnGame.awayTeam.score || 0,
-      status: 'completed'
-    };
-
-    const pickResult = calculator.calculatePick(pick, gameResult);
-
-    pickUpdates.push({
-      id: pick.id,
-      result: pickResult.result,
-      points_awarded: pickResult.points,
-    });
-
-    pointsAwarded += pickResult.points;
-    affectedUsers.add(pick.user_id);
-
-    // Log detailed scoring for debugging
-    console.log(`Pick ${pick.id}: ${pick.bet_type} ${pick.selection} -> ${pickResult.result} (${pickResult.points} pts) - ${pickResult.explanation}`);
-  }
+  const gameResult = {
+    home_score: espnGame.homeTeam.score || 0,
+    away_score: espnGame.awayTeam.score || 0,
+    status: 'completed',
+    home_linescores: espnGame.homeTeam.linescores ?? null,
+    away_linescores: espnGame.awayTeam.linescores ?? null
+  };
 
-  // 6. Update all picks in batch
-  for (const update of pickUpdates) {
+  // Keep the final linescores so period picks can be re-graded later
+  if (gameResult.home_linescores && gameResult.away_linescores) {
     await supabaseAdmin
-      .from('picks')
+      .from('games')
       .update({
-        result: update.result,
-        points_awarded: update.points_awarded,
+        home_linescores: gameResult.home_linescores,
+        away_linescores: gameResult.away_linescores
       })
-      .eq('id', update.id);
+      .eq('id', typedDbGame.id);
   }
 
-  // 7. Recalculate user season stats for affected users
-  const { data: gameSeasonData } = await supabaseAdmin
-    .from('games')
-    .select('season_id')
-    .eq('id', typedDbGame.id)
-    .single();
+  // 2. Grade straight picks and parlay legs with each pick's league rules, and settle finished parlays
+  const plan = await buildGameScoringPlan(typedDbGame.id, gameResult);
 
-  if (gameSeasonData?.season_id) {
-    for (const userId of affectedUsers) {
-      try {
-        await recalculateUserSeasonStats(userId, gameSeasonData.season_id);
-      } catch (error) {
-        console.error(`Failed to recalculate stats for user ${userId}:`, error);
-      }
-    }
+  for (const change of plan.picks) {
+    console.log(`Pick ${change.pick_id} -> ${change.new_result} (${change.points} pts) - ${change.explanation}`);
   }
 
-  // 8. Create scoring event record
-  await supabaseAdmin.from('scoring_events').insert({
-    game_id: typedDbGame.id,
-    espn_game_id: espnGame.espnGameId,
-    status_before: typedDbGame.status,
-    status_after: 'completed',
-    home_score: espnGame.homeTeam.score,
-    away_score: espnGame.awayTeam.score,
-    picks_processed: picks.length,
-    points_awarded: pointsAwarded,
-  });
+  // 3. Write everything in one transaction
+  const outcome = await applyGameScoring(
+    { id: typedDbGame.id, espn_game_id: espnGame.espnGameId, status: typedDbGame.status },
+    gameResult,
+    plan
+  );
 
-  console.log(`Scored ${picks.length} picks for game ${typedDbGame.id}, awarded ${pointsAwarded} points`);
+  if (outcome.alreadyScored) {
+    console.log(`Game ${typedDbGame.id} was already scored by event ${outcome.scoringEventId}`);
+    return { picksProcessed: 0, pointsAwarded: 0 };
+  }
+
+  // 4. Recalculate user season stats for affected users
+  await finishScoringEvent(outcome.scoringEventId);
+
+  console.log(`Scored ${outcome.picksProcessed} picks for game ${typedDbGame.id}, awarded ${outcome.pointsAwarded} points`);
 
   return {
-    picksProcessed: picks.length,
-    pointsAwarded,
+    picksProcessed: outcome.picksProcessed,
+    pointsAwarded: outcome.pointsAwarded,
   };
 }
-
@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import { rateLimitScoringAuto } from '@/lib/rate-limit';
+import { createSeasonCalculators, recalculateUserSeasonStats } from '@/lib/scoring';
+import { gradePlayerPropsForGame } from '@/lib/player-prop-grading';
+
+interface CompletedGameRef {
+  id: number;
+  espn_game_id: string | null;
+  season_id: number;
+}
+
+/**
+ * Automated player prop grading
+ * POST /api/scoring/player-props
+ *
+ * Runs alongside /api/scoring/auto. Game lines are graded as soon as the final
+ * score is in; props wait here until ESPN publishes the box score.
+ */
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+
+  try {
+    // Rate limiting
+    const ip = request.headers.get('x-forwarded-for') || 'unknown';
+    const rateLimitResult = await rateLimitScoringAuto(ip);
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json({
+        error: 'Too many requests',
+        message: 'Rate limit exceeded for scoring endpoint',
+        reset: new Date(rateLimitResult.reset).toISOString()
+      }, {
+        status: 429,
+        headers: {
+          'X-RateLimit-Limit': rateLimitResult.limit.toString(),
+          'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
+          'X-RateLimit-Reset': rateLimitResult.reset.toString()
+        }
+      });
+    }
+
+    // CRON secret validation
+    const cronSecret = process.env.CRON_SECRET;
+    const providedSecret = request.headers.get('authorization')?.replace('Bearer ', '') ||
+                          request.headers.get('x-cron-secret');
+
+    if (!cronSecret) {
+      console.error('CRON_SECRET environment variable not configured');
+      return NextResponse.json({
+        error: 'Server configuration error'
+      }, { status: 500 });
+    }
+
+    if (!providedSecret || providedSecret !== cronSecret) {
+      console.warn('Unauthorized player prop scoring request', { ip, providedSecret: !!providedSecret });
+      return NextResponse.json({
+        error: 'Unauthorized',
+        message: 'Valid CRON secret required'
+      }, { status: 401 });
+    }
+
+    // 1. Find completed games that still have open prop picks or legs
+    const games = await getCompletedGamesWithOpenProps();
+    console.log(`Found ${games.length} completed games with open player props`);
+
+    let totalPicksGraded = 0;
+    let totalLegsGraded = 0;
+    let totalParlaysSettled = 0;
+    let totalPointsAwarded = 0;
+    const gradedGameIds: number[] = [];
+    const failedGames: Array<{ gameId: number; error: string }> = [];
+
+    // 2. Grade each game against its ESPN box score
+    const calculators = createSeasonCalculators();
+    for (const game of games) {
+      if (!game.espn_game_id) {
+        failedGames.push({ gameId: game.id, error: 'Game has no ESPN ID' });
+        continue;
+      }
+
+      try {
+        // Each pick is scored with its own league's rules
+        const result = await gradePlayerPropsForGame(game.id, game.espn_game_id, calculators);
+
+        // 3. Update stats (and therefore standings) for everyone whose pick settled
+        for (const userId of result.affectedUsers) {
+          try {
+            await recalculateUserSeasonStats(userId, game.season_id);
+          } catch (error) {
+            console.error(`Failed to recalculate stats for user ${userId}:`, error);
+          }
+        }
+
+        totalPicksGraded += result.picksGraded;
+        totalLegsGraded += result.legsGraded;
+        totalParlaysSettled += result.parlaysSettled;
+        totalPointsAwarded += result.pointsAwarded;
+        gradedGameIds.push(game.id);
+
+        console.log(`Game ${game.id}: ${result.athletesSynced} athletes, ${result.picksGraded} prop picks, ${result.legsGraded} prop legs graded`);
+      } catch (error) {
+        console.error(`Failed to grade player props for game ${game.id}:`, error);
+        failedGames.push({
+          gameId: game.id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      summary: {
+        gamesChecked: games.length,
+        picksGraded: totalPicksGraded,
+        legsGraded: totalLegsGraded,
+        parlaysSettled: totalParlaysSettled,
+        pointsAwarded: totalPointsAwarded,
+        gradedGameIds,
+        failedGames,
+      },
+      timing: {
+        totalProcessingTime: Date.now() - startTime,
+      },
+    });
+
+  } catch (error) {
+    console.error('Player prop scoring failed:', error);
+
+    return NextResponse.json({
+      error: 'Player prop scoring failed',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
+
+async function getCompletedGamesWithOpenProps(): Promise<CompletedGameRef[]> {
+  const { data: openPicks, error: picksError } = await supabaseAdmin
+    .from('picks')
+    .select('games!inner(id, espn_game_id, season_id, status)')
+    .eq('bet_type', 'player_prop')
+    .eq('games.status', 'completed')
+    .is('result', null);
+
+  if (picksError) {
+    throw new Error(`Failed to fetch open prop picks: ${picksError.message}`);
+  }
+
+  const { data: openLegs, error: legsError } = await supabaseAdmin
+    .from('pick_legs')
+    .select('games!inner(id, espn_game_id, season_id, status)')
+    .eq('bet_type', 'player_prop')
+    .eq('games.status', 'completed')
+    .is('result', null);
+
+  if (legsError) {
+    throw new Error(`Failed to fetch open prop legs: ${legsError.message}`);
+  }
+
+  const games = new Map<number, CompletedGameRef>();
+  for (const row of [...(openPicks || []), ...(openLegs || [])]) {
+    const game = (Array.isArray(row.games) ? row.games[0] : row.games) as CompletedGameRef | undefined;
+    if (game && !games.has(game.id)) {
+      games.set(game.id, { id: game.id, espn_game_id: game.espn_game_id, season_id: game.season_id });
+    }
+  }
+
+  return [...games.values()];
+}
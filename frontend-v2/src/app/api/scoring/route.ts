@@ -2,12 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabaseClient } from '@/lib/supabase-server';
 import { supabaseAdmin } from '@/lib/supabase-admin';
 import { validateId } from '@/lib/validation';
-import {
-  ScoringCalculator,
-  getLeagueScoringRules,
-  recalculateUserSeasonStats,
-  type Pick
-} from '@/lib/scoring';
+import { recalculateUserSeasonStats } from '@/lib/scoring';
+import { applyGameScoring, buildGameScoringPlan, finishScoringEvent, type GameScoringPlan } from '@/lib/game-scoring';
 
 export async function POST(request: NextRequest) {
     try {
@@ -28,7 +24,10 @@ export async function POST(request: NextRequest) {
             }
 
             // Calculate and award points for a completed game
-            const result = await calculateGameResults(game_id);
+            const result = await calculateGameResults(game_id, user.id);
+            if ('status' in result) {
+                return NextResponse.json({ error: result.error }, { status: result.status });
+            }
             return NextResponse.json(result);
         }
 
@@ -71,7 +70,13 @@ export async function POST(request: NextRequest) {
     }
 }
 
-async function calculateGameResults(gameId: number) {
+/**
+ * Score a completed game's open picks the same way /api/scoring/auto does: one
+ * transaction through apply_game_scoring, with an audit row per pick. Graded,
+ * voided and overridden picks are left alone, and a game that was already
+ * scored is not scored again; re-grades go through score corrections.
+ */
+async function calculateGameResults(gameId: number, userId: string) {
     try {
         // Get the completed game
         const { data: game, error: gameError } = await supabaseAdmin
@@ -82,88 +87,98 @@ async function calculateGameResults(gameId: number) {
             .single();
 
         if (gameError || !game) {
-            return { error: 'Game not found or not completed' };
+            return { error: 'Game not found or not completed', status: 404 };
         }
 
-        // Get all picks for this game
-        const { data: picks, error: picksError } = await supabaseAdmin
-            .from('picks')
-            .select('*')
-            .eq('game_id', gameId);
+        const gameResult = {
+            home_score: game.home_score,
+            away_score: game.away_score,
+            status: game.status,
+            home_linescores: game.home_linescores,
+            away_linescores: game.away_linescores
+        };
 
-        if (picksError) {
-            return { error: 'Failed to fetch picks' };
-        }
+        // Straight picks and parlay legs, plus the parlays they finish, each
+        // graded with its own league's rules
+        const plan = await buildGameScoringPlan(gameId, gameResult);
 
-        if (!picks || picks.length === 0) {
-            return { success: true, message: 'No picks to process' };
+        // Scoring writes every league's picks on the game, so only someone who
+        // runs all of those leagues can do it by hand
+        if (!(await isAdminOfPlanLeagues(plan, userId))) {
+            return { error: 'Only the admin of every league with picks on this game can score it', status: 403 };
         }
 
-        // Get season and league info for scoring rules
-        const { data: season } = await supabaseAdmin
-            .from('seasons')
-            .select('id, league_id')
-            .eq('id', game.season_id)
-            .single();
+        const outcome = await applyGameScoring(
+            { id: game.id, espn_game_id: game.espn_game_id ?? null, status: game.status },
+            gameResult,
+            plan
+        );
 
-        if (!season) {
-            return { error: 'Season not found' };
-        }
-
-        const scoringRules = await getLeagueScoringRules(season.league_id);
-        const calculator = new ScoringCalculator(scoringRules);
-
-        let updatedPicks = 0;
-        const affectedUsers = new Set<string>();
-
-        // Process each pick using enhanced calculation
-        for (const pick of picks) {
-            const gameResult = {
-                home_score: game.home_score,
-                away_score: game.away_score,
-                status: game.status
-            };
-
-            const pickResult = calculator.calculatePick(pick as Pick, gameResult);
-
-            // Update the pick with result and points
-            const { error: updateError } = await supabaseAdmin
-                .from('picks')
-                .update({
-                    result: pickResult.result,
-                    points_awarded: pickResult.points
-                })
-                .eq('id', pick.id);
-
-            if (!updateError) {
-                updatedPicks++;
-                affectedUsers.add(pick.user_id);
-                console.log(`Manual scoring - Pick ${pick.id}: ${pick.bet_type} ${pick.selection} -> ${pickResult.result} (${pickResult.points} pts) - ${pickResult.explanation}`);
-            }
-        }
-
-        // Recalculate stats for affected users using enhanced function
-        for (const userId of affectedUsers) {
-            try {
-                await recalculateUserSeasonStats(userId, game.season_id);
-            } catch (error) {
-                console.error(`Failed to recalculate stats for user ${userId}:`, error);
-            }
+        if (!outcome.alreadyScored) {
+            await finishScoringEvent(outcome.scoringEventId);
         }
 
         return {
             success: true,
-            updated_picks: updatedPicks,
-            affected_users: affectedUsers.size
+            already_scored: outcome.alreadyScored,
+            scoring_event_id: outcome.scoringEventId,
+            updated_picks: outcome.picksProcessed,
+            points_awarded: outcome.pointsAwarded,
+            affected_users: outcome.userIds.length
         };
 
     } catch (error) {
         console.error('Calculate game results error:', error);
-        return { error: 'Failed to calculate results' };
+        return { error: 'Failed to calculate results', status: 500 };
     }
 }
 
 
+/**
+ * Whether the user is the admin of every league whose picks are in the plan.
+ * A plan with no picks still needs the user to run a league.
+ */
+async function isAdminOfPlanLeagues(plan: GameScoringPlan, userId: string): Promise<boolean> {
+    const pickIds = [...new Set([
+        ...plan.picks.map(change => change.pick_id),
+        ...plan.legs.map(change => change.pick_id)
+    ])];
+
+    if (pickIds.length === 0) {
+        const { data: leagues } = await supabaseAdmin
+            .from('leagues')
+            .select('id')
+            .eq('admin_id', userId)
+            .limit(1);
+
+        return (leagues || []).length > 0;
+    }
+
+    const { data: picks, error: picksError } = await supabaseAdmin
+        .from('picks')
+        .select('season_id')
+        .in('id', pickIds);
+
+    if (picksError || !picks) {
+        return false;
+    }
+
+    const seasonIds = [...new Set(picks.map(pick => pick.season_id))];
+    const { data: seasons, error: seasonsError } = await supabaseAdmin
+        .from('seasons')
+        .select('id, leagues!inner(admin_id)')
+        .in('id', seasonIds);
+
+    if (seasonsError || !seasons || seasons.length !== seasonIds.length) {
+        return false;
+    }
+
+    return seasons.every(season => {
+        const league = Array.isArray(season.leagues) ? season.leagues[0] : season.leagues;
+        return (league as { admin_id?: string } | undefined)?.admin_id === userId;
+    });
+}
+
 async function recalculateSeasonStats(seasonId: number) {
     try {
         // Get all users with picks in this season
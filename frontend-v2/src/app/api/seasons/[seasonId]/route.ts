@@ -31,7 +31,11 @@ export async function GET(
                 leagues!inner(
                     id,
                     name,
-                    admin_id
+                    admin_id,
+                    format,
+                    survivor_strikes,
+                    survivor_tie_rule,
+                    confidence_bet_type
                 )
             `)
             .eq('id', seasonId)
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase-server';
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import { validateId } from '@/lib/validation';
+import { getSeasonLeagueFormat } from '@/lib/league-format';
+import { getSurvivorStandings } from '@/lib/survivor';
+
+/**
+ * Survivor elimination board for a season
+ * GET /api/survivor?season_id=123
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const seasonId = searchParams.get('season_id');
+
+        const seasonValidation = validateId(seasonId, 'Season ID');
+        if (!seasonValidation.isValid) {
+            return NextResponse.json({ error: seasonValidation.errorMessage }, { status: 400 });
+        }
+
+        const supabase = await createServerSupabaseClient();
+        const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+        if (userError || !user) {
+            return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+        }
+
+        const leagueFormat = await getSeasonLeagueFormat(seasonId as string);
+        if (!leagueFormat) {
+            return NextResponse.json({ error: 'Season not found' }, { status: 404 });
+        }
+
+        if (leagueFormat.format !== 'survivor') {
+            return NextResponse.json({ error: 'This league is not a survivor league' }, { status: 400 });
+        }
+
+        // Only league members can see the board
+        const { data: membership, error: membershipError } = await supabaseAdmin
+            .from('league_memberships')
+            .select('user_id')
+            .eq('league_id', leagueFormat.league_id)
+            .eq('user_id', user.id)
+            .single();
+
+        if (membershipError || !membership) {
+            return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+        }
+
+        const standings = await getSurvivorStandings(seasonId as string, leagueFormat.league_id, leagueFormat.survivor);
+
+        return NextResponse.json({
+            success: true,
+            season_id: seasonId,
+            settings: leagueFormat.survivor,
+            alive_count: standings.filter(entry => entry.status === 'alive').length,
+            standings: standings.map(entry => ({
+                ...entry,
+                is_current_user: entry.user_id === user.id
+            }))
+        });
+
+    } catch (err) {
+        console.error('API: Survivor standings error:', err);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
@@ -6,6 +6,9 @@ import {
   storeGameMatchingResults,
   OddsSourceGame,
 } from '@/lib/game-matching';
+import { hasLineChanged, type OddsLine } from '@/lib/odds';
+import { MARKET_PERIODS } from '@/lib/selection';
+import { getCurrentNFLWeek, isDateInNFLWeek } from '@/lib/nfl-week';
 
 interface OddsApiGame {
   id: string;
@@ -29,6 +32,69 @@ interface OddsApiGame {
   }>;
 }
 
+type OddsApiMarket = OddsApiGame['bookmakers'][number]['markets'][number];
+
+// Half and quarter markets (h2h_h1, spreads_q3, ...) are only offered per event
+const PERIOD_MARKET_KEYS = MARKET_PERIODS.flatMap(period =>
+  [`h2h_${period}`, `spreads_${period}`, `totals_${period}`]
+);
+
+/**
+ * Read a bookmaker's moneyline, spread and total into an odds row. The suffix
+ * selects a period's markets ('_h1' reads h2h_h1, spreads_h1 and totals_h1).
+ */
+function parseOddsLine(
+  markets: OddsApiMarket[],
+  homeTeam: string,
+  awayTeam: string,
+  suffix = ''
+): OddsLine {
+  let moneylineHome = null, moneylineAway = null;
+  let spreadHome = null, spreadAway = null;
+  let spreadHomePrice = null, spreadAwayPrice = null;
+  let totalOver = null, totalUnder = null;
+  let totalOverPrice = null, totalUnderPrice = null;
+
+  for (const market of markets) {
+    if (market.key === `h2h${suffix}`) {
+      // Moneyline
+      const homeOutcome = market.outcomes.find(o => o.name === homeTeam);
+      const awayOutcome = market.outcomes.find(o => o.name === awayTeam);
+      moneylineHome = homeOutcome?.price || null;
+      moneylineAway = awayOutcome?.price || null;
+    } else if (market.key === `spreads${suffix}`) {
+      // Point spreads
+      const homeOutcome = market.outcomes.find(o => o.name === homeTeam);
+      const awayOutcome = market.outcomes.find(o => o.name === awayTeam);
+      spreadHome = homeOutcome?.point ?? null;
+      spreadAway = awayOutcome?.point ?? null;
+      spreadHomePrice = homeOutcome?.price || null;
+      spreadAwayPrice = awayOutcome?.price || null;
+    } else if (market.key === `totals${suffix}`) {
+      // Over/Under
+      const overOutcome = market.outcomes.find(o => o.name === 'Over');
+      const underOutcome = market.outcomes.find(o => o.name === 'Under');
+      totalOver = overOutcome?.point ?? null;
+      totalUnder = underOutcome?.point ?? null;
+      totalOverPrice = overOutcome?.price || null;
+      totalUnderPrice = underOutcome?.price || null;
+    }
+  }
+
+  return {
+    moneyline_home: moneylineHome,
+    moneyline_away: moneylineAway,
+    spread_home: spreadHome,
+    spread_away: spreadAway,
+    spread_home_price: spreadHomePrice,
+    spread_away_price: spreadAwayPrice,
+    total_over: totalOver,
+    total_under: totalUnder,
+    total_over_price: totalOverPrice,
+    total_under_price: totalUnderPrice
+  };
+}
+
 async function fetchNFLGames(): Promise<OddsApiGame[]> {
   const apiKey = process.env.ODDS_API_KEY;
 
@@ -88,6 +154,46 @@ async function fetchNFLGames(): Promise<OddsApiGame[]> {
   }
 }
 
+/**
+ * Fetch half and quarter lines for one event. Returns null when the event has
+ * no odds (for example once it has started).
+ */
+async function fetchPeriodOdds(eventId: string): Promise<OddsApiGame | null> {
+  const apiKey = process.env.ODDS_API_KEY;
+
+  if (!apiKey) {
+    throw new Error('ODDS_API_KEY environment variable is required');
+  }
+
+  const url = `https://api.the-odds-api.com/v4/sports/americanfootball_nfl/events/${eventId}/odds/?` +
+    `apiKey=${apiKey}&regions=us&markets=${PERIOD_MARKET_KEYS.join(',')}&oddsFormat=american&dateFormat=iso`;
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 10000); // 10s timeout
+
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    if (!response.ok) {
+      // Don't log the full URL (contains API key)
+      throw new Error(`Odds API period request failed: ${response.status} ${response.statusText}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    if ((error as Error).name === 'AbortError') {
+      throw new Error('Odds API period request timeout after 10 seconds');
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
 // NOTE: The ensureTeamsAndSeason and ensureTeam functions have been removed
 // as they are no longer needed in the ESPN-primary architecture.
 // Games and teams are now created via the ESPN season ingestion process,
@@ -205,7 +311,14 @@ export async function POST(request: NextRequest) {
     }
 
     let syncedOdds = 0;
+    let snapshotsRecorded = 0;
     let attachmentErrors = 0;
+    let syncedPeriodOdds = 0;
+    let periodOddsErrors = 0;
+
+    // Each period request costs every period market, so only the current
+    // week's games get half and quarter lines
+    const currentWeek = await getCurrentNFLWeek();
 
     // Circuit breaker: stop processing if too many consecutive errors
     const MAX_CONSECUTIVE_ERRORS = 10;
@@ -236,55 +349,53 @@ export async function POST(request: NextRequest) {
 
         // Process odds from bookmakers
         for (const bookmaker of oddsApiGame.bookmakers) {
-          // Clear existing odds for this game and bookmaker
-          await supabase
+          const line = parseOddsLine(bookmaker.markets, oddsApiGame.home_team, oddsApiGame.away_team);
+
+          // Read the current line before replacing it so we only snapshot real moves
+          const { data: currentOdds } = await supabase
             .from('odds')
-            .delete()
+            .select('moneyline_home, moneyline_away, spread_home, spread_away, spread_home_price, spread_away_price, total_over, total_under, total_over_price, total_under_price')
             .eq('game_id', gameId)
-            .eq('sportsbook', bookmaker.key);
-
-          // Process each market
-          let moneylineHome = null, moneylineAway = null;
-          let spreadHome = null, spreadAway = null;
-          let totalOver = null, totalUnder = null;
-
-          for (const market of bookmaker.markets) {
-            if (market.key === 'h2h') {
-              // Moneyline
-              const homeOutcome = market.outcomes.find(o => o.name === oddsApiGame.home_team);
-              const awayOutcome = market.outcomes.find(o => o.name === oddsApiGame.away_team);
-              moneylineHome = homeOutcome?.price || null;
-              moneylineAway = awayOutcome?.price || null;
-            } else if (market.key === 'spreads') {
-              // Point spreads
-              const homeOutcome = market.outcomes.find(o => o.name === oddsApiGame.home_team);
-              const awayOutcome = market.outcomes.find(o => o.name === oddsApiGame.away_team);
-              spreadHome = homeOutcome?.point || null;
-              spreadAway = awayOutcome?.point || null;
-            } else if (market.key === 'totals') {
-              // Over/Under
-              const overOutcome = market.outcomes.find(o => o.name === 'Over');
-              const underOutcome = market.outcomes.find(o => o.name === 'Under');
-              totalOver = overOutcome?.point || null;
-              totalUnder = underOutcome?.point || null;
-            }
-          }
+            .eq('sportsbook', bookmaker.key)
+            .single();
 
-          // Insert new odds
+          // Upsert the current line for this game and bookmaker
           const { error: oddsError } = await supabase
             .from('odds')
-            .insert({
+            .upsert({
               game_id: gameId,
               sportsbook: bookmaker.key,
               last_update: bookmaker.last_update,
-              moneyline_home: moneylineHome,
-              moneyline_away: moneylineAway,
-              spread_home: spreadHome,
-              spread_away: spreadAway,
-              total_over: totalOver,
-              total_under: totalUnder
+              ...line
+            }, {
+              onConflict: 'game_id,sportsbook'
             });
 
+          // Append to the line history (never updated or deleted)
+          if (!oddsError && hasLineChanged(currentOdds, line)) {
+            const { error: snapshotError } = await supabase
+              .from('odds_snapshots')
+              .insert({
+                game_id: gameId,
+                sportsbook: bookmaker.key,
+                last_update: bookmaker.last_update,
+                ...line
+              });
+
+            if (snapshotError) {
+              console.error({
+                requestId,
+                event: 'odds_snapshot_error',
+                gameId,
+                sportsbook: bookmaker.key,
+                error: snapshotError.message,
+                timestamp: new Date().toISOString()
+              });
+            } else {
+              snapshotsRecorded++;
+            }
+          }
+
           if (oddsError) {
             attachmentErrors++;
             consecutiveErrors++;
@@ -304,6 +415,51 @@ export async function POST(request: NextRequest) {
             consecutiveErrors = 0; // Reset on success
           }
         }
+
+        // Half and quarter lines for this week's games that haven't kicked off
+        if (currentWeek &&
+            isDateInNFLWeek(oddsApiGame.commence_time, currentWeek) &&
+            new Date(oddsApiGame.commence_time) > new Date()) {
+          try {
+            const periodGame = await fetchPeriodOdds(oddsApiGame.id);
+
+            for (const bookmaker of periodGame?.bookmakers || []) {
+              for (const period of MARKET_PERIODS) {
+                const periodLine = parseOddsLine(bookmaker.markets, oddsApiGame.home_team, oddsApiGame.away_team, `_${period}`);
+                if (Object.values(periodLine).every(value => value === null)) {
+                  continue;
+                }
+
+                const { error: periodError } = await supabase
+                  .from('period_odds')
+                  .upsert({
+                    game_id: gameId,
+                    sportsbook: bookmaker.key,
+                    period,
+                    last_update: bookmaker.last_update,
+                    ...periodLine
+                  }, {
+                    onConflict: 'game_id,sportsbook,period'
+                  });
+
+                if (periodError) {
+                  periodOddsErrors++;
+                } else {
+                  syncedPeriodOdds++;
+                }
+              }
+            }
+          } catch (error) {
+            periodOddsErrors++;
+            console.error({
+              requestId,
+              event: 'period_odds_error',
+              gameId,
+              error: error instanceof Error ? error.message : 'Unknown error',
+              timestamp: new Date().toISOString()
+            });
+          }
+        }
       } catch (error) {
         attachmentErrors++;
         consecutiveErrors++;
@@ -337,6 +493,8 @@ export async function POST(request: NextRequest) {
       durationMs,
       matchedGames: matchingResult.matchedGames,
       syncedOdds,
+      snapshotsRecorded,
+      syncedPeriodOdds,
       errors: attachmentErrors,
       timestamp: new Date().toISOString()
     });
@@ -358,6 +516,9 @@ export async function POST(request: NextRequest) {
       },
       oddsAttachment: {
         syncedOdds,
+        snapshotsRecorded,
+        syncedPeriodOdds,
+        periodOddsErrors,
         attachmentErrors,
         successRate: matchingResult.matchedGames > 0
           ? Math.round((syncedOdds / (syncedOdds + attachmentErrors)) * 100)
@@ -7,19 +7,21 @@ import {
   getCompletedGames,
   getLiveGames,
 } from '@/lib/espn-monitor';
-import { getCurrentNFLWeek } from '@/lib/nfl-week';
+import { getCurrentNFLWeek, isNFLSeasonType, SEASON_TYPES } from '@/lib/nfl-week';
 import { rateLimitGeneral } from '@/lib/rate-limit';
 
 /**
  * Test endpoint to manually check ESPN API integration
  * GET /api/test/espn
  * GET /api/test/espn?week=3
+ * GET /api/test/espn?week=1&season_type=3
  */
 export async function GET(request: NextRequest) {
   // Extract week parameter early for use throughout function
   const { searchParams } = new URL(request.url);
   const weekParam = searchParams.get('week');
-  const week = weekParam ? parseInt(weekParam) : getCurrentNFLWeek();
+  const seasonTypeParam = searchParams.get('season_type');
+  let week = weekParam ? parseInt(weekParam) : undefined;
 
   try {
     // Authentication check
@@ -62,15 +64,25 @@ export async function GET(request: NextRequest) {
       });
     }
 
-    console.log(`Testing ESPN integration for week ${week} (User: ${user.id})`);
+    // Default to the calendar's current week
+    const currentWeek = await getCurrentNFLWeek();
+    const seasonType = seasonTypeParam
+      ? parseInt(seasonTypeParam)
+      : weekParam ? SEASON_TYPES.REGULAR_SEASON : currentWeek?.season_type ?? SEASON_TYPES.REGULAR_SEASON;
+    week = week ?? currentWeek?.week;
 
-    // Validate week parameter
-    if (week < 1 || week > 18) {
-      return NextResponse.json({ error: 'Invalid week parameter. Must be between 1 and 18.' }, { status: 400 });
+    console.log(`Testing ESPN integration for week ${week ?? 'current'} (User: ${user.id})`);
+
+    // Validate week parameters
+    if (week !== undefined && (isNaN(week) || week < 1)) {
+      return NextResponse.json({ error: 'Invalid week parameter. Must be a positive number.' }, { status: 400 });
+    }
+    if (!isNFLSeasonType(seasonType)) {
+      return NextResponse.json({ error: 'Invalid season_type parameter. Must be 1, 2 or 3.' }, { status: 400 });
     }
     // 1. Fetch ESPN data
     const startTime = Date.now();
-    const espnData = await fetchESPNScoreboard(week);
+    const espnData = await fetchESPNScoreboard(week, seasonType);
     const fetchTime = Date.now() - startTime;
 
     // 2. Process the data
@@ -82,7 +94,8 @@ export async function GET(request: NextRequest) {
     const response = {
       success: true,
       week: week,
-      currentWeek: getCurrentNFLWeek(),
+      seasonType,
+      currentWeek,
       timing: {
         espnFetchTime: `${fetchTime}ms`,
       },
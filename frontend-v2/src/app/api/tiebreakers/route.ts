@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase-server';
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import { validateId, validateWeek, validateSeasonType } from '@/lib/validation';
+import {
+  MAX_TIEBREAKER_GUESS,
+  getTiebreakerDeadline,
+  getTiebreakerGame,
+  getTiebreakerGuess,
+  saveTiebreakerGuess,
+  type TiebreakerGame
+} from '@/lib/tiebreakers';
+
+interface TiebreakerRequest {
+  season_id: number;
+  week: number;
+  season_type?: number;
+  total_points: number;
+}
+
+/**
+ * Validate the season/week a guess is for
+ */
+function validateGuessWeek(seasonId: string | null, week: string | null, seasonType: string) {
+  if (!seasonId || !week) {
+    return { isValid: false, errorMessage: 'Season ID and week are required' };
+  }
+
+  for (const validation of [validateId(seasonId, 'Season ID'), validateWeek(week), validateSeasonType(seasonType)]) {
+    if (!validation.isValid) {
+      return validation;
+    }
+  }
+
+  return { isValid: true };
+}
+
+async function isSeasonMember(seasonId: string, userId: string): Promise<boolean> {
+  const { data: season } = await supabaseAdmin
+    .from('seasons')
+    .select(`
+      id,
+      leagues!inner(
+        id,
+        league_memberships!inner(user_id)
+      )
+    `)
+    .eq('id', seasonId)
+    .eq('leagues.league_memberships.user_id', userId)
+    .single();
+
+  return !!season;
+}
+
+const formatGame = (game: TiebreakerGame, deadline: Date) => ({
+  id: game.id,
+  label: `${game.away_team?.abbreviation ?? 'Away'} @ ${game.home_team?.abbreviation ?? 'Home'}`,
+  start_time: game.start_time,
+  locks_at: deadline.toISOString()
+});
+
+/**
+ * The week's tiebreaker game and the member's guess on it
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const seasonId = searchParams.get('season_id');
+    const week = searchParams.get('week');
+    const seasonType = searchParams.get('season_type') || '2';
+
+    const validation = validateGuessWeek(seasonId, week, seasonType);
+    if (!validation.isValid || !seasonId || !week) {
+      return NextResponse.json({ error: validation.errorMessage }, { status: 400 });
+    }
+
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    if (!(await isSeasonMember(seasonId, user.id))) {
+      return NextResponse.json({ error: 'Season not found or access denied' }, { status: 404 });
+    }
+
+    const [game, guess] = await Promise.all([
+      getTiebreakerGame(parseInt(seasonId), parseInt(week), parseInt(seasonType)),
+      getTiebreakerGuess(parseInt(seasonId), user.id, parseInt(week), parseInt(seasonType))
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      game: game ? formatGame(game, await getTiebreakerDeadline(parseInt(seasonId), game)) : null,
+      guess,
+      max_guess: MAX_TIEBREAKER_GUESS
+    });
+
+  } catch (err) {
+    console.error('API: Get tiebreaker error:', err);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Make or change the member's guess until the tiebreaker game locks
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: TiebreakerRequest = await request.json();
+    const seasonId = body.season_id?.toString() ?? null;
+    const week = body.week?.toString() ?? null;
+    const seasonType = body.season_type?.toString() ?? '2';
+
+    const validation = validateGuessWeek(seasonId, week, seasonType);
+    if (!validation.isValid || !seasonId || !week) {
+      return NextResponse.json({ error: validation.errorMessage }, { status: 400 });
+    }
+
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    if (!(await isSeasonMember(seasonId, user.id))) {
+      return NextResponse.json({ error: 'Season not found or access denied' }, { status: 404 });
+    }
+
+    const result = await saveTiebreakerGuess(
+      parseInt(seasonId),
+      user.id,
+      parseInt(week),
+      parseInt(seasonType),
+      body.total_points
+    );
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Tiebreaker guess saved',
+      guess: result.guess,
+      game: formatGame(result.game, result.deadline)
+    });
+
+  } catch (err) {
+    console.error('API: Save tiebreaker error:', err);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,8 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabaseClient } from '@/lib/supabase-server';
 import { supabaseAdmin } from '@/lib/supabase-admin';
-import { validateId } from '@/lib/validation';
+import { validateId, validateWeek, validateSeasonType } from '@/lib/validation';
 import { getLeagueScoringRules } from '@/lib/scoring';
+import {
+  getDecidingTiebreaker,
+  getTiebreakerGame,
+  getWeekTiebreakerGuesses,
+  rankWithTiebreakers,
+  type Tiebreaker
+} from '@/lib/tiebreakers';
+
+interface WeeklyStandingPick {
+  id: number;
+  pick_type: 'straight' | 'parlay';
+  bet_type: string;
+  selection: string;
+  result: string;
+  points_awarded: number;
+  legs: Array<{
+    id: number;
+    bet_type: string;
+    selection: string;
+    result: string | null;
+    leg_order: number;
+  }>;
+}
 
 interface WeeklyStanding {
   user_id: string;
@@ -18,23 +41,39 @@ interface WeeklyStanding {
   total_points: number;
   win_percentage: string;
   current_streak: number;
+  // Other members' guesses are hidden until the tiebreaker game kicks off
+  tiebreaker_guess: number | null;
+  guess_difference: number | null;
+  submitted_at: string | null;
   is_weekly_winner: boolean;
+  // The tiebreaker that decided the weekly winner, when it was level on points
+  won_on_tiebreaker: Tiebreaker | null;
   is_current_user: boolean;
   rank: number;
+  picks: WeeklyStandingPick[];
 }
 
 interface WeeklyStandingsResponse {
   success: boolean;
   standings: WeeklyStanding[];
   week: number;
+  season_type: number;
   season_id: string;
   total_participants: number;
+  tiebreaker_game: {
+    id: number;
+    label: string;
+    start_time: string;
+    // Combined score once the game is final
+    total_points: number | null;
+  } | null;
   scoring_rules: {
     points_per_win: number;
     points_per_loss: number;
     points_per_push: number;
     streak_bonus: number;
     weekly_winner_bonus: number;
+    tiebreakers: Tiebreaker[];
   };
 }
 
@@ -43,6 +82,7 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const seasonId = searchParams.get('season_id');
     const week = searchParams.get('week');
+    const seasonType = searchParams.get('season_type') || '2';
 
     if (!seasonId || !week) {
       return NextResponse.json({ error: 'Season ID and week are required' }, { status: 400 });
@@ -53,11 +93,19 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: seasonValidation.errorMessage }, { status: 400 });
     }
 
-    const weekNum = parseInt(week);
-    if (isNaN(weekNum) || weekNum < 1 || weekNum > 18) {
-      return NextResponse.json({ error: 'Week must be between 1 and 18' }, { status: 400 });
+    const weekValidation = validateWeek(week);
+    if (!weekValidation.isValid) {
+      return NextResponse.json({ error: weekValidation.errorMessage }, { status: 400 });
     }
 
+    const seasonTypeValidation = validateSeasonType(seasonType);
+    if (!seasonTypeValidation.isValid) {
+      return NextResponse.json({ error: seasonTypeValidation.errorMessage }, { status: 400 });
+    }
+
+    const weekNum = parseInt(week);
+    const seasonTypeNum = parseInt(seasonType);
+
     const supabase = await createServerSupabaseClient();
     const { data: { user }, error: userError } = await supabase.auth.getUser();
 
@@ -91,21 +139,35 @@ export async function GET(request: NextRequest) {
     const { data: weeklyPicks, error: picksError } = await supabaseAdmin
       .from('picks')
       .select(`
+        id,
         user_id,
+        pick_type,
+        bet_type,
+        selection,
         result,
         points_awarded,
         created_at,
+        pick_legs(id, bet_type, selection, result, leg_order),
         profiles!inner(username, avatar_url),
         games!inner(season_id, week)
       `)
       .eq('games.season_id', seasonId)
       .eq('week', weekNum)
-      .not('result', 'is', null);
+      .eq('season_type', seasonTypeNum)
+      .not('result', 'is', null)
+      .neq('result', 'void');
 
     if (picksError) {
       return NextResponse.json({ error: 'Failed to fetch weekly picks' }, { status: 500 });
     }
 
+    // Guesses on the week's last game break ties on points
+    const [tiebreakerGame, tiebreakerGuesses] = await Promise.all([
+      getTiebreakerGame(season.id, weekNum, seasonTypeNum),
+      getWeekTiebreakerGuesses(season.id, weekNum, seasonTypeNum)
+    ]);
+    const guessesRevealed = !!tiebreakerGame && new Date() >= new Date(tiebreakerGame.start_time);
+
     // Calculate weekly standings
     const userStats = new Map<string, {
       user_id: string;
@@ -117,6 +179,7 @@ export async function GET(request: NextRequest) {
       pushes: number;
       base_points: number;
       picks: Array<{ result: string; created_at: string; points_awarded: number }>;
+      pick_details: WeeklyStandingPick[];
     }>();
 
     // Aggregate picks by user
@@ -132,7 +195,8 @@ export async function GET(request: NextRequest) {
           losses: 0,
           pushes: 0,
           base_points: 0,
-          picks: []
+          picks: [],
+          pick_details: []
         });
       }
 
@@ -144,6 +208,15 @@ export async function GET(request: NextRequest) {
         created_at: pick.created_at as string,
         points_awarded: (pick.points_awarded as number) || 0
       });
+      stats.pick_details.push({
+        id: pick.id as number,
+        pick_type: (pick.pick_type as 'straight' | 'parlay') || 'straight',
+        bet_type: pick.bet_type as string,
+        selection: pick.selection as string,
+        result: pick.result as string,
+        points_awarded: (pick.points_awarded as number) || 0,
+        legs: [...((pick.pick_legs as WeeklyStandingPick['legs']) || [])].sort((a, b) => a.leg_order - b.leg_order)
+      });
 
       if (pick.result === 'win') stats.wins++;
       else if (pick.result === 'loss') stats.losses++;
@@ -178,6 +251,8 @@ export async function GET(request: NextRequest) {
         : 0;
 
       const totalPointsBeforeBonus = stats.base_points + streakBonusPoints;
+      const guess = tiebreakerGuesses.get(stats.user_id);
+      const showGuess = guess && (guessesRevealed || stats.user_id === user.id);
 
       return {
         user_id: stats.user_id,
@@ -193,36 +268,31 @@ export async function GET(request: NextRequest) {
         total_points: totalPointsBeforeBonus,
         win_percentage: stats.total_picks > 0 ? ((stats.wins / stats.total_picks) * 100).toFixed(1) : '0.0',
         current_streak: currentStreak,
+        tiebreaker_guess: showGuess ? guess.total_points : null,
+        guess_difference: guess?.difference ?? null,
+        // Earliest pick the week counts
+        submitted_at: sortedPicks[0]?.created_at ?? null,
         is_weekly_winner: false, // Will be set after sorting
+        won_on_tiebreaker: null,
         is_current_user: stats.user_id === user.id,
-        rank: 0 // Will be set after sorting
+        rank: 0, // Will be set after sorting
+        picks: stats.pick_details
       };
     });
 
-    // Sort by total points (descending), then by wins (descending)
-    standings.sort((a, b) => {
-      if (b.total_points !== a.total_points) return b.total_points - a.total_points;
-      return b.wins - a.wins;
-    });
+    // Rank by total points, then the league's tiebreakers
+    rankWithTiebreakers(standings, scoringRules.tiebreakers);
 
-    // Assign ranks and determine weekly winner(s)
-    let currentRank = 1;
-    let previousPoints = -1;
-    const weeklyWinners: string[] = [];
+    // The weekly winner is the top rank; members share it only when still
+    // level after every tiebreaker
+    const weeklyWinners = standings.filter(standing => standing.rank === 1);
+    const runnerUp = standings[weeklyWinners.length];
 
-    standings.forEach((standing, index) => {
-      // Assign rank
-      if (previousPoints !== -1 && standing.total_points !== previousPoints) {
-        currentRank = index + 1;
-      }
-      standing.rank = currentRank;
-      previousPoints = standing.total_points;
-
-      // Determine weekly winner(s) - top scorers for the week
-      if (index === 0 || standing.total_points === standings[0].total_points) {
-        standing.is_weekly_winner = true;
-        weeklyWinners.push(standing.user_id);
-      }
+    weeklyWinners.forEach(standing => {
+      standing.is_weekly_winner = true;
+      standing.won_on_tiebreaker = runnerUp
+        ? getDecidingTiebreaker(standing, runnerUp, scoringRules.tiebreakers)
+        : null;
     });
 
     // Apply weekly winner bonus
@@ -233,35 +303,31 @@ export async function GET(request: NextRequest) {
       }
     });
 
-    // Re-sort after adding weekly winner bonus (in case it changes rankings)
-    standings.sort((a, b) => {
-      if (b.total_points !== a.total_points) return b.total_points - a.total_points;
-      return b.wins - a.wins;
-    });
-
-    // Update ranks again after bonus
-    currentRank = 1;
-    previousPoints = -1;
-    standings.forEach((standing, index) => {
-      if (previousPoints !== -1 && standing.total_points !== previousPoints) {
-        currentRank = index + 1;
-      }
-      standing.rank = currentRank;
-      previousPoints = standing.total_points;
-    });
+    // Re-rank after adding weekly winner bonus (in case it changes rankings)
+    rankWithTiebreakers(standings, scoringRules.tiebreakers);
 
     return NextResponse.json({
       success: true,
       standings,
       week: weekNum,
+      season_type: seasonTypeNum,
       season_id: seasonId,
       total_participants: standings.length,
+      tiebreaker_game: tiebreakerGame ? {
+        id: tiebreakerGame.id,
+        label: `${tiebreakerGame.away_team?.abbreviation ?? 'Away'} @ ${tiebreakerGame.home_team?.abbreviation ?? 'Home'}`,
+        start_time: tiebreakerGame.start_time,
+        total_points: tiebreakerGame.status === 'completed' && tiebreakerGame.home_score !== null && tiebreakerGame.away_score !== null
+          ? tiebreakerGame.home_score + tiebreakerGame.away_score
+          : null
+      } : null,
       scoring_rules: {
         points_per_win: scoringRules.points_per_win,
         points_per_loss: scoringRules.points_per_loss,
         points_per_push: scoringRules.points_per_push,
         streak_bonus: scoringRules.streak_bonus,
-        weekly_winner_bonus: scoringRules.weekly_winner_bonus
+        weekly_winner_bonus: scoringRules.weekly_winner_bonus,
+        tiebreakers: scoringRules.tiebreakers
       }
     } as WeeklyStandingsResponse);
 
@@ -7,6 +7,10 @@ import { useEffect, useState } from 'react';
 // Client component using supabase client
 import { Users, Calendar, Trophy } from 'lucide-react';
 import SeasonsManager from '@/components/SeasonsManager';
+import PickRulesManager from '@/components/PickRulesManager';
+import PickOverridePanel from '@/components/PickOverridePanel';
+import ScoreCorrections from '@/components/ScoreCorrections';
+import PickHistory from '@/components/PickHistory';
 import InviteModal from '@/components/InviteModal';
 import { useModalStore } from '@/stores/modalStore';
 import { useNavigationStore } from '@/stores/navigationStore';
@@ -18,6 +22,7 @@ interface League {
   created_at: string;
   admin_id: string;
   sport_id: number;
+  format?: string;
   sports: { name: string } | null;
 }
 
@@ -148,6 +153,8 @@ export default function LeaguePage() {
               <span className="flex items-center gap-1">
                 <Trophy className="h-4 w-4" />
                 {league.sports?.name}
+                {league.format === 'survivor' && ' · Survivor'}
+                {league.format === 'confidence' && ' · Confidence pool'}
               </span>
               <span className="flex items-center gap-1">
                 <Calendar className="h-4 w-4" />
@@ -175,6 +182,20 @@ export default function LeaguePage() {
         <div className="md:col-span-2 space-y-6">
           <SeasonsManager leagueId={leagueId} isAdmin={isAdmin} />
 
+          {(!league.format || league.format === 'weekly') && (
+            <PickRulesManager leagueId={leagueId} isAdmin={isAdmin} />
+          )}
+
+          {isAdmin && (
+            <PickOverridePanel
+              leagueId={leagueId}
+              members={members.map(member => ({
+                user_id: member.user_id,
+                username: member.profiles[0]?.username ?? 'Unknown'
+              }))}
+            />
+          )}
+
           <div className="border rounded-lg p-6">
             <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
               <Trophy className="h-5 w-5" />
@@ -216,6 +237,8 @@ export default function LeaguePage() {
               </p>
             )}
           </div>
+
+          <PickHistory leagueId={leagueId} />
         </div>
 
         {/* Sidebar */}
@@ -252,6 +275,8 @@ export default function LeaguePage() {
             )}
           </div>
 
+          <ScoreCorrections leagueId={leagueId} />
+
           <div className="border rounded-lg p-6">
             <h3 className="font-semibold mb-4">Quick Actions</h3>
             <div className="space-y-2">
@@ -9,18 +9,36 @@ import { useEffect, useState, useMemo } from 'react';
 import { Calendar, GamepadIcon, CheckCircle, ChevronLeft, ChevronRight, ArrowLeft } from 'lucide-react';
 import MakePickModal from '@/components/MakePickModal';
 import LeaguePicksDisplay from '@/components/LeaguePicksDisplay';
+import ParlaySlip from '@/components/ParlaySlip';
+import LineMovementChart from '@/components/LineMovementChart';
 import Leaderboard from '@/components/Leaderboard';
+import ProjectionsPanel from '@/components/ProjectionsPanel';
+import SurvivorBoard from '@/components/SurvivorBoard';
+import ConfidencePicker from '@/components/ConfidencePicker';
+import PickLockCountdown from '@/components/PickLockCountdown';
+import TiebreakerGuess from '@/components/TiebreakerGuess';
 import { useSeason, useGames, useGamesForWeek } from '@/hooks/useGames';
+import { useSeasonRealtime } from '@/hooks/useSeasonRealtime';
+import { useNFLCalendar } from '@/hooks/useNFLCalendar';
 import { useUserWeekPicks } from '@/hooks/useUserWeekPicks';
-import { useLeaguePicks, useCreatePick } from '@/hooks/usePicks';
+import { useCreatePick, useUpdatePick } from '@/hooks/usePicks';
+import { useSurvivorStandings } from '@/hooks/useSurvivor';
+import { usePickRules } from '@/hooks/usePickRules';
 import { useToast } from '@/hooks/use-toast';
 import { useModalStore } from '@/stores/modalStore';
 import { useNavigationStore } from '@/stores/navigationStore';
+import { useParlayStore } from '@/stores/parlayStore';
 import { Game } from '@/types';
+import { formatAmericanOdds, getQuotedLine, getSelectionPoint } from '@/lib/odds';
+import type { PickSelection, SelectionSide } from '@/lib/selection';
+import { formatLockTime, getPickDeadline, getWeekLockTime } from '@/lib/pick-locks';
 
 
 type ViewState = 'overview' | 'game-details';
 
+// ESPN lists the Pro Bowl as postseason week 4; it isn't pickable
+const PRO_BOWL_WEEK = 4;
+
 export default function SeasonPage() {
   const { user, loading } = useUserStore();
   const router = useRouter();
@@ -36,14 +54,21 @@ export default function SeasonPage() {
   // Pick creation state for game details view
   const [selectedBetType, setSelectedBetType] = useState<'moneyline' | 'spread' | 'total' | null>(null);
   const [selectedBetOption, setSelectedBetOption] = useState<string | null>(null);
+  const [selectedBetSide, setSelectedBetSide] = useState<SelectionSide | null>(null);
   const [isSubmittingPick, setIsSubmittingPick] = useState(false);
 
+  const addParlayLeg = useParlayStore((state) => state.addLeg);
+  const parlayLegCount = useParlayStore((state) => state.legs.length);
+
   const {
     pickModalOpen: showPickModal,
     selectedGame,
     closePickModal,
   } = useModalStore();
 
+  // Scores, pick results and standings are pushed over Supabase Realtime
+  useSeasonRealtime(seasonId);
+
   // Use TanStack Query hooks
   const {
     data: season,
@@ -58,22 +83,54 @@ export default function SeasonPage() {
     refetch: refetchGames,
   } = useGames(seasonId);
 
-  const currentWeek = gamesData?.currentWeek || 1;
+  // Pickable weeks come from the NFL calendar ingested from ESPN: the regular
+  // season followed by the playoff rounds
+  const { data: calendarData } = useNFLCalendar();
+  const pickWeeks = useMemo(
+    () => (calendarData?.weeks || []).filter(week =>
+      week.season_type === 2 || (week.season_type === 3 && week.week !== PRO_BOWL_WEEK)
+    ),
+    [calendarData?.weeks]
+  );
+
+  // Before the regular season start at its first week; once the season is
+  // over (or during the Pro Bowl), stay on the last pickable week
+  const currentCalendarWeek = pickWeeks.find(week =>
+    week.season_type === gamesData?.currentSeasonType && week.week === gamesData?.currentWeek
+  ) ?? (!gamesData || gamesData.currentSeasonType === 1 ? pickWeeks[0] : pickWeeks[pickWeeks.length - 1]);
+  const currentWeek = currentCalendarWeek?.week ?? gamesData?.currentWeek ?? 1;
+  const currentSeasonType = currentCalendarWeek?.season_type ?? 2;
 
   // Week selector state
   const [selectedWeek, setSelectedWeek] = useState(currentWeek);
+  const [selectedSeasonType, setSelectedSeasonType] = useState<number>(currentSeasonType);
 
   // Update selected week when current week changes
   useEffect(() => {
     setSelectedWeek(currentWeek);
-  }, [currentWeek]);
+    setSelectedSeasonType(currentSeasonType);
+  }, [currentWeek, currentSeasonType]);
 
   // Get games for the selected week
   const {
     data: weekGamesData,
     isLoading: weekGamesLoading,
     error: weekGamesError,
-  } = useGamesForWeek(seasonId, selectedWeek);
+  } = useGamesForWeek(seasonId, selectedWeek, selectedSeasonType);
+
+  const selectedWeekIndex = pickWeeks.findIndex(week =>
+    week.season_type === selectedSeasonType && week.week === selectedWeek
+  );
+  const selectedCalendarWeek = pickWeeks[selectedWeekIndex];
+  const selectedWeekLabel = selectedCalendarWeek?.label ?? `Week ${selectedWeek}`;
+  const isCurrentWeekSelected = selectedWeek === currentWeek && selectedSeasonType === currentSeasonType;
+
+  const selectWeekAt = (index: number) => {
+    const week = pickWeeks[index];
+    if (!week) return;
+    setSelectedWeek(week.week);
+    setSelectedSeasonType(week.season_type);
+  };
 
   const games: Game[] = useMemo(() => weekGamesData?.games || [], [weekGamesData?.games]);
 
@@ -95,22 +152,40 @@ export default function SeasonPage() {
 
   // Get user's picks for the selected week
   const {
+    data: userWeekPicksData,
     isLoading: userPicksLoading,
-  } = useUserWeekPicks(seasonId, selectedWeek);
-
-  // Get all league picks for the selected week
-  const {
-    data: leaguePicksData,
-    isLoading: leaguePicksLoading,
-  } = useLeaguePicks(leagueId, selectedWeek);
+  } = useUserWeekPicks(seasonId, selectedWeek, selectedSeasonType);
+
+  // Survivor leagues only take straight-up picks, and each team once per season
+  const isSurvivor = season?.leagues.format === 'survivor';
+  // Confidence pools rank the whole week at once instead of picking game by game
+  const isConfidence = season?.leagues.format === 'confidence';
+  const { data: survivorData } = useSurvivorStandings(seasonId, isSurvivor);
+  const survivorEntry = survivorData?.standings.find(entry => entry.is_current_user);
+
+  // Weekly leagues set their own quotas and allowed bets
+  const { data: pickRulesData } = usePickRules(leagueId);
+  const pickRules = isSurvivor || isConfidence ? undefined : pickRulesData?.pick_rules;
+
+  // When the selected week locks under the league's lock mode; null locks game by game
+  const weekLockTime = useMemo(
+    () => pickRules && selectedCalendarWeek
+      ? getWeekLockTime(pickRules, selectedCalendarWeek, games.map(game => game.start_time))
+      : null,
+    [pickRules, selectedCalendarWeek, games]
+  );
 
-  const leaguePicks = leaguePicksData || [];
+  const isSurvivorTeamUsed = (teamId: number) =>
+    !!survivorEntry?.picks.some(pick =>
+      pick.team_id === teamId && !(pick.week === selectedWeek && pick.season_type === selectedSeasonType)
+    );
 
   // Pick creation mutation
   const createPickMutation = useCreatePick();
+  const updatePickMutation = useUpdatePick();
   const { toast } = useToast();
 
-  const pageLoading = seasonLoading || gamesLoading || weekGamesLoading || userPicksLoading || leaguePicksLoading;
+  const pageLoading = seasonLoading || gamesLoading || weekGamesLoading || userPicksLoading;
   const error = seasonError || gamesError || weekGamesError;
 
   const setBreadcrumbs = useNavigationStore((state) => state.setBreadcrumbs);
@@ -157,6 +232,7 @@ export default function SeasonPage() {
     // Reset pick selection state when switching games
     setSelectedBetType(null);
     setSelectedBetOption(null);
+    setSelectedBetSide(null);
   };
 
   const handleBackToOverview = () => {
@@ -165,15 +241,29 @@ export default function SeasonPage() {
     // Reset pick selection state
     setSelectedBetType(null);
     setSelectedBetOption(null);
+    setSelectedBetSide(null);
   };
 
-  const handleBetSelection = (betType: 'moneyline' | 'spread' | 'total', option: string) => {
+  const handleBetSelection = (betType: 'moneyline' | 'spread' | 'total', side: SelectionSide, option: string) => {
     setSelectedBetType(betType);
+    setSelectedBetSide(side);
     setSelectedBetOption(option);
   };
 
+  const buildSelection = (game: Game, betType: 'moneyline' | 'spread' | 'total', side: SelectionSide): PickSelection => ({
+    market: betType,
+    side,
+    line: game.odds[0] ? getSelectionPoint(game.odds[0], betType, side) : null
+  });
+
+  const getSelectionQuote = (game: Game, betType: string, side: SelectionSide) => {
+    const odds = game.odds[0];
+    if (!odds) return null;
+    return getQuotedLine(odds, betType, side);
+  };
+
   const handleSubmitPick = async () => {
-    if (!selectedGameForDetails || !selectedBetType || !selectedBetOption) {
+    if (!selectedGameForDetails || !selectedBetType || !selectedBetSide || !selectedBetOption) {
       toast({
         variant: "destructive",
         title: "No selection made",
@@ -185,22 +275,31 @@ export default function SeasonPage() {
     setIsSubmittingPick(true);
 
     try {
-      await createPickMutation.mutateAsync({
+      const pickData = {
         game_id: selectedGameForDetails.id,
         bet_type: selectedBetType,
-        selection: selectedBetOption,
+        selection: buildSelection(selectedGameForDetails, selectedBetType, selectedBetSide),
         week: selectedWeek,
         season_id: seasonId,
-      });
+        ...getSelectionQuote(selectedGameForDetails, selectedBetType, selectedBetSide),
+      };
+      const openPick = getOpenPickOnGame(selectedGameForDetails.id);
+
+      if (openPick) {
+        await updatePickMutation.mutateAsync({ ...pickData, pick_id: openPick.id, label: selectedBetOption });
+      } else {
+        await createPickMutation.mutateAsync(pickData);
+      }
 
       toast({
-        title: "Pick submitted successfully!",
+        title: openPick ? "Pick updated" : "Pick submitted successfully!",
         description: `Your ${selectedBetType} pick has been recorded.`,
       });
 
       // Reset selection and go back to overview
       setSelectedBetType(null);
       setSelectedBetOption(null);
+      setSelectedBetSide(null);
       setViewState('overview');
 
       // Refresh data
@@ -217,6 +316,31 @@ export default function SeasonPage() {
     }
   };
 
+  const handleAddToParlay = () => {
+    if (!selectedGameForDetails || !selectedBetType || !selectedBetSide || !selectedBetOption) {
+      return;
+    }
+
+    addParlayLeg({
+      game_id: selectedGameForDetails.id,
+      bet_type: selectedBetType,
+      selection: buildSelection(selectedGameForDetails, selectedBetType, selectedBetSide),
+      label: selectedBetOption,
+      ...getSelectionQuote(selectedGameForDetails, selectedBetType, selectedBetSide),
+      matchup: `${selectedGameForDetails.away_team.abbreviation} @ ${selectedGameForDetails.home_team.abbreviation}`,
+      start_time: selectedGameForDetails.start_time,
+    });
+
+    toast({
+      title: "Added to parlay",
+      description: `${selectedBetOption} was added to your parlay slip.`,
+    });
+
+    setSelectedBetType(null);
+    setSelectedBetOption(null);
+    setSelectedBetSide(null);
+  };
+
   const getGameStatusBadge = (game: Game) => {
     if (game.status === 'completed') {
       return <Badge variant="default" className="bg-success/10 text-success border-success/20">Final</Badge>;
@@ -228,11 +352,26 @@ export default function SeasonPage() {
         </Badge>
       );
     }
+    if (game.status === 'postponed' || game.status === 'suspended') {
+      return <Badge variant="warning" className="capitalize">{game.status}</Badge>;
+    }
+    if (game.status === 'cancelled') {
+      return <Badge variant="destructive">Cancelled</Badge>;
+    }
     return <Badge variant="outline">Scheduled</Badge>;
   };
 
   const hasUserPickedGame = (gameId: number) => {
-    return leaguePicks.some(pick => pick.game_id === gameId && pick.user_id === user?.id);
+    return (userWeekPicksData?.picks || []).some(pick =>
+      pick.game_id === gameId || pick.pick_legs?.some(leg => leg.game_id === gameId)
+    );
+  };
+
+  // A straight pick on the game that can still be changed instead of adding another
+  const getOpenPickOnGame = (gameId: number) => {
+    return (userWeekPicksData?.picks || []).find(pick =>
+      pick.pick_type === 'straight' && pick.game_id === gameId && pick.result === null && pick.confidence == null
+    );
   };
 
   const isGameStarted = (game: Game) => {
@@ -241,8 +380,10 @@ export default function SeasonPage() {
     return now >= gameTime;
   };
 
+  const isWeekLocked = () => !!weekLockTime && new Date() >= weekLockTime;
+
   const canMakePick = (game: Game) => {
-    return !isGameStarted(game) && game.status !== 'live' && game.status !== 'completed';
+    return new Date() < getPickDeadline(game.start_time, weekLockTime) && (game.status === 'scheduled' || !game.status);
   };
 
   if (loading || pageLoading) {
@@ -281,41 +422,52 @@ export default function SeasonPage() {
       <div className="w-80 border-r border-border bg-card flex flex-col">
         {/* Sidebar Header with Week Selector */}
         <div className="p-4 border-b border-border bg-card text-card-foreground">
-          <h2 className="text-lg font-semibold mb-3">Week {selectedWeek}</h2>
+          <h2 className="text-lg font-semibold mb-3">{selectedWeekLabel}</h2>
           <div className="flex items-center gap-2">
             <Button
               variant="outline"
               size="sm"
-              onClick={() => setSelectedWeek(Math.max(1, selectedWeek - 1))}
-              disabled={selectedWeek <= 1}
+              onClick={() => selectWeekAt(selectedWeekIndex - 1)}
+              disabled={selectedWeekIndex <= 0}
             >
               <ChevronLeft className="h-4 w-4" />
             </Button>
 
             <span className="text-sm text-muted-foreground min-w-[60px] text-center">
-              Week {selectedWeek}
+              {selectedSeasonType === 3 ? 'Playoffs' : `Week ${selectedWeek}`}
             </span>
 
             <Button
               variant="outline"
               size="sm"
-              onClick={() => setSelectedWeek(Math.min(18, selectedWeek + 1))}
-              disabled={selectedWeek >= 18}
+              onClick={() => selectWeekAt(selectedWeekIndex + 1)}
+              disabled={selectedWeekIndex < 0 || selectedWeekIndex >= pickWeeks.length - 1}
             >
               <ChevronRight className="h-4 w-4" />
             </Button>
 
-            {selectedWeek !== currentWeek && (
+            {!isCurrentWeekSelected && (
               <Button
                 variant="default"
                 size="sm"
-                onClick={() => setSelectedWeek(currentWeek)}
+                onClick={() => {
+                  setSelectedWeek(currentWeek);
+                  setSelectedSeasonType(currentSeasonType);
+                }}
                 className="ml-2"
               >
                 Current
               </Button>
             )}
           </div>
+          {weekLockTime && (
+            <PickLockCountdown deadline={weekLockTime} label={`${selectedWeekLabel} picks`} className="mt-2" />
+          )}
+          {selectedCalendarWeek && selectedCalendarWeek.bye_teams.length > 0 && (
+            <p className="text-xs text-muted-foreground mt-2">
+              Bye: {selectedCalendarWeek.bye_teams.join(', ')}
+            </p>
+          )}
         </div>
 
         {/* Games List */}
@@ -406,6 +558,18 @@ export default function SeasonPage() {
             })
           )}
         </div>
+
+        {/* Parlay Slip */}
+        {parlayLegCount > 0 && (
+          <div className="border-t border-border p-4">
+            <ParlaySlip
+              seasonId={seasonId}
+              currentWeek={selectedWeek}
+              weekLabel={selectedWeekLabel}
+              onParlaySubmitted={handlePickSubmitted}
+            />
+          </div>
+        )}
       </div>
 
       {/* Main Content Area */}
@@ -428,7 +592,7 @@ export default function SeasonPage() {
                 </span>
                 <span className="flex items-center gap-1">
                   <GamepadIcon className="h-4 w-4" />
-                  Week {currentWeek}: {games.length} game{games.length !== 1 ? 's' : ''}
+                  {selectedWeekLabel}: {games.length} game{games.length !== 1 ? 's' : ''}
                 </span>
               </div>
             </div>
@@ -449,18 +613,62 @@ export default function SeasonPage() {
           {viewState === 'overview' ? (
             <div className="grid grid-cols-2 gap-6 h-full">
               {/* League Picks Column */}
-              <div className="overflow-y-auto">
-                <LeaguePicksDisplay leagueId={leagueId} currentWeek={selectedWeek} />
+              <div className="overflow-y-auto space-y-6">
+                {isConfidence && selectedCalendarWeek && (
+                  <ConfidencePicker
+                    seasonId={seasonId}
+                    seasonYear={selectedCalendarWeek.season_year}
+                    seasonType={selectedSeasonType}
+                    week={selectedWeek}
+                    weekLabel={selectedWeekLabel}
+                    games={games}
+                    existingPicks={userWeekPicksData?.picks || []}
+                    betType={season.leagues.confidence_bet_type ?? 'moneyline'}
+                    onSubmitted={handlePickSubmitted}
+                  />
+                )}
+                {!isSurvivor && (
+                  <TiebreakerGuess
+                    seasonId={seasonId}
+                    seasonType={selectedSeasonType}
+                    week={selectedWeek}
+                    weekLabel={selectedWeekLabel}
+                  />
+                )}
+                <LeaguePicksDisplay
+                  leagueId={leagueId}
+                  seasonId={seasonId}
+                  currentWeek={selectedWeek}
+                  seasonType={selectedSeasonType}
+                  weekLabel={selectedWeekLabel}
+                />
               </div>
 
               {/* Leaderboard Column */}
               <div>
                 <Card className="h-full">
                   <CardHeader>
-                    <CardTitle>Leaderboard</CardTitle>
+                    <CardTitle>{isSurvivor ? 'Survivor' : 'Leaderboard'}</CardTitle>
                   </CardHeader>
                   <CardContent className="overflow-y-auto">
-                    <Leaderboard seasonId={seasonId} currentWeek={selectedWeek} />
+                    {isSurvivor ? (
+                      <SurvivorBoard seasonId={seasonId} />
+                    ) : (
+                      <div className="space-y-6">
+                        <Leaderboard
+                          seasonId={seasonId}
+                          currentWeek={selectedWeek}
+                          seasonType={selectedSeasonType}
+                          weekLabel={selectedWeekLabel}
+                        />
+                        <ProjectionsPanel
+                          seasonId={seasonId}
+                          currentWeek={selectedWeek}
+                          seasonType={selectedSeasonType}
+                          weekLabel={selectedWeekLabel}
+                        />
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
               </div>
@@ -533,15 +741,23 @@ export default function SeasonPage() {
                                 <div className="text-xs">
                                   {isGameStarted(selectedGameForDetails)
                                     ? 'Game has already started'
-                                    : 'Game is live or completed'
+                                    : isWeekLocked() && weekLockTime
+                                      ? `${selectedWeekLabel} picks locked ${formatLockTime(weekLockTime)}`
+                                      : 'Game is live or completed'
                                   }
                                 </div>
                               </div>
                             </div>
                           </div>
                         )}
+                        {canMakePick(selectedGameForDetails) && (
+                          <PickLockCountdown
+                            deadline={getPickDeadline(selectedGameForDetails.start_time, weekLockTime)}
+                            label={weekLockTime && weekLockTime < new Date(selectedGameForDetails.start_time) ? `${selectedWeekLabel} picks` : 'Picks'}
+                          />
+                        )}
                         {/* Betting Options Grid */}
-                        <div className="grid grid-cols-3 gap-6">
+                        <div className={`grid gap-6 ${isSurvivor ? 'grid-cols-1' : 'grid-cols-3'}`}>
                           {/* Money Line Column */}
                           <div className="text-center">
                             <h3 className="font-semibold mb-4 text-lg">ML</h3>
@@ -549,8 +765,8 @@ export default function SeasonPage() {
                               <Button
                                 variant={selectedBetType === 'moneyline' && selectedBetOption === selectedGameForDetails.away_team.name ? 'default' : 'outline'}
                                 className="w-full h-auto p-4 flex flex-col"
-                                onClick={() => handleBetSelection('moneyline', selectedGameForDetails.away_team.name)}
-                                disabled={!canMakePick(selectedGameForDetails)}
+                                onClick={() => handleBetSelection('moneyline', 'away', selectedGameForDetails.away_team.name)}
+                                disabled={!canMakePick(selectedGameForDetails) || isSurvivorTeamUsed(selectedGameForDetails.away_team_id)}
                               >
                                 <div className="font-medium">{selectedGameForDetails.away_team.abbreviation}</div>
                                 <div className="text-sm text-muted-foreground">
@@ -565,8 +781,8 @@ export default function SeasonPage() {
                               <Button
                                 variant={selectedBetType === 'moneyline' && selectedBetOption === selectedGameForDetails.home_team.name ? 'default' : 'outline'}
                                 className="w-full h-auto p-4 flex flex-col"
-                                onClick={() => handleBetSelection('moneyline', selectedGameForDetails.home_team.name)}
-                                disabled={!canMakePick(selectedGameForDetails)}
+                                onClick={() => handleBetSelection('moneyline', 'home', selectedGameForDetails.home_team.name)}
+                                disabled={!canMakePick(selectedGameForDetails) || isSurvivorTeamUsed(selectedGameForDetails.home_team_id)}
                               >
                                 <div className="font-medium">{selectedGameForDetails.home_team.abbreviation}</div>
                                 <div className="text-sm text-muted-foreground">
@@ -582,96 +798,133 @@ export default function SeasonPage() {
                           </div>
 
                           {/* Spread Column */}
-                          <div className="text-center">
-                            <h3 className="font-semibold mb-4 text-lg">SP</h3>
-                            <div className="space-y-3">
-                              {(() => {
-                                const awaySpreadSelection = selectedGameForDetails.odds[0]?.spread_away !== null && selectedGameForDetails.odds[0]?.spread_away !== undefined ?
-                                  `${selectedGameForDetails.away_team.name} ${selectedGameForDetails.odds[0].spread_away > 0 ? '+' : ''}${selectedGameForDetails.odds[0].spread_away}` : null;
-                                const homeSpreadSelection = selectedGameForDetails.odds[0]?.spread_home !== null && selectedGameForDetails.odds[0]?.spread_home !== undefined ?
-                                  `${selectedGameForDetails.home_team.name} ${selectedGameForDetails.odds[0].spread_home > 0 ? '+' : ''}${selectedGameForDetails.odds[0].spread_home}` : null;
-
-                                return (
-                                  <>
-                                    <Button
-                                      variant={selectedBetType === 'spread' && selectedBetOption === awaySpreadSelection ? 'default' : 'outline'}
-                                      className="w-full h-auto p-4 flex flex-col"
-                                      onClick={() => awaySpreadSelection && handleBetSelection('spread', awaySpreadSelection)}
-                                      disabled={!awaySpreadSelection || !canMakePick(selectedGameForDetails)}
-                                    >
-                                      <div className="font-medium">{selectedGameForDetails.away_team.abbreviation}</div>
-                                      <div className="text-sm text-muted-foreground">
-                                        {selectedGameForDetails.odds[0]?.spread_away !== null && selectedGameForDetails.odds[0]?.spread_away !== undefined ?
-                                          (selectedGameForDetails.odds[0].spread_away > 0 ?
-                                            `+${selectedGameForDetails.odds[0].spread_away}` :
-                                            selectedGameForDetails.odds[0].spread_away
-                                          ) : 'N/A'
-                                        }
-                                      </div>
-                                    </Button>
-                                    <Button
-                                      variant={selectedBetType === 'spread' && selectedBetOption === homeSpreadSelection ? 'default' : 'outline'}
-                                      className="w-full h-auto p-4 flex flex-col"
-                                      onClick={() => homeSpreadSelection && handleBetSelection('spread', homeSpreadSelection)}
-                                      disabled={!homeSpreadSelection || !canMakePick(selectedGameForDetails)}
-                                    >
-                                      <div className="font-medium">{selectedGameForDetails.home_team.abbreviation}</div>
-                                      <div className="text-sm text-muted-foreground">
-                                        {selectedGameForDetails.odds[0]?.spread_home !== null && selectedGameForDetails.odds[0]?.spread_home !== undefined ?
-                                          (selectedGameForDetails.odds[0].spread_home > 0 ?
-                                            `+${selectedGameForDetails.odds[0].spread_home}` :
-                                            selectedGameForDetails.odds[0].spread_home
-                                          ) : 'N/A'
-                                        }
-                                      </div>
-                                    </Button>
-                                  </>
-                                );
-                              })()}
+                          {!isSurvivor && (
+                            <div className="text-center">
+                              <h3 className="font-semibold mb-4 text-lg">SP</h3>
+                              <div className="space-y-3">
+                                {(() => {
+                                  const awaySpreadSelection = selectedGameForDetails.odds[0]?.spread_away !== null && selectedGameForDetails.odds[0]?.spread_away !== undefined ?
+                                    `${selectedGameForDetails.away_team.name} ${selectedGameForDetails.odds[0].spread_away > 0 ? '+' : ''}${selectedGameForDetails.odds[0].spread_away}` : null;
+                                  const homeSpreadSelection = selectedGameForDetails.odds[0]?.spread_home !== null && selectedGameForDetails.odds[0]?.spread_home !== undefined ?
+                                    `${selectedGameForDetails.home_team.name} ${selectedGameForDetails.odds[0].spread_home > 0 ? '+' : ''}${selectedGameForDetails.odds[0].spread_home}` : null;
+
+                                  return (
+                                    <>
+                                      <Button
+                                        variant={selectedBetType === 'spread' && selectedBetOption === awaySpreadSelection ? 'default' : 'outline'}
+                                        className="w-full h-auto p-4 flex flex-col"
+                                        onClick={() => awaySpreadSelection && handleBetSelection('spread', 'away', awaySpreadSelection)}
+                                        disabled={!awaySpreadSelection || !canMakePick(selectedGameForDetails)}
+                                      >
+                                        <div className="font-medium">{selectedGameForDetails.away_team.abbreviation}</div>
+                                        <div className="text-sm text-muted-foreground">
+                                          {selectedGameForDetails.odds[0]?.spread_away !== null && selectedGameForDetails.odds[0]?.spread_away !== undefined ?
+                                            (selectedGameForDetails.odds[0].spread_away > 0 ?
+                                              `+${selectedGameForDetails.odds[0].spread_away}` :
+                                              selectedGameForDetails.odds[0].spread_away
+                                            ) : 'N/A'
+                                          }
+                                        </div>
+                                        {selectedGameForDetails.odds[0]?.spread_away_price != null && (
+                                          <div className="text-xs text-muted-foreground">
+                                            {formatAmericanOdds(selectedGameForDetails.odds[0].spread_away_price)}
+                                          </div>
+                                        )}
+                                      </Button>
+                                      <Button
+                                        variant={selectedBetType === 'spread' && selectedBetOption === homeSpreadSelection ? 'default' : 'outline'}
+                                        className="w-full h-auto p-4 flex flex-col"
+                                        onClick={() => homeSpreadSelection && handleBetSelection('spread', 'home', homeSpreadSelection)}
+                                        disabled={!homeSpreadSelection || !canMakePick(selectedGameForDetails)}
+                                      >
+                                        <div className="font-medium">{selectedGameForDetails.home_team.abbreviation}</div>
+                                        <div className="text-sm text-muted-foreground">
+                                          {selectedGameForDetails.odds[0]?.spread_home !== null && selectedGameForDetails.odds[0]?.spread_home !== undefined ?
+                                            (selectedGameForDetails.odds[0].spread_home > 0 ?
+                                              `+${selectedGameForDetails.odds[0].spread_home}` :
+                                              selectedGameForDetails.odds[0].spread_home
+                                            ) : 'N/A'
+                                          }
+                                        </div>
+                                        {selectedGameForDetails.odds[0]?.spread_home_price != null && (
+                                          <div className="text-xs text-muted-foreground">
+                                            {formatAmericanOdds(selectedGameForDetails.odds[0].spread_home_price)}
+                                          </div>
+                                        )}
+                                      </Button>
+                                    </>
+                                  );
+                                })()}
+                              </div>
                             </div>
-                          </div>
+
+                          )}
 
                           {/* Over/Under Column */}
-                          <div className="text-center">
-                            <h3 className="font-semibold mb-4 text-lg">OU</h3>
-                            <div className="space-y-3">
-                              {(() => {
-                                const overSelection = selectedGameForDetails.odds[0]?.total_over ? `Over ${selectedGameForDetails.odds[0].total_over}` : null;
-                                const underSelection = selectedGameForDetails.odds[0]?.total_under ? `Under ${selectedGameForDetails.odds[0].total_under}` : null;
-
-                                return (
-                                  <>
-                                    <Button
-                                      variant={selectedBetType === 'total' && selectedBetOption === overSelection ? 'default' : 'outline'}
-                                      className="w-full h-auto p-4 flex flex-col"
-                                      onClick={() => overSelection && handleBetSelection('total', overSelection)}
-                                      disabled={!overSelection || !canMakePick(selectedGameForDetails)}
-                                    >
-                                      <div className="font-medium">Over</div>
-                                      <div className="text-sm text-muted-foreground">
-                                        {selectedGameForDetails.odds[0]?.total_over || 'N/A'}
-                                      </div>
-                                    </Button>
-                                    <Button
-                                      variant={selectedBetType === 'total' && selectedBetOption === underSelection ? 'default' : 'outline'}
-                                      className="w-full h-auto p-4 flex flex-col"
-                                      onClick={() => underSelection && handleBetSelection('total', underSelection)}
-                                      disabled={!underSelection || !canMakePick(selectedGameForDetails)}
-                                    >
-                                      <div className="font-medium">Under</div>
-                                      <div className="text-sm text-muted-foreground">
-                                        {selectedGameForDetails.odds[0]?.total_under || 'N/A'}
-                                      </div>
-                                    </Button>
-                                  </>
-                                );
-                              })()}
+                          {!isSurvivor && (
+                            <div className="text-center">
+                              <h3 className="font-semibold mb-4 text-lg">OU</h3>
+                              <div className="space-y-3">
+                                {(() => {
+                                  const overSelection = selectedGameForDetails.odds[0]?.total_over ? `Over ${selectedGameForDetails.odds[0].total_over}` : null;
+                                  const underSelection = selectedGameForDetails.odds[0]?.total_under ? `Under ${selectedGameForDetails.odds[0].total_under}` : null;
+
+                                  return (
+                                    <>
+                                      <Button
+                                        variant={selectedBetType === 'total' && selectedBetOption === overSelection ? 'default' : 'outline'}
+                                        className="w-full h-auto p-4 flex flex-col"
+                                        onClick={() => overSelection && handleBetSelection('total', 'over', overSelection)}
+                                        disabled={!overSelection || !canMakePick(selectedGameForDetails)}
+                                      >
+                                        <div className="font-medium">Over</div>
+                                        <div className="text-sm text-muted-foreground">
+                                          {selectedGameForDetails.odds[0]?.total_over || 'N/A'}
+                                        </div>
+                                        {selectedGameForDetails.odds[0]?.total_over_price != null && (
+                                          <div className="text-xs text-muted-foreground">
+                                            {formatAmericanOdds(selectedGameForDetails.odds[0].total_over_price)}
+                                          </div>
+                                        )}
+                                      </Button>
+                                      <Button
+                                        variant={selectedBetType === 'total' && selectedBetOption === underSelection ? 'default' : 'outline'}
+                                        className="w-full h-auto p-4 flex flex-col"
+                                        onClick={() => underSelection && handleBetSelection('total', 'under', underSelection)}
+                                        disabled={!underSelection || !canMakePick(selectedGameForDetails)}
+                                      >
+                                        <div className="font-medium">Under</div>
+                                        <div className="text-sm text-muted-foreground">
+                                          {selectedGameForDetails.odds[0]?.total_under || 'N/A'}
+                                        </div>
+                                        {selectedGameForDetails.odds[0]?.total_under_price != null && (
+                                          <div className="text-xs text-muted-foreground">
+                                            {formatAmericanOdds(selectedGameForDetails.odds[0].total_under_price)}
+                                          </div>
+                                        )}
+                                      </Button>
+                                    </>
+                                  );
+                                })()}
+                              </div>
                             </div>
-                          </div>
+                          )}
                         </div>
 
+                        {isSurvivor && (
+                          <p className="text-center text-xs text-muted-foreground">
+                            Survivor pick: choose a team to win straight up. Teams you&apos;ve already used are disabled.
+                          </p>
+                        )}
+
+                        {isConfidence && (
+                          <p className="text-center text-xs text-muted-foreground">
+                            Confidence pool picks are made for the whole week from the overview.
+                          </p>
+                        )}
+
                         {/* Pick Selection Summary */}
-                        {selectedBetType && selectedBetOption && (
+                        {!isConfidence && selectedBetType && selectedBetOption && (
                           <div className="p-4 bg-blue-50 rounded-lg border border-blue-200">
                             <h4 className="font-medium text-blue-900 mb-2">Your Selection:</h4>
                             <p className="text-blue-800 mb-3">
@@ -679,14 +932,27 @@ export default function SeasonPage() {
                               {selectedBetType === 'spread' && `${selectedBetOption}`}
                               {selectedBetType === 'total' && `${selectedBetOption} points`}
                             </p>
-                            <Button
-                              onClick={handleSubmitPick}
-                              disabled={isSubmittingPick || !canMakePick(selectedGameForDetails)}
-                              className="w-full"
-                            >
-                              {isSubmittingPick ? 'Submitting...' :
-                               !canMakePick(selectedGameForDetails) ? 'Picks Closed' : 'Submit Pick'}
-                            </Button>
+                            <div className="flex gap-2">
+                              {!isSurvivor && (
+                                <Button
+                                  variant="secondary"
+                                  onClick={handleAddToParlay}
+                                  disabled={!canMakePick(selectedGameForDetails)}
+                                  className="flex-1"
+                                >
+                                  Add to Parlay
+                                </Button>
+                              )}
+                              <Button
+                                onClick={handleSubmitPick}
+                                disabled={isSubmittingPick || !canMakePick(selectedGameForDetails)}
+                                className="flex-1"
+                              >
+                                {isSubmittingPick ? 'Submitting...' :
+                                 !canMakePick(selectedGameForDetails) ? 'Picks Closed' :
+                                 getOpenPickOnGame(selectedGameForDetails.id) ? 'Update Pick' : 'Submit Pick'}
+                              </Button>
+                            </div>
                           </div>
                         )}
 
@@ -705,6 +971,14 @@ export default function SeasonPage() {
                     )}
                   </CardContent>
                 </Card>
+
+                <div className="mt-6">
+                  <LineMovementChart
+                    gameId={selectedGameForDetails.id}
+                    homeAbbreviation={selectedGameForDetails.home_team.abbreviation}
+                    awayAbbreviation={selectedGameForDetails.away_team.abbreviation}
+                  />
+                </div>
               </div>
             )
           )}
@@ -716,7 +990,12 @@ export default function SeasonPage() {
         onOpenChange={closePickModal}
         game={selectedGame}
         currentWeek={currentWeek}
+        weekLabel={currentCalendarWeek?.label}
         seasonId={seasonId}
+        pickRules={pickRules}
+        weekPickCount={userWeekPicksData?.picks.length ?? 0}
+        editingPickId={selectedGame ? getOpenPickOnGame(selectedGame.id)?.id : undefined}
+        weekLockTime={selectedGame && games.some(game => game.id === selectedGame.id) ? weekLockTime : null}
         onPickSubmitted={handlePickSubmitted}
       />
     </div>
@@ -0,0 +1,222 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ChevronDown, ChevronUp, GripVertical, Lock } from 'lucide-react';
+import { useSubmitConfidencePicks } from '@/hooks/usePicks';
+import type { UserWeekPick } from '@/hooks/useUserWeekPicks';
+import { useToast } from '@/hooks/use-toast';
+import { getQuotedLine, getSelectionPoint } from '@/lib/odds';
+import { Game } from '@/types';
+
+type Side = 'home' | 'away';
+
+interface ConfidencePickerProps {
+  seasonId: string;
+  seasonYear: number;
+  seasonType: number;
+  week: number;
+  weekLabel: string;
+  games: Game[];
+  existingPicks: UserWeekPick[];
+  betType: 'moneyline' | 'spread';
+  onSubmitted?: () => void;
+}
+
+interface RankedGame {
+  game: Game;
+  side: Side | null;
+}
+
+const formatPoint = (point: number | null) =>
+  point === null ? '' : ` ${point > 0 ? '+' : ''}${point}`;
+
+export default function ConfidencePicker({
+  seasonId,
+  seasonYear,
+  seasonType,
+  week,
+  weekLabel,
+  games,
+  existingPicks,
+  betType,
+  onSubmitted
+}: ConfidencePickerProps) {
+  const submitMutation = useSubmitConfidencePicks();
+  const { toast } = useToast();
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+
+  // Games that have kicked off keep their pick and confidence; the rest are ranked here
+  const lockedPicks = useMemo(
+    () => existingPicks.filter(pick => {
+      const game = games.find(g => g.id === pick.game_id);
+      return !game || new Date() >= new Date(game.start_time);
+    }),
+    [existingPicks, games]
+  );
+
+  const buildRanking = (): RankedGame[] => {
+    const openGames = games.filter(game => new Date() < new Date(game.start_time));
+    const confidenceFor = (game: Game) =>
+      existingPicks.find(pick => pick.game_id === game.id)?.confidence ?? 0;
+
+    // Previously ranked games first, highest confidence at the top
+    return [...openGames]
+      .sort((a, b) => confidenceFor(b) - confidenceFor(a))
+      .map(game => {
+        const existing = existingPicks.find(pick => pick.game_id === game.id);
+        const side = existing?.selection_data?.side;
+        return { game, side: side === 'home' || side === 'away' ? side : null };
+      });
+  };
+
+  const [ranking, setRanking] = useState<RankedGame[]>(buildRanking);
+
+  // Reset when the week or the saved picks change
+  const rankingKey = `${games.map(game => game.id).join(',')}|${existingPicks.map(pick => pick.id).join(',')}`;
+  useEffect(() => {
+    setRanking(buildRanking());
+  }, [rankingKey]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Values 1..N that aren't already taken by locked picks, highest first
+  const availableConfidence = useMemo(() => {
+    const taken = new Set(lockedPicks.map(pick => pick.confidence));
+    return Array.from({ length: games.length }, (_, i) => games.length - i)
+      .filter(value => !taken.has(value));
+  }, [games.length, lockedPicks]);
+
+  const moveGame = (from: number, to: number) => {
+    if (to < 0 || to >= ranking.length || from === to) return;
+    setRanking(prev => {
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  };
+
+  const setSide = (index: number, side: Side) => {
+    setRanking(prev => prev.map((entry, i) => i === index ? { ...entry, side } : entry));
+  };
+
+  const getLineLabel = (game: Game, side: Side) => {
+    if (betType !== 'spread' || !game.odds[0]) return '';
+    return formatPoint(getSelectionPoint(game.odds[0], 'spread', side));
+  };
+
+  const allPicked = ranking.every(entry => entry.side !== null);
+
+  const handleSubmit = async () => {
+    try {
+      await submitMutation.mutateAsync({
+        season_id: seasonId,
+        season_year: seasonYear,
+        season_type: seasonType,
+        week,
+        picks: ranking.map((entry, index) => ({
+          game_id: entry.game.id,
+          side: entry.side as Side,
+          confidence: availableConfidence[index],
+          ...(entry.game.odds[0] ? getQuotedLine(entry.game.odds[0], betType, entry.side as Side) : {})
+        }))
+      });
+
+      toast({
+        title: 'Confidence picks submitted!',
+        description: `Your ${weekLabel} rankings have been recorded.`,
+      });
+
+      onSubmitted?.();
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to submit picks',
+        description: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  };
+
+  if (games.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{weekLabel} Confidence Picks</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Pick {betType === 'spread' ? 'against the spread' : 'the winner'} of every game, then drag to rank.
+          Your top game is worth {games.length} points.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {lockedPicks.map(pick => (
+          <div key={pick.id} className="flex items-center gap-3 p-2 rounded-md border bg-muted/50 text-sm">
+            <Lock className="h-4 w-4 text-muted-foreground" />
+            <span className="w-8 text-center font-semibold">{pick.confidence ?? '-'}</span>
+            <span className="flex-1">{pick.selection}</span>
+            {pick.result && <span className="text-xs uppercase text-muted-foreground">{pick.result}</span>}
+          </div>
+        ))}
+
+        {ranking.map((entry, index) => (
+          <div
+            key={entry.game.id}
+            draggable
+            onDragStart={() => setDraggedIndex(index)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={() => {
+              if (draggedIndex !== null) moveGame(draggedIndex, index);
+              setDraggedIndex(null);
+            }}
+            onDragEnd={() => setDraggedIndex(null)}
+            className={`flex items-center gap-3 p-2 rounded-md border bg-card ${
+              draggedIndex === index ? 'opacity-50' : ''
+            }`}
+          >
+            <GripVertical className="h-4 w-4 text-muted-foreground cursor-grab" />
+            <span className="w-8 text-center font-semibold">{availableConfidence[index]}</span>
+            <div className="flex-1 grid grid-cols-2 gap-2">
+              {(['away', 'home'] as const).map(side => {
+                const team = side === 'home' ? entry.game.home_team : entry.game.away_team;
+                return (
+                  <Button
+                    key={side}
+                    size="sm"
+                    variant={entry.side === side ? 'default' : 'outline'}
+                    onClick={() => setSide(index, side)}
+                  >
+                    {side === 'home' ? '@ ' : ''}{team.abbreviation}{getLineLabel(entry.game, side)}
+                  </Button>
+                );
+              })}
+            </div>
+            <div className="flex flex-col">
+              <Button variant="ghost" size="sm" className="h-5 px-1" onClick={() => moveGame(index, index - 1)} disabled={index === 0}>
+                <ChevronUp className="h-3 w-3" />
+              </Button>
+              <Button variant="ghost" size="sm" className="h-5 px-1" onClick={() => moveGame(index, index + 1)} disabled={index === ranking.length - 1}>
+                <ChevronDown className="h-3 w-3" />
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        {ranking.length > 0 ? (
+          <Button
+            className="w-full mt-2"
+            onClick={handleSubmit}
+            disabled={!allPicked || submitMutation.isPending}
+          >
+            {submitMutation.isPending ? 'Submitting...' : allPicked ? 'Submit Rankings' : 'Pick every game to submit'}
+          </Button>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-2">
+            Every game this week has kicked off.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
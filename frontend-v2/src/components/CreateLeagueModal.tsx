@@ -3,7 +3,7 @@
 import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { useUserStore } from '@/stores/userStore';
-import { useCreateLeague } from '@/hooks/useLeagues';
+import { useCreateLeague, type ConfidenceBetType, type LeagueFormat, type SurvivorTieRule } from '@/hooks/useLeagues';
 import { useToast } from '@/hooks/use-toast';
 import {
   Dialog,
@@ -32,6 +32,10 @@ export default function CreateLeagueModal({ open, onOpenChange, onLeagueCreated
   const [formData, setFormData] = useState({
     name: '',
     sport_id: '',
+    format: 'weekly',
+    survivor_strikes: '1',
+    survivor_tie_rule: 'loss',
+    confidence_bet_type: 'moneyline',
   });
   const [sports, setSports] = useState<Sport[]>([]);
   const [sportsLoading, setSportsLoading] = useState(false);
@@ -85,11 +89,19 @@ export default function CreateLeagueModal({ open, onOpenChange, onLeagueCreated
       await createLeagueMutation.mutateAsync({
         name: formData.name.trim(),
         sport_id: parseInt(formData.sport_id),
+        format: formData.format as LeagueFormat,
+        ...(formData.format === 'survivor' && {
+          survivor_strikes: parseInt(formData.survivor_strikes),
+          survivor_tie_rule: formData.survivor_tie_rule as SurvivorTieRule,
+        }),
+        ...(formData.format === 'confidence' && {
+          confidence_bet_type: formData.confidence_bet_type as ConfidenceBetType,
+        }),
       });
 
       // Close modal and reset form
       onOpenChange(false);
-      setFormData({ name: '', sport_id: '' });
+      setFormData(prev => ({ ...prev, name: '', sport_id: '', format: 'weekly' }));
 
       // Trigger refresh of leagues list
       onLeagueCreated?.();
@@ -105,7 +117,7 @@ export default function CreateLeagueModal({ open, onOpenChange, onLeagueCreated
 
   const handleClose = () => {
     onOpenChange(false);
-    setFormData({ name: '', sport_id: '' });
+    setFormData(prev => ({ ...prev, name: '', sport_id: '', format: 'weekly' }));
   };
 
   return (
@@ -160,6 +172,76 @@ export default function CreateLeagueModal({ open, onOpenChange, onLeagueCreated
                 </select>
               )}
             </div>
+
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="format" className="text-right">
+                Format
+              </Label>
+              <select
+                id="format"
+                value={formData.format}
+                onChange={(e) => handleInputChange('format', e.target.value)}
+                className="col-span-3 flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                <option value="weekly">Weekly picks</option>
+                <option value="survivor">Survivor</option>
+                <option value="confidence">Confidence pool</option>
+              </select>
+            </div>
+
+            {formData.format === 'confidence' && (
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="confidence_bet_type" className="text-right">
+                  Picks
+                </Label>
+                <select
+                  id="confidence_bet_type"
+                  value={formData.confidence_bet_type}
+                  onChange={(e) => handleInputChange('confidence_bet_type', e.target.value)}
+                  className="col-span-3 flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  <option value="moneyline">Straight up</option>
+                  <option value="spread">Against the spread</option>
+                </select>
+              </div>
+            )}
+
+            {formData.format === 'survivor' && (
+              <>
+                <div className="grid grid-cols-4 items-center gap-4">
+                  <Label htmlFor="survivor_strikes" className="text-right">
+                    Strikes
+                  </Label>
+                  <select
+                    id="survivor_strikes"
+                    value={formData.survivor_strikes}
+                    onChange={(e) => handleInputChange('survivor_strikes', e.target.value)}
+                    className="col-span-3 flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    {[1, 2, 3, 4, 5].map((strikes) => (
+                      <option key={strikes} value={strikes}>
+                        {strikes === 1 ? 'Out on first loss' : `Out after ${strikes} losses`}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="grid grid-cols-4 items-center gap-4">
+                  <Label htmlFor="survivor_tie_rule" className="text-right">
+                    Ties
+                  </Label>
+                  <select
+                    id="survivor_tie_rule"
+                    value={formData.survivor_tie_rule}
+                    onChange={(e) => handleInputChange('survivor_tie_rule', e.target.value)}
+                    className="col-span-3 flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    <option value="loss">Count as a loss</option>
+                    <option value="win">Count as a win</option>
+                  </select>
+                </div>
+              </>
+            )}
           </div>
 
           <DialogFooter>
@@ -10,11 +10,15 @@ import Image from 'next/image';
 interface LeaderboardProps {
   seasonId: string;
   currentWeek?: number;
+  seasonType?: number;
+  // Calendar label for the week, e.g. "Wild Card"
+  weekLabel?: string;
   showWeeklyToggle?: boolean;
 }
 
-export default function Leaderboard({ seasonId, currentWeek = 1, showWeeklyToggle = true }: LeaderboardProps) {
+export default function Leaderboard({ seasonId, currentWeek = 1, seasonType = 2, weekLabel, showWeeklyToggle = true }: LeaderboardProps) {
   const [viewType, setViewType] = useState<'season' | 'week'>('season');
+  const weekTitle = weekLabel ?? `Week ${currentWeek}`;
 
   const {
     data: seasonData,
@@ -26,7 +30,7 @@ export default function Leaderboard({ seasonId, currentWeek = 1, showWeeklyToggl
     data: weeklyData,
     isLoading: weeklyLoading,
     error: weeklyError
-  } = useWeeklyLeaderboard(seasonId, currentWeek);
+  } = useWeeklyLeaderboard(seasonId, currentWeek, seasonType);
 
   const data = viewType === 'season' ? seasonData : weeklyData;
   const loading = viewType === 'season' ? seasonLoading : weeklyLoading;
@@ -89,7 +93,7 @@ export default function Leaderboard({ seasonId, currentWeek = 1, showWeeklyToggl
       <div className="flex items-center justify-between mb-4">
         <h3 className="text-xl font-semibold flex items-center gap-2">
           <Trophy className="h-5 w-5" />
-          {viewType === 'season' ? 'Season Leaderboard' : `Week ${currentWeek} Standings`}
+          {viewType === 'season' ? 'Season Leaderboard' : `${weekTitle} Standings`}
         </h3>
 
         {showWeeklyToggle && (
@@ -108,7 +112,7 @@ export default function Leaderboard({ seasonId, currentWeek = 1, showWeeklyToggl
               onClick={() => setViewType('week')}
               className="h-8"
             >
-              Week {currentWeek}
+              {weekTitle}
             </Button>
           </div>
         )}
@@ -234,7 +238,7 @@ export default function Leaderboard({ seasonId, currentWeek = 1, showWeeklyToggl
         <div className="mt-6 pt-4 border-t text-center">
           <div className="text-sm text-gray-600">
             Showing top {Math.min(leaderboard.length, 50)} of {leaderboard.length} players
-            {viewType === 'season' ? ' this season' : ` for week ${currentWeek}`}
+            {viewType === 'season' ? ' this season' : ` for ${weekTitle}`}
           </div>
         </div>
       )}
@@ -0,0 +1,237 @@
+'use client';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { EyeOff, Loader2, Radio, User, X } from 'lucide-react';
+import type { LeaguePick, LeaguePickEntry, PickLeg } from '@/hooks/usePicks';
+import { formatAmericanOdds } from '@/lib/odds';
+import type { LivePickStatus } from '@/lib/scoring';
+
+const LIVE_BADGES: Record<LivePickStatus['result'], { label: string; variant: 'success' | 'destructive' | 'warning' }> = {
+  win: { label: 'WINNING', variant: 'success' },
+  loss: { label: 'LOSING', variant: 'destructive' },
+  push: { label: 'PUSHING', variant: 'warning' }
+};
+
+interface LeaguePickCardProps {
+  pick: LeaguePickEntry;
+  // Label for the pick's week, shown in feeds that span several weeks
+  weekLabel?: string;
+  // Shown on the viewer's own picks that can still be withdrawn
+  onWithdraw?: () => void;
+  isWithdrawing?: boolean;
+}
+
+const getLiveBadge = (live: LivePickStatus) => {
+  const { label, variant } = LIVE_BADGES[live.result];
+  return (
+    <Badge variant={variant} className="gap-1">
+      <Radio className="h-3 w-3" />
+      {label}
+    </Badge>
+  );
+};
+
+const getStatusBadge = (pick: LeaguePick) => {
+  const gameTime = new Date(pick.games.start_time);
+  const now = new Date();
+  const isGameStarted = now >= gameTime;
+
+  if (pick.result) {
+    return (
+      <Badge variant={pick.result === 'win' ? 'success' : 'destructive'}>
+        {pick.result.toUpperCase()}
+      </Badge>
+    );
+  } else if (pick.live) {
+    return getLiveBadge(pick.live);
+  } else if (isGameStarted) {
+    return <Badge variant="pending">PENDING</Badge>;
+  } else {
+    return <Badge variant="secondary">ACTIVE</Badge>;
+  }
+};
+
+const getLegStatusBadge = (leg: PickLeg) => {
+  if (leg.result) {
+    const variant = leg.result === 'win' ? 'success' : leg.result === 'loss' ? 'destructive' : 'warning';
+    return <Badge variant={variant}>{leg.result.toUpperCase()}</Badge>;
+  }
+  if (leg.live) {
+    return getLiveBadge(leg.live);
+  }
+  if (new Date() >= new Date(leg.games.start_time)) {
+    return <Badge variant="pending">PENDING</Badge>;
+  }
+  return <Badge variant="secondary">ACTIVE</Badge>;
+};
+
+const formatPickSelection = (pick: Pick<LeaguePick, 'bet_type' | 'selection'>) => {
+  switch (pick.bet_type) {
+    case 'moneyline':
+      return `${pick.selection} to win`;
+    case 'spread':
+      return pick.selection;
+    case 'total':
+      return `${pick.selection} points`;
+    default:
+      return pick.selection;
+  }
+};
+
+// Distance from the line in the terms of the bet: cover margin, lead, or room on a total or prop
+const formatLiveMargin = (betType: string, margin: number | null) => {
+  if (margin === null) return null;
+  const points = Math.abs(margin);
+
+  if (betType === 'moneyline') {
+    return margin === 0 ? 'Tied' : margin > 0 ? `Leading by ${points}` : `Trailing by ${points}`;
+  }
+  if (margin === 0) return 'On the number';
+  if (betType === 'spread') {
+    return margin > 0 ? `Covering by ${points}` : `${points} from covering`;
+  }
+  return margin > 0 ? `${points} clear of the line` : `${points} short of the line`;
+};
+
+const formatLiveStatus = (betType: string, live: LivePickStatus) =>
+  ['Live', live.explanation, formatLiveMargin(betType, live.margin)].filter(Boolean).join(' • ');
+
+const formatGameTime = (dateString: string) => {
+  const date = new Date(dateString);
+  return {
+    date: date.toLocaleDateString(),
+    time: date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+  };
+};
+
+/**
+ * One member's pick in a league feed: a straight pick, a parlay with its legs,
+ * a missed week, or a placeholder for a pick that's still hidden
+ */
+export default function LeaguePickCard({ pick, weekLabel, onWithdraw, isWithdrawing = false }: LeaguePickCardProps) {
+  const pickedOn = (
+    <div className="text-xs text-gray-400">
+      {weekLabel && `${weekLabel} • `}
+      {pick.is_auto_pick ? 'Assigned' : 'Picked'} {new Date(pick.created_at).toLocaleDateString()}
+    </div>
+  );
+
+  if (pick.hidden) {
+    return (
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <User className="h-4 w-4" />
+            {pick.user?.username || 'Unknown User'}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="p-3 bg-gray-50 rounded-lg flex items-center gap-2">
+            <EyeOff className="h-4 w-4 text-gray-500" />
+            <div>
+              <div className="font-medium text-gray-900 text-sm">Pick submitted</div>
+              <div className="text-xs text-gray-500 mt-1">Revealed once the pick locks</div>
+            </div>
+          </div>
+
+          {pickedOn}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const gameTime = formatGameTime(pick.games.start_time);
+
+  return (
+    <Card className="hover:shadow-md transition-shadow">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <User className="h-4 w-4" />
+            {pick.user?.username || 'Unknown User'}
+            {pick.is_auto_pick && (
+              <Badge variant="outline" className="font-normal">Auto pick</Badge>
+            )}
+          </CardTitle>
+          {getStatusBadge(pick)}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {pick.bet_type === 'no_pick' ? (
+          <div className="p-3 bg-gray-50 rounded-lg">
+            <div className="font-medium text-gray-900 text-sm">No pick submitted</div>
+            <div className="text-xs text-gray-500 mt-1">
+              Counted as a loss{pick.points_awarded < 0 && ` • ${pick.points_awarded} pts penalty`}
+            </div>
+          </div>
+        ) : pick.pick_type === 'parlay' ? (
+          <div className="space-y-2">
+            <div className="text-xs text-gray-500">
+              {pick.pick_legs.length}-leg parlay • first leg {gameTime.date} • {gameTime.time}
+            </div>
+            {pick.pick_legs.map((leg) => (
+              <div key={leg.id} className="p-3 bg-blue-50 rounded-lg flex items-start justify-between gap-2">
+                <div>
+                  <div className="font-medium text-blue-900 text-sm">
+                    {formatPickSelection(leg)}
+                  </div>
+                  <div className="text-xs text-blue-600 mt-1">
+                    {leg.games.away_team.abbreviation} @ {leg.games.home_team.abbreviation} • <span className="capitalize">{leg.bet_type.replace('_', ' ')}</span>
+                    {leg.odds_price != null && ` • ${formatAmericanOdds(leg.odds_price)}`}
+                    {leg.locked_sportsbook && ` @ ${leg.locked_sportsbook}`}
+                  </div>
+                  {leg.live && (
+                    <div className="text-xs font-medium text-blue-800 mt-1">
+                      {formatLiveStatus(leg.bet_type, leg.live)}
+                    </div>
+                  )}
+                </div>
+                {getLegStatusBadge(leg)}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <>
+            <div>
+              <div className="font-medium text-sm text-gray-900">
+                {pick.games.away_team.name} @ {pick.games.home_team.name}
+              </div>
+              <div className="text-xs text-gray-500">
+                {gameTime.date} • {gameTime.time}
+              </div>
+            </div>
+
+            <div className="p-3 bg-blue-50 rounded-lg">
+              <div className="font-medium text-blue-900 text-sm">
+                {formatPickSelection(pick)}
+              </div>
+              <div className="text-xs text-blue-600 mt-1">
+                <span className="capitalize">{pick.bet_type}</span>
+                {pick.odds_price != null && ` • ${formatAmericanOdds(pick.odds_price)}`}
+                {pick.locked_sportsbook && ` @ ${pick.locked_sportsbook}`}
+                {pick.confidence != null && ` • ${pick.confidence} confidence`}
+              </div>
+              {pick.live && (
+                <div className="text-xs font-medium text-blue-800 mt-1">
+                  {formatLiveStatus(pick.bet_type, pick.live)}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+
+        {onWithdraw ? (
+          <div className="flex items-center justify-between gap-2">
+            {pickedOn}
+            <Button variant="ghost" size="sm" onClick={onWithdraw} disabled={isWithdrawing}>
+              {isWithdrawing ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : <X className="h-4 w-4 mr-1" />}
+              Withdraw
+            </Button>
+          </div>
+        ) : pickedOn}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,59 +1,64 @@
 'use client';
 
+import { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Badge } from '@/components/ui/badge';
-import { TrendingUp, User } from 'lucide-react';
-import { useLeaguePicks, LeaguePick } from '@/hooks/usePicks';
+import { Button } from '@/components/ui/button';
+import { Loader2, TrendingUp } from 'lucide-react';
+import { useLeaguePicksFeed, useWithdrawPick, type LeaguePickEntry, type LeaguePicksFilters } from '@/hooks/usePicks';
+import { useToast } from '@/hooks/use-toast';
+import { useUserStore } from '@/stores/userStore';
+import LeaguePickCard from '@/components/LeaguePickCard';
+import PickFeedFilters from '@/components/PickFeedFilters';
 
 interface LeaguePicksDisplayProps {
   leagueId: string;
+  seasonId?: string;
   currentWeek?: number;
+  seasonType?: number;
+  // Calendar label for the week, e.g. "Wild Card"
+  weekLabel?: string;
 }
 
-export default function LeaguePicksDisplay({ leagueId, currentWeek = 1 }: LeaguePicksDisplayProps) {
+export default function LeaguePicksDisplay({ leagueId, seasonId, currentWeek = 1, seasonType = 2, weekLabel }: LeaguePicksDisplayProps) {
+  const weekTitle = weekLabel ?? `Week ${currentWeek}`;
+  const [filters, setFilters] = useState<LeaguePicksFilters>({});
+
   const {
-    data: picks = [],
+    data,
     isLoading: loading,
     error,
-  } = useLeaguePicks(leagueId, currentWeek);
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage
+  } = useLeaguePicksFeed(leagueId, { ...filters, seasonId, week: currentWeek, seasonType });
 
-  const getStatusBadge = (pick: LeaguePick) => {
-    const gameTime = new Date(pick.games.start_time);
-    const now = new Date();
-    const isGameStarted = now >= gameTime;
+  const user = useUserStore((state) => state.user);
+  const withdrawPickMutation = useWithdrawPick();
+  const { toast } = useToast();
 
-    if (pick.result) {
-      return (
-        <Badge variant={pick.result === 'win' ? 'success' : 'destructive'}>
-          {pick.result.toUpperCase()}
-        </Badge>
-      );
-    } else if (isGameStarted) {
-      return <Badge variant="pending">PENDING</Badge>;
-    } else {
-      return <Badge variant="secondary">ACTIVE</Badge>;
-    }
-  };
+  const picks = data?.pages.flatMap(page => page.picks) || [];
+  const members = data?.pages[0]?.members || [];
+  const isFiltered = !!(filters.userId || filters.betType || filters.result);
 
-  const formatPickSelection = (pick: LeaguePick) => {
-    switch (pick.bet_type) {
-      case 'moneyline':
-        return `${pick.selection} to win`;
-      case 'spread':
-        return pick.selection;
-      case 'total':
-        return `${pick.selection} points`;
-      default:
-        return pick.selection;
+  // The viewer's own open picks can be withdrawn until any of their games start
+  const canWithdraw = (pick: LeaguePickEntry) => {
+    if (pick.hidden || pick.user_id !== user?.id || pick.result !== null || pick.bet_type === 'no_pick' || pick.confidence != null) {
+      return false;
     }
+    const now = new Date();
+    return [pick.games, ...(pick.pick_legs || []).map(leg => leg.games)]
+      .every(game => now < new Date(game.start_time));
   };
 
-  const formatGameTime = (dateString: string) => {
-    const date = new Date(dateString);
-    return {
-      date: date.toLocaleDateString(),
-      time: date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
-    };
+  const handleWithdraw = (pickId: number) => {
+    withdrawPickMutation.mutate(pickId, {
+      onSuccess: () => toast({ title: 'Pick withdrawn' }),
+      onError: (withdrawError) => toast({
+        variant: 'destructive',
+        title: 'Failed to withdraw pick',
+        description: withdrawError.message,
+      }),
+    });
   };
 
   if (loading) {
@@ -62,7 +67,7 @@ export default function LeaguePicksDisplay({ leagueId, currentWeek = 1 }: League
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <TrendingUp className="h-5 w-5" />
-            Week {currentWeek} Picks
+            {weekTitle} Picks
           </CardTitle>
         </CardHeader>
         <CardContent>
@@ -82,7 +87,7 @@ export default function LeaguePicksDisplay({ leagueId, currentWeek = 1 }: League
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <TrendingUp className="h-5 w-5" />
-            Week {currentWeek} Picks
+            {weekTitle} Picks
           </CardTitle>
         </CardHeader>
         <CardContent>
@@ -96,65 +101,52 @@ export default function LeaguePicksDisplay({ leagueId, currentWeek = 1 }: League
     <div className="space-y-6">
       <div className="flex items-center gap-2">
         <TrendingUp className="h-5 w-5" />
-        <h2 className="text-xl font-semibold">Week {currentWeek} Picks ({picks.length})</h2>
+        <h2 className="text-xl font-semibold">
+          {weekTitle} Picks ({picks.length}{hasNextPage ? '+' : ''})
+        </h2>
       </div>
 
+      <PickFeedFilters filters={filters} members={members} onChange={setFilters} />
+
       {picks.length === 0 ? (
         <Card>
           <CardContent className="pt-6">
             <div className="text-center py-8">
               <TrendingUp className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-              <p className="text-gray-600">No picks submitted for Week {currentWeek} yet</p>
-              <p className="text-sm text-gray-500 mt-1">
-                Picks will appear here once league members make their selections
-              </p>
+              {isFiltered ? (
+                <p className="text-gray-600">No {weekTitle} picks match these filters</p>
+              ) : (
+                <>
+                  <p className="text-gray-600">No picks submitted for {weekTitle} yet</p>
+                  <p className="text-sm text-gray-500 mt-1">
+                    Picks will appear here once league members make their selections
+                  </p>
+                </>
+              )}
             </div>
           </CardContent>
         </Card>
       ) : (
         <div className="space-y-4">
-          {picks.map((pick) => {
-            const gameTime = formatGameTime(pick.games.start_time);
-
-            return (
-              <Card key={pick.id} className="hover:shadow-md transition-shadow">
-                <CardHeader className="pb-3">
-                  <div className="flex items-center justify-between">
-                    <CardTitle className="flex items-center gap-2 text-base">
-                      <User className="h-4 w-4" />
-                      {pick.user?.username || 'Unknown User'}
-                    </CardTitle>
-                    {getStatusBadge(pick)}
-                  </div>
-                </CardHeader>
-                <CardContent className="space-y-3">
-                  <div>
-                    <div className="font-medium text-sm text-gray-900">
-                      {pick.games.away_team.name} @ {pick.games.home_team.name}
-                    </div>
-                    <div className="text-xs text-gray-500">
-                      {gameTime.date} • {gameTime.time}
-                    </div>
-                  </div>
-
-                  <div className="p-3 bg-blue-50 rounded-lg">
-                    <div className="font-medium text-blue-900 text-sm">
-                      {formatPickSelection(pick)}
-                    </div>
-                    <div className="text-xs text-blue-600 capitalize mt-1">
-                      {pick.bet_type}
-                    </div>
-                  </div>
+          {picks.map((pick) => (
+            <LeaguePickCard
+              key={pick.id}
+              pick={pick}
+              onWithdraw={canWithdraw(pick) ? () => handleWithdraw(pick.id) : undefined}
+              isWithdrawing={withdrawPickMutation.isPending && withdrawPickMutation.variables === pick.id}
+            />
+          ))}
 
-                  <div className="text-xs text-gray-400">
-                    Picked {new Date(pick.created_at).toLocaleDateString()}
-                  </div>
-                </CardContent>
-              </Card>
-            );
-          })}
+          {hasNextPage && (
+            <div className="flex justify-center">
+              <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                {isFetchingNextPage && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                Load more picks
+              </Button>
+            </div>
+          )}
         </div>
       )}
     </div>
   );
-}
\ No newline at end of file
+}
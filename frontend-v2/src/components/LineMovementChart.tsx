@@ -0,0 +1,259 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { LineChart, TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import { useOddsHistory, type OddsSnapshot } from '@/hooks/useOddsHistory';
+import { formatAmericanOdds } from '@/lib/odds';
+
+interface LineMovementChartProps {
+  gameId: number;
+  homeAbbreviation: string;
+  awayAbbreviation: string;
+}
+
+type Market = 'spread' | 'total' | 'moneyline';
+
+interface Series {
+  label: string;
+  color: string;
+  field: keyof OddsSnapshot;
+}
+
+const CHART_WIDTH = 480;
+const CHART_HEIGHT = 160;
+const CHART_PADDING = 24;
+
+const getMarketSeries = (market: Market, home: string, away: string): Series[] => {
+  switch (market) {
+    case 'spread':
+      return [{ label: `${home} spread`, color: '#2563eb', field: 'spread_home' }];
+    case 'total':
+      return [{ label: 'Total', color: '#9333ea', field: 'total_over' }];
+    case 'moneyline':
+      return [
+        { label: home, color: '#2563eb', field: 'moneyline_home' },
+        { label: away, color: '#dc2626', field: 'moneyline_away' }
+      ];
+  }
+};
+
+const formatMarketValue = (market: Market, value: number | null) => {
+  if (value === null || value === undefined) return '—';
+  if (market === 'moneyline') return formatAmericanOdds(value);
+  if (market === 'spread') return value > 0 ? `+${value}` : `${value}`;
+  return `${value}`;
+};
+
+const getValue = (snapshot: OddsSnapshot, field: keyof OddsSnapshot): number | null => {
+  const value = snapshot[field];
+  return value === null || value === undefined ? null : Number(value);
+};
+
+export default function LineMovementChart({ gameId, homeAbbreviation, awayAbbreviation }: LineMovementChartProps) {
+  const [market, setMarket] = useState<Market>('spread');
+  const [selectedBook, setSelectedBook] = useState<string | null>(null);
+
+  const { data, isLoading, error } = useOddsHistory(gameId);
+
+  const timelines = data?.sportsbooks || [];
+  const activeTimeline = timelines.find(t => t.sportsbook === selectedBook) || timelines[0];
+  const series = getMarketSeries(market, homeAbbreviation, awayAbbreviation);
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <LineChart className="h-4 w-4" />
+            Line Movement
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="animate-pulse h-40 bg-gray-200 rounded"></div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <LineChart className="h-4 w-4" />
+            Line Movement
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-red-600 text-sm">{error.message}</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!activeTimeline) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <LineChart className="h-4 w-4" />
+            Line Movement
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-muted-foreground">No line history recorded for this game yet.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  // Build chart scales from every point in the visible series
+  const snapshots = activeTimeline.snapshots;
+  const times = snapshots.map(s => new Date(s.captured_at).getTime());
+  const values = series.flatMap(line =>
+    snapshots.map(s => getValue(s, line.field)).filter((v): v is number => v !== null)
+  );
+
+  const minTime = Math.min(...times);
+  const maxTime = Math.max(...times);
+  const minValue = values.length > 0 ? Math.min(...values) : 0;
+  const maxValue = values.length > 0 ? Math.max(...values) : 0;
+
+  const scaleX = (time: number) => maxTime === minTime
+    ? CHART_WIDTH / 2
+    : CHART_PADDING + ((time - minTime) / (maxTime - minTime)) * (CHART_WIDTH - CHART_PADDING * 2);
+  const scaleY = (value: number) => maxValue === minValue
+    ? CHART_HEIGHT / 2
+    : CHART_PADDING + ((maxValue - value) / (maxValue - minValue)) * (CHART_HEIGHT - CHART_PADDING * 2);
+
+  const getMovementIcon = (opening: number | null, current: number | null) => {
+    if (opening === null || current === null || opening === current) {
+      return <Minus className="h-3 w-3 text-gray-400" />;
+    }
+    return current > opening
+      ? <TrendingUp className="h-3 w-3 text-green-600" />
+      : <TrendingDown className="h-3 w-3 text-red-600" />;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between text-base">
+          <span className="flex items-center gap-2">
+            <LineChart className="h-4 w-4" />
+            Line Movement
+          </span>
+          <Badge variant="outline">{activeTimeline.snapshots.length} snapshots</Badge>
+        </CardTitle>
+
+        <div className="flex flex-wrap gap-2">
+          {(['spread', 'total', 'moneyline'] as Market[]).map(option => (
+            <Button
+              key={option}
+              size="sm"
+              variant={market === option ? 'default' : 'outline'}
+              onClick={() => setMarket(option)}
+              className="capitalize"
+            >
+              {option}
+            </Button>
+          ))}
+        </div>
+
+        {timelines.length > 1 && (
+          <div className="flex flex-wrap gap-2">
+            {timelines.map(timeline => (
+              <Button
+                key={timeline.sportsbook}
+                size="sm"
+                variant={activeTimeline.sportsbook === timeline.sportsbook ? 'secondary' : 'ghost'}
+                onClick={() => setSelectedBook(timeline.sportsbook)}
+              >
+                {timeline.sportsbook}
+              </Button>
+            ))}
+          </div>
+        )}
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {values.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {activeTimeline.sportsbook} has no {market} line for this game.
+          </p>
+        ) : (
+          <svg
+            viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+            className="w-full h-40"
+            role="img"
+            aria-label={`${market} line movement at ${activeTimeline.sportsbook}`}
+          >
+            <text x={4} y={CHART_PADDING} className="fill-gray-400 text-[10px]">
+              {formatMarketValue(market, maxValue)}
+            </text>
+            <text x={4} y={CHART_HEIGHT - CHART_PADDING + 10} className="fill-gray-400 text-[10px]">
+              {formatMarketValue(market, minValue)}
+            </text>
+            {series.map(line => {
+              const points = snapshots
+                .map(s => ({ time: new Date(s.captured_at).getTime(), value: getValue(s, line.field) }))
+                .filter((p): p is { time: number; value: number } => p.value !== null);
+
+              return (
+                <g key={line.label}>
+                  <polyline
+                    fill="none"
+                    stroke={line.color}
+                    strokeWidth={2}
+                    points={points.map(p => `${scaleX(p.time)},${scaleY(p.value)}`).join(' ')}
+                  />
+                  {points.map(p => (
+                    <circle key={p.time} cx={scaleX(p.time)} cy={scaleY(p.value)} r={3} fill={line.color} />
+                  ))}
+                </g>
+              );
+            })}
+          </svg>
+        )}
+
+        {/* Opening vs. current for every book */}
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-muted-foreground">
+                <th className="text-left font-medium py-1">Book</th>
+                {series.map(line => (
+                  <th key={line.label} className="text-right font-medium py-1" colSpan={2}>
+                    {line.label} (open → now)
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {timelines.map(timeline => (
+                <tr key={timeline.sportsbook} className="border-t">
+                  <td className="py-1">{timeline.sportsbook}</td>
+                  {series.map(line => {
+                    const opening = getValue(timeline.opening, line.field);
+                    const current = getValue(timeline.current, line.field);
+                    return (
+                      <td key={line.label} className="py-1 text-right" colSpan={2}>
+                        <span className="inline-flex items-center gap-1">
+                          {formatMarketValue(market, opening)} → {formatMarketValue(market, current)}
+                          {getMovementIcon(opening, current)}
+                        </span>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,7 +3,7 @@
 import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { useCreatePick, CreatePickData } from '@/hooks/usePicks';
+import { useCreatePick, useUpdatePick, CreatePickData } from '@/hooks/usePicks';
 import { useToast } from '@/hooks/use-toast';
 import {
   Dialog,
@@ -14,6 +14,13 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import PlayerPropsList from '@/components/PlayerPropsList';
+import PeriodLines from '@/components/PeriodLines';
+import { useParlayStore, MAX_PARLAY_LEGS } from '@/stores/parlayStore';
+import { formatAmericanOdds, getQuotedLine, getSelectionPoint, type OddsLine, type QuotedLine } from '@/lib/odds';
+import { formatSelectionLabel, type MarketPeriod, type PickSelection, type SelectionSide } from '@/lib/selection';
+import { isFavoriteAllowed, type PickRules, type PickRuleBetType } from '@/hooks/usePickRules';
+import { getPickDeadline } from '@/lib/pick-locks';
+import PickLockCountdown from '@/components/PickLockCountdown';
 
 interface Game {
   id: number;
@@ -31,9 +38,14 @@ interface Game {
     moneyline_away: number | null;
     spread_home: number | null;
     spread_away: number | null;
+    spread_home_price: number | null;
+    spread_away_price: number | null;
     total_over: number | null;
     total_under: number | null;
+    total_over_price: number | null;
+    total_under_price: number | null;
   }>;
+  period_odds?: Array<OddsLine & { sportsbook: string; period: MarketPeriod }>;
 }
 
 interface MakePickModalProps {
@@ -41,7 +53,16 @@ interface MakePickModalProps {
   onOpenChange: (open: boolean) => void;
   game: Game | null;
   currentWeek: number;
+  weekLabel?: string;
   seasonId: string;
+  // League pick rules; unset for formats with their own pick rules
+  pickRules?: PickRules;
+  // Picks the user already has this week
+  weekPickCount?: number;
+  // The user's open pick on this game, which submitting changes instead of adding to
+  editingPickId?: number;
+  // When the game's week locks under the league's lock mode; null locks at kickoff
+  weekLockTime?: Date | null;
   onPickSubmitted?: () => void;
 }
 
@@ -66,64 +87,160 @@ export default function MakePickModal({
   onOpenChange,
   game,
   currentWeek,
+  weekLabel,
   seasonId,
+  pickRules,
+  weekPickCount = 0,
+  editingPickId,
+  weekLockTime = null,
   onPickSubmitted
 }: MakePickModalProps) {
   const [selectedBetType, setSelectedBetType] = useState<BetType | null>(null);
   const [selectedTeam, setSelectedTeam] = useState<Selection | null>(null);
+  const [selectedSide, setSelectedSide] = useState<SelectionSide | null>(null);
+  // Half or quarter for game-line picks; null is the full game
+  const [selectedPeriod, setSelectedPeriod] = useState<MarketPeriod | null>(null);
   const [selectedPlayerProp, setSelectedPlayerProp] = useState<{
     prop: PlayerProp;
     selection: 'over' | 'under';
   } | null>(null);
 
   const createPickMutation = useCreatePick();
+  const updatePickMutation = useUpdatePick();
+  const isSubmitting = createPickMutation.isPending || updatePickMutation.isPending;
   const { toast } = useToast();
+  const { legs: parlayLegs, addLeg } = useParlayStore();
 
   if (!game || !game.odds || game.odds.length === 0) {
     return null;
   }
 
   const odds = game.odds[0]; // Use first available odds
+  const periodOdds = game.period_odds || [];
+  // Lines for the selected half or quarter, from the first book that posted one
+  const selectedOdds = selectedPeriod
+    ? periodOdds.find(row => row.period === selectedPeriod) ?? null
+    : odds;
   const gameTime = new Date(game.start_time);
+  const deadline = getPickDeadline(gameTime, weekLockTime);
+  const isWeekLock = deadline < gameTime;
   const now = new Date();
-  const isPastDeadline = now >= gameTime;
+  const isPastDeadline = now >= deadline;
+
+  const isBetTypeAllowed = (betType: PickRuleBetType) =>
+    !pickRules || pickRules.allowed_bet_types.includes(betType);
+  const isPropsAllowed = isBetTypeAllowed('player_prop');
+  const hasPeriodLines = periodOdds.length > 0 &&
+    (['moneyline', 'spread', 'total'] as const).some(betType => isBetTypeAllowed(betType));
+  const gridColumns = ['grid-cols-1', 'grid-cols-2', 'grid-cols-3'];
+  const weekLabelText = weekLabel ?? `Week ${currentWeek}`;
+
+  // One pick a week replaces the last one; larger quotas add to it
+  const hasWeeklyQuota = !!pickRules && pickRules.max_picks_per_week > 1;
+  const isQuotaFull = hasWeeklyQuota && !editingPickId && weekPickCount >= pickRules.max_picks_per_week;
+  const pickQuotaNote = editingPickId
+    ? 'This will change your current pick on this game'
+    : !hasWeeklyQuota
+    ? `This will replace any previous pick for ${weekLabelText}`
+    : isQuotaFull
+      ? `You've used all ${pickRules.max_picks_per_week} picks for ${weekLabelText}`
+      : `Pick ${weekPickCount + 1} of ${pickRules.max_picks_per_week} for ${weekLabelText}`;
 
   const handleClose = () => {
     onOpenChange(false);
     setSelectedBetType(null);
     setSelectedTeam(null);
+    setSelectedSide(null);
+    setSelectedPeriod(null);
     setSelectedPlayerProp(null);
   };
 
+  const selectGameLine = (
+    betType: 'moneyline' | 'spread' | 'total',
+    side: SelectionSide,
+    label: string,
+    period: MarketPeriod | null = null
+  ) => {
+    setSelectedBetType(betType);
+    setSelectedSide(side);
+    setSelectedTeam(label);
+    setSelectedPeriod(period);
+  };
+
+  const selectPeriodLine = (period: MarketPeriod, betType: 'moneyline' | 'spread' | 'total', side: SelectionSide) => {
+    const line = periodOdds.find(row => row.period === period);
+    if (!line) return;
+
+    const label = formatSelectionLabel(
+      { market: betType, side, line: getSelectionPoint(line, betType, side), period },
+      { home: game.home_team, away: game.away_team }
+    );
+    selectGameLine(betType, side, label, period);
+  };
+
+  const buildSelection = (): PickSelection | null => {
+    if (selectedBetType === 'player_prop' && selectedPlayerProp) {
+      const { prop, selection } = selectedPlayerProp;
+      return {
+        market: 'player_prop',
+        side: selection,
+        line: prop.point ?? null,
+        player_prop_id: prop.id,
+        athlete_id: prop.athlete_id,
+        prop_market: prop.market_key
+      };
+    }
+    if (!selectedBetType || !selectedSide || !selectedOdds) return null;
+    return {
+      market: selectedBetType,
+      side: selectedSide,
+      line: getSelectionPoint(selectedOdds, selectedBetType, selectedSide),
+      ...(selectedPeriod && { period: selectedPeriod })
+    };
+  };
+
+  // The line shown to the user, so the server can reject the pick if it has moved
+  const getSelectionQuote = (): QuotedLine | null => {
+    if (selectedBetType === 'player_prop' && selectedPlayerProp) {
+      const { prop, selection } = selectedPlayerProp;
+      return {
+        sportsbook: prop.sportsbook,
+        expected_point: prop.point ?? null,
+        expected_price: (selection === 'over' ? prop.over_price : prop.under_price) ?? null
+      };
+    }
+    if (!selectedBetType || !selectedSide || !selectedOdds) return null;
+    return getQuotedLine(selectedOdds, selectedBetType, selectedSide);
+  };
+
   const handleSubmit = async () => {
-    if (!selectedBetType) return;
-    if (selectedBetType !== 'player_prop' && !selectedTeam) return;
-    if (selectedBetType === 'player_prop' && !selectedPlayerProp) return;
+    const selection = buildSelection();
+    if (!selectedBetType || !selection) return;
 
     try {
-      let pickData: CreatePickData;
-
-      if (selectedBetType === 'player_prop' && selectedPlayerProp) {
-        pickData = {
-          game_id: game.id,
-          bet_type: selectedBetType,
-          week: currentWeek,
-          season_id: seasonId,
-          selection: `${selectedPlayerProp.prop.athlete_name} ${selectedPlayerProp.prop.market_key} ${selectedPlayerProp.selection} ${selectedPlayerProp.prop.point || ''}`,
-          player_prop_id: selectedPlayerProp.prop.id
-        };
+      const pickData: CreatePickData = {
+        game_id: game.id,
+        bet_type: selectedBetType,
+        week: currentWeek,
+        season_id: seasonId,
+        selection,
+        ...getSelectionQuote()
+      };
+
+      if (editingPickId) {
+        await updatePickMutation.mutateAsync({
+          ...pickData,
+          pick_id: editingPickId,
+          label: formatSelectionLabel(
+            selection,
+            { home: game.home_team, away: game.away_team },
+            selectedPlayerProp?.prop.athlete_name
+          )
+        });
       } else {
-        pickData = {
-          game_id: game.id,
-          bet_type: selectedBetType,
-          week: currentWeek,
-          season_id: seasonId,
-          selection: selectedTeam || ''
-        };
+        await createPickMutation.mutateAsync(pickData);
       }
 
-      await createPickMutation.mutateAsync(pickData);
-
       handleClose();
       onPickSubmitted?.();
 
@@ -136,6 +253,42 @@ export default function MakePickModal({
     }
   };
 
+  const handleAddToParlay = () => {
+    const selection = buildSelection();
+    if (!selectedBetType || !selection) return;
+
+    const isReplacingLeg = parlayLegs.some(leg => leg.game_id === game.id);
+    if (!isReplacingLeg && parlayLegs.length >= MAX_PARLAY_LEGS) {
+      toast({
+        variant: "destructive",
+        title: "Parlay slip is full",
+        description: `Parlays are limited to ${MAX_PARLAY_LEGS} legs.`,
+      });
+      return;
+    }
+
+    addLeg({
+      game_id: game.id,
+      bet_type: selectedBetType,
+      selection,
+      label: formatSelectionLabel(
+        selection,
+        { home: game.home_team, away: game.away_team },
+        selectedPlayerProp?.prop.athlete_name
+      ),
+      ...getSelectionQuote(),
+      matchup: `${game.away_team.abbreviation} @ ${game.home_team.abbreviation}`,
+      start_time: game.start_time
+    });
+
+    toast({
+      title: isReplacingLeg ? "Parlay leg updated" : "Added to parlay",
+      description: "Only one leg per game is allowed on a parlay.",
+    });
+
+    handleClose();
+  };
+
   const formatOdds = (odds: number | null, type: 'moneyline' | 'spread' | 'total' = 'moneyline') => {
     if (odds === null) {
       // Provide context-specific messaging for different bet types
@@ -170,7 +323,7 @@ export default function MakePickModal({
       <DialogContent className="sm:max-w-[500px]">
         <DialogHeader>
           <DialogTitle>
-            Make Your Week {game.week || currentWeek} Pick
+            Make Your {weekLabel ?? `Week ${game.week || currentWeek}`} Pick
             {game.espn_game_id && (
               <span className="text-sm font-normal text-gray-500 ml-2">
                 ESPN #{game.espn_game_id}
@@ -193,10 +346,16 @@ export default function MakePickModal({
                   Status: {game.status.replace('_', ' ').toUpperCase()}
                 </div>
               )}
-              {isPastDeadline && (
+              {isPastDeadline && !isWeekLock ? (
                 <span className="text-red-600 font-medium block mt-1">
                   Game has started - picks are locked
                 </span>
+              ) : (
+                <PickLockCountdown
+                  deadline={deadline}
+                  label={isWeekLock ? `${weekLabel ?? `Week ${currentWeek}`} picks` : 'Picks'}
+                  className="mt-1"
+                />
               )}
             </div>
           </DialogDescription>
@@ -210,25 +369,23 @@ export default function MakePickModal({
           </div>
         ) : (
           <Tabs defaultValue="game-lines" className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className={`grid w-full ${gridColumns[[hasPeriodLines, isPropsAllowed].filter(Boolean).length]}`}>
               <TabsTrigger value="game-lines">Game Lines</TabsTrigger>
-              <TabsTrigger value="player-props">Player Props</TabsTrigger>
+              {hasPeriodLines && <TabsTrigger value="periods">Halves &amp; Quarters</TabsTrigger>}
+              {isPropsAllowed && <TabsTrigger value="player-props">Player Props</TabsTrigger>}
             </TabsList>
 
             <TabsContent value="game-lines" className="space-y-6">
             {/* Moneyline */}
-            {(odds.moneyline_home || odds.moneyline_away) && (
+            {isBetTypeAllowed('moneyline') && (odds.moneyline_home || odds.moneyline_away) && (
               <div className="space-y-3">
                 <h3 className="font-medium">Moneyline (Pick Winner)</h3>
                 <div className="grid grid-cols-2 gap-3">
                   <Button
-                    variant={selectedBetType === 'moneyline' && selectedTeam === game.away_team.name ? 'default' : 'outline'}
+                    variant={selectedBetType === 'moneyline' && selectedSide === 'away' && !selectedPeriod ? 'default' : 'outline'}
                     className="h-auto p-4 flex flex-col"
-                    onClick={() => {
-                      setSelectedBetType('moneyline');
-                      setSelectedTeam(game.away_team.name);
-                    }}
-                    disabled={!odds.moneyline_away}
+                    onClick={() => selectGameLine('moneyline', 'away', game.away_team.name)}
+                    disabled={!odds.moneyline_away || !isFavoriteAllowed(pickRules, odds.spread_away)}
                   >
                     <div className="font-medium">{game.away_team.name}</div>
                     <div className="text-sm text-gray-600">
@@ -236,13 +393,10 @@ export default function MakePickModal({
                     </div>
                   </Button>
                   <Button
-                    variant={selectedBetType === 'moneyline' && selectedTeam === game.home_team.name ? 'default' : 'outline'}
+                    variant={selectedBetType === 'moneyline' && selectedSide === 'home' && !selectedPeriod ? 'default' : 'outline'}
                     className="h-auto p-4 flex flex-col"
-                    onClick={() => {
-                      setSelectedBetType('moneyline');
-                      setSelectedTeam(game.home_team.name);
-                    }}
-                    disabled={!odds.moneyline_home}
+                    onClick={() => selectGameLine('moneyline', 'home', game.home_team.name)}
+                    disabled={!odds.moneyline_home || !isFavoriteAllowed(pickRules, odds.spread_home)}
                   >
                     <div className="font-medium">{game.home_team.name}</div>
                     <div className="text-sm text-gray-600">
@@ -254,40 +408,40 @@ export default function MakePickModal({
             )}
 
             {/* Spread */}
-            {(odds.spread_home || odds.spread_away) && (
+            {isBetTypeAllowed('spread') && (odds.spread_home || odds.spread_away) && (
               <div className="space-y-3">
                 <h3 className="font-medium">Point Spread</h3>
                 <div className="grid grid-cols-2 gap-3">
                   <Button
-                    variant={selectedBetType === 'spread' && selectedTeam?.includes(game.away_team.name) ? 'default' : 'outline'}
+                    variant={selectedBetType === 'spread' && selectedSide === 'away' && !selectedPeriod ? 'default' : 'outline'}
                     className="h-auto p-4 flex flex-col"
                     onClick={() => {
-                      setSelectedBetType('spread');
                       if (odds.spread_away !== null) {
-                        setSelectedTeam(`${game.away_team.name} ${odds.spread_away > 0 ? '+' : ''}${odds.spread_away}`);
+                        selectGameLine('spread', 'away', `${game.away_team.name} ${odds.spread_away > 0 ? '+' : ''}${odds.spread_away}`);
                       }
                     }}
-                    disabled={!odds.spread_away}
+                    disabled={!odds.spread_away || !isFavoriteAllowed(pickRules, odds.spread_away)}
                   >
                     <div className="font-medium">{game.away_team.name}</div>
                     <div className="text-sm text-gray-600">
                       {formatOdds(odds.spread_away, 'spread')}
+                      {odds.spread_away_price !== null && ` (${formatAmericanOdds(odds.spread_away_price)})`}
                     </div>
                   </Button>
                   <Button
-                    variant={selectedBetType === 'spread' && selectedTeam?.includes(game.home_team.name) ? 'default' : 'outline'}
+                    variant={selectedBetType === 'spread' && selectedSide === 'home' && !selectedPeriod ? 'default' : 'outline'}
                     className="h-auto p-4 flex flex-col"
                     onClick={() => {
-                      setSelectedBetType('spread');
                       if (odds.spread_home !== null) {
-                        setSelectedTeam(`${game.home_team.name} ${odds.spread_home > 0 ? '+' : ''}${odds.spread_home}`);
+                        selectGameLine('spread', 'home', `${game.home_team.name} ${odds.spread_home > 0 ? '+' : ''}${odds.spread_home}`);
                       }
                     }}
-                    disabled={!odds.spread_home}
+                    disabled={!odds.spread_home || !isFavoriteAllowed(pickRules, odds.spread_home)}
                   >
                     <div className="font-medium">{game.home_team.name}</div>
                     <div className="text-sm text-gray-600">
                       {formatOdds(odds.spread_home, 'spread')}
+                      {odds.spread_home_price !== null && ` (${formatAmericanOdds(odds.spread_home_price)})`}
                     </div>
                   </Button>
                 </div>
@@ -295,43 +449,47 @@ export default function MakePickModal({
             )}
 
             {/* Total */}
-            {(odds.total_over || odds.total_under) && (
+            {isBetTypeAllowed('total') && (odds.total_over || odds.total_under) && (
               <div className="space-y-3">
                 <h3 className="font-medium">Total Points</h3>
                 <div className="grid grid-cols-2 gap-3">
                   <Button
-                    variant={selectedBetType === 'total' && selectedTeam === `Over ${odds.total_over}` ? 'default' : 'outline'}
+                    variant={selectedBetType === 'total' && selectedSide === 'over' && !selectedPeriod ? 'default' : 'outline'}
                     className="h-auto p-4 flex flex-col"
                     onClick={() => {
-                      setSelectedBetType('total');
                       if (odds.total_over !== null) {
-                        setSelectedTeam(`Over ${odds.total_over}`);
+                        selectGameLine('total', 'over', `Over ${odds.total_over}`);
                       }
                     }}
                     disabled={!odds.total_over}
                   >
                     <div className="font-medium">Over</div>
-                    <div className="text-sm text-gray-600">{formatOdds(odds.total_over, 'total')}</div>
+                    <div className="text-sm text-gray-600">
+                      {formatOdds(odds.total_over, 'total')}
+                      {odds.total_over_price !== null && ` (${formatAmericanOdds(odds.total_over_price)})`}
+                    </div>
                   </Button>
                   <Button
-                    variant={selectedBetType === 'total' && selectedTeam === `Under ${odds.total_under}` ? 'default' : 'outline'}
+                    variant={selectedBetType === 'total' && selectedSide === 'under' && !selectedPeriod ? 'default' : 'outline'}
                     className="h-auto p-4 flex flex-col"
                     onClick={() => {
-                      setSelectedBetType('total');
                       if (odds.total_under !== null) {
-                        setSelectedTeam(`Under ${odds.total_under}`);
+                        selectGameLine('total', 'under', `Under ${odds.total_under}`);
                       }
                     }}
                     disabled={!odds.total_under}
                   >
                     <div className="font-medium">Under</div>
-                    <div className="text-sm text-gray-600">{formatOdds(odds.total_under, 'total')}</div>
+                    <div className="text-sm text-gray-600">
+                      {formatOdds(odds.total_under, 'total')}
+                      {odds.total_under_price !== null && ` (${formatAmericanOdds(odds.total_under_price)})`}
+                    </div>
                   </Button>
                 </div>
               </div>
             )}
 
-            {selectedBetType && selectedTeam && selectedBetType !== 'player_prop' && (
+            {selectedBetType && selectedTeam && selectedBetType !== 'player_prop' && !selectedPeriod && (
               <div className="p-4 bg-blue-50 rounded-lg">
                 <h4 className="font-medium text-blue-900">Your Pick:</h4>
                 <p className="text-blue-800">
@@ -340,18 +498,49 @@ export default function MakePickModal({
                   {selectedBetType === 'total' && `${selectedTeam} points`}
                 </p>
                 <p className="text-sm text-blue-600 mt-1">
-                  This will replace any previous pick for Week {currentWeek}
+                  {pickQuotaNote}
                 </p>
               </div>
             )}
             </TabsContent>
 
+            {hasPeriodLines && (
+            <TabsContent value="periods" className="space-y-6">
+              <PeriodLines
+                periodOdds={periodOdds}
+                teams={{ home: game.home_team, away: game.away_team }}
+                selected={selectedPeriod && selectedBetType && selectedBetType !== 'player_prop' && selectedSide
+                  ? { period: selectedPeriod, betType: selectedBetType, side: selectedSide }
+                  : null}
+                isBetTypeAllowed={isBetTypeAllowed}
+                isSideAllowed={side => isFavoriteAllowed(pickRules, side === 'home' ? odds.spread_home : odds.spread_away)}
+                onSelect={selectPeriodLine}
+              />
+
+              {selectedPeriod && selectedTeam && (
+                <div className="p-4 bg-blue-50 rounded-lg">
+                  <h4 className="font-medium text-blue-900">Your Pick:</h4>
+                  <p className="text-blue-800">
+                    {selectedBetType === 'moneyline' ? `${selectedTeam} to win` : selectedTeam}
+                  </p>
+                  <p className="text-sm text-blue-600 mt-1">
+                    {pickQuotaNote}
+                  </p>
+                </div>
+              )}
+            </TabsContent>
+            )}
+
+            {isPropsAllowed && (
             <TabsContent value="player-props" className="space-y-6">
               <PlayerPropsList
                 gameId={game.id}
+                allowedMarkets={pickRules?.allowed_prop_markets}
                 onSelectProp={(prop, selection) => {
                   setSelectedBetType('player_prop');
                   setSelectedTeam(null);
+                  setSelectedSide(null);
+                  setSelectedPeriod(null);
                   setSelectedPlayerProp({ prop, selection });
                 }}
               />
@@ -373,11 +562,12 @@ export default function MakePickModal({
                     }
                   </p>
                   <p className="text-sm text-blue-600 mt-1">
-                    This will replace any previous pick for Week {currentWeek}
+                    {pickQuotaNote}
                   </p>
                 </div>
               )}
             </TabsContent>
+            )}
           </Tabs>
         )}
 
@@ -385,12 +575,21 @@ export default function MakePickModal({
           <Button variant="outline" onClick={handleClose}>
             Cancel
           </Button>
+          {!isPastDeadline && isBetTypeAllowed('parlay') && (
+            <Button
+              variant="secondary"
+              onClick={handleAddToParlay}
+              disabled={!selectedBetType || (!selectedTeam && !selectedPlayerProp)}
+            >
+              Add to Parlay
+            </Button>
+          )}
           {!isPastDeadline && (
             <Button
               onClick={handleSubmit}
-              disabled={(!selectedBetType || (!selectedTeam && !selectedPlayerProp)) || createPickMutation.isPending}
+              disabled={(!selectedBetType || (!selectedTeam && !selectedPlayerProp)) || isQuotaFull || isSubmitting}
             >
-              {createPickMutation.isPending ? 'Submitting...' : 'Submit Pick'}
+              {isSubmitting ? 'Submitting...' : editingPickId ? 'Update Pick' : 'Submit Pick'}
             </Button>
           )}
         </DialogFooter>
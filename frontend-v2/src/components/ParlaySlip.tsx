@@ -0,0 +1,127 @@
+'use client';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Layers, X } from 'lucide-react';
+import { useCreateParlay } from '@/hooks/usePicks';
+import { useToast } from '@/hooks/use-toast';
+import { useParlayStore, MAX_PARLAY_LEGS } from '@/stores/parlayStore';
+
+interface ParlaySlipProps {
+  seasonId: string;
+  currentWeek: number;
+  weekLabel?: string;
+  onParlaySubmitted?: () => void;
+}
+
+const MIN_PARLAY_LEGS = 2;
+
+export default function ParlaySlip({ seasonId, currentWeek, weekLabel, onParlaySubmitted }: ParlaySlipProps) {
+  const { legs, removeLeg, clearSlip } = useParlayStore();
+  const createParlayMutation = useCreateParlay();
+  const { toast } = useToast();
+
+  if (legs.length === 0) {
+    return null;
+  }
+
+  const now = new Date();
+  const hasStartedLeg = legs.some(leg => now >= new Date(leg.start_time));
+
+  const handleSubmit = async () => {
+    try {
+      await createParlayMutation.mutateAsync({
+        season_id: seasonId,
+        week: currentWeek,
+        legs: legs.map(({ game_id, bet_type, selection, sportsbook, expected_point, expected_price }) => ({
+          game_id,
+          bet_type,
+          selection,
+          sportsbook,
+          expected_point,
+          expected_price
+        }))
+      });
+
+      toast({
+        title: "Parlay submitted successfully!",
+        description: `Your ${legs.length}-leg parlay has been recorded.`,
+      });
+
+      clearSlip();
+      onParlaySubmitted?.();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Failed to submit parlay",
+        description: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  };
+
+  return (
+    <Card className="border-primary/30">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between text-base">
+          <span className="flex items-center gap-2">
+            <Layers className="h-4 w-4" />
+            Parlay Slip
+          </span>
+          <Badge variant="outline">{legs.length}/{MAX_PARLAY_LEGS} legs</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {legs.map(leg => (
+          <div key={leg.game_id} className="flex items-start justify-between gap-2 p-2 rounded-md bg-muted/50">
+            <div className="text-sm">
+              <div className="font-medium">{leg.label}</div>
+              <div className="text-xs text-muted-foreground">
+                {leg.matchup} • {leg.bet_type.replace('_', ' ')}
+              </div>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              onClick={() => removeLeg(leg.game_id)}
+              aria-label="Remove leg"
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        ))}
+
+        {legs.length < MIN_PARLAY_LEGS && (
+          <p className="text-xs text-muted-foreground">
+            Add at least {MIN_PARLAY_LEGS} legs from different games to submit a parlay.
+          </p>
+        )}
+
+        {hasStartedLeg && (
+          <p className="text-xs text-red-600">
+            One or more legs have already started. Remove them to submit.
+          </p>
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          This will replace any previous pick for {weekLabel ?? `Week ${currentWeek}`}
+        </p>
+
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={clearSlip} className="flex-1">
+            Clear
+          </Button>
+          <Button
+            size="sm"
+            onClick={handleSubmit}
+            disabled={legs.length < MIN_PARLAY_LEGS || hasStartedLeg || createParlayMutation.isPending}
+            className="flex-1"
+          >
+            {createParlayMutation.isPending ? 'Submitting...' : 'Submit Parlay'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
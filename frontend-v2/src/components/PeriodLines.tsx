@@ -0,0 +1,108 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { formatAmericanOdds, getSelectionPoint, getSelectionPrice, type OddsLine } from '@/lib/odds';
+import { MARKET_PERIODS, MARKET_PERIOD_LABELS, type MarketPeriod, type SelectionSide } from '@/lib/selection';
+
+type PeriodBetType = 'moneyline' | 'spread' | 'total';
+
+interface PeriodLinesProps {
+  periodOdds: Array<OddsLine & { period: MarketPeriod }>;
+  teams: { home: { name: string }; away: { name: string } };
+  selected: { period: MarketPeriod; betType: PeriodBetType; side: SelectionSide } | null;
+  isBetTypeAllowed: (betType: PeriodBetType) => boolean;
+  // League favorite limits are checked against the full-game line
+  isSideAllowed: (side: 'home' | 'away') => boolean;
+  onSelect: (period: MarketPeriod, betType: PeriodBetType, side: SelectionSide) => void;
+}
+
+const BET_TYPE_LABELS: Record<PeriodBetType, string> = {
+  moneyline: 'Moneyline',
+  spread: 'Spread',
+  total: 'Total'
+};
+
+const formatPoint = (point: number) => point > 0 ? `+${point}` : `${point}`;
+
+/**
+ * Half and quarter moneylines, spreads and totals for a game
+ */
+export default function PeriodLines({
+  periodOdds,
+  teams,
+  selected,
+  isBetTypeAllowed,
+  isSideAllowed,
+  onSelect
+}: PeriodLinesProps) {
+  const periods = MARKET_PERIODS.filter(period => periodOdds.some(row => row.period === period));
+  const [activePeriod, setActivePeriod] = useState<MarketPeriod | null>(selected?.period ?? periods[0] ?? null);
+
+  if (!activePeriod) {
+    return (
+      <div className="py-8 text-center text-gray-600">
+        No half or quarter lines are posted for this game yet.
+      </div>
+    );
+  }
+
+  const line = periodOdds.find(row => row.period === activePeriod);
+
+  const renderOption = (betType: PeriodBetType, side: SelectionSide, title: string) => {
+    if (!line) return null;
+
+    const point = getSelectionPoint(line, betType, side);
+    const price = getSelectionPrice(line, betType, side);
+    const available = betType === 'moneyline' ? price !== null : point !== null;
+    const allowed = side === 'home' || side === 'away' ? isSideAllowed(side) : true;
+    const isSelected = selected?.period === activePeriod && selected.betType === betType && selected.side === side;
+
+    return (
+      <Button
+        key={`${betType}-${side}`}
+        variant={isSelected ? 'default' : 'outline'}
+        className="h-auto p-3 flex flex-col"
+        onClick={() => onSelect(activePeriod, betType, side)}
+        disabled={!available || !allowed}
+      >
+        <div className="font-medium">{title}</div>
+        <div className="text-sm text-gray-600">
+          {!available
+            ? 'No Line'
+            : betType === 'moneyline'
+              ? formatAmericanOdds(price)
+              : `${betType === 'spread' ? formatPoint(point as number) : point}${price !== null ? ` (${formatAmericanOdds(price)})` : ''}`}
+        </div>
+      </Button>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {periods.map(period => (
+          <Button
+            key={period}
+            size="sm"
+            variant={period === activePeriod ? 'secondary' : 'ghost'}
+            onClick={() => setActivePeriod(period)}
+          >
+            {MARKET_PERIOD_LABELS[period]}
+          </Button>
+        ))}
+      </div>
+
+      {(['moneyline', 'spread', 'total'] as PeriodBetType[]).filter(isBetTypeAllowed).map(betType => (
+        <div key={betType} className="space-y-2">
+          <h3 className="font-medium">{MARKET_PERIOD_LABELS[activePeriod]} {BET_TYPE_LABELS[betType]}</h3>
+          <div className="grid grid-cols-2 gap-3">
+            {betType === 'total'
+              ? [renderOption(betType, 'over', 'Over'), renderOption(betType, 'under', 'Under')]
+              : [renderOption(betType, 'away', teams.away.name), renderOption(betType, 'home', teams.home.name)]}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
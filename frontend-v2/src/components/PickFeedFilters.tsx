@@ -0,0 +1,71 @@
+'use client';
+
+import type { LeaguePickResultFilter, LeaguePicksFilters } from '@/hooks/usePicks';
+
+const SELECT_CLASS = 'flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2';
+
+const BET_TYPE_OPTIONS: Record<string, string> = {
+  moneyline: 'Moneyline',
+  spread: 'Point Spread',
+  total: 'Total Points',
+  player_prop: 'Player Props',
+  parlay: 'Parlays',
+  no_pick: 'Missed Weeks'
+};
+
+const RESULT_OPTIONS: Record<LeaguePickResultFilter, string> = {
+  pending: 'Pending',
+  win: 'Wins',
+  loss: 'Losses',
+  push: 'Pushes',
+  void: 'Void'
+};
+
+interface PickFeedFiltersProps {
+  filters: LeaguePicksFilters;
+  members: Array<{ user_id: string; username: string }>;
+  onChange: (filters: LeaguePicksFilters) => void;
+}
+
+/**
+ * Member, bet type and result filters for a league pick feed
+ */
+export default function PickFeedFilters({ filters, members, onChange }: PickFeedFiltersProps) {
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      <select
+        aria-label="Member"
+        value={filters.userId ?? ''}
+        onChange={(e) => onChange({ ...filters, userId: e.target.value || undefined })}
+        className={SELECT_CLASS}
+      >
+        <option value="">All members</option>
+        {members.map(member => (
+          <option key={member.user_id} value={member.user_id}>{member.username}</option>
+        ))}
+      </select>
+      <select
+        aria-label="Bet type"
+        value={filters.betType ?? ''}
+        onChange={(e) => onChange({ ...filters, betType: e.target.value || undefined })}
+        className={SELECT_CLASS}
+      >
+        <option value="">All bet types</option>
+        {Object.entries(BET_TYPE_OPTIONS).map(([betType, label]) => (
+          <option key={betType} value={betType}>{label}</option>
+        ))}
+      </select>
+      <select
+        aria-label="Result"
+        value={filters.result ?? ''}
+        onChange={(e) => onChange({ ...filters, result: (e.target.value || undefined) as LeaguePickResultFilter | undefined })}
+        className={SELECT_CLASS}
+      >
+        <option value="">All results</option>
+        {(Object.keys(RESULT_OPTIONS) as LeaguePickResultFilter[]).map(result => (
+          <option key={result} value={result}>{RESULT_OPTIONS[result]}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useLeaguePicksFeed, type LeaguePicksFilters } from '@/hooks/usePicks';
+import { useSeasons } from '@/hooks/useSeasons';
+import { PLAYOFF_ROUND_LABELS } from '@/hooks/useScoringRules';
+import { Button } from '@/components/ui/button';
+import LeaguePickCard from '@/components/LeaguePickCard';
+import PickFeedFilters from '@/components/PickFeedFilters';
+import { History, Loader2 } from 'lucide-react';
+
+interface PickHistoryProps {
+  leagueId: string;
+}
+
+const formatWeek = (pick: { week: number; season_type?: number }) =>
+  pick.season_type === 3 ? PLAYOFF_ROUND_LABELS[pick.week.toString()] ?? `Playoff week ${pick.week}` : `Week ${pick.week}`;
+
+/**
+ * Every pick made in one of the league's seasons, newest first, a page at a time
+ */
+export default function PickHistory({ leagueId }: PickHistoryProps) {
+  const [seasonId, setSeasonId] = useState('');
+  const [filters, setFilters] = useState<LeaguePicksFilters>({});
+
+  const { data: seasons } = useSeasons(leagueId);
+
+  // Default to the most recent season
+  useEffect(() => {
+    if (!seasonId && seasons?.length) {
+      setSeasonId(seasons[seasons.length - 1].id.toString());
+    }
+  }, [seasons, seasonId]);
+
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage
+  } = useLeaguePicksFeed(leagueId, { ...filters, seasonId }, !!seasonId);
+
+  const picks = data?.pages.flatMap(page => page.picks) || [];
+  const members = data?.pages[0]?.members || [];
+
+  return (
+    <div className="border rounded-lg p-6">
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Pick History
+        </h2>
+        {(seasons?.length ?? 0) > 1 && (
+          <select
+            aria-label="Season"
+            value={seasonId}
+            onChange={(e) => setSeasonId(e.target.value)}
+            className="flex h-9 rounded-md border border-input bg-background px-3 py-1 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+          >
+            {(seasons || []).map(season => (
+              <option key={season.id} value={season.id}>{season.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        <PickFeedFilters filters={filters} members={members} onChange={setFilters} />
+
+        {isLoading ? (
+          <div className="animate-pulse space-y-3">
+            {[1, 2, 3].map(i => (
+              <div key={i} className="h-20 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error.message}</p>
+        ) : picks.length === 0 ? (
+          <p className="text-gray-600">No picks match these filters this season.</p>
+        ) : (
+          <>
+            {picks.map(pick => (
+              <LeaguePickCard key={pick.id} pick={pick} weekLabel={formatWeek(pick)} />
+            ))}
+
+            {hasNextPage && (
+              <div className="flex justify-center">
+                <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                  {isFetchingNextPage && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                  Load more picks
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
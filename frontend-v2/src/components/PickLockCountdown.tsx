@@ -0,0 +1,55 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Lock, Timer } from 'lucide-react';
+import { formatLockTime } from '@/lib/pick-locks';
+
+interface PickLockCountdownProps {
+  deadline: Date;
+  // What locks, e.g. "Week 5 picks"
+  label?: string;
+  className?: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+const formatRemaining = (ms: number) => {
+  const minutes = Math.ceil(ms / MINUTE_MS);
+  const days = Math.floor(minutes / (24 * 60));
+  const hours = Math.floor((minutes % (24 * 60)) / 60);
+  const mins = minutes % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${mins}m`;
+  return `${mins}m`;
+};
+
+/**
+ * Time left until picks lock, updated every minute
+ */
+export default function PickLockCountdown({ deadline, label = 'Picks', className = '' }: PickLockCountdownProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), MINUTE_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const remaining = deadline.getTime() - now;
+
+  if (remaining <= 0) {
+    return (
+      <div className={`flex items-center gap-1 text-sm text-red-600 ${className}`}>
+        <Lock className="h-4 w-4" />
+        {label} locked {formatLockTime(deadline)}
+      </div>
+    );
+  }
+
+  return (
+    <div className={`flex items-center gap-1 text-sm ${remaining < 60 * MINUTE_MS ? 'text-orange-600' : 'text-muted-foreground'} ${className}`}>
+      <Timer className="h-4 w-4" />
+      {label} lock in {formatRemaining(remaining)} ({formatLockTime(deadline)})
+    </div>
+  );
+}
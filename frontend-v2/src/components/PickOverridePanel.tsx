@@ -0,0 +1,414 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  usePickOverrides,
+  useApplyPickOverride,
+  PICK_OVERRIDE_ACTION_LABELS,
+  type PickOverrideAction,
+  type PickOverrideRequest
+} from '@/hooks/usePickOverrides';
+import { useLeaguePicks, type LeaguePickEntry } from '@/hooks/usePicks';
+import { useSeasons } from '@/hooks/useSeasons';
+import { useGamesForWeek } from '@/hooks/useGames';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Gavel, Loader2, Plus, History } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+
+interface PickOverridePanelProps {
+  leagueId: string;
+  members: Array<{ user_id: string; username: string }>;
+}
+
+type AddBetType = 'moneyline' | 'spread' | 'total';
+
+const SELECT_CLASS = 'mt-1 flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2';
+
+const describeResult = (result: string | null, points: number | null) =>
+  result ? `${result.toUpperCase()}${points !== null ? ` (${points} pts)` : ''}` : 'Pending';
+
+/**
+ * Admin console for fixing picks: void, re-grade, reassign or add a pick for
+ * a member. Every change needs a reason and is logged.
+ */
+export default function PickOverridePanel({ leagueId, members }: PickOverridePanelProps) {
+  const [seasonId, setSeasonId] = useState('');
+  const [week, setWeek] = useState(1);
+  const [seasonType, setSeasonType] = useState(2);
+
+  const [action, setAction] = useState<PickOverrideAction | null>(null);
+  const [pickId, setPickId] = useState<number | null>(null);
+  const [reason, setReason] = useState('');
+  const [result, setResult] = useState<'win' | 'loss' | 'push'>('win');
+  const [points, setPoints] = useState('');
+  const [userId, setUserId] = useState('');
+  const [gameId, setGameId] = useState('');
+  const [betType, setBetType] = useState<AddBetType>('moneyline');
+  const [side, setSide] = useState('home');
+  const [line, setLine] = useState('');
+
+  const { data: seasons } = useSeasons(leagueId);
+  const { data: picksData, isLoading: picksLoading } = useLeaguePicks(leagueId, week, seasonType, seasonId || undefined);
+  const { data: gamesData } = useGamesForWeek(seasonId, week, seasonType);
+  const { data: overridesData } = usePickOverrides(leagueId);
+  const overrideMutation = useApplyPickOverride();
+
+  // Default to the most recent season
+  useEffect(() => {
+    if (!seasonId && seasons?.length) {
+      setSeasonId(seasons[seasons.length - 1].id.toString());
+    }
+  }, [seasons, seasonId]);
+
+  const picks = picksData || [];
+  const games = gamesData?.games || [];
+  const overrides = overridesData?.overrides || [];
+
+  const openForm = (nextAction: PickOverrideAction, pick?: LeaguePickEntry) => {
+    setAction(nextAction);
+    setPickId(pick?.id ?? null);
+    setReason('');
+    setPoints('');
+    setUserId('');
+    setGameId('');
+    setLine('');
+  };
+
+  const closeForm = () => {
+    setAction(null);
+    setPickId(null);
+  };
+
+  const handleSubmit = async () => {
+    if (!action) return;
+
+    const request: PickOverrideRequest = { leagueId, action, reason };
+
+    if (action !== 'add') {
+      request.pick_id = pickId ?? undefined;
+    }
+    if (action === 'regrade') {
+      request.result = result;
+      request.points_awarded = points === '' ? null : parseFloat(points);
+    }
+    if (action === 'reassign' || action === 'add') {
+      request.user_id = userId;
+    }
+    if (action === 'add') {
+      request.season_id = parseInt(seasonId);
+      request.game_id = parseInt(gameId);
+      request.bet_type = betType;
+      request.selection_data = {
+        market: betType,
+        side: side as 'home' | 'away' | 'over' | 'under',
+        line: betType === 'moneyline' || line === '' ? null : parseFloat(line)
+      };
+    }
+
+    try {
+      await overrideMutation.mutateAsync(request);
+      closeForm();
+      toast({
+        title: "Override applied",
+        description: `Pick ${PICK_OVERRIDE_ACTION_LABELS[action].toLowerCase()} and stats recalculated.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to apply override.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const canSubmit = reason.trim().length > 0 &&
+    (action !== 'reassign' || !!userId) &&
+    (action !== 'add' || (!!userId && !!gameId && (betType === 'moneyline' || line !== '')));
+
+  const renderForm = () => (
+    <div className="mt-3 space-y-3 rounded-md border bg-gray-50 p-3">
+      {action === 'regrade' && (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="override_result">Result</Label>
+            <select
+              id="override_result"
+              value={result}
+              onChange={(e) => setResult(e.target.value as 'win' | 'loss' | 'push')}
+              className={SELECT_CLASS}
+            >
+              <option value="win">Win</option>
+              <option value="loss">Loss</option>
+              <option value="push">Push</option>
+            </select>
+          </div>
+          <div>
+            <Label htmlFor="override_points">Points</Label>
+            <Input
+              id="override_points"
+              type="number"
+              step="0.1"
+              placeholder="League rules"
+              value={points}
+              onChange={(e) => setPoints(e.target.value)}
+              className="mt-1"
+            />
+          </div>
+        </div>
+      )}
+
+      {(action === 'reassign' || action === 'add') && (
+        <div>
+          <Label htmlFor="override_member">Member</Label>
+          <select
+            id="override_member"
+            value={userId}
+            onChange={(e) => setUserId(e.target.value)}
+            className={SELECT_CLASS}
+          >
+            <option value="">Select a member</option>
+            {members.map(member => (
+              <option key={member.user_id} value={member.user_id}>{member.username}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {action === 'add' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div className="md:col-span-2">
+            <Label htmlFor="override_game">Game</Label>
+            <select
+              id="override_game"
+              value={gameId}
+              onChange={(e) => setGameId(e.target.value)}
+              className={SELECT_CLASS}
+            >
+              <option value="">Select a game</option>
+              {games.map(game => (
+                <option key={game.id} value={game.id}>
+                  {game.away_team.abbreviation} @ {game.home_team.abbreviation}
+                  {game.status === 'completed' ? ` (final ${game.away_score}-${game.home_score})` : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <Label htmlFor="override_bet_type">Bet Type</Label>
+            <select
+              id="override_bet_type"
+              value={betType}
+              onChange={(e) => {
+                const next = e.target.value as AddBetType;
+                setBetType(next);
+                setSide(next === 'total' ? 'over' : 'home');
+              }}
+              className={SELECT_CLASS}
+            >
+              <option value="moneyline">Moneyline</option>
+              <option value="spread">Point Spread</option>
+              <option value="total">Total Points</option>
+            </select>
+          </div>
+          <div>
+            <Label htmlFor="override_side">Side</Label>
+            <select
+              id="override_side"
+              value={side}
+              onChange={(e) => setSide(e.target.value)}
+              className={SELECT_CLASS}
+            >
+              {(betType === 'total' ? ['over', 'under'] : ['home', 'away']).map(option => (
+                <option key={option} value={option}>
+                  {option.charAt(0).toUpperCase() + option.slice(1)}
+                </option>
+              ))}
+            </select>
+          </div>
+          {betType !== 'moneyline' && (
+            <div>
+              <Label htmlFor="override_line">Line</Label>
+              <Input
+                id="override_line"
+                type="number"
+                step="0.5"
+                value={line}
+                onChange={(e) => setLine(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      <div>
+        <Label htmlFor="override_reason">Reason</Label>
+        <Input
+          id="override_reason"
+          placeholder="Required, shown in the override log"
+          maxLength={500}
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          className="mt-1"
+        />
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={closeForm}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleSubmit} disabled={!canSubmit || overrideMutation.isPending}>
+          {overrideMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Apply
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gavel className="h-5 w-5" />
+          Pick Overrides
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Fix a member&apos;s pick after a dispute or scoring mistake. Every change is logged with its reason.
+        </p>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <Label htmlFor="override_season">Season</Label>
+            <select
+              id="override_season"
+              value={seasonId}
+              onChange={(e) => setSeasonId(e.target.value)}
+              className={SELECT_CLASS}
+            >
+              {(seasons || []).map(season => (
+                <option key={season.id} value={season.id}>{season.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <Label htmlFor="override_week">Week</Label>
+            <Input
+              id="override_week"
+              type="number"
+              min="1"
+              max="18"
+              value={week}
+              onChange={(e) => setWeek(parseInt(e.target.value) || 1)}
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label htmlFor="override_season_type">Season Type</Label>
+            <select
+              id="override_season_type"
+              value={seasonType}
+              onChange={(e) => setSeasonType(parseInt(e.target.value))}
+              className={SELECT_CLASS}
+            >
+              <option value={2}>Regular season</option>
+              <option value={3}>Postseason</option>
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-3">
+            <h4 className="font-medium text-gray-900">Picks</h4>
+            <Button size="sm" variant="outline" onClick={() => openForm('add')}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Pick
+            </Button>
+          </div>
+
+          {action === 'add' && renderForm()}
+
+          {picksLoading ? (
+            <div className="animate-pulse space-y-2">
+              {[1, 2, 3].map(i => (
+                <div key={i} className="h-10 bg-gray-200 rounded"></div>
+              ))}
+            </div>
+          ) : picks.length === 0 ? (
+            <p className="text-sm text-gray-600">No picks this week</p>
+          ) : (
+            <div className="space-y-2">
+              {picks.map(pick => (
+                <div key={pick.id} className="rounded-md border p-3">
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">
+                        {pick.user.username}: {pick.hidden ? 'Pick submitted' : pick.selection}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {pick.hidden ? 'Hidden until it locks' : describeResult(pick.result, pick.result ? pick.points_awarded : null)}
+                      </p>
+                    </div>
+                    <div className="flex gap-1 flex-shrink-0">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={!pick.hidden && pick.result === 'void'}
+                        onClick={() => openForm('void', pick)}
+                      >
+                        Void
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => openForm('regrade', pick)}>
+                        Re-grade
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => openForm('reassign', pick)}>
+                        Reassign
+                      </Button>
+                    </div>
+                  </div>
+                  {action && action !== 'add' && pickId === pick.id && renderForm()}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div>
+          <h4 className="font-medium text-gray-900 mb-3 flex items-center gap-2">
+            <History className="h-4 w-4" />
+            Override Log
+          </h4>
+          {overrides.length === 0 ? (
+            <p className="text-sm text-gray-600">No overrides yet</p>
+          ) : (
+            <div className="space-y-2">
+              {overrides.map(override => (
+                <div key={override.id} className="text-sm border-b pb-2 last:border-b-0">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className="text-xs">
+                      {PICK_OVERRIDE_ACTION_LABELS[override.action]}
+                    </Badge>
+                    <span className="font-medium truncate">{override.selection}</span>
+                  </div>
+                  <p className="text-gray-600">
+                    {override.action === 'reassign'
+                      ? `${override.from_username} → ${override.to_username}`
+                      : `${override.to_username}: ${describeResult(override.old_result, override.old_points)} → ${describeResult(override.new_result, override.new_points)}`}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    &ldquo;{override.reason}&rdquo; · {override.admin_username} · {new Date(override.created_at).toLocaleString()}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,593 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  usePickRules,
+  useUpdatePickRules,
+  useResetPickRules,
+  validatePickRules,
+  getDefaultPickRules,
+  PICK_RULE_BET_TYPE_LABELS,
+  PROP_MARKET_LABELS,
+  MISSED_PICK_POLICY_LABELS,
+  CANCELLED_GAME_POLICY_LABELS,
+  PICK_VISIBILITY_LABELS,
+  PICK_LOCK_MODE_LABELS,
+  LOCK_DAY_LABELS,
+  type MissedPickPolicy,
+  type CancelledGamePolicy,
+  type PickVisibility,
+  type PickLockMode,
+  type PickRules,
+  type PickRuleBetType
+} from '@/hooks/usePickRules';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  ListChecks,
+  Save,
+  RotateCcw,
+  Loader2,
+  CheckCircle,
+  AlertTriangle,
+  Info,
+  CalendarDays,
+  Ban,
+  Clock,
+  CloudRain,
+  EyeOff,
+  Lock
+} from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+
+interface PickRulesManagerProps {
+  leagueId: string;
+  isAdmin: boolean;
+}
+
+const describeBetTypes = (rules: PickRules) =>
+  rules.allowed_bet_types.map(betType => PICK_RULE_BET_TYPE_LABELS[betType]).join(', ');
+
+const describeLockMode = (rules: PickRules) =>
+  rules.lock_mode === 'custom'
+    ? `The whole week locks ${LOCK_DAY_LABELS[rules.lock_day]} at ${rules.lock_time} ET`
+    : PICK_LOCK_MODE_LABELS[rules.lock_mode ?? 'game_start'];
+
+const describePropMarkets = (rules: PickRules) =>
+  rules.allowed_prop_markets.length === 0
+    ? 'All markets'
+    : rules.allowed_prop_markets.map(market => PROP_MARKET_LABELS[market] ?? market).join(', ');
+
+export default function PickRulesManager({ leagueId, isAdmin }: PickRulesManagerProps) {
+  const [formData, setFormData] = useState(getDefaultPickRules(parseInt(leagueId)));
+  const [errors, setErrors] = useState<string[]>([]);
+  const [hasChanges, setHasChanges] = useState(false);
+
+  const { data, isLoading, error } = usePickRules(leagueId);
+  const updateMutation = useUpdatePickRules();
+  const resetMutation = useResetPickRules();
+
+  // Update form data when API data loads
+  useEffect(() => {
+    if (data?.pick_rules) {
+      setFormData(data.pick_rules);
+      setHasChanges(false);
+    }
+  }, [data]);
+
+  const updateForm = (newData: PickRules) => {
+    setFormData(newData);
+    setHasChanges(true);
+    setErrors(validatePickRules(newData).errors);
+  };
+
+  const handleChange = (field: keyof PickRules, value: number | string | null) => {
+    updateForm({ ...formData, [field]: value });
+  };
+
+  const toggleBetType = (betType: PickRuleBetType) => {
+    const allowed = formData.allowed_bet_types.includes(betType)
+      ? formData.allowed_bet_types.filter(type => type !== betType)
+      : [...formData.allowed_bet_types, betType];
+    updateForm({ ...formData, allowed_bet_types: allowed });
+  };
+
+  // No markets ticked means every market is allowed
+  const togglePropMarket = (market: string) => {
+    const allowed = formData.allowed_prop_markets.includes(market)
+      ? formData.allowed_prop_markets.filter(key => key !== market)
+      : [...formData.allowed_prop_markets, market];
+    updateForm({ ...formData, allowed_prop_markets: allowed });
+  };
+
+  const handleSave = async () => {
+    const validation = validatePickRules(formData);
+
+    if (!validation.isValid) {
+      setErrors(validation.errors);
+      toast({
+        title: "Validation Error",
+        description: "Please fix the errors before saving.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      await updateMutation.mutateAsync(formData);
+      setHasChanges(false);
+      toast({
+        title: "Success",
+        description: "Pick rules updated successfully.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update pick rules.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleReset = async () => {
+    try {
+      await resetMutation.mutateAsync(leagueId);
+      setHasChanges(false);
+      toast({
+        title: "Reset Complete",
+        description: "Pick rules have been reset to defaults.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to reset pick rules.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleRevert = () => {
+    if (data?.pick_rules) {
+      setFormData(data.pick_rules);
+      setHasChanges(false);
+      setErrors([]);
+    }
+  };
+
+  if (!isAdmin) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ListChecks className="h-5 w-5" />
+            Pick Rules
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Alert>
+            <Info className="h-4 w-4" />
+            <AlertDescription>
+              Only league administrators can modify pick rules.
+            </AlertDescription>
+          </Alert>
+
+          {data?.pick_rules && (
+            <div className="mt-4 space-y-2 text-sm text-gray-600">
+              <p>
+                Picks per week: {data.pick_rules.min_picks_per_week === data.pick_rules.max_picks_per_week
+                  ? data.pick_rules.max_picks_per_week
+                  : `${data.pick_rules.min_picks_per_week}-${data.pick_rules.max_picks_per_week}`}
+                {' '}(up to {data.pick_rules.max_picks_per_game} per game)
+              </p>
+              <p>Bet types: {describeBetTypes(data.pick_rules)}</p>
+              {data.pick_rules.allowed_bet_types.includes('player_prop') && (
+                <p>Prop markets: {describePropMarkets(data.pick_rules)}</p>
+              )}
+              {data.pick_rules.max_favorite_spread != null && (
+                <p>No favorites laying more than {data.pick_rules.max_favorite_spread} points</p>
+              )}
+              <p>
+                Missed weeks: {MISSED_PICK_POLICY_LABELS[data.pick_rules.missed_pick_policy ?? 'none']}
+                {data.pick_rules.missed_pick_policy === 'penalty' && ` (-${data.pick_rules.missed_pick_penalty} pts)`}
+              </p>
+              <p>Cancelled games: {CANCELLED_GAME_POLICY_LABELS[data.pick_rules.cancelled_game_policy ?? 'void']}</p>
+              <p>Deadline: {describeLockMode(data.pick_rules)}</p>
+              <p>Members&apos; picks: {PICK_VISIBILITY_LABELS[data.pick_rules.pick_visibility ?? 'game_start']}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ListChecks className="h-5 w-5" />
+            Pick Rules
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ListChecks className="h-5 w-5" />
+            Pick Rules
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              Failed to load pick rules: {error.message}
+            </AlertDescription>
+          </Alert>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <ListChecks className="h-5 w-5" />
+            Pick Rules
+          </CardTitle>
+
+          {hasChanges && (
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleRevert}
+                disabled={updateMutation.isPending}
+              >
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={handleSave}
+                disabled={updateMutation.isPending || errors.length > 0}
+              >
+                {updateMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                ) : (
+                  <Save className="h-4 w-4 mr-2" />
+                )}
+                Save Changes
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        {/* Validation Errors */}
+        {errors.length > 0 && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              <ul className="list-disc list-inside space-y-1">
+                {errors.map((error, index) => (
+                  <li key={index}>{error}</li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {/* Weekly Quota */}
+        <div>
+          <h4 className="font-medium text-gray-900 mb-4 flex items-center gap-2">
+            <CalendarDays className="h-4 w-4" />
+            Weekly Quota
+          </h4>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="min_picks_per_week">Min Picks per Week</Label>
+              <Input
+                id="min_picks_per_week"
+                type="number"
+                min="0"
+                max={formData.max_picks_per_week}
+                value={formData.min_picks_per_week}
+                onChange={(e) => handleChange('min_picks_per_week', parseInt(e.target.value) || 0)}
+                className="mt-1"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="max_picks_per_week">Max Picks per Week</Label>
+              <Input
+                id="max_picks_per_week"
+                type="number"
+                min="1"
+                max="20"
+                value={formData.max_picks_per_week}
+                onChange={(e) => handleChange('max_picks_per_week', parseInt(e.target.value) || 1)}
+                className="mt-1"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="max_picks_per_game">Max Picks per Game</Label>
+              <Input
+                id="max_picks_per_game"
+                type="number"
+                min="1"
+                max={formData.max_picks_per_week}
+                value={formData.max_picks_per_game}
+                onChange={(e) => handleChange('max_picks_per_game', parseInt(e.target.value) || 1)}
+                className="mt-1"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            With a max of 1, a new pick replaces the week&apos;s previous pick until its game kicks off
+          </p>
+        </div>
+
+        {/* Allowed Bets */}
+        <div>
+          <h4 className="font-medium text-gray-900 mb-4 flex items-center gap-2">
+            <Ban className="h-4 w-4" />
+            Allowed Bets
+          </h4>
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(PICK_RULE_BET_TYPE_LABELS) as PickRuleBetType[]).map((betType) => (
+              <Button
+                key={betType}
+                type="button"
+                size="sm"
+                variant={formData.allowed_bet_types.includes(betType) ? 'default' : 'outline'}
+                onClick={() => toggleBetType(betType)}
+              >
+                {PICK_RULE_BET_TYPE_LABELS[betType]}
+              </Button>
+            ))}
+          </div>
+
+          {formData.allowed_bet_types.includes('player_prop') && (
+            <div className="mt-4">
+              <Label>Prop Markets</Label>
+              <div className="flex flex-wrap gap-2 mt-1">
+                {Object.entries(PROP_MARKET_LABELS).map(([market, label]) => (
+                  <Button
+                    key={market}
+                    type="button"
+                    size="sm"
+                    variant={formData.allowed_prop_markets.includes(market) ? 'default' : 'outline'}
+                    onClick={() => togglePropMarket(market)}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Leave every market unselected to allow them all
+              </p>
+            </div>
+          )}
+
+          <div className="mt-4 md:w-1/2">
+            <Label htmlFor="max_favorite_spread">Max Favorite Spread</Label>
+            <Input
+              id="max_favorite_spread"
+              type="number"
+              min="0"
+              max="30"
+              step="0.5"
+              placeholder="No limit"
+              value={formData.max_favorite_spread ?? ''}
+              onChange={(e) => handleChange('max_favorite_spread', e.target.value === '' ? null : parseFloat(e.target.value))}
+              className="mt-1"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Blocks spread and moneyline picks on favorites laying more points than this
+            </p>
+          </div>
+        </div>
+
+        {/* Missed Weeks */}
+        <div>
+          <h4 className="font-medium text-gray-900 mb-4 flex items-center gap-2">
+            <Clock className="h-4 w-4" />
+            Missed Weeks
+          </h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="missed_pick_policy">Members Without a Pick</Label>
+              <select
+                id="missed_pick_policy"
+                value={formData.missed_pick_policy}
+                onChange={(e) => handleChange('missed_pick_policy', e.target.value)}
+                className="mt-1 flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+              >
+                {(Object.keys(MISSED_PICK_POLICY_LABELS) as MissedPickPolicy[]).map((policy) => (
+                  <option key={policy} value={policy}>
+                    {MISSED_PICK_POLICY_LABELS[policy]}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                Applied after the last game of the week kicks off
+              </p>
+            </div>
+
+            {formData.missed_pick_policy === 'penalty' && (
+              <div>
+                <Label htmlFor="missed_pick_penalty">Penalty Points</Label>
+                <Input
+                  id="missed_pick_penalty"
+                  type="number"
+                  min="0"
+                  max="10"
+                  value={formData.missed_pick_penalty}
+                  onChange={(e) => handleChange('missed_pick_penalty', parseFloat(e.target.value) || 0)}
+                  className="mt-1"
+                />
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Cancelled Games */}
+        <div>
+          <h4 className="font-medium text-gray-900 mb-4 flex items-center gap-2">
+            <CloudRain className="h-4 w-4" />
+            Cancelled Games
+          </h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="cancelled_game_policy">Picks on a Cancelled Game</Label>
+              <select
+                id="cancelled_game_policy"
+                value={formData.cancelled_game_policy}
+                onChange={(e) => handleChange('cancelled_game_policy', e.target.value)}
+                className="mt-1 flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+              >
+                {(Object.keys(CANCELLED_GAME_POLICY_LABELS) as CancelledGamePolicy[]).map((policy) => (
+                  <option key={policy} value={policy}>
+                    {CANCELLED_GAME_POLICY_LABELS[policy]}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                Parlay legs on a cancelled game are always voided
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {/* Pick Deadline */}
+        <div>
+          <h4 className="font-medium text-gray-900 mb-4 flex items-center gap-2">
+            <Lock className="h-4 w-4" />
+            Pick Deadline
+          </h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="lock_mode">Picks Lock</Label>
+              <select
+                id="lock_mode"
+                value={formData.lock_mode}
+                onChange={(e) => handleChange('lock_mode', e.target.value)}
+                className="mt-1 flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+              >
+                {(Object.keys(PICK_LOCK_MODE_LABELS) as PickLockMode[]).map((lockMode) => (
+                  <option key={lockMode} value={lockMode}>
+                    {PICK_LOCK_MODE_LABELS[lockMode]}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                Games that kick off before the week locks still lock at kickoff
+              </p>
+            </div>
+
+            {formData.lock_mode === 'custom' && (
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor="lock_day">Lock Day</Label>
+                  <select
+                    id="lock_day"
+                    value={formData.lock_day}
+                    onChange={(e) => handleChange('lock_day', parseInt(e.target.value))}
+                    className="mt-1 flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+                  >
+                    {LOCK_DAY_LABELS.map((label, day) => (
+                      <option key={day} value={day}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <Label htmlFor="lock_time">Lock Time (ET)</Label>
+                  <Input
+                    id="lock_time"
+                    type="time"
+                    value={formData.lock_time}
+                    onChange={(e) => handleChange('lock_time', e.target.value)}
+                    className="mt-1"
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Pick Visibility */}
+        <div>
+          <h4 className="font-medium text-gray-900 mb-4 flex items-center gap-2">
+            <EyeOff className="h-4 w-4" />
+            Pick Visibility
+          </h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="pick_visibility">Members&apos; Picks</Label>
+              <select
+                id="pick_visibility"
+                value={formData.pick_visibility}
+                onChange={(e) => handleChange('pick_visibility', e.target.value)}
+                className="mt-1 flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+              >
+                {(Object.keys(PICK_VISIBILITY_LABELS) as PickVisibility[]).map((visibility) => (
+                  <option key={visibility} value={visibility}>
+                    {PICK_VISIBILITY_LABELS[visibility]}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                Members always see their own picks, and a parlay&apos;s game is its last leg
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {/* Action Buttons */}
+        {!hasChanges && (
+          <div className="flex justify-end">
+            <Button
+              variant="outline"
+              onClick={handleReset}
+              disabled={resetMutation.isPending}
+            >
+              {resetMutation.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin mr-2" />
+              ) : (
+                <RotateCcw className="h-4 w-4 mr-2" />
+              )}
+              Reset to Defaults
+            </Button>
+          </div>
+        )}
+
+        {/* Success Indicator */}
+        {(updateMutation.isSuccess || resetMutation.isSuccess) && !hasChanges && (
+          <Alert>
+            <CheckCircle className="h-4 w-4" />
+            <AlertDescription>
+              Pick rules have been successfully updated. Changes apply to picks made from now on.
+            </AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
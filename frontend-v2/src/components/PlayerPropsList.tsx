@@ -23,6 +23,8 @@ interface PlayerProp {
 interface PlayerPropsListProps {
   gameId: number;
   onSelectProp?: (prop: PlayerProp, selection: 'over' | 'under') => void;
+  // League pick rules can limit which markets are pickable; empty or unset allows all
+  allowedMarkets?: string[];
 }
 
 const MARKET_LABELS: Record<string, string> = {
@@ -64,7 +66,7 @@ function getCategoryColor(category: string): string {
   }
 }
 
-export default function PlayerPropsList({ gameId, onSelectProp }: PlayerPropsListProps) {
+export default function PlayerPropsList({ gameId, onSelectProp, allowedMarkets }: PlayerPropsListProps) {
   const [props, setProps] = useState<PlayerProp[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -93,7 +95,11 @@ export default function PlayerPropsList({ gameId, onSelectProp }: PlayerPropsLis
     fetchPlayerProps();
   }, [gameId]);
 
-  const filteredProps = props.filter(prop => {
+  const allowedProps = allowedMarkets?.length
+    ? props.filter(prop => allowedMarkets.includes(prop.market_key))
+    : props;
+
+  const filteredProps = allowedProps.filter(prop => {
     const matchesSearch = prop.athlete_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          MARKET_LABELS[prop.market_key]?.toLowerCase().includes(searchTerm.toLowerCase());
 
@@ -135,7 +141,7 @@ export default function PlayerPropsList({ gameId, onSelectProp }: PlayerPropsLis
     );
   }
 
-  if (props.length === 0) {
+  if (allowedProps.length === 0) {
     return (
       <Card>
         <CardHeader>
@@ -153,7 +159,7 @@ export default function PlayerPropsList({ gameId, onSelectProp }: PlayerPropsLis
       <CardHeader>
         <CardTitle className="flex items-center justify-between">
           Player Props
-          <Badge variant="outline">{props.length} available</Badge>
+          <Badge variant="outline">{allowedProps.length} available</Badge>
         </CardTitle>
 
         <div className="space-y-4">
@@ -0,0 +1,140 @@
+'use client';
+
+import { useState } from 'react';
+import { useProjections, type MemberProjection } from '@/hooks/useProjections';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dices } from 'lucide-react';
+
+interface ProjectionsPanelProps {
+  seasonId: string;
+  currentWeek?: number;
+  seasonType?: number;
+  // Calendar label for the week, e.g. "Wild Card"
+  weekLabel?: string;
+}
+
+const formatProbability = (probability: number) => {
+  if (probability > 0 && probability < 0.001) return '<0.1%';
+  return `${(probability * 100).toFixed(1)}%`;
+};
+
+export default function ProjectionsPanel({ seasonId, currentWeek = 1, seasonType = 2, weekLabel }: ProjectionsPanelProps) {
+  const [viewType, setViewType] = useState<'season' | 'week'>('week');
+  const weekTitle = weekLabel ?? `Week ${currentWeek}`;
+
+  const { data, isLoading, error } = useProjections(seasonId, currentWeek, seasonType);
+
+  if (isLoading) {
+    return (
+      <div className="border rounded-lg p-6">
+        <div className="animate-pulse space-y-3">
+          <div className="h-6 bg-gray-200 rounded w-1/3"></div>
+          {[1, 2, 3].map(i => (
+            <div key={i} className="h-10 bg-gray-200 rounded"></div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="border rounded-lg p-6 text-center">
+        <p className="text-gray-600">Failed to load projections</p>
+        <p className="text-sm text-red-600 mt-2">{error.message}</p>
+      </div>
+    );
+  }
+
+  const standings: MemberProjection[] = (viewType === 'week' ? data?.week_standings : data?.season_standings) || [];
+  const hasPendingPicks = standings.some(standing => standing.pending_picks > 0);
+
+  return (
+    <div className="border rounded-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-semibold flex items-center gap-2">
+          <Dices className="h-5 w-5" />
+          Projections
+        </h3>
+
+        <div className="flex rounded-md p-1">
+          <Button
+            variant={viewType === 'week' ? 'default' : 'ghost'}
+            size="sm"
+            onClick={() => setViewType('week')}
+            className="h-8"
+          >
+            {weekTitle}
+          </Button>
+          <Button
+            variant={viewType === 'season' ? 'default' : 'ghost'}
+            size="sm"
+            onClick={() => setViewType('season')}
+            className="h-8"
+          >
+            Season
+          </Button>
+        </div>
+      </div>
+
+      {standings.length === 0 ? (
+        <p className="text-center text-sm text-gray-500 py-6">
+          No picks to project {viewType === 'week' ? `for ${weekTitle}` : 'this season'} yet
+        </p>
+      ) : (
+        <div className="space-y-2">
+          <div className="grid grid-cols-12 gap-4 text-xs font-medium text-gray-500 uppercase tracking-wide pb-2 border-b">
+            <div className="col-span-5">Player</div>
+            <div className="col-span-3 text-center">To Win</div>
+            <div className="col-span-4 text-center">Points</div>
+          </div>
+
+          {standings.map(standing => (
+            <div
+              key={standing.user_id}
+              className={`grid grid-cols-12 gap-4 items-center p-2 rounded-lg ${
+                standing.is_current_user ? 'border border-blue-200' : ''
+              }`}
+            >
+              <div className="col-span-5 min-w-0">
+                <div className="font-medium text-gray-900 truncate flex items-center gap-2">
+                  {standing.username}
+                  {standing.is_current_user && (
+                    <Badge variant="outline" className="text-xs">You</Badge>
+                  )}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {standing.pending_picks} pending pick{standing.pending_picks === 1 ? '' : 's'}
+                </div>
+              </div>
+
+              <div className="col-span-3">
+                <div className="text-sm font-semibold text-center">
+                  {formatProbability(standing.win_probability)}
+                </div>
+                <div className="h-1.5 bg-gray-200 rounded mt-1">
+                  <div
+                    className="h-1.5 bg-blue-500 rounded"
+                    style={{ width: `${Math.round(standing.win_probability * 100)}%` }}
+                  />
+                </div>
+              </div>
+
+              <div className="col-span-4 text-center">
+                <div className="text-sm font-semibold">{standing.projected_points}</div>
+                <div className="text-xs text-gray-500">{standing.current_points} now</div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-4 pt-3 border-t text-xs text-gray-500 text-center">
+        {hasPendingPicks
+          ? `Based on ${data?.simulations.toLocaleString()} simulations of pending picks at current odds`
+          : 'All picks are settled'}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+'use client';
+
+import { useScoreCorrections, type ScoreCorrection } from '@/hooks/useScoreCorrections';
+import { PLAYOFF_ROUND_LABELS } from '@/hooks/useScoringRules';
+import { Badge } from '@/components/ui/badge';
+import { RefreshCw } from 'lucide-react';
+
+interface ScoreCorrectionsProps {
+  leagueId: string;
+}
+
+const formatWeek = (correction: ScoreCorrection) => {
+  if (!correction.week) return null;
+  return correction.season_type === 3
+    ? PLAYOFF_ROUND_LABELS[correction.week.toString()] ?? `Playoff week ${correction.week}`
+    : `Week ${correction.week}`;
+};
+
+const formatScore = (away: number | null, home: number | null) =>
+  away === null || home === null ? 'unscored' : `${away}-${home}`;
+
+/**
+ * Recent score corrections and re-grades that changed picks in this league.
+ * Renders nothing when there haven't been any.
+ */
+export default function ScoreCorrections({ leagueId }: ScoreCorrectionsProps) {
+  const { data } = useScoreCorrections(leagueId);
+  const corrections = data?.corrections || [];
+
+  if (corrections.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="border rounded-lg p-6">
+      <h3 className="font-semibold mb-4 flex items-center gap-2">
+        <RefreshCw className="h-4 w-4" />
+        Score Corrections
+      </h3>
+
+      <div className="space-y-3">
+        {corrections.map(correction => (
+          <div key={correction.id} className="text-sm">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium">
+                {correction.away_team} @ {correction.home_team}
+              </span>
+              {correction.my_picks_changed > 0 && (
+                <Badge variant="outline" className="text-xs">
+                  {correction.my_picks_changed} of your picks
+                </Badge>
+              )}
+            </div>
+            <p className="text-gray-600">
+              {correction.reason === 'espn_correction'
+                ? `Final changed from ${formatScore(correction.old_away_score, correction.old_home_score)} to ${formatScore(correction.new_away_score, correction.new_home_score)}`
+                : 'Picks re-graded by an admin'}
+            </p>
+            <p className="text-xs text-gray-500">
+              {[formatWeek(correction), `${correction.picks_changed} pick${correction.picks_changed !== 1 ? 's' : ''} re-graded`, new Date(correction.created_at).toLocaleDateString()]
+                .filter(Boolean)
+                .join(' · ')}
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { useScoringRules, useUpdateScoringRules, useResetScoringRules, validateScoringRules, getDefaultScoringRules } from '@/hooks/useScoringRules';
+import { useScoringRules, useUpdateScoringRules, useResetScoringRules, validateScoringRules, getDefaultScoringRules, PLAYOFF_ROUND_LABELS, TIEBREAKER_LABELS, type ParlayPushRule, type ScoringMode, type OvertimeRule, type Tiebreaker } from '@/hooks/useScoringRules';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -16,10 +16,29 @@ import {
   AlertTriangle,
   Info,
   Trophy,
-  Zap
+  Zap,
+  Layers,
+  Medal,
+  Scale
 } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 
+const PARLAY_PUSH_RULE_LABELS: Record<ParlayPushRule, string> = {
+  reduce: 'Reduce (drop pushed legs)',
+  push: 'Push the whole parlay',
+  loss: 'Count as a loss'
+};
+
+const SCORING_MODE_LABELS: Record<ScoringMode, string> = {
+  flat: 'Flat (every win is equal)',
+  odds_weighted: 'Odds-weighted (pay by price)'
+};
+
+const OVERTIME_RULE_LABELS: Record<OvertimeRule, string> = {
+  include_ot: 'Overtime counts',
+  regulation_only: 'Regulation only'
+};
+
 interface ScoringRulesManagerProps {
   leagueId: string;
   isAdmin: boolean;
@@ -43,7 +62,7 @@ export default function ScoringRulesManager({ leagueId, isAdmin }: ScoringRulesM
   }, [data]);
 
   // Handle form field changes
-  const handleChange = (field: string, value: number) => {
+  const handleChange = (field: string, value: number | string) => {
     const newData = { ...formData, [field]: value };
     setFormData(newData);
     setHasChanges(true);
@@ -53,6 +72,36 @@ export default function ScoringRulesManager({ leagueId, isAdmin }: ScoringRulesM
     setErrors(validation.errors);
   };
 
+  // Blank or 1x means the round scores like a regular-season week
+  const handlePlayoffMultiplierChange = (round: string, value: string) => {
+    const multiplier = parseFloat(value);
+    const playoffMultipliers = { ...formData.playoff_multipliers };
+
+    if (isNaN(multiplier) || multiplier === 1) {
+      delete playoffMultipliers[round];
+    } else {
+      playoffMultipliers[round] = multiplier;
+    }
+
+    const newData = { ...formData, playoff_multipliers: playoffMultipliers };
+    setFormData(newData);
+    setHasChanges(true);
+    setErrors(validateScoringRules(newData).errors);
+  };
+
+  // Clearing a tiebreaker drops it and every one after it
+  const handleTiebreakerChange = (index: number, value: string) => {
+    const tiebreakers = formData.tiebreakers.slice(0, index);
+    if (value) {
+      tiebreakers.push(value as Tiebreaker, ...formData.tiebreakers.slice(index + 1));
+    }
+
+    const newData = { ...formData, tiebreakers };
+    setFormData(newData);
+    setHasChanges(true);
+    setErrors(validateScoringRules(newData).errors);
+  };
+
   // Handle save
   const handleSave = async () => {
     const validation = validateScoringRules(formData);
@@ -151,6 +200,29 @@ export default function ScoringRulesManager({ leagueId, isAdmin }: ScoringRulesM
                   <div className="text-sm text-gray-600">Weekly Winner</div>
                 </div>
               </div>
+              <p className="text-sm text-gray-600">
+                Scoring mode: {SCORING_MODE_LABELS[data.scoring_rules.scoring_mode ?? 'flat']}
+              </p>
+              <p className="text-sm text-gray-600">
+                Parlay pushes: {PARLAY_PUSH_RULE_LABELS[data.scoring_rules.parlay_push_rule ?? 'reduce']}
+              </p>
+              <p className="text-sm text-gray-600">
+                Overtime: {OVERTIME_RULE_LABELS[data.scoring_rules.overtime_rule ?? 'include_ot']}
+              </p>
+              <p className="text-sm text-gray-600">
+                Tiebreakers:{' '}
+                {(data.scoring_rules.tiebreakers ?? []).length > 0
+                  ? data.scoring_rules.tiebreakers.map((tiebreaker) => TIEBREAKER_LABELS[tiebreaker]).join(', then ')
+                  : 'None (tied members share a rank)'}
+              </p>
+              {Object.keys(data.scoring_rules.playoff_multipliers ?? {}).length > 0 && (
+                <p className="text-sm text-gray-600">
+                  Playoff multipliers:{' '}
+                  {Object.entries(data.scoring_rules.playoff_multipliers)
+                    .map(([round, multiplier]) => `${PLAYOFF_ROUND_LABELS[round] ?? `Week ${round}`} ${multiplier}x`)
+                    .join(', ')}
+                </p>
+              )}
             </div>
           )}
         </CardContent>
@@ -297,6 +369,50 @@ export default function ScoringRulesManager({ leagueId, isAdmin }: ScoringRulesM
               <p className="text-xs text-gray-500 mt-1">Standard: 0 points</p>
             </div>
           </div>
+
+          <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="scoring_mode">Scoring Mode</Label>
+              <select
+                id="scoring_mode"
+                value={formData.scoring_mode}
+                onChange={(e) => handleChange('scoring_mode', e.target.value)}
+                className="mt-1 flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+              >
+                {(Object.keys(SCORING_MODE_LABELS) as ScoringMode[]).map((mode) => (
+                  <option key={mode} value={mode}>
+                    {SCORING_MODE_LABELS[mode]}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                {formData.scoring_mode === 'odds_weighted'
+                  ? `A +250 underdog win pays ${(formData.points_per_win * 2.5).toFixed(2)}, a -300 favorite pays ${(formData.points_per_win / 3).toFixed(2)}`
+                  : 'Every win is worth the same regardless of the price'}
+              </p>
+            </div>
+
+            <div>
+              <Label htmlFor="overtime_rule">Overtime</Label>
+              <select
+                id="overtime_rule"
+                value={formData.overtime_rule}
+                onChange={(e) => handleChange('overtime_rule', e.target.value)}
+                className="mt-1 flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+              >
+                {(Object.keys(OVERTIME_RULE_LABELS) as OvertimeRule[]).map((rule) => (
+                  <option key={rule} value={rule}>
+                    {OVERTIME_RULE_LABELS[rule]}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                {formData.overtime_rule === 'regulation_only'
+                  ? 'Full-game and second-half picks are settled after four quarters; ties push'
+                  : 'Full-game and second-half picks are settled on the final score'}
+              </p>
+            </div>
+          </div>
         </div>
 
         {/* Bonus Scoring */}
@@ -340,6 +456,93 @@ export default function ScoringRulesManager({ leagueId, isAdmin }: ScoringRulesM
           </div>
         </div>
 
+        {/* Tiebreakers */}
+        <div>
+          <h4 className="font-medium text-gray-900 mb-4 flex items-center gap-2">
+            <Scale className="h-4 w-4" />
+            Tiebreakers
+          </h4>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {[0, 1, 2].filter((index) => index <= formData.tiebreakers.length).map((index) => (
+              <div key={index}>
+                <Label htmlFor={`tiebreaker_${index}`}>{['First', 'Second', 'Third'][index]} Tiebreaker</Label>
+                <select
+                  id={`tiebreaker_${index}`}
+                  value={formData.tiebreakers[index] ?? ''}
+                  onChange={(e) => handleTiebreakerChange(index, e.target.value)}
+                  className="mt-1 flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+                >
+                  <option value="">None</option>
+                  {(Object.keys(TIEBREAKER_LABELS) as Tiebreaker[]).map((tiebreaker) => (
+                    <option key={tiebreaker} value={tiebreaker}>
+                      {TIEBREAKER_LABELS[tiebreaker]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            Members level on points in weekly standings and on the season leaderboard are separated in this order, which also decides who takes the weekly winner bonus. The guess is the combined score of the week&apos;s last game.
+          </p>
+        </div>
+
+        {/* Parlay Scoring */}
+        <div>
+          <h4 className="font-medium text-gray-900 mb-4 flex items-center gap-2">
+            <Layers className="h-4 w-4" />
+            Parlay Scoring
+          </h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="parlay_push_rule">Pushed Legs</Label>
+              <select
+                id="parlay_push_rule"
+                value={formData.parlay_push_rule}
+                onChange={(e) => handleChange('parlay_push_rule', e.target.value)}
+                className="mt-1 flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+              >
+                {(Object.keys(PARLAY_PUSH_RULE_LABELS) as ParlayPushRule[]).map((rule) => (
+                  <option key={rule} value={rule}>
+                    {PARLAY_PUSH_RULE_LABELS[rule]}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                A winning parlay earns the win points once per winning leg
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {/* Playoff Scoring */}
+        <div>
+          <h4 className="font-medium text-gray-900 mb-4 flex items-center gap-2">
+            <Medal className="h-4 w-4" />
+            Playoff Scoring
+          </h4>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {Object.entries(PLAYOFF_ROUND_LABELS).map(([round, label]) => (
+              <div key={round}>
+                <Label htmlFor={`playoff_multiplier_${round}`}>{label}</Label>
+                <Input
+                  id={`playoff_multiplier_${round}`}
+                  type="number"
+                  min="0.5"
+                  max="10"
+                  step="0.5"
+                  value={formData.playoff_multipliers?.[round] ?? 1}
+                  onChange={(e) => handlePlayoffMultiplierChange(round, e.target.value)}
+                  className="mt-1"
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            Every point earned in a playoff round is multiplied, so 2x makes a win worth {formData.points_per_win * 2}
+          </p>
+        </div>
+
         {/* Scoring Preview */}
         <div>
           <h4 className="font-medium text-gray-900 mb-4">Scoring Preview</h4>
@@ -3,6 +3,7 @@
 import { useRouter, useParams, usePathname } from 'next/navigation';
 import { useSeasons } from '@/hooks/useSeasons';
 import { useSeason } from '@/hooks/useGames';
+import { useNFLCalendar } from '@/hooks/useNFLCalendar';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -32,6 +33,13 @@ export default function SeasonSwitcher() {
     data: currentSeason
   } = useSeason(seasonId);
 
+  const { data: calendarData } = useNFLCalendar();
+
+  // During the playoffs, name the round being played alongside the season
+  const playoffRound = calendarData?.current_week?.season_type === 3
+    ? calendarData.current_week.label
+    : null;
+
   // Don't render if not on season page or only one season exists
   if (!isSeasonPage || seasonsLoading || seasons.length <= 1) {
     return null;
@@ -49,6 +57,9 @@ export default function SeasonSwitcher() {
         <Button variant="ghost" size="sm" className="h-8 px-3 text-sm">
           <Calendar className="h-4 w-4 mr-2" />
           {currentSeason?.name || 'Select Season'}
+          {playoffRound && (
+            <span className="ml-2 text-xs text-muted-foreground">{playoffRound}</span>
+          )}
           <ChevronDown className="h-4 w-4 ml-2" />
         </Button>
       </DropdownMenuTrigger>
@@ -0,0 +1,135 @@
+'use client';
+
+import { useSurvivorStandings, type SurvivorStanding } from '@/hooks/useSurvivor';
+import { PLAYOFF_ROUND_LABELS } from '@/hooks/useScoringRules';
+import { Badge } from '@/components/ui/badge';
+import { Shield, Skull, Trophy } from 'lucide-react';
+
+interface SurvivorBoardProps {
+  seasonId: string;
+}
+
+const formatWeek = (week: { week: number; season_type: number }) =>
+  week.season_type === 3 ? PLAYOFF_ROUND_LABELS[week.week.toString()] ?? `Playoff week ${week.week}` : `Week ${week.week}`;
+
+const getResultClass = (result: string | null, strike: boolean) => {
+  if (strike) return 'bg-red-100 text-red-800 border-red-200';
+  if (result === 'win' || result === 'push') return 'bg-green-100 text-green-800 border-green-200';
+  return 'bg-gray-100 text-gray-700 border-gray-200';
+};
+
+export default function SurvivorBoard({ seasonId }: SurvivorBoardProps) {
+  const { data, isLoading, error } = useSurvivorStandings(seasonId);
+
+  if (isLoading) {
+    return (
+      <div className="border rounded-lg p-6">
+        <div className="animate-pulse">
+          <div className="h-6 bg-gray-200 rounded w-1/3 mb-4"></div>
+          <div className="space-y-3">
+            {[1, 2, 3, 4, 5].map(i => (
+              <div key={i} className="h-12 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="border rounded-lg p-6">
+        <div className="text-center">
+          <Shield className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600">Failed to load survivor standings</p>
+          <p className="text-sm text-red-600 mt-2">{error.message}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const standings = data?.standings || [];
+  const strikesAllowed = data?.settings.strikes_allowed ?? 1;
+
+  const renderEntry = (entry: SurvivorStanding) => (
+    <div
+      key={entry.user_id}
+      className={`p-3 rounded-lg transition-colors ${
+        entry.is_current_user ? 'border border-blue-200' : 'hover:bg-gray-50'
+      } ${entry.status === 'eliminated' ? 'opacity-60' : ''}`}
+    >
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2 min-w-0">
+          {entry.status === 'alive'
+            ? <Shield className="h-4 w-4 text-green-600 flex-shrink-0" />
+            : <Skull className="h-4 w-4 text-gray-500 flex-shrink-0" />}
+          <span className="font-medium truncate">{entry.username}</span>
+          {entry.is_current_user && (
+            <Badge variant="outline" className="text-xs">You</Badge>
+          )}
+        </div>
+        <div className="text-xs text-gray-500 text-right">
+          {entry.status === 'eliminated' && entry.eliminated_in
+            ? `Out in ${formatWeek(entry.eliminated_in)}`
+            : strikesAllowed > 1 && `${entry.strikes}/${strikesAllowed} strikes`}
+        </div>
+      </div>
+
+      {(entry.picks.length > 0 || entry.missed_weeks.length > 0) && (
+        <div className="flex flex-wrap gap-1 mt-2">
+          {entry.picks.map(pick => (
+            <span
+              key={`${pick.season_type}-${pick.week}`}
+              title={formatWeek(pick)}
+              className={`text-xs px-2 py-0.5 rounded border ${getResultClass(pick.result, pick.strike)}`}
+            >
+              {pick.team ?? '?'}
+            </span>
+          ))}
+          {entry.missed_weeks.map(week => (
+            <span
+              key={`missed-${week.season_type}-${week.week}`}
+              title={`No pick in ${formatWeek(week)}`}
+              className="text-xs px-2 py-0.5 rounded border bg-red-100 text-red-800 border-red-200"
+            >
+              —
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="border rounded-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-semibold flex items-center gap-2">
+          <Trophy className="h-5 w-5" />
+          Survivor Pool
+        </h3>
+        <span className="text-sm text-gray-600">
+          {data?.alive_count ?? 0} of {standings.length} alive
+        </span>
+      </div>
+
+      {standings.length === 0 ? (
+        <div className="text-center py-8">
+          <Shield className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600">No survivors yet</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {standings.map(renderEntry)}
+        </div>
+      )}
+
+      <div className="mt-6 pt-4 border-t text-center text-sm text-gray-600">
+        Pick one team to win each week; each team can only be used once.
+        {strikesAllowed > 1
+          ? ` Eliminated after ${strikesAllowed} losses.`
+          : ' One loss and you are out.'}
+        {data?.settings.tie_rule === 'win' ? ' Ties count as wins.' : ' Ties count as losses.'}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Loader2, Scale } from 'lucide-react';
+import PickLockCountdown from '@/components/PickLockCountdown';
+import { useTiebreaker, useSaveTiebreaker } from '@/hooks/useTiebreaker';
+import { useToast } from '@/hooks/use-toast';
+
+interface TiebreakerGuessProps {
+  seasonId: string;
+  seasonType: number;
+  week: number;
+  weekLabel: string;
+}
+
+/**
+ * The member's guess at the combined score of the week's last game, used to
+ * break ties on points
+ */
+export default function TiebreakerGuess({ seasonId, seasonType, week, weekLabel }: TiebreakerGuessProps) {
+  const { data } = useTiebreaker(seasonId, week, seasonType);
+  const saveMutation = useSaveTiebreaker();
+  const { toast } = useToast();
+  const [value, setValue] = useState('');
+
+  const savedGuess = data?.guess?.total_points;
+
+  // Reset when the week or the saved guess changes
+  useEffect(() => {
+    setValue(savedGuess !== undefined ? String(savedGuess) : '');
+  }, [savedGuess, week, seasonType]);
+
+  if (!data?.game) {
+    return null;
+  }
+
+  const { game } = data;
+  const deadline = new Date(game.locks_at);
+  const isLocked = new Date() >= deadline;
+  const guess = parseInt(value);
+  const isValid = /^\d+$/.test(value) && guess <= data.max_guess;
+
+  const handleSave = async () => {
+    try {
+      await saveMutation.mutateAsync({
+        season_id: parseInt(seasonId),
+        week,
+        season_type: seasonType,
+        total_points: guess
+      });
+      toast({
+        title: 'Tiebreaker saved',
+        description: `${guess} total points in ${game.label}`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save tiebreaker guess.',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Scale className="h-4 w-4" />
+          {weekLabel} Tiebreaker
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <p className="text-sm text-muted-foreground">
+          Total points scored in {game.label}
+        </p>
+        {isLocked ? (
+          <div className="text-sm">
+            Your guess: <span className="font-medium">{savedGuess ?? 'None'}</span>
+          </div>
+        ) : (
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min="0"
+              max={data.max_guess}
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              placeholder="e.g. 45"
+              className="w-28"
+            />
+            <Button
+              size="sm"
+              onClick={handleSave}
+              disabled={!isValid || guess === savedGuess || saveMutation.isPending}
+            >
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              {savedGuess !== undefined ? 'Update' : 'Save'}
+            </Button>
+          </div>
+        )}
+        <PickLockCountdown deadline={deadline} label="Tiebreaker" />
+      </CardContent>
+    </Card>
+  );
+}
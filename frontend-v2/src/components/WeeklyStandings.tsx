@@ -2,6 +2,7 @@
 
 import { useState } from 'react';
 import { useWeeklyStandings, getStreakDisplayText, getStreakColorClass, formatPointsBreakdown, type WeeklyStanding } from '@/hooks/useWeeklyStandings';
+import { TIEBREAKER_LABELS } from '@/hooks/useScoringRules';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -23,11 +24,15 @@ import {
 interface WeeklyStandingsProps {
   seasonId: string;
   week: number;
+  seasonType?: number;
+  // Calendar label for the week, e.g. "Wild Card"
+  weekLabel?: string;
   autoRefresh?: boolean;
 }
 
-export default function WeeklyStandings({ seasonId, week, autoRefresh = true }: WeeklyStandingsProps) {
+export default function WeeklyStandings({ seasonId, week, seasonType = 2, weekLabel, autoRefresh = true }: WeeklyStandingsProps) {
   const [showDetails, setShowDetails] = useState(false);
+  const weekTitle = weekLabel ?? `Week ${week}`;
 
   const {
     data,
@@ -35,7 +40,7 @@ export default function WeeklyStandings({ seasonId, week, autoRefresh = true }:
     error,
     refetch,
     isFetching
-  } = useWeeklyStandings(seasonId, week);
+  } = useWeeklyStandings(seasonId, week, seasonType);
 
   const handleRefresh = () => {
     refetch();
@@ -71,13 +76,20 @@ export default function WeeklyStandings({ seasonId, week, autoRefresh = true }:
     return null;
   };
 
+  const getLegBadgeVariant = (result: string | null) => {
+    if (result === 'win') return 'success';
+    if (result === 'loss') return 'destructive';
+    if (result === 'push' || result === 'void') return 'warning';
+    return 'pending';
+  };
+
   if (isLoading) {
     return (
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <Trophy className="h-5 w-5" />
-            Week {week} Standings
+            {weekTitle} Standings
           </CardTitle>
         </CardHeader>
         <CardContent>
@@ -99,7 +111,7 @@ export default function WeeklyStandings({ seasonId, week, autoRefresh = true }:
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <Trophy className="h-5 w-5" />
-            Week {week} Standings
+            {weekTitle} Standings
           </CardTitle>
         </CardHeader>
         <CardContent>
@@ -119,6 +131,7 @@ export default function WeeklyStandings({ seasonId, week, autoRefresh = true }:
 
   const standings = data?.standings || [];
   const scoringRules = data?.scoring_rules;
+  const tiebreakerGame = data?.tiebreaker_game;
 
   return (
     <Card>
@@ -126,7 +139,7 @@ export default function WeeklyStandings({ seasonId, week, autoRefresh = true }:
         <div className="flex items-center justify-between">
           <CardTitle className="flex items-center gap-2">
             <Trophy className="h-5 w-5" />
-            Week {week} Standings
+            {weekTitle} Standings
             {isFetching && <RefreshCw className="h-4 w-4 animate-spin text-blue-500" />}
           </CardTitle>
 
@@ -150,6 +163,13 @@ export default function WeeklyStandings({ seasonId, week, autoRefresh = true }:
           </div>
         </div>
 
+        {tiebreakerGame && (
+          <div className="text-sm text-gray-600">
+            Tiebreaker: total points in {tiebreakerGame.label}
+            {tiebreakerGame.total_points !== null && ` (final: ${tiebreakerGame.total_points})`}
+          </div>
+        )}
+
         {/* Scoring Rules Summary */}
         {showDetails && scoringRules && (
           <div className="text-sm text-gray-600 bg-gray-50 p-3 rounded-lg">
@@ -165,6 +185,11 @@ export default function WeeklyStandings({ seasonId, week, autoRefresh = true }:
                 <div>Winner Bonus: +{scoringRules.weekly_winner_bonus}</div>
               )}
             </div>
+            {scoringRules.tiebreakers?.length > 0 && (
+              <div className="mt-2">
+                Ties broken by: {scoringRules.tiebreakers.map(tiebreaker => TIEBREAKER_LABELS[tiebreaker]).join(', then ')}
+              </div>
+            )}
           </div>
         )}
       </CardHeader>
@@ -242,6 +267,17 @@ export default function WeeklyStandings({ seasonId, week, autoRefresh = true }:
                         <Star className="h-4 w-4 text-yellow-500" />
                       )}
                     </div>
+                    {standing.tiebreaker_guess !== null && (
+                      <div className="text-xs text-gray-500">
+                        Tiebreaker: {standing.tiebreaker_guess}
+                        {standing.guess_difference !== null && ` (off by ${standing.guess_difference})`}
+                      </div>
+                    )}
+                    {standing.won_on_tiebreaker && (
+                      <div className="text-xs text-yellow-700">
+                        Won on {TIEBREAKER_LABELS[standing.won_on_tiebreaker].toLowerCase()}
+                      </div>
+                    )}
                   </div>
                 </div>
 
@@ -313,6 +349,26 @@ export default function WeeklyStandings({ seasonId, week, autoRefresh = true }:
                     <div className="col-span-2 text-center">
                       {getPerformanceBadge(standing)}
                     </div>
+
+                    {/* Parlay Legs */}
+                    {standing.picks.some(pick => pick.pick_type === 'parlay') && (
+                      <div className="col-span-16 space-y-2">
+                        {standing.picks.filter(pick => pick.pick_type === 'parlay').map(pick => (
+                          <div key={pick.id} className="text-xs">
+                            <div className="font-medium text-gray-700 mb-1">
+                              {pick.legs.length}-leg parlay • {pick.result.toUpperCase()} ({pick.points_awarded} pts)
+                            </div>
+                            <div className="flex flex-wrap gap-2">
+                              {pick.legs.map(leg => (
+                                <Badge key={leg.id} variant={getLegBadgeVariant(leg.result)}>
+                                  {leg.selection} • {leg.result ? leg.result.toUpperCase() : 'PENDING'}
+                                </Badge>
+                              ))}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </>
                 )}
               </div>
@@ -1,4 +1,7 @@
 import { useQuery } from '@tanstack/react-query';
+import type { ConfidenceBetType, LeagueFormat, SurvivorTieRule } from '@/lib/league-format';
+import type { MarketPeriod } from '@/lib/selection';
+import { useRealtimeFallbackInterval } from '@/hooks/useSeasonRealtime';
 
 export interface Season {
   id: number;
@@ -10,6 +13,10 @@ export interface Season {
     id: number;
     name: string;
     admin_id: string;
+    format?: LeagueFormat;
+    survivor_strikes?: number;
+    survivor_tie_rule?: SurvivorTieRule;
+    confidence_bet_type?: ConfidenceBetType;
   };
 }
 
@@ -21,8 +28,17 @@ export interface Odds {
   moneyline_away: number | null;
   spread_home: number | null;
   spread_away: number | null;
+  spread_home_price: number | null;
+  spread_away_price: number | null;
   total_over: number | null;
   total_under: number | null;
+  total_over_price: number | null;
+  total_under_price: number | null;
+}
+
+// A half or quarter line from period_odds
+export interface PeriodOdds extends Odds {
+  period: MarketPeriod;
 }
 
 export interface Game {
@@ -34,6 +50,8 @@ export interface Game {
   home_score: number | null;
   away_score: number | null;
   status: string;
+  week?: number | null;
+  season_type?: number | null;
   home_team: {
     name: string;
     abbreviation: string;
@@ -43,11 +61,15 @@ export interface Game {
     abbreviation: string;
   };
   odds: Odds[];
+  period_odds?: PeriodOdds[];
 }
 
 export interface GamesResponse {
   games: Game[];
   currentWeek: number;
+  // ESPN season type of currentWeek: 1 preseason, 2 regular season, 3 postseason
+  currentSeasonType: number;
+  currentWeekLabel: string | null;
   totalGames: number;
 }
 
@@ -73,43 +95,26 @@ const fetchGames = async (seasonId: string): Promise<GamesResponse> => {
   return {
     games: data.games || [],
     currentWeek: data.currentWeek || 1,
+    currentSeasonType: data.currentSeasonType || 2,
+    currentWeekLabel: data.currentWeekLabel || null,
     totalGames: data.totalGames || 0,
   };
 };
 
-const fetchGamesForWeek = async (seasonId: string, week: number): Promise<GamesResponse> => {
-  const response = await fetch(`/api/games?season_id=${seasonId}&week=${week}`);
+const fetchGamesForWeek = async (seasonId: string, week: number, seasonType: number): Promise<GamesResponse> => {
+  // The API filters to the week's boundaries from the NFL calendar
+  const response = await fetch(`/api/games?season_id=${seasonId}&week=${week}&season_type=${seasonType}`);
   const data = await response.json();
 
   if (!response.ok) {
     throw new Error(data.error || 'Failed to load games');
   }
 
-  // Filter games by week on the frontend for now
-  const currentWeek = data.currentWeek || 1;
-  const allGames = data.games || [];
-
-  // Simple week filtering based on game dates
-  // Calculate week based on season start (using 2025 NFL season start date)
-  const weekGames = allGames.filter((game: Game) => {
-    const gameDate = new Date(game.start_time);
-    const currentYear = gameDate.getFullYear();
-
-    // NFL season start dates: 2025 starts September 4th
-    let seasonStartDay = 5; // Default September 5th
-    if (currentYear === 2025) {
-      seasonStartDay = 4; // September 4th, 2025
-    }
-
-    const seasonStart = new Date(currentYear, 8, seasonStartDay); // September (month is 0-indexed)
-    const daysSinceStart = Math.floor((gameDate.getTime() - seasonStart.getTime()) / (1000 * 60 * 60 * 24));
-    const gameWeek = Math.floor(daysSinceStart / 7) + 1;
-    return gameWeek === week;
-  });
-
   return {
-    games: weekGames,
-    currentWeek: currentWeek,
+    games: data.games || [],
+    currentWeek: data.currentWeek || 1,
+    currentSeasonType: data.currentSeasonType || 2,
+    currentWeekLabel: data.currentWeekLabel || null,
     totalGames: data.totalGames || 0,
   };
 };
@@ -123,17 +128,23 @@ export const useSeason = (seasonId: string) => {
 };
 
 export const useGames = (seasonId: string) => {
+  const refetchInterval = useRealtimeFallbackInterval(seasonId);
+
   return useQuery({
     queryKey: ['games', seasonId],
     queryFn: () => fetchGames(seasonId),
     enabled: !!seasonId,
+    refetchInterval, // Live scores arrive over Realtime; poll only while it's down
   });
 };
 
-export const useGamesForWeek = (seasonId: string, week: number) => {
+export const useGamesForWeek = (seasonId: string, week: number, seasonType = 2) => {
+  const refetchInterval = useRealtimeFallbackInterval(seasonId);
+
   return useQuery({
-    queryKey: ['games', seasonId, 'week', week],
-    queryFn: () => fetchGamesForWeek(seasonId, week),
+    queryKey: ['games', seasonId, 'week', week, seasonType],
+    queryFn: () => fetchGamesForWeek(seasonId, week, seasonType),
     enabled: !!seasonId && !!week,
+    refetchInterval, // Live scores arrive over Realtime; poll only while it's down
   });
 };
\ No newline at end of file
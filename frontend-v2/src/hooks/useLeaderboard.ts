@@ -1,4 +1,5 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useRealtimeFallbackInterval } from '@/hooks/useSeasonRealtime';
 
 export interface LeaderboardEntry {
   rank: number;
@@ -26,12 +27,14 @@ export interface LeaderboardResponse {
   season_id?: string;
   league_id?: string;
   week?: number;
+  season_type?: number;
 }
 
 const fetchLeaderboard = async (
   type: 'season' | 'week' | 'league',
   id: string,
-  week?: number
+  week?: number,
+  seasonType = 2
 ): Promise<LeaderboardResponse> => {
   const params = new URLSearchParams({ type });
 
@@ -42,6 +45,7 @@ const fetchLeaderboard = async (
   } else if (type === 'week' && week) {
     params.append('season_id', id);
     params.append('week', week.toString());
+    params.append('season_type', seasonType.toString());
   }
 
   const response = await fetch(`/api/leaderboard?${params.toString()}`);
@@ -55,20 +59,26 @@ const fetchLeaderboard = async (
 };
 
 export const useSeasonLeaderboard = (seasonId: string) => {
+  const refetchInterval = useRealtimeFallbackInterval(seasonId, 1000 * 60 * 2);
+
   return useQuery({
     queryKey: ['leaderboard', 'season', seasonId],
     queryFn: () => fetchLeaderboard('season', seasonId),
     enabled: !!seasonId,
     staleTime: 1000 * 60 * 2, // 2 minutes
+    refetchInterval, // Stat changes arrive over Realtime; poll only while it's down
   });
 };
 
-export const useWeeklyLeaderboard = (seasonId: string, week: number) => {
+export const useWeeklyLeaderboard = (seasonId: string, week: number, seasonType = 2) => {
+  const refetchInterval = useRealtimeFallbackInterval(seasonId, 1000 * 60 * 5);
+
   return useQuery({
-    queryKey: ['leaderboard', 'week', seasonId, week],
-    queryFn: () => fetchLeaderboard('week', seasonId, week),
+    queryKey: ['leaderboard', 'week', seasonId, week, seasonType],
+    queryFn: () => fetchLeaderboard('week', seasonId, week, seasonType),
     enabled: !!seasonId && week > 0,
     staleTime: 1000 * 60 * 5, // 5 minutes for weekly data
+    refetchInterval, // Pick results arrive over Realtime; poll only while it's down
   });
 };
 
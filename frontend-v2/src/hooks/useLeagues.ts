@@ -1,4 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { ConfidenceBetType, LeagueFormat, SurvivorTieRule } from '@/lib/league-format';
+
+export type { ConfidenceBetType, LeagueFormat, SurvivorTieRule };
 
 export interface League {
   id: number;
@@ -6,12 +9,17 @@ export interface League {
   created_at: string;
   admin_id: string;
   sport_id: number;
+  format: LeagueFormat;
   sports: { name: string }[];
 }
 
 export interface CreateLeagueData {
   name: string;
   sport_id: number;
+  format?: LeagueFormat;
+  survivor_strikes?: number;
+  survivor_tie_rule?: SurvivorTieRule;
+  confidence_bet_type?: ConfidenceBetType;
 }
 
 const fetchLeagues = async (): Promise<League[]> => {
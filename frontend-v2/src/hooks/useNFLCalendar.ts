@@ -0,0 +1,30 @@
+import { useQuery } from '@tanstack/react-query';
+import type { NFLWeek } from '@/lib/nfl-week';
+
+export type { NFLWeek };
+
+export interface NFLCalendarResponse {
+  success: boolean;
+  season_year: number | null;
+  weeks: NFLWeek[];
+  current_week: NFLWeek | null;
+}
+
+const fetchNFLCalendar = async (year?: number): Promise<NFLCalendarResponse> => {
+  const response = await fetch(year ? `/api/nfl-calendar?year=${year}` : '/api/nfl-calendar');
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load NFL calendar');
+  }
+
+  return data;
+};
+
+export const useNFLCalendar = (year?: number) => {
+  return useQuery({
+    queryKey: ['nfl-calendar', year ?? 'current'],
+    queryFn: () => fetchNFLCalendar(year),
+    staleTime: 1000 * 60 * 60, // 1 hour - the calendar only changes on season ingestion
+  });
+};
@@ -0,0 +1,52 @@
+import { useQuery } from '@tanstack/react-query';
+
+export interface OddsSnapshot {
+  id: number;
+  sportsbook: string;
+  last_update: string | null;
+  captured_at: string;
+  moneyline_home: number | null;
+  moneyline_away: number | null;
+  spread_home: number | null;
+  spread_away: number | null;
+  spread_home_price: number | null;
+  spread_away_price: number | null;
+  total_over: number | null;
+  total_under: number | null;
+  total_over_price: number | null;
+  total_under_price: number | null;
+}
+
+export interface SportsbookTimeline {
+  sportsbook: string;
+  opening: OddsSnapshot;
+  current: OddsSnapshot;
+  snapshots: OddsSnapshot[];
+}
+
+export interface OddsHistoryResponse {
+  success: boolean;
+  game_id: number;
+  sportsbooks: SportsbookTimeline[];
+  total: number;
+}
+
+const fetchOddsHistory = async (gameId: number): Promise<OddsHistoryResponse> => {
+  const response = await fetch(`/api/games/${gameId}/odds-history`);
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to fetch odds history');
+  }
+
+  return data;
+};
+
+export const useOddsHistory = (gameId: number | null) => {
+  return useQuery({
+    queryKey: ['odds-history', gameId],
+    queryFn: () => fetchOddsHistory(gameId as number),
+    enabled: !!gameId,
+    staleTime: 1000 * 60 * 5, // 5 minutes - odds sync runs on a schedule
+  });
+};
@@ -0,0 +1,95 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { PickSelection } from '@/lib/selection';
+
+export type PickOverrideAction = 'void' | 'regrade' | 'add' | 'reassign';
+
+export const PICK_OVERRIDE_ACTION_LABELS: Record<PickOverrideAction, string> = {
+  void: 'Voided',
+  regrade: 'Re-graded',
+  add: 'Added',
+  reassign: 'Reassigned'
+};
+
+export interface PickOverride {
+  id: number;
+  pick_id: number;
+  action: PickOverrideAction;
+  reason: string;
+  admin_username: string;
+  // The pick's owner before the change; null for added picks
+  from_username: string | null;
+  to_username: string;
+  selection: string | null;
+  old_result: string | null;
+  new_result: string | null;
+  old_points: number | null;
+  new_points: number | null;
+  created_at: string;
+}
+
+export interface PickOverrideRequest {
+  leagueId: string;
+  action: PickOverrideAction;
+  reason: string;
+  pick_id?: number;
+  result?: 'win' | 'loss' | 'push';
+  // Left out to use the league's scoring rules
+  points_awarded?: number | null;
+  user_id?: string;
+  season_id?: number;
+  game_id?: number;
+  bet_type?: 'moneyline' | 'spread' | 'total';
+  selection_data?: PickSelection;
+}
+
+const fetchPickOverrides = async (leagueId: string): Promise<{ overrides: PickOverride[] }> => {
+  const response = await fetch(`/api/leagues/${leagueId}/pick-overrides`);
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to fetch pick overrides');
+  }
+
+  return data;
+};
+
+const applyPickOverride = async ({ leagueId, ...override }: PickOverrideRequest) => {
+  const response = await fetch(`/api/leagues/${leagueId}/pick-overrides`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(override),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to apply override');
+  }
+
+  return data;
+};
+
+export const usePickOverrides = (leagueId: string, enabled = true) => {
+  return useQuery({
+    queryKey: ['pick-overrides', leagueId],
+    queryFn: () => fetchPickOverrides(leagueId),
+    enabled: !!leagueId && enabled,
+  });
+};
+
+export const useApplyPickOverride = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: applyPickOverride,
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['pick-overrides', variables.leagueId] });
+      queryClient.invalidateQueries({ queryKey: ['league-picks'] });
+      queryClient.invalidateQueries({ queryKey: ['weekly-standings'] });
+      queryClient.invalidateQueries({ queryKey: ['leaderboard'] });
+      queryClient.invalidateQueries({ queryKey: ['survivor'] });
+    },
+  });
+};
@@ -0,0 +1,234 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+
+export type PickRuleBetType = 'moneyline' | 'spread' | 'total' | 'player_prop' | 'parlay';
+
+export const PICK_RULE_BET_TYPE_LABELS: Record<PickRuleBetType, string> = {
+  moneyline: 'Moneyline',
+  spread: 'Point Spread',
+  total: 'Total Points',
+  player_prop: 'Player Props',
+  parlay: 'Parlays'
+};
+
+export type MissedPickPolicy = 'none' | 'home_favorite' | 'closest_game' | 'no_pick_loss' | 'penalty';
+
+export const MISSED_PICK_POLICY_LABELS: Record<MissedPickPolicy, string> = {
+  none: 'Nothing (week is skipped)',
+  home_favorite: 'Auto-pick the biggest home favorite',
+  closest_game: 'Auto-pick the favorite in the closest game',
+  no_pick_loss: 'Count as a zero-point loss',
+  penalty: 'Count as a loss with a point penalty'
+};
+
+export type CancelledGamePolicy = 'void' | 'refund';
+
+export const CANCELLED_GAME_POLICY_LABELS: Record<CancelledGamePolicy, string> = {
+  void: 'Void the pick (it still uses a slot)',
+  refund: 'Refund the pick (member can pick again)'
+};
+
+export type PickVisibility = 'game_start' | 'week_start' | 'always';
+
+export const PICK_VISIBILITY_LABELS: Record<PickVisibility, string> = {
+  game_start: 'Hidden until the game starts',
+  week_start: "Hidden until the week's first kickoff",
+  always: 'Always visible'
+};
+
+export type PickLockMode = 'game_start' | 'first_sunday' | 'custom';
+
+export const PICK_LOCK_MODE_LABELS: Record<PickLockMode, string> = {
+  game_start: 'Each game locks at kickoff',
+  first_sunday: 'The whole week locks at the first Sunday kickoff',
+  custom: 'The whole week locks at a set day and time'
+};
+
+export const LOCK_DAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const PROP_MARKET_LABELS: Record<string, string> = {
+  player_pass_yds: 'Passing Yards',
+  player_rush_yds: 'Rushing Yards',
+  player_reception_yds: 'Receiving Yards',
+  player_anytime_td: 'Anytime TD',
+  player_pass_tds: 'Passing TDs',
+  player_rush_tds: 'Rushing TDs',
+  player_reception_tds: 'Receiving TDs',
+  player_receptions: 'Receptions'
+};
+
+export interface PickRules {
+  id?: number;
+  league_id: number;
+  min_picks_per_week: number;
+  max_picks_per_week: number;
+  max_picks_per_game: number;
+  allowed_bet_types: PickRuleBetType[];
+  // Empty means every prop market is allowed
+  allowed_prop_markets: string[];
+  // Favorites laying more than this many points can't be picked; null means no limit
+  max_favorite_spread: number | null;
+  // What members who miss a week's deadline get
+  missed_pick_policy: MissedPickPolicy;
+  // Points taken off for a missed week under the 'penalty' policy
+  missed_pick_penalty: number;
+  // What happens to straight picks on a cancelled game
+  cancelled_game_policy: CancelledGamePolicy;
+  // When members can see each other's picks
+  pick_visibility: PickVisibility;
+  // When picks lock; games kicking off before the week locks still lock at kickoff
+  lock_mode: PickLockMode;
+  // custom lock mode: day of the week (0 = Sunday) and 'HH:MM' Eastern
+  lock_day: number;
+  lock_time: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface PickRulesResponse {
+  success: boolean;
+  pick_rules: PickRules;
+  message?: string;
+}
+
+const fetchPickRules = async (leagueId: string): Promise<PickRulesResponse> => {
+  const response = await fetch(`/api/pick-rules?league_id=${leagueId}`);
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to fetch pick rules');
+  }
+
+  return data;
+};
+
+const updatePickRules = async (rules: Partial<PickRules> & { league_id: number }): Promise<PickRulesResponse> => {
+  const response = await fetch('/api/pick-rules', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(rules),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to update pick rules');
+  }
+
+  return data;
+};
+
+const resetPickRules = async (leagueId: string): Promise<PickRulesResponse> => {
+  const response = await fetch(`/api/pick-rules?league_id=${leagueId}`, {
+    method: 'DELETE',
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to reset pick rules');
+  }
+
+  return data;
+};
+
+export const usePickRules = (leagueId: string) => {
+  return useQuery({
+    queryKey: ['pick-rules', leagueId],
+    queryFn: () => fetchPickRules(leagueId),
+    enabled: !!leagueId,
+    staleTime: 1000 * 60 * 10, // 10 minutes
+  });
+};
+
+export const useUpdatePickRules = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: updatePickRules,
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: ['pick-rules', variables.league_id.toString()]
+      });
+    },
+  });
+};
+
+export const useResetPickRules = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: resetPickRules,
+    onSuccess: (data, leagueId) => {
+      queryClient.invalidateQueries({
+        queryKey: ['pick-rules', leagueId]
+      });
+    },
+  });
+};
+
+// Helper function to get default pick rules
+export const getDefaultPickRules = (leagueId: number): PickRules => ({
+  league_id: leagueId,
+  min_picks_per_week: 1,
+  max_picks_per_week: 1,
+  max_picks_per_game: 1,
+  allowed_bet_types: ['moneyline', 'spread', 'total', 'player_prop', 'parlay'],
+  allowed_prop_markets: [],
+  max_favorite_spread: null,
+  missed_pick_policy: 'none',
+  missed_pick_penalty: 0,
+  cancelled_game_policy: 'void',
+  pick_visibility: 'game_start',
+  lock_mode: 'game_start',
+  lock_day: 0,
+  lock_time: '13:00',
+});
+
+// Helper function to validate pick rules
+export const validatePickRules = (rules: Partial<PickRules>): { isValid: boolean; errors: string[] } => {
+  const errors: string[] = [];
+
+  if (rules.max_picks_per_week !== undefined && (rules.max_picks_per_week < 1 || rules.max_picks_per_week > 20)) {
+    errors.push('Max picks per week must be between 1 and 20');
+  }
+
+  if (rules.min_picks_per_week !== undefined && rules.max_picks_per_week !== undefined &&
+      (rules.min_picks_per_week < 0 || rules.min_picks_per_week > rules.max_picks_per_week)) {
+    errors.push('Min picks per week must be between 0 and the max picks per week');
+  }
+
+  if (rules.max_picks_per_game !== undefined && rules.max_picks_per_week !== undefined &&
+      (rules.max_picks_per_game < 1 || rules.max_picks_per_game > rules.max_picks_per_week)) {
+    errors.push('Max picks per game must be between 1 and the max picks per week');
+  }
+
+  if (rules.allowed_bet_types !== undefined && rules.allowed_bet_types.length === 0) {
+    errors.push('At least one bet type must be allowed');
+  }
+
+  if (rules.max_favorite_spread != null && (rules.max_favorite_spread < 0 || rules.max_favorite_spread > 30)) {
+    errors.push('Max favorite spread must be between 0 and 30');
+  }
+
+  if (rules.missed_pick_penalty !== undefined && (rules.missed_pick_penalty < 0 || rules.missed_pick_penalty > 10)) {
+    errors.push('Missed pick penalty must be between 0 and 10');
+  }
+
+  if (rules.lock_time !== undefined && !/^([01]\d|2[0-3]):[0-5]\d$/.test(rules.lock_time)) {
+    errors.push('Lock time must be in HH:MM format');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+};
+
+/**
+ * Whether a member can take a side given the league's favorite limit. The
+ * side's spread is used for both spread and moneyline picks.
+ */
+export const isFavoriteAllowed = (rules: Pick<PickRules, 'max_favorite_spread'> | undefined, spread: number | null): boolean =>
+  rules?.max_favorite_spread == null || spread === null || spread >= -rules.max_favorite_spread;
@@ -1,12 +1,46 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient, type InfiniteData, type QueryClient, type QueryKey } from '@tanstack/react-query';
+import type { PickSelection } from '@/lib/selection';
+import type { LivePickStatus } from '@/lib/scoring';
+
+export interface PickLeg {
+  id: number;
+  game_id: number;
+  bet_type: string;
+  selection: string;
+  selection_data?: PickSelection | null;
+  player_prop_id?: number | null;
+  leg_order: number;
+  odds_price: number | null;
+  locked_sportsbook?: string | null;
+  locked_point?: number | null;
+  result: 'win' | 'loss' | 'push' | 'void' | null;
+  // Provisional result while the leg's game is in progress (league picks only)
+  live?: LivePickStatus | null;
+  games: {
+    id: number;
+    start_time: string;
+    status?: string;
+    home_score?: number | null;
+    away_score?: number | null;
+    home_team: { name: string; abbreviation: string };
+    away_team: { name: string; abbreviation: string };
+  };
+}
 
 export interface Pick {
   id: number;
   game_id: number;
   bet_type: string;
   selection: string;
+  selection_data?: PickSelection | null;
   result: string | null;
   created_at: string;
+  odds_price: number | null;
+  locked_sportsbook?: string | null;
+  locked_point?: number | null;
+  locked_at?: string | null;
+  pick_type: 'straight' | 'parlay';
+  pick_legs: PickLeg[];
   games: {
     id: number;
     start_time: string;
@@ -18,10 +52,56 @@ export interface Pick {
 export interface CreatePickData {
   game_id: number;
   bet_type: string;
-  selection: string;
+  selection: PickSelection;
   week: number;
   season_id: string;
-  player_prop_id?: number;
+  sportsbook?: string;
+  expected_point?: number | null;
+  expected_price?: number | null;
+}
+
+export interface UpdatePickData {
+  pick_id: number;
+  game_id: number;
+  bet_type: string;
+  selection: PickSelection;
+  sportsbook?: string;
+  expected_point?: number | null;
+  expected_price?: number | null;
+  // Shown on the pick until the server confirms the change
+  label?: string;
+}
+
+export interface ParlayLegData {
+  game_id: number;
+  bet_type: string;
+  selection: PickSelection;
+  sportsbook?: string;
+  expected_point?: number | null;
+  expected_price?: number | null;
+}
+
+export interface CreateParlayData {
+  legs: ParlayLegData[];
+  week: number;
+  season_id: string;
+}
+
+export interface ConfidencePickData {
+  game_id: number;
+  side: 'home' | 'away';
+  confidence: number;
+  sportsbook?: string;
+  expected_point?: number | null;
+  expected_price?: number | null;
+}
+
+export interface SubmitConfidencePicksData {
+  season_id: string;
+  season_year: number;
+  season_type: number;
+  week: number;
+  picks: ConfidencePickData[];
 }
 
 export interface LeaguePick {
@@ -30,10 +110,23 @@ export interface LeaguePick {
   game_id: number;
   bet_type: string;
   selection: string;
+  selection_data?: PickSelection | null;
   result: string | null;
   points_awarded: number;
   week: number;
+  season_type?: number;
+  confidence?: number | null;
+  // Assigned by the league's missed pick policy
+  is_auto_pick?: boolean;
   created_at: string;
+  odds_price: number | null;
+  locked_sportsbook?: string | null;
+  locked_point?: number | null;
+  locked_at?: string | null;
+  pick_type: 'straight' | 'parlay';
+  pick_legs: PickLeg[];
+  // Provisional result while the game is in progress; unset for parlays
+  live?: LivePickStatus | null;
   user: {
     username: string;
   };
@@ -42,9 +135,46 @@ export interface LeaguePick {
     season_id: number;
     start_time: string;
     status: string;
+    home_score?: number | null;
+    away_score?: number | null;
     home_team: { name: string; abbreviation: string };
     away_team: { name: string; abbreviation: string };
   };
+  hidden?: false;
+}
+
+// Another member's pick the league's visibility rule hides until it locks
+export interface HiddenLeaguePick {
+  id: number;
+  user_id: string;
+  week: number;
+  season_type?: number;
+  is_auto_pick?: boolean;
+  created_at: string;
+  hidden: true;
+  user: {
+    username: string;
+  };
+}
+
+export type LeaguePickEntry = LeaguePick | HiddenLeaguePick;
+
+export type LeaguePickResultFilter = 'win' | 'loss' | 'push' | 'void' | 'pending';
+
+export interface LeaguePicksFilters {
+  seasonId?: string;
+  week?: number;
+  seasonType?: number;
+  userId?: string;
+  betType?: string;
+  result?: LeaguePickResultFilter;
+}
+
+export interface LeaguePicksPage {
+  picks: LeaguePickEntry[];
+  members: Array<{ user_id: string; username: string }>;
+  // Pass back as the cursor for the next page; null on the last page
+  next_cursor: number | null;
 }
 
 const fetchPicks = async (week: number): Promise<Pick[]> => {
@@ -58,15 +188,48 @@ const fetchPicks = async (week: number): Promise<Pick[]> => {
   return data.picks || [];
 };
 
-const fetchLeaguePicks = async (leagueId: string, week: number): Promise<LeaguePick[]> => {
-  const response = await fetch(`/api/league-picks?league_id=${leagueId}&week=${week}`);
+const fetchLeaguePicksPage = async (
+  leagueId: string,
+  filters: LeaguePicksFilters,
+  cursor: number | null
+): Promise<LeaguePicksPage> => {
+  const params = new URLSearchParams({ league_id: leagueId });
+  if (filters.seasonId) params.set('season_id', filters.seasonId);
+  if (filters.week !== undefined) {
+    params.set('week', filters.week.toString());
+    params.set('season_type', (filters.seasonType ?? 2).toString());
+  }
+  if (filters.userId) params.set('user_id', filters.userId);
+  if (filters.betType) params.set('bet_type', filters.betType);
+  if (filters.result) params.set('result', filters.result);
+  if (cursor !== null) params.set('cursor', cursor.toString());
+
+  const response = await fetch(`/api/league-picks?${params.toString()}`);
   const data = await response.json();
 
   if (!response.ok) {
     throw new Error(data.error || 'Failed to load league picks');
   }
 
-  return data.picks || [];
+  return {
+    picks: data.picks || [],
+    members: data.members || [],
+    next_cursor: data.next_cursor ?? null
+  };
+};
+
+// Every page of a week's picks, for views that need the whole week at once
+const fetchLeaguePicks = async (leagueId: string, filters: LeaguePicksFilters): Promise<LeaguePickEntry[]> => {
+  const picks: LeaguePickEntry[] = [];
+  let cursor: number | null = null;
+
+  do {
+    const page = await fetchLeaguePicksPage(leagueId, filters, cursor);
+    picks.push(...page.picks);
+    cursor = page.next_cursor;
+  } while (cursor !== null);
+
+  return picks;
 };
 
 const createPick = async (pickData: CreatePickData): Promise<Pick> => {
@@ -87,6 +250,79 @@ const createPick = async (pickData: CreatePickData): Promise<Pick> => {
   return data.pick;
 };
 
+const createParlay = async (parlayData: CreateParlayData): Promise<Pick> => {
+  const response = await fetch(`/api/picks?season_id=${parlayData.season_id}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ pick_type: 'parlay', legs: parlayData.legs }),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to create parlay');
+  }
+
+  return data.pick;
+};
+
+const updatePick = async (pickData: UpdatePickData): Promise<Pick> => {
+  const response = await fetch(`/api/picks/${pickData.pick_id}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      game_id: pickData.game_id,
+      bet_type: pickData.bet_type,
+      selection: pickData.selection,
+      sportsbook: pickData.sportsbook,
+      expected_point: pickData.expected_point,
+      expected_price: pickData.expected_price
+    }),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to update pick');
+  }
+
+  return data.pick;
+};
+
+const withdrawPick = async (pickId: number): Promise<void> => {
+  const response = await fetch(`/api/picks/${pickId}`, {
+    method: 'DELETE',
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to withdraw pick');
+  }
+};
+
+const submitConfidencePicks = async ({ season_id, ...body }: SubmitConfidencePicksData): Promise<Pick[]> => {
+  const response = await fetch(`/api/picks/confidence?season_id=${season_id}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to submit confidence picks');
+  }
+
+  return data.picks || [];
+};
+
 export const usePicks = (week: number) => {
   return useQuery({
     queryKey: ['picks', week],
@@ -95,14 +331,27 @@ export const usePicks = (week: number) => {
   });
 };
 
-export const useLeaguePicks = (leagueId: string, week: number) => {
+export const useLeaguePicks = (leagueId: string, week: number, seasonType = 2, seasonId?: string) => {
   return useQuery({
-    queryKey: ['league-picks', leagueId, week],
-    queryFn: () => fetchLeaguePicks(leagueId, week),
+    queryKey: ['league-picks', leagueId, seasonId, week, seasonType],
+    queryFn: () => fetchLeaguePicks(leagueId, { seasonId, week, seasonType }),
     enabled: !!leagueId && typeof week === 'number',
   });
 };
 
+/**
+ * A page-at-a-time league pick feed, newest first
+ */
+export const useLeaguePicksFeed = (leagueId: string, filters: LeaguePicksFilters, enabled = true) => {
+  return useInfiniteQuery({
+    queryKey: ['league-picks', leagueId, 'feed', filters],
+    queryFn: ({ pageParam }) => fetchLeaguePicksPage(leagueId, filters, pageParam),
+    initialPageParam: null as number | null,
+    getNextPageParam: (lastPage) => lastPage.next_cursor,
+    enabled: !!leagueId && enabled,
+  });
+};
+
 export const useCreatePick = () => {
   const queryClient = useQueryClient();
 
@@ -112,6 +361,120 @@ export const useCreatePick = () => {
       // Invalidate picks queries to refetch after creating a pick
       queryClient.invalidateQueries({ queryKey: ['picks', variables.week] });
       queryClient.invalidateQueries({ queryKey: ['league-picks'] });
+      queryClient.invalidateQueries({ queryKey: ['survivor'] });
+    },
+  });
+};
+
+export const useCreateParlay = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createParlay,
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['picks', variables.week] });
+      queryClient.invalidateQueries({ queryKey: ['league-picks'] });
+      queryClient.invalidateQueries({ queryKey: ['user-week-picks'] });
     },
   });
-};
\ No newline at end of file
+};
+
+export const useSubmitConfidencePicks = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: submitConfidencePicks,
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['picks', variables.week] });
+      queryClient.invalidateQueries({ queryKey: ['league-picks'] });
+      queryClient.invalidateQueries({ queryKey: ['user-week-picks'] });
+    },
+  });
+};
+
+// Every cache holding the user's own picks: their week picks, /api/picks and league feeds
+const PICK_QUERY_KEYS: QueryKey[] = [['user-week-picks'], ['picks'], ['league-picks']];
+
+type PickListUpdate = <T extends { id: number }>(picks: T[]) => T[];
+type CachedPicks =
+  | Array<{ id: number }>
+  | { picks: Array<{ id: number }> }
+  | InfiniteData<{ picks: Array<{ id: number }> }>;
+
+const updateCachedPicks = (data: CachedPicks | undefined, update: PickListUpdate): CachedPicks | undefined => {
+  if (!data) return data;
+  if (Array.isArray(data)) return update(data);
+  if ('pages' in data) {
+    return { ...data, pages: data.pages.map(page => ({ ...page, picks: update(page.picks) })) };
+  }
+  return { ...data, picks: update(data.picks) };
+};
+
+/**
+ * Apply a change to every cached copy of the user's picks straight away,
+ * returning a snapshot to roll back to if the server rejects it
+ */
+const applyOptimisticPicks = async (queryClient: QueryClient, update: PickListUpdate) => {
+  const snapshot: Array<[QueryKey, unknown]> = [];
+
+  for (const queryKey of PICK_QUERY_KEYS) {
+    await queryClient.cancelQueries({ queryKey });
+    snapshot.push(...queryClient.getQueriesData({ queryKey }));
+    queryClient.setQueriesData<CachedPicks>({ queryKey }, data => updateCachedPicks(data, update));
+  }
+
+  return { snapshot };
+};
+
+const rollbackPicks = (queryClient: QueryClient, context: { snapshot: Array<[QueryKey, unknown]> } | undefined) => {
+  for (const [queryKey, data] of context?.snapshot ?? []) {
+    queryClient.setQueryData(queryKey, data);
+  }
+};
+
+const invalidatePicks = (queryClient: QueryClient) => {
+  for (const queryKey of PICK_QUERY_KEYS) {
+    queryClient.invalidateQueries({ queryKey });
+  }
+  queryClient.invalidateQueries({ queryKey: ['survivor'] });
+};
+
+/**
+ * Change a straight pick before its game starts. The pick updates in place
+ * right away and rolls back if the change is rejected.
+ */
+export const useUpdatePick = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: updatePick,
+    onMutate: (variables) => applyOptimisticPicks(queryClient, picks => picks.map(pick =>
+      pick.id === variables.pick_id
+        ? {
+            ...pick,
+            game_id: variables.game_id,
+            bet_type: variables.bet_type,
+            selection_data: variables.selection,
+            ...(variables.label ? { selection: variables.label } : {})
+          }
+        : pick
+    )),
+    onError: (error, variables, context) => rollbackPicks(queryClient, context),
+    onSettled: () => invalidatePicks(queryClient),
+  });
+};
+
+/**
+ * Withdraw a pick before its game starts. The pick disappears right away and
+ * comes back if the withdrawal is rejected.
+ */
+export const useWithdrawPick = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: withdrawPick,
+    onMutate: (pickId) => applyOptimisticPicks(queryClient, picks => picks.filter(pick => pick.id !== pickId)),
+    onError: (error, pickId, context) => rollbackPicks(queryClient, context),
+    onSettled: () => invalidatePicks(queryClient),
+  });
+};
@@ -0,0 +1,46 @@
+import { useQuery } from '@tanstack/react-query';
+
+export interface MemberProjection {
+  user_id: string;
+  username: string;
+  current_points: number;
+  projected_points: number;
+  // 0-1 share of simulations the member finished first in
+  win_probability: number;
+  pending_picks: number;
+  is_current_user: boolean;
+}
+
+export interface ProjectionsResponse {
+  success: boolean;
+  season_id: string;
+  week: number;
+  season_type: number;
+  simulations: number;
+  week_standings: MemberProjection[];
+  season_standings: MemberProjection[];
+}
+
+const fetchProjections = async (
+  seasonId: string,
+  week: number,
+  seasonType: number
+): Promise<ProjectionsResponse> => {
+  const response = await fetch(`/api/projections?season_id=${seasonId}&week=${week}&season_type=${seasonType}`);
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load projections');
+  }
+
+  return data;
+};
+
+export const useProjections = (seasonId: string, week: number, seasonType = 2) => {
+  return useQuery({
+    queryKey: ['projections', seasonId, week, seasonType],
+    queryFn: () => fetchProjections(seasonId, week, seasonType),
+    enabled: !!seasonId && week > 0,
+    staleTime: 1000 * 60 * 5, // 5 minutes - refreshed over Realtime when picks settle
+  });
+};
@@ -0,0 +1,46 @@
+import { useQuery } from '@tanstack/react-query';
+
+export type ScoreCorrectionReason = 'espn_correction' | 'manual_regrade';
+
+export interface ScoreCorrection {
+  id: number;
+  game_id: number;
+  reason: ScoreCorrectionReason;
+  week: number | null;
+  season_type: number | null;
+  home_team: string;
+  away_team: string;
+  old_home_score: number | null;
+  old_away_score: number | null;
+  new_home_score: number;
+  new_away_score: number;
+  picks_changed: number;
+  // How many of the current user's picks the correction changed
+  my_picks_changed: number;
+  created_at: string;
+}
+
+export interface ScoreCorrectionsResponse {
+  success: boolean;
+  corrections: ScoreCorrection[];
+}
+
+const fetchScoreCorrections = async (leagueId: string): Promise<ScoreCorrectionsResponse> => {
+  const response = await fetch(`/api/score-corrections?league_id=${leagueId}`);
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to fetch score corrections');
+  }
+
+  return data;
+};
+
+export const useScoreCorrections = (leagueId: string) => {
+  return useQuery({
+    queryKey: ['score-corrections', leagueId],
+    queryFn: () => fetchScoreCorrections(leagueId),
+    enabled: !!leagueId,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+};
@@ -1,5 +1,27 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 
+export type ParlayPushRule = 'reduce' | 'push' | 'loss';
+
+export type ScoringMode = 'flat' | 'odds_weighted';
+
+export type OvertimeRule = 'include_ot' | 'regulation_only';
+
+export type Tiebreaker = 'closest_guess' | 'fewer_losses' | 'earliest_submission';
+
+export const TIEBREAKER_LABELS: Record<Tiebreaker, string> = {
+  closest_guess: 'Closest tiebreaker guess',
+  fewer_losses: 'Fewer losses',
+  earliest_submission: 'Earliest submission'
+};
+
+// Postseason weeks that can carry a multiplier (ESPN's week 4 is the Pro Bowl)
+export const PLAYOFF_ROUND_LABELS: Record<string, string> = {
+  '1': 'Wild Card',
+  '2': 'Divisional Round',
+  '3': 'Conference Championship',
+  '5': 'Super Bowl'
+};
+
 export interface ScoringRules {
   id?: number;
   league_id: number;
@@ -8,6 +30,14 @@ export interface ScoringRules {
   points_per_push: number;
   streak_bonus: number;
   weekly_winner_bonus: number;
+  parlay_push_rule: ParlayPushRule;
+  scoring_mode: ScoringMode;
+  // Whether overtime counts toward full-game and second-half picks
+  overtime_rule: OvertimeRule;
+  // Postseason week ("1" = Wild Card ... "5" = Super Bowl) -> points multiplier
+  playoff_multipliers: Record<string, number>;
+  // Applied in order to members level on points in weekly and season standings
+  tiebreakers: Tiebreaker[];
   created_at?: string;
   updated_at?: string;
 }
@@ -116,6 +146,11 @@ export const getDefaultScoringRules = (leagueId: number): ScoringRules => ({
   points_per_push: 0,
   streak_bonus: 0,
   weekly_winner_bonus: 0,
+  parlay_push_rule: 'reduce',
+  scoring_mode: 'flat',
+  overtime_rule: 'include_ot',
+  playoff_multipliers: {},
+  tiebreakers: ['closest_guess', 'fewer_losses', 'earliest_submission'],
 });
 
 // Helper function to validate scoring rules
@@ -142,6 +177,16 @@ export const validateScoringRules = (rules: Partial<ScoringRules>): { isValid: b
     errors.push('Weekly winner bonus must be between 0 and 100');
   }
 
+  for (const [round, multiplier] of Object.entries(rules.playoff_multipliers ?? {})) {
+    if (multiplier <= 0 || multiplier > 10) {
+      errors.push(`${PLAYOFF_ROUND_LABELS[round] ?? `Playoff week ${round}`} multiplier must be between 0 and 10`);
+    }
+  }
+
+  if (rules.tiebreakers && new Set(rules.tiebreakers).size !== rules.tiebreakers.length) {
+    errors.push('Each tiebreaker can only be used once');
+  }
+
   return {
     isValid: errors.length === 0,
     errors
@@ -0,0 +1,127 @@
+import { useEffect } from 'react';
+import { useQueryClient, type QueryKey } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import { useIsRealtimeConnected, useRealtimeStore } from '@/stores/realtimeStore';
+
+// How often queries poll while the Realtime channel is down
+export const REALTIME_FALLBACK_INTERVAL = 1000 * 60; // 1 minute
+
+// Scoring writes many rows at once, so invalidations are batched
+const INVALIDATION_DELAY = 500;
+
+type RealtimeTable = 'games' | 'picks' | 'user_season_stats';
+
+/**
+ * Queries that read each table for a season
+ */
+const getQueryKeys = (table: RealtimeTable, seasonId: string): QueryKey[] => {
+  switch (table) {
+    case 'games':
+      // League picks carry live scores for the pick tracker
+      return [['games', seasonId], ['league-picks']];
+    case 'picks':
+      return [
+        ['picks'],
+        ['league-picks'],
+        ['user-week-picks', seasonId],
+        ['weekly-standings', seasonId],
+        ['leaderboard', 'week', seasonId],
+        ['survivor', seasonId],
+        ['projections', seasonId]
+      ];
+    case 'user_season_stats':
+      return [
+        ['leaderboard', 'season', seasonId],
+        ['leaderboard', 'league'],
+        ['weekly-standings', seasonId],
+        ['projections', seasonId]
+      ];
+  }
+};
+
+// Tables published as postgres changes. Pick rows would reveal hidden picks,
+// so the database broadcasts a payload-free picks_changed signal instead.
+const POSTGRES_CHANGE_TABLES: RealtimeTable[] = ['games', 'user_season_stats'];
+
+// Games are shared by every league (their season_id is the ingest season, not
+// the league's), so game changes are followed without a season filter
+const getChangeFilter = (table: RealtimeTable, seasonId: string) =>
+  table === 'games' ? {} : { filter: `season_id=eq.${seasonId}` };
+
+const REALTIME_TABLES: RealtimeTable[] = ['games', 'picks', 'user_season_stats'];
+
+/**
+ * Subscribe to changes on games, picks and user_season_stats for a season and
+ * refresh the cached queries that read them. Mount once per page; hooks that
+ * used to poll check useRealtimeFallbackInterval and only poll while this
+ * channel is disconnected.
+ */
+export const useSeasonRealtime = (seasonId: string) => {
+  const queryClient = useQueryClient();
+  const setStatus = useRealtimeStore((state) => state.setStatus);
+  const clearStatus = useRealtimeStore((state) => state.clearStatus);
+
+  useEffect(() => {
+    if (!seasonId) return;
+
+    const pending = new Map<string, QueryKey>();
+    let flushTimer: ReturnType<typeof setTimeout> | null = null;
+    let hasConnected = false;
+
+    const invalidate = (queryKeys: QueryKey[]) => {
+      for (const queryKey of queryKeys) {
+        pending.set(JSON.stringify(queryKey), queryKey);
+      }
+      if (flushTimer) return;
+
+      flushTimer = setTimeout(() => {
+        flushTimer = null;
+        for (const queryKey of pending.values()) {
+          queryClient.invalidateQueries({ queryKey });
+        }
+        pending.clear();
+      }, INVALIDATION_DELAY);
+    };
+
+    setStatus(seasonId, 'connecting');
+
+    let channel = supabase
+      .channel(`season-${seasonId}`)
+      .on('broadcast', { event: 'picks_changed' }, () => invalidate(getQueryKeys('picks', seasonId)));
+    for (const table of POSTGRES_CHANGE_TABLES) {
+      channel = channel.on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table, ...getChangeFilter(table, seasonId) },
+        () => invalidate(getQueryKeys(table, seasonId))
+      );
+    }
+
+    channel.subscribe((status) => {
+      if (status === 'SUBSCRIBED') {
+        // Catch up on anything missed while the channel was down
+        if (hasConnected) {
+          invalidate(REALTIME_TABLES.flatMap(table => getQueryKeys(table, seasonId)));
+        }
+        hasConnected = true;
+        setStatus(seasonId, 'connected');
+      } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+        setStatus(seasonId, 'disconnected');
+      }
+    });
+
+    return () => {
+      if (flushTimer) clearTimeout(flushTimer);
+      supabase.removeChannel(channel);
+      clearStatus(seasonId);
+    };
+  }, [seasonId, queryClient, setStatus, clearStatus]);
+};
+
+/**
+ * refetchInterval for queries kept fresh by useSeasonRealtime: off while the
+ * channel is connected, otherwise the given polling interval
+ */
+export const useRealtimeFallbackInterval = (seasonId: string, interval = REALTIME_FALLBACK_INTERVAL) => {
+  const isConnected = useIsRealtimeConnected(seasonId);
+  return isConnected ? false : interval;
+};
@@ -0,0 +1,37 @@
+import { useQuery } from '@tanstack/react-query';
+import type { SurvivorEntry } from '@/lib/survivor';
+import type { SurvivorSettings } from '@/lib/league-format';
+
+export type { SurvivorEntry, SurvivorSettings };
+
+export interface SurvivorStanding extends SurvivorEntry {
+  is_current_user: boolean;
+}
+
+export interface SurvivorResponse {
+  success: boolean;
+  season_id: string;
+  settings: SurvivorSettings;
+  alive_count: number;
+  standings: SurvivorStanding[];
+}
+
+const fetchSurvivorStandings = async (seasonId: string): Promise<SurvivorResponse> => {
+  const response = await fetch(`/api/survivor?season_id=${seasonId}`);
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to fetch survivor standings');
+  }
+
+  return data;
+};
+
+export const useSurvivorStandings = (seasonId: string, enabled = true) => {
+  return useQuery({
+    queryKey: ['survivor', seasonId],
+    queryFn: () => fetchSurvivorStandings(seasonId),
+    enabled: !!seasonId && enabled,
+    staleTime: 1000 * 60 * 2, // 2 minutes
+  });
+};
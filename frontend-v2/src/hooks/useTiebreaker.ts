@@ -0,0 +1,88 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+
+export interface TiebreakerGame {
+  id: number;
+  // e.g. "BUF @ MIA"
+  label: string;
+  start_time: string;
+  // Kickoff, or the league's weekly lock if that comes first
+  locks_at: string;
+}
+
+export interface TiebreakerGuess {
+  user_id: string;
+  game_id: number;
+  total_points: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TiebreakerResponse {
+  success: boolean;
+  game: TiebreakerGame | null;
+  guess: TiebreakerGuess | null;
+  max_guess: number;
+}
+
+export interface SaveTiebreakerData {
+  season_id: number;
+  week: number;
+  season_type: number;
+  total_points: number;
+}
+
+const fetchTiebreaker = async (seasonId: string, week: number, seasonType: number): Promise<TiebreakerResponse> => {
+  const response = await fetch(`/api/tiebreakers?season_id=${seasonId}&week=${week}&season_type=${seasonType}`);
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to fetch tiebreaker');
+  }
+
+  return data;
+};
+
+const saveTiebreaker = async (guess: SaveTiebreakerData): Promise<TiebreakerResponse> => {
+  const response = await fetch('/api/tiebreakers', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(guess),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to save tiebreaker guess');
+  }
+
+  return data;
+};
+
+export const useTiebreaker = (seasonId: string, week: number, seasonType = 2) => {
+  return useQuery({
+    queryKey: ['tiebreaker', seasonId, week, seasonType],
+    queryFn: () => fetchTiebreaker(seasonId, week, seasonType),
+    enabled: !!seasonId && week > 0,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+};
+
+export const useSaveTiebreaker = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: saveTiebreaker,
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: ['tiebreaker', variables.season_id.toString(), variables.week, variables.season_type]
+      });
+
+      // Guesses break ties in the week's standings
+      queryClient.invalidateQueries({
+        queryKey: ['weekly-standings', variables.season_id.toString(), variables.week, variables.season_type]
+      });
+    },
+  });
+};
@@ -1,14 +1,25 @@
 import { useQuery } from '@tanstack/react-query';
+import type { PickLeg } from '@/hooks/usePicks';
+import type { PickSelection } from '@/lib/selection';
 
 export interface UserWeekPick {
   id: number;
   game_id: number;
   bet_type: string;
   selection: string;
+  selection_data?: PickSelection | null;
   week: number;
+  season_type?: number;
+  confidence?: number | null;
   result: string | null;
   points_awarded: number;
   created_at: string;
+  odds_price: number | null;
+  locked_sportsbook?: string | null;
+  locked_point?: number | null;
+  locked_at?: string | null;
+  pick_type: 'straight' | 'parlay';
+  pick_legs: PickLeg[];
 }
 
 interface UserWeekPicksResponse {
@@ -16,8 +27,8 @@ interface UserWeekPicksResponse {
   week: number;
 }
 
-const fetchUserWeekPicks = async (seasonId: string, week: number): Promise<UserWeekPicksResponse> => {
-  const response = await fetch(`/api/picks?season_id=${seasonId}&week=${week}&user_only=true`);
+const fetchUserWeekPicks = async (seasonId: string, week: number, seasonType: number): Promise<UserWeekPicksResponse> => {
+  const response = await fetch(`/api/picks?season_id=${seasonId}&week=${week}&season_type=${seasonType}&user_only=true`);
   const data = await response.json();
 
   if (!response.ok) {
@@ -30,10 +41,10 @@ const fetchUserWeekPicks = async (seasonId: string, week: number): Promise<UserW
   };
 };
 
-export const useUserWeekPicks = (seasonId: string, week: number) => {
+export const useUserWeekPicks = (seasonId: string, week: number, seasonType = 2) => {
   return useQuery({
-    queryKey: ['user-week-picks', seasonId, week],
-    queryFn: () => fetchUserWeekPicks(seasonId, week),
+    queryKey: ['user-week-picks', seasonId, week, seasonType],
+    queryFn: () => fetchUserWeekPicks(seasonId, week, seasonType),
     enabled: !!seasonId && !!week,
   });
 };
\ No newline at end of file
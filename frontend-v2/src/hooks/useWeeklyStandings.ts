@@ -1,4 +1,22 @@
 import { useQuery } from '@tanstack/react-query';
+import { useRealtimeFallbackInterval } from '@/hooks/useSeasonRealtime';
+import type { Tiebreaker } from '@/hooks/useScoringRules';
+
+export interface WeeklyStandingPick {
+  id: number;
+  pick_type: 'straight' | 'parlay';
+  bet_type: string;
+  selection: string;
+  result: string;
+  points_awarded: number;
+  legs: Array<{
+    id: number;
+    bet_type: string;
+    selection: string;
+    result: string | null;
+    leg_order: number;
+  }>;
+}
 
 export interface WeeklyStanding {
   user_id: string;
@@ -14,31 +32,48 @@ export interface WeeklyStanding {
   total_points: number;
   win_percentage: string;
   current_streak: number;
+  // Other members' guesses are hidden until the tiebreaker game kicks off
+  tiebreaker_guess: number | null;
+  guess_difference: number | null;
+  submitted_at: string | null;
   is_weekly_winner: boolean;
+  // The tiebreaker that decided the weekly winner, when it was level on points
+  won_on_tiebreaker: Tiebreaker | null;
   is_current_user: boolean;
   rank: number;
+  picks: WeeklyStandingPick[];
 }
 
 export interface WeeklyStandingsResponse {
   success: boolean;
   standings: WeeklyStanding[];
   week: number;
+  season_type: number;
   season_id: string;
   total_participants: number;
+  tiebreaker_game: {
+    id: number;
+    label: string;
+    start_time: string;
+    // Combined score once the game is final
+    total_points: number | null;
+  } | null;
   scoring_rules: {
     points_per_win: number;
     points_per_loss: number;
     points_per_push: number;
     streak_bonus: number;
     weekly_winner_bonus: number;
+    tiebreakers: Tiebreaker[];
   };
 }
 
 const fetchWeeklyStandings = async (
   seasonId: string,
-  week: number
+  week: number,
+  seasonType: number
 ): Promise<WeeklyStandingsResponse> => {
-  const response = await fetch(`/api/weekly-standings?season_id=${seasonId}&week=${week}`);
+  const response = await fetch(`/api/weekly-standings?season_id=${seasonId}&week=${week}&season_type=${seasonType}`);
   const data = await response.json();
 
   if (!response.ok) {
@@ -48,14 +83,16 @@ const fetchWeeklyStandings = async (
   return data;
 };
 
-export const useWeeklyStandings = (seasonId: string, week: number) => {
+export const useWeeklyStandings = (seasonId: string, week: number, seasonType = 2) => {
+  const refetchInterval = useRealtimeFallbackInterval(seasonId, 1000 * 60 * 5);
+
   return useQuery({
-    queryKey: ['weekly-standings', seasonId, week],
-    queryFn: () => fetchWeeklyStandings(seasonId, week),
-    enabled: !!seasonId && week > 0 && week <= 18,
+    queryKey: ['weekly-standings', seasonId, week, seasonType],
+    queryFn: () => fetchWeeklyStandings(seasonId, week, seasonType),
+    enabled: !!seasonId && week > 0,
     staleTime: 1000 * 60 * 2, // 2 minutes - more frequent updates for weekly data
     refetchOnWindowFocus: true, // Refetch when user returns to tab
-    refetchInterval: 1000 * 60 * 5, // Auto-refetch every 5 minutes during active use
+    refetchInterval, // Every 5 minutes, only while the season's Realtime channel is down
   });
 };
 
@@ -0,0 +1,201 @@
+import { supabaseAdmin } from './supabase-admin';
+import { getNFLWeek, isNFLSeasonType, type NFLWeek } from './nfl-week';
+import { UNPLAYABLE_GAME_STATUSES, type GameStatus } from './espn-monitor';
+
+/**
+ * Confidence pools. Members pick every game of a week and rank their picks
+ * with unique confidence values 1..N, where N is the number of games on the
+ * slate. Each pick is an ordinary straight pick graded by ScoringCalculator;
+ * a win is worth its confidence value and anything else is worth nothing.
+ */
+
+export interface SlateGame {
+  id: number;
+  start_time: string;
+}
+
+export interface ConfidencePickInput {
+  game_id: number;
+  side: 'home' | 'away';
+  confidence: number;
+  sportsbook?: string | null;
+  expected_point?: number | null;
+  expected_price?: number | null;
+}
+
+// A new pick's columns, as written by replace_confidence_picks
+export interface ConfidencePickRow {
+  game_id: number;
+  bet_type: string;
+  selection: string;
+  selection_data: unknown;
+  confidence: number;
+  odds_snapshot_id: number | null;
+  locked_sportsbook: string | null;
+  locked_point: number | null;
+  odds_price: number | null;
+  locked_at: string;
+}
+
+export interface LockedConfidencePick {
+  game_id: number;
+  confidence: number | null;
+}
+
+/**
+ * Every game in a calendar week that will be played, in kickoff order.
+ * Postponed, suspended and cancelled games are left off, so they don't need a
+ * pick or take up a confidence value.
+ */
+export async function getWeekSlate(
+  seasonYear: number,
+  seasonType: number,
+  week: number
+): Promise<{ calendarWeek: NFLWeek; games: SlateGame[] } | null> {
+  if (!isNFLSeasonType(seasonType)) {
+    return null;
+  }
+
+  const calendarWeek = await getNFLWeek(seasonYear, seasonType, week);
+  if (!calendarWeek) {
+    return null;
+  }
+
+  const { data: games, error } = await supabaseAdmin
+    .from('games')
+    .select('id, start_time, status')
+    .gte('start_time', calendarWeek.start_date)
+    .lte('start_time', calendarWeek.end_date)
+    .order('start_time', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load week slate: ${error.message}`);
+  }
+
+  const playable = (games || [])
+    .filter(game => !UNPLAYABLE_GAME_STATUSES.includes(game.status as GameStatus))
+    .map(game => ({ id: game.id, start_time: game.start_time }));
+
+  return { calendarWeek, games: playable as SlateGame[] };
+}
+
+/**
+ * Validate a week of confidence picks against its slate. Games that have
+ * already kicked off keep whatever pick the member made before (if any), and
+ * their confidence values stay taken. Every other game needs exactly one pick,
+ * and all confidence values must be unique and within 1..N.
+ */
+export function validateConfidencePicks(
+  input: unknown,
+  slate: SlateGame[],
+  lockedPicks: LockedConfidencePick[],
+  now: Date = new Date()
+): { isValid: boolean; errorMessage?: string; picks?: ConfidencePickInput[] } {
+  if (!Array.isArray(input) || input.length === 0) {
+    return { isValid: false, errorMessage: 'Confidence picks are required' };
+  }
+
+  const slateSize = slate.length;
+  const slateGames = new Map(slate.map(game => [game.id, game]));
+  const openGameIds = slate
+    .filter(game => now < new Date(game.start_time))
+    .map(game => game.id);
+
+  // Picks on games dropped from the slate don't hold a confidence value
+  const usedConfidence = new Set(
+    lockedPicks
+      .filter(pick => slateGames.has(pick.game_id))
+      .map(pick => pick.confidence)
+      .filter((confidence): confidence is number => confidence !== null)
+  );
+  const pickedGames = new Set<number>();
+  const picks: ConfidencePickInput[] = [];
+
+  for (const raw of input as Array<Record<string, unknown>>) {
+    const gameId = Number(raw?.game_id);
+    const confidence = Number(raw?.confidence);
+    const side = raw?.side;
+
+    const game = slateGames.get(gameId);
+    if (!game) {
+      return { isValid: false, errorMessage: `Game ${raw?.game_id} is not on this week's slate` };
+    }
+
+    if (now >= new Date(game.start_time)) {
+      return { isValid: false, errorMessage: `Game ${gameId} has already started. Picks are no longer allowed.` };
+    }
+
+    if (pickedGames.has(gameId)) {
+      return { isValid: false, errorMessage: 'Each game can only be picked once' };
+    }
+    pickedGames.add(gameId);
+
+    if (side !== 'home' && side !== 'away') {
+      return { isValid: false, errorMessage: 'Each pick must take the home or away team' };
+    }
+
+    if (!Number.isInteger(confidence) || confidence < 1 || confidence > slateSize) {
+      return { isValid: false, errorMessage: `Confidence values must be whole numbers from 1 to ${slateSize}` };
+    }
+
+    if (usedConfidence.has(confidence)) {
+      return { isValid: false, errorMessage: `Confidence ${confidence} is used more than once` };
+    }
+    usedConfidence.add(confidence);
+
+    picks.push({
+      game_id: gameId,
+      side,
+      confidence,
+      sportsbook: typeof raw.sportsbook === 'string' ? raw.sportsbook : null,
+      expected_point: raw.expected_point == null || raw.expected_point === '' ? null : Number(raw.expected_point),
+      expected_price: raw.expected_price == null || raw.expected_price === '' ? null : Number(raw.expected_price)
+    });
+  }
+
+  const missing = openGameIds.filter(gameId => !pickedGames.has(gameId));
+  if (missing.length > 0) {
+    return {
+      isValid: false,
+      errorMessage: `Every game on the slate needs a pick (${missing.length} game${missing.length > 1 ? 's' : ''} missing)`
+    };
+  }
+
+  return { isValid: true, picks };
+}
+
+/**
+ * Points for a graded confidence pick
+ */
+export function getConfidencePoints(result: 'win' | 'loss' | 'push', confidence: number, multiplier = 1): number {
+  return result === 'win' ? confidence * multiplier : 0;
+}
+
+/**
+ * Swap a member's open picks for a week for new ones in one transaction.
+ * Throws if any of the games kicked off in the meantime, leaving the old
+ * picks in place.
+ */
+export async function replaceConfidencePicks(
+  userId: string,
+  seasonId: number,
+  seasonType: number,
+  week: number,
+  openPickIds: number[],
+  picks: ConfidencePickRow[]
+): Promise<Record<string, unknown>[]> {
+  const { data, error } = await supabaseAdmin.rpc('replace_confidence_picks', {
+    p_user_id: userId,
+    p_season_id: seasonId,
+    p_season_type: seasonType,
+    p_week: week,
+    p_pick_ids: openPickIds,
+    p_picks: picks
+  });
+
+  if (error) {
+    throw new Error(`Failed to replace confidence picks: ${error.message}`);
+  }
+
+  return (data || []) as Record<string, unknown>[];
+}
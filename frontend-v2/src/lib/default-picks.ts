@@ -0,0 +1,289 @@
+import { supabaseAdmin } from './supabase-admin';
+import { formatSelectionLabel, type PickSelection } from './selection';
+import { getSelectionPrice, type OddsLine } from './odds';
+import { getLeaguePickRules, type MissedPickPolicy } from './pick-rules';
+import { recalculateUserSeasonStats } from './scoring';
+import { applyLateGameScoring, buildGameScoringPlan } from './game-scoring';
+import { UNPLAYABLE_GAME_STATUSES, type GameStatus } from './espn-monitor';
+import type { NFLWeek } from './nfl-week';
+
+/**
+ * Default picks for members who miss a week. Once the last game of a week has
+ * kicked off, every weekly-format league with a missed pick policy gets a pick
+ * flagged is_auto_pick for each member who has nothing that week. Running it
+ * again is harmless: members who already have a pick are skipped.
+ */
+
+interface OddsRow extends OddsLine {
+  sportsbook: string;
+  last_update: string;
+}
+
+interface WeekGame {
+  id: number;
+  start_time: string;
+  status: string | null;
+  home_score: number | null;
+  away_score: number | null;
+  home_linescores: number[] | null;
+  away_linescores: number[] | null;
+  home_team: { name: string; abbreviation: string } | null;
+  away_team: { name: string; abbreviation: string } | null;
+  odds: OddsRow[];
+}
+
+export interface DefaultPickSummary {
+  season_id: number;
+  league_id: number;
+  policy: MissedPickPolicy;
+  picks_created: number;
+}
+
+const latestOdds = (game: WeekGame): OddsRow | undefined =>
+  [...game.odds].sort((a, b) =>
+    new Date(b.last_update).getTime() - new Date(a.last_update).getTime()
+  )[0];
+
+/**
+ * The game and side a favorite-based policy assigns, or null when no game on
+ * the slate has a spread posted
+ */
+function chooseDefaultSide(
+  policy: 'home_favorite' | 'closest_game',
+  games: WeekGame[]
+): { game: WeekGame; side: 'home' | 'away'; odds: OddsRow } | null {
+  // Never hand out a pick on a game that won't be played this week
+  const lined = games
+    .filter(game => !UNPLAYABLE_GAME_STATUSES.includes(game.status as GameStatus))
+    .map(game => ({ game, odds: latestOdds(game) }))
+    .filter((entry): entry is { game: WeekGame; odds: OddsRow } =>
+      entry.odds !== undefined && entry.odds.spread_home !== null
+    );
+
+  if (policy === 'home_favorite') {
+    const homeFavorites = lined
+      .filter(entry => (entry.odds.spread_home as number) < 0)
+      .sort((a, b) => (a.odds.spread_home as number) - (b.odds.spread_home as number));
+    return homeFavorites[0] ? { ...homeFavorites[0], side: 'home' } : null;
+  }
+
+  const closest = [...lined].sort((a, b) =>
+    Math.abs(a.odds.spread_home as number) - Math.abs(b.odds.spread_home as number)
+  )[0];
+  if (!closest) {
+    return null;
+  }
+
+  // Pick'em games go to the home team
+  return { ...closest, side: (closest.odds.spread_home as number) <= 0 ? 'home' : 'away' };
+}
+
+async function getWeekGames(week: NFLWeek): Promise<WeekGame[]> {
+  const { data, error } = await supabaseAdmin
+    .from('games')
+    .select(`
+      id,
+      start_time,
+      status,
+      home_score,
+      away_score,
+      home_linescores,
+      away_linescores,
+      home_team:teams!games_home_team_id_fkey(name, abbreviation),
+      away_team:teams!games_away_team_id_fkey(name, abbreviation),
+      odds(
+        sportsbook,
+        last_update,
+        moneyline_home,
+        moneyline_away,
+        spread_home,
+        spread_away,
+        spread_home_price,
+        spread_away_price,
+        total_over,
+        total_under,
+        total_over_price,
+        total_under_price
+      )
+    `)
+    .gte('start_time', week.start_date)
+    .lte('start_time', week.end_date)
+    .order('start_time', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load games for ${week.label}: ${error.message}`);
+  }
+
+  return (data || []).map(game => ({
+    ...game,
+    home_team: Array.isArray(game.home_team) ? game.home_team[0] : game.home_team,
+    away_team: Array.isArray(game.away_team) ? game.away_team[0] : game.away_team,
+    odds: (game.odds || []) as OddsRow[]
+  })) as WeekGame[];
+}
+
+/**
+ * Seasons running during a week whose league plays the weekly format
+ */
+async function getWeeklySeasons(week: NFLWeek): Promise<Array<{ id: number; league_id: number }>> {
+  const { data, error } = await supabaseAdmin
+    .from('seasons')
+    .select('id, league_id, start_date, end_date, leagues!inner(format)')
+    .eq('leagues.format', 'weekly');
+
+  if (error) {
+    throw new Error(`Failed to load seasons: ${error.message}`);
+  }
+
+  const weekStart = new Date(week.start_date);
+  const weekEnd = new Date(week.end_date);
+
+  return (data || []).filter(season =>
+    (!season.start_date || new Date(season.start_date) <= weekEnd) &&
+    (!season.end_date || new Date(season.end_date) >= weekStart)
+  );
+}
+
+/**
+ * Apply every league's missed pick policy to a week. Does nothing until the
+ * week's last game has kicked off.
+ */
+export async function applyDefaultPicks(week: NFLWeek, now: Date = new Date()): Promise<DefaultPickSummary[]> {
+  const games = await getWeekGames(week);
+  const lastGame = games[games.length - 1];
+
+  if (!lastGame || now < new Date(lastGame.start_time)) {
+    return [];
+  }
+
+  const summaries: DefaultPickSummary[] = [];
+
+  for (const season of await getWeeklySeasons(week)) {
+    const rules = await getLeaguePickRules(season.league_id);
+    if (rules.missed_pick_policy === 'none') {
+      continue;
+    }
+
+    const { data: members, error: membersError } = await supabaseAdmin
+      .from('league_memberships')
+      .select('user_id')
+      .eq('league_id', season.league_id);
+
+    const { data: weekPicks, error: picksError } = await supabaseAdmin
+      .from('picks')
+      .select('user_id')
+      .eq('season_id', season.id)
+      .eq('week', week.week)
+      .eq('season_type', week.season_type);
+
+    if (membersError || picksError) {
+      throw new Error(`Failed to load picks for season ${season.id}: ${(membersError || picksError)?.message}`);
+    }
+
+    const pickedUsers = new Set((weekPicks || []).map(pick => pick.user_id));
+    const missingUsers = (members || [])
+      .map(member => member.user_id as string)
+      .filter(userId => !pickedUsers.has(userId));
+
+    if (missingUsers.length === 0) {
+      summaries.push({ season_id: season.id, league_id: season.league_id, policy: rules.missed_pick_policy, picks_created: 0 });
+      continue;
+    }
+
+    const basePick = {
+      season_id: season.id,
+      pick_type: 'straight',
+      week: week.week,
+      season_type: week.season_type,
+      is_auto_pick: true,
+      locked_at: now.toISOString()
+    };
+
+    let rows: Array<Record<string, unknown>>;
+    let gradedGame: WeekGame | null = null;
+
+    if (rules.missed_pick_policy === 'no_pick_loss' || rules.missed_pick_policy === 'penalty') {
+      // Already graded, so they are anchored to the week's last game and never re-scored
+      rows = missingUsers.map(userId => ({
+        ...basePick,
+        user_id: userId,
+        game_id: lastGame.id,
+        bet_type: 'no_pick',
+        selection: 'No pick',
+        selection_data: null,
+        result: 'loss',
+        points_awarded: rules.missed_pick_policy === 'penalty' ? -rules.missed_pick_penalty : 0
+      }));
+    } else {
+      const choice = chooseDefaultSide(rules.missed_pick_policy, games);
+      if (!choice) {
+        console.warn(`No lined game for ${week.label}; skipping default picks for season ${season.id}`);
+        continue;
+      }
+
+      const selection: PickSelection = { market: 'moneyline', side: choice.side, line: null };
+      const teams = choice.game.home_team && choice.game.away_team
+        ? { home: choice.game.home_team, away: choice.game.away_team }
+        : null;
+
+      rows = missingUsers.map(userId => ({
+        ...basePick,
+        user_id: userId,
+        game_id: choice.game.id,
+        bet_type: 'moneyline',
+        selection: formatSelectionLabel(selection, teams),
+        selection_data: selection,
+        odds_price: getSelectionPrice(choice.odds, 'moneyline', choice.side),
+        locked_sportsbook: choice.odds.sportsbook,
+        result: null
+      }));
+
+      // Earlier games may already be scored, so grade those picks here
+      if (choice.game.status === 'completed' && choice.game.home_score !== null && choice.game.away_score !== null) {
+        gradedGame = choice.game;
+      }
+    }
+
+    const { data: created, error: insertError } = await supabaseAdmin
+      .from('picks')
+      .insert(rows)
+      .select('*');
+
+    if (insertError) {
+      throw new Error(`Failed to create default picks for season ${season.id}: ${insertError.message}`);
+    }
+
+    // Graded and audited like any other pick; a game that hasn't been scored
+    // yet leaves them open for the scoring run
+    let graded = false;
+    if (gradedGame) {
+      const plan = await buildGameScoringPlan(gradedGame.id, {
+        home_score: gradedGame.home_score as number,
+        away_score: gradedGame.away_score as number,
+        status: 'completed',
+        home_linescores: gradedGame.home_linescores,
+        away_linescores: gradedGame.away_linescores
+      });
+      graded = (await applyLateGameScoring(gradedGame.id, 'late_pick', plan)) !== null;
+    }
+
+    if (graded || rows[0]?.result) {
+      for (const userId of missingUsers) {
+        try {
+          await recalculateUserSeasonStats(userId, season.id);
+        } catch (error) {
+          console.error(`Failed to recalculate stats for user ${userId}:`, error);
+        }
+      }
+    }
+
+    summaries.push({
+      season_id: season.id,
+      league_id: season.league_id,
+      policy: rules.missed_pick_policy,
+      picks_created: created?.length ?? 0
+    });
+  }
+
+  return summaries;
+}
@@ -0,0 +1,196 @@
+import { supabaseAdmin } from './supabase-admin';
+import { MARKET_STAT_MAPPING } from './player-prop-scoring';
+
+const ESPN_API_BASE = 'https://site.api.espn.com/apis/site/v2/sports/football/nfl';
+
+export interface ESPNBoxScoreAthlete {
+  athlete: {
+    id: string;
+    displayName: string;
+  };
+  stats: string[];
+}
+
+export interface ESPNBoxScoreCategory {
+  name: string; // 'passing', 'rushing', 'receiving', 'defensive', ...
+  keys: string[];
+  labels: string[];
+  athletes: ESPNBoxScoreAthlete[];
+}
+
+export interface ESPNSummaryResponse {
+  header?: {
+    id: string;
+  };
+  boxscore?: {
+    players?: Array<{
+      team: {
+        id: string;
+        abbreviation: string;
+      };
+      statistics: ESPNBoxScoreCategory[];
+    }>;
+  };
+}
+
+export interface PlayerGameStats {
+  athleteId: string;
+  athleteName: string;
+  teamAbbreviation: string;
+  stats: Record<string, number>;
+}
+
+// ESPN category + stat key -> our stat key
+const BOX_SCORE_STAT_MAPPING: Record<string, Record<string, string>> = {
+  passing: {
+    passingYards: 'passing_yards',
+    passingTouchdowns: 'passing_touchdowns',
+    interceptions: 'passing_interceptions'
+  },
+  rushing: {
+    rushingAttempts: 'rushing_attempts',
+    rushingYards: 'rushing_yards',
+    rushingTouchdowns: 'rushing_touchdowns'
+  },
+  receiving: {
+    receptions: 'receptions',
+    receivingYards: 'receiving_yards',
+    receivingTouchdowns: 'receiving_touchdowns'
+  },
+  defensive: {
+    totalTackles: 'total_tackles',
+    sacks: 'sacks'
+  }
+};
+
+// Stats that count towards anytime-touchdown props (passing TDs don't)
+const SCORING_TOUCHDOWN_KEYS = [
+  'rushingTouchdowns',
+  'receivingTouchdowns',
+  'defensiveTouchdowns',
+  'kickReturnTouchdowns',
+  'puntReturnTouchdowns',
+  'interceptionTouchdowns'
+];
+
+/**
+ * Fetch the game summary (including the box score) for a single ESPN event
+ */
+export async function fetchESPNGameSummary(espnGameId: string): Promise<ESPNSummaryResponse> {
+  const url = `${ESPN_API_BASE}/summary?event=${espnGameId}`;
+  const startTime = Date.now();
+
+  try {
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (compatible; ParlayChallenge/1.0)',
+      },
+      signal: AbortSignal.timeout(10000),
+    });
+
+    if (!response.ok) {
+      throw new Error(`ESPN API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    console.log(`ESPN summary ${espnGameId}: ${data.boxscore?.players?.length || 0} teams (${Date.now() - startTime}ms)`);
+
+    return data;
+  } catch (error) {
+    console.error(`ESPN summary failed for event ${espnGameId} (${Date.now() - startTime}ms):`, error);
+    throw error;
+  }
+}
+
+/**
+ * Flatten an ESPN box score into per-athlete stats keyed by MARKET_STAT_MAPPING values.
+ * Every athlete who appears in the box score gets every stat, defaulting to 0, so a
+ * player who played but never recorded a catch grades as 0 rather than void.
+ */
+export function extractPlayerStats(summary: ESPNSummaryResponse): PlayerGameStats[] {
+  const statKeys = [...new Set(Object.values(MARKET_STAT_MAPPING))];
+  const players = new Map<string, PlayerGameStats>();
+
+  for (const team of summary.boxscore?.players || []) {
+    for (const category of team.statistics || []) {
+      for (const entry of category.athletes || []) {
+        let player = players.get(entry.athlete.id);
+        if (!player) {
+          player = {
+            athleteId: entry.athlete.id,
+            athleteName: entry.athlete.displayName,
+            teamAbbreviation: team.team.abbreviation,
+            stats: Object.fromEntries(statKeys.map(key => [key, 0]))
+          };
+          players.set(entry.athlete.id, player);
+        }
+
+        category.keys.forEach((espnKey, index) => {
+          const rawValue = entry.stats[index];
+
+          // Passing is reported as "completions/attempts"
+          if (espnKey === 'completions/passingAttempts') {
+            const [completions, attempts] = (rawValue || '').split('/').map(parseStatValue);
+            player.stats.passing_completions = completions;
+            player.stats.passing_attempts = attempts;
+            return;
+          }
+
+          const statKey = BOX_SCORE_STAT_MAPPING[category.name]?.[espnKey];
+          if (statKey) {
+            player.stats[statKey] = parseStatValue(rawValue);
+          }
+
+          if (SCORING_TOUCHDOWN_KEYS.includes(espnKey)) {
+            player.stats.total_touchdowns += parseStatValue(rawValue);
+          }
+        });
+      }
+    }
+  }
+
+  return [...players.values()];
+}
+
+function parseStatValue(value: string | undefined): number {
+  const parsed = parseFloat(value ?? '');
+  return isNaN(parsed) ? 0 : parsed;
+}
+
+/**
+ * Fetch a game's box score from ESPN and store it in player_game_stats. Called
+ * for completed games before props are graded, and for live games with open
+ * props so the live pick tracker can follow them. Returns the number of athletes saved.
+ */
+export async function syncPlayerGameStats(gameId: number, espnGameId: string): Promise<number> {
+  const summary = await fetchESPNGameSummary(espnGameId);
+  const players = extractPlayerStats(summary);
+
+  if (players.length === 0) {
+    return 0;
+  }
+
+  const updatedAt = new Date().toISOString();
+  const rows = players.flatMap(player =>
+    Object.entries(player.stats).map(([statKey, value]) => ({
+      game_id: gameId,
+      espn_game_id: espnGameId,
+      athlete_id: player.athleteId,
+      athlete_name: player.athleteName,
+      team_abbreviation: player.teamAbbreviation,
+      stat_key: statKey,
+      value,
+      updated_at: updatedAt
+    }))
+  );
+
+  const { error } = await supabaseAdmin
+    .from('player_game_stats')
+    .upsert(rows, { onConflict: 'game_id,athlete_id,stat_key' });
+
+  if (error) {
+    throw new Error(`Failed to save player stats for game ${gameId}: ${error.message}`);
+  }
+
+  return players.length;
+}
@@ -1,5 +1,5 @@
-import { getCurrentNFLWeek } from './nfl-week';
 import { supabaseAdmin } from './supabase-admin';
+import { SEASON_TYPES, type NFLSeasonType, type NFLWeek } from './nfl-week';
 
 export interface ESPNCompetitor {
   id: string;
@@ -26,6 +26,8 @@ export interface ESPNCompetitor {
     }>;
   };
   score: string;
+  // Points per period, overtime included; missing before kickoff
+  linescores?: Array<{ value: number }>;
   records?: Array<{
     name: string;
     type: string;
@@ -59,7 +61,14 @@ export interface ESPNGameStatus {
   period: number;
   type: {
     id: string;
-    name: 'STATUS_SCHEDULED' | 'STATUS_IN_PROGRESS' | 'STATUS_FINAL';
+    name:
+      | 'STATUS_SCHEDULED'
+      | 'STATUS_IN_PROGRESS'
+      | 'STATUS_FINAL'
+      | 'STATUS_POSTPONED'
+      | 'STATUS_SUSPENDED'
+      | 'STATUS_CANCELED'
+      | 'STATUS_DELAYED';
     state: 'pre' | 'in' | 'post';
     completed: boolean;
     description: string;
@@ -108,6 +117,11 @@ export interface ESPNScoreboardResponse {
   };
   week: {
     number: number;
+    teamsOnBye?: Array<{
+      id: string;
+      abbreviation: string;
+      displayName: string;
+    }>;
   };
   events: ESPNGame[];
 }
@@ -117,10 +131,12 @@ export interface ProcessedGameData {
   homeTeam: {
     abbreviation: string;
     score: number | null;
+    linescores?: number[] | null;
   };
   awayTeam: {
     abbreviation: string;
     score: number | null;
+    linescores?: number[] | null;
   };
   status: {
     name: string;
@@ -131,11 +147,16 @@ export interface ProcessedGameData {
 }
 
 /**
- * Fetch current week's games from ESPN API
+ * Fetch a week's games from ESPN API. Without a week, ESPN returns the week in progress.
  */
-export async function fetchESPNScoreboard(week?: number): Promise<ESPNScoreboardResponse> {
-  const currentWeek = week || getCurrentNFLWeek();
-  const url = `https://site.api.espn.com/apis/site/v2/sports/football/nfl/scoreboard?week=${currentWeek}`;
+export async function fetchESPNScoreboard(
+  week?: number,
+  seasonType: NFLSeasonType = SEASON_TYPES.REGULAR_SEASON
+): Promise<ESPNScoreboardResponse> {
+  const url = week
+    ? `https://site.api.espn.com/apis/site/v2/sports/football/nfl/scoreboard?seasontype=${seasonType}&week=${week}`
+    : 'https://site.api.espn.com/apis/site/v2/sports/football/nfl/scoreboard';
+  const weekLabel = week ?? 'current';
 
   const startTime = Date.now();
 
@@ -155,16 +176,27 @@ export async function fetchESPNScoreboard(week?: number): Promise<ESPNScoreboard
     const responseTime = Date.now() - startTime;
 
     // Log only essential info
-    console.log(`ESPN week ${currentWeek}: ${data.events?.length || 0} games (${responseTime}ms)`);
+    console.log(`ESPN week ${weekLabel}: ${data.events?.length || 0} games (${responseTime}ms)`);
 
     return data;
   } catch (error) {
     const responseTime = Date.now() - startTime;
-    console.error(`ESPN API failed for week ${currentWeek} (${responseTime}ms):`, error);
+    console.error(`ESPN API failed for week ${weekLabel} (${responseTime}ms):`, error);
     throw error;
   }
 }
 
+/**
+ * Points per period for a competitor ([Q1, Q2, Q3, Q4, OT...]), or null when
+ * ESPN hasn't reported any
+ */
+export function getCompetitorLinescores(competitor: ESPNCompetitor | undefined): number[] | null {
+  if (!competitor?.linescores || competitor.linescores.length === 0) {
+    return null;
+  }
+  return competitor.linescores.map(period => Number(period.value) || 0);
+}
+
 /**
  * Process ESPN games data into our format
  */
@@ -183,10 +215,12 @@ export function processESPNGames(espnData: ESPNScoreboardResponse): ProcessedGam
       homeTeam: {
         abbreviation: homeTeam?.team.abbreviation || '',
         score: homeTeam ? parseInt(homeTeam.score) || null : null,
+        linescores: getCompetitorLinescores(homeTeam),
       },
       awayTeam: {
         abbreviation: awayTeam?.team.abbreviation || '',
         score: awayTeam ? parseInt(awayTeam.score) || null : null,
+        linescores: getCompetitorLinescores(awayTeam),
       },
       status: {
         name: competition.status.type.name,
@@ -355,11 +389,38 @@ async function updateTeamStatistics(teamId: number, leaders: Array<{
   }
 }
 
+// games.status values
+export type GameStatus = 'scheduled' | 'live' | 'completed' | 'postponed' | 'suspended' | 'cancelled';
+
+// Games that can't be picked: postponed until ESPN gives a new kickoff, suspended mid-game, or never played
+export const UNPLAYABLE_GAME_STATUSES: GameStatus[] = ['postponed', 'suspended', 'cancelled'];
+
+/**
+ * Map an ESPN status onto games.status. ESPN reports postponed and cancelled
+ * games as 'post', so the status name is checked before the completed flag.
+ */
+export function mapESPNGameStatus(status: { name: string; state: string; completed: boolean }): GameStatus {
+  switch (status.name) {
+    case 'STATUS_POSTPONED':
+      return 'postponed';
+    case 'STATUS_SUSPENDED':
+      return 'suspended';
+    case 'STATUS_CANCELED':
+      return 'cancelled';
+  }
+
+  if (status.completed) {
+    return 'completed';
+  }
+
+  return status.state === 'in' ? 'live' : 'scheduled';
+}
+
 /**
  * Get only completed games from ESPN data
  */
 export function getCompletedGames(games: ProcessedGameData[]): ProcessedGameData[] {
-  return games.filter(game => game.status.completed);
+  return games.filter(game => mapESPNGameStatus(game.status) === 'completed');
 }
 
 /**
@@ -424,14 +485,16 @@ export interface EnhancedESPNGame extends ProcessedGameData {
 }
 
 /**
- * Fetch complete season schedule from ESPN (weeks 1-18)
+ * Fetch complete season schedule from ESPN, one scoreboard per regular-season
+ * and postseason week of the calendar (see fetchESPNCalendar).
  * This is the core function for the new architecture
  */
-export async function fetchCompleteESPNSeason(): Promise<{
+export async function fetchCompleteESPNSeason(calendar: NFLWeek[]): Promise<{
   games: EnhancedESPNGame[];
   summary: {
     totalGames: number;
-    weeklyBreakdown: Record<number, number>;
+    weeklyBreakdown: Record<string, number>;
+    byeTeams: Record<number, string[]>;
     season: { year: number; type: number };
     fetchTime: number;
   };
@@ -439,18 +502,34 @@ export async function fetchCompleteESPNSeason(): Promise<{
   const startTime = Date.now();
 
   const allGames: EnhancedESPNGame[] = [];
-  const weeklyBreakdown: Record<number, number> = {};
+  const weeklyBreakdown: Record<string, number> = {};
+  const byeTeams: Record<number, string[]> = {};
   let seasonInfo: { year: number; type: number } | null = null;
 
+  const weeks = calendar.filter(week =>
+    week.season_type === SEASON_TYPES.REGULAR_SEASON || week.season_type === SEASON_TYPES.POSTSEASON
+  );
+
   // Fetch all weeks with small delays to respect rate limits
-  for (let week = 1; week <= 18; week++) {
+  for (const [index, calendarWeek] of weeks.entries()) {
+    const { week, season_type: seasonType, label } = calendarWeek;
+
     try {
 
-      const weekData = await fetchESPNScoreboard(week);
-      const enhancedGames = processEnhancedESPNGames(weekData);
+      const weekData = await fetchESPNScoreboard(week, seasonType);
+
+      // Playoff games whose matchup isn't set yet list TBD teams, and the Pro Bowl
+      // is AFC vs NFC; neither can be picked, so only keep games between NFL teams
+      const enhancedGames = processEnhancedESPNGames(weekData).filter(game =>
+        ESPN_TO_FULL_NAME[game.homeTeam.abbreviation] && ESPN_TO_FULL_NAME[game.awayTeam.abbreviation]
+      );
 
       allGames.push(...enhancedGames);
-      weeklyBreakdown[week] = enhancedGames.length;
+      weeklyBreakdown[label] = enhancedGames.length;
+
+      if (seasonType === SEASON_TYPES.REGULAR_SEASON) {
+        byeTeams[week] = (weekData.week?.teamsOnBye || []).map(team => team.abbreviation);
+      }
 
       // Capture season info from the first successful response
       if (!seasonInfo && weekData.season) {
@@ -458,17 +537,17 @@ export async function fetchCompleteESPNSeason(): Promise<{
       }
 
       // Small delay to avoid overwhelming ESPN API
-      if (week < 18) {
+      if (index < weeks.length - 1) {
         await new Promise(resolve => setTimeout(resolve, 500));
       }
 
     } catch (error) {
-      console.error(`Failed to fetch week ${week}:`, error);
-      weeklyBreakdown[week] = 0;
+      console.error(`Failed to fetch ${label}:`, error);
+      weeklyBreakdown[label] = 0;
 
       // Log the failed attempt
       await logESPNAPICall(
-        `/apis/site/v2/sports/football/nfl/scoreboard?week=${week}`,
+        `/apis/site/v2/sports/football/nfl/scoreboard?seasontype=${seasonType}&week=${week}`,
         week,
         0,
         0,
@@ -490,7 +569,8 @@ export async function fetchCompleteESPNSeason(): Promise<{
     summary: {
       totalGames: allGames.length,
       weeklyBreakdown,
-      season: seasonInfo || { year: new Date().getFullYear(), type: 2 },
+      byeTeams,
+      season: seasonInfo || { year: new Date().getFullYear(), type: SEASON_TYPES.REGULAR_SEASON },
       fetchTime,
     },
   };
@@ -0,0 +1,556 @@
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import {
+  createSeasonCalculators,
+  recalculateUserSeasonStats,
+  type GameResult,
+  type LegResult,
+  type Pick,
+  type PickLeg,
+  type SeasonCalculators
+} from '@/lib/scoring';
+import { gradeParlayLeg } from '@/lib/parlay-scoring';
+
+/**
+ * Atomic scoring for a completed game. Results are worked out here without
+ * touching the database, then written in a single transaction by the
+ * apply_game_scoring database function: the game's final score, every graded
+ * pick and parlay leg, one pick_scoring_audit row per change and the game's
+ * scoring_events row. Running it again for a scored game changes nothing.
+ *
+ * Games are shared by every league, so each pick is graded with the rules of
+ * the league its season belongs to, and the audit row records that league's
+ * rules version.
+ *
+ * Season stats are recalculated after the transaction. A scoring event keeps
+ * stats_updated_at empty until that finishes, so finishPendingScoringEvents
+ * can pick it up on the next run if it didn't.
+ *
+ * Games that were already scored are re-graded the same way through
+ * apply_score_correction, which records a score_corrections row instead.
+ * Picks graded after the scoring event, such as player props, go through
+ * apply_late_game_scoring and are added to that event.
+ */
+
+export interface PickScoringChange {
+  pick_id: number;
+  user_id: string;
+  // The result the pick had when it was graded; the write is skipped if it has changed since
+  old_result: string | null;
+  // null when a re-grade sends a settled parlay back to pending
+  new_result: 'win' | 'loss' | 'push' | null;
+  points: number;
+  explanation: string | null;
+  // The grading league's league_scoring_rules.version
+  rule_version: number | null;
+}
+
+export interface LegScoringChange {
+  leg_id: number;
+  pick_id: number;
+  old_result: LegResult | null;
+  new_result: LegResult;
+  explanation: string | null;
+  rule_version: number | null;
+}
+
+export interface GameScoringPlan {
+  picks: PickScoringChange[];
+  legs: LegScoringChange[];
+}
+
+export interface GameScoringOutcome {
+  alreadyScored: boolean;
+  scoringEventId: number;
+  picksProcessed: number;
+  pointsAwarded: number;
+  userIds: string[];
+}
+
+// player_prop: props graded once the box score is in
+// late_pick:   auto-picks added to a game that was already scored
+export type LateScoringSource = 'player_prop' | 'late_pick';
+
+// espn_correction: ESPN changed a final score after it was scored
+// manual_regrade:  an admin asked for a game's picks to be graded again
+export type ScoreCorrectionReason = 'espn_correction' | 'manual_regrade';
+
+export interface ScoreCorrectionOutcome {
+  alreadyApplied: boolean;
+  scoreCorrectionId: number;
+  picksChanged: number;
+  pointsDelta: number;
+}
+
+type SeasonPick = Pick & { season_id: number };
+
+interface OpenLegRow extends PickLeg {
+  picks: {
+    id: number;
+    user_id: string;
+    season_id: number;
+    week: number;
+  };
+}
+
+interface ParlayRow {
+  id: number;
+  user_id: string;
+  season_id: number;
+  result: string | null;
+  points_awarded: number;
+  week: number;
+  season_type: number | null;
+  pick_legs: Array<{ id: number; result: LegResult | null; odds_price: number | null }>;
+}
+
+/**
+ * Grade every open straight pick and parlay leg on a game, and settle the
+ * parlays those legs finish. Player props wait for the box score, and picks
+ * an admin has overridden keep the admin's result.
+ */
+export async function buildGameScoringPlan(
+  gameId: number,
+  gameResult: GameResult,
+  calculators: SeasonCalculators = createSeasonCalculators()
+): Promise<GameScoringPlan> {
+  const { data: picks, error: picksError } = await supabaseAdmin
+    .from('picks')
+    .select('*')
+    .eq('game_id', gameId)
+    .eq('pick_type', 'straight')
+    .neq('bet_type', 'player_prop')
+    .is('result', null)
+    .is('overridden_at', null);
+
+  if (picksError) {
+    throw new Error(`Failed to fetch picks for game ${gameId}: ${picksError.message}`);
+  }
+
+  const plan: GameScoringPlan = { picks: [], legs: [] };
+
+  for (const pick of (picks || []) as SeasonPick[]) {
+    const { calculator, ruleVersion } = await calculators(pick.season_id);
+    const pickResult = calculator.calculatePick(pick, gameResult);
+    if (pickResult.result === 'pending') {
+      console.warn(`Pick ${pick.id} could not be graded: ${pickResult.explanation}`);
+      continue;
+    }
+
+    plan.picks.push({
+      pick_id: pick.id,
+      user_id: pick.user_id,
+      old_result: pick.result,
+      new_result: pickResult.result,
+      points: pickResult.points,
+      explanation: pickResult.explanation ?? null,
+      rule_version: ruleVersion
+    });
+  }
+
+  const { data: legs, error: legsError } = await supabaseAdmin
+    .from('pick_legs')
+    .select(`
+      *,
+      picks!inner(id, user_id, season_id, week)
+    `)
+    .eq('game_id', gameId)
+    .is('result', null);
+
+  if (legsError) {
+    throw new Error(`Failed to fetch parlay legs for game ${gameId}: ${legsError.message}`);
+  }
+
+  for (const leg of (legs || []) as OpenLegRow[]) {
+    const { calculator, ruleVersion } = await calculators(leg.picks.season_id);
+    const legResult = gradeParlayLeg(leg, gameResult, calculator);
+    if (!legResult) {
+      continue;
+    }
+
+    plan.legs.push({
+      leg_id: leg.id,
+      pick_id: leg.pick_id,
+      old_result: null,
+      new_result: legResult.result as LegResult,
+      explanation: legResult.explanation ?? null,
+      rule_version: ruleVersion
+    });
+  }
+
+  plan.picks.push(...await settleParlaysForPlan(plan.legs, calculators, false));
+
+  return plan;
+}
+
+/**
+ * Re-grade a game that was already scored, for example after ESPN corrects
+ * the final score. Only picks, legs and parlays whose result or points change
+ * are included.
+ */
+export async function buildGameRegradePlan(
+  gameId: number,
+  gameResult: GameResult,
+  calculators: SeasonCalculators = createSeasonCalculators()
+): Promise<GameScoringPlan> {
+  // Missed-week rows have no side to grade and props follow the box score
+  const { data: picks, error: picksError } = await supabaseAdmin
+    .from('picks')
+    .select('*')
+    .eq('game_id', gameId)
+    .eq('pick_type', 'straight')
+    .not('bet_type', 'in', '(player_prop,no_pick)')
+    .not('result', 'is', null)
+    // Admin overrides stand until an admin changes them
+    .is('overridden_at', null);
+
+  if (picksError) {
+    throw new Error(`Failed to fetch picks for game ${gameId}: ${picksError.message}`);
+  }
+
+  const plan: GameScoringPlan = { picks: [], legs: [] };
+
+  for (const pick of (picks || []) as SeasonPick[]) {
+    const { calculator, ruleVersion } = await calculators(pick.season_id);
+    const pickResult = calculator.calculatePick(pick, gameResult);
+    if (pickResult.result === 'pending' ||
+        (pickResult.result === pick.result && pickResult.points === pick.points_awarded)) {
+      continue;
+    }
+
+    plan.picks.push({
+      pick_id: pick.id,
+      user_id: pick.user_id,
+      old_result: pick.result,
+      new_result: pickResult.result,
+      points: pickResult.points,
+      explanation: pickResult.explanation ?? null,
+      rule_version: ruleVersion
+    });
+  }
+
+  const { data: legs, error: legsError } = await supabaseAdmin
+    .from('pick_legs')
+    .select(`
+      *,
+      picks!inner(id, user_id, season_id, week)
+    `)
+    .eq('game_id', gameId)
+    .in('result', ['win', 'loss', 'push']);
+
+  if (legsError) {
+    throw new Error(`Failed to fetch parlay legs for game ${gameId}: ${legsError.message}`);
+  }
+
+  for (const leg of (legs || []) as OpenLegRow[]) {
+    const { calculator, ruleVersion } = await calculators(leg.picks.season_id);
+    const legResult = gradeParlayLeg(leg, gameResult, calculator);
+    if (!legResult || legResult.result === leg.result) {
+      continue;
+    }
+
+    plan.legs.push({
+      leg_id: leg.id,
+      pick_id: leg.pick_id,
+      old_result: leg.result,
+      new_result: legResult.result as LegResult,
+      explanation: legResult.explanation ?? null,
+      rule_version: ruleVersion
+    });
+  }
+
+  plan.picks.push(...await settleParlaysForPlan(plan.legs, calculators, true));
+
+  return plan;
+}
+
+/**
+ * Resolve the parlays touched by this game's legs as if the new leg results
+ * were already saved. When scoring, parlays settled by an earlier game are left
+ * alone; when re-grading, any parlay whose outcome changes is included.
+ */
+export async function settleParlaysForPlan(
+  legChanges: LegScoringChange[],
+  calculators: SeasonCalculators,
+  regrade: boolean
+): Promise<PickScoringChange[]> {
+  const parlayIds = [...new Set(legChanges.map(change => change.pick_id))];
+  if (parlayIds.length === 0) {
+    return [];
+  }
+
+  let query = supabaseAdmin
+    .from('picks')
+    .select('id, user_id, season_id, result, points_awarded, week, season_type, pick_legs(id, result, odds_price)')
+    .in('id', parlayIds)
+    .eq('pick_type', 'parlay')
+    .is('overridden_at', null);
+
+  if (!regrade) {
+    query = query.is('result', null);
+  }
+
+  const { data: parlays, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to load parlays: ${error.message}`);
+  }
+
+  const newLegResults = new Map(legChanges.map(change => [change.leg_id, change.new_result]));
+  const settlements: PickScoringChange[] = [];
+
+  for (const parlay of (parlays || []) as ParlayRow[]) {
+    const legs = parlay.pick_legs.map(leg => ({
+      result: newLegResults.get(leg.id) ?? leg.result,
+      odds_price: leg.odds_price
+    }));
+    const { calculator, ruleVersion } = await calculators(parlay.season_id);
+    const parlayResult = calculator.resolveParlay(legs, parlay);
+    const newResult = parlayResult.result === 'pending' ? null : parlayResult.result;
+
+    if ((!regrade && newResult === null) ||
+        (newResult === parlay.result && parlayResult.points === parlay.points_awarded)) {
+      continue;
+    }
+
+    settlements.push({
+      pick_id: parlay.id,
+      user_id: parlay.user_id,
+      old_result: parlay.result,
+      new_result: newResult,
+      points: parlayResult.points,
+      explanation: parlayResult.explanation ?? null,
+      rule_version: ruleVersion
+    });
+  }
+
+  return settlements;
+}
+
+/**
+ * Write a scoring plan in one transaction. Safe to call again: a game that
+ * already has a successful scoring event comes back with alreadyScored set.
+ */
+export async function applyGameScoring(
+  game: { id: number; espn_game_id: string | null; status: string },
+  gameResult: GameResult,
+  plan: GameScoringPlan
+): Promise<GameScoringOutcome> {
+  const { data, error } = await supabaseAdmin.rpc('apply_game_scoring', {
+    p_game_id: game.id,
+    p_espn_game_id: game.espn_game_id,
+    p_status_before: game.status,
+    p_home_score: gameResult.home_score,
+    p_away_score: gameResult.away_score,
+    p_pick_results: plan.picks,
+    p_leg_results: plan.legs
+  });
+
+  if (error || !data) {
+    throw new Error(`Failed to apply scoring for game ${game.id}: ${error?.message ?? 'no result returned'}`);
+  }
+
+  return {
+    alreadyScored: data.already_scored,
+    scoringEventId: data.scoring_event_id,
+    picksProcessed: data.picks_processed,
+    pointsAwarded: Number(data.points_awarded),
+    userIds: data.user_ids || []
+  };
+}
+
+/**
+ * Grade picks on a game after it was scored, in one transaction attached to the
+ * game's scoring event. Returns null when the game hasn't been scored yet.
+ */
+export async function applyLateGameScoring(
+  gameId: number,
+  source: LateScoringSource,
+  plan: GameScoringPlan
+): Promise<Omit<GameScoringOutcome, 'alreadyScored'> | null> {
+  const { data, error } = await supabaseAdmin.rpc('apply_late_game_scoring', {
+    p_game_id: gameId,
+    p_source: source,
+    p_pick_results: plan.picks,
+    p_leg_results: plan.legs
+  });
+
+  if (error || !data) {
+    throw new Error(`Failed to apply late scoring for game ${gameId}: ${error?.message ?? 'no result returned'}`);
+  }
+
+  if (!data.scored) {
+    return null;
+  }
+
+  return {
+    scoringEventId: data.scoring_event_id,
+    picksProcessed: data.picks_processed,
+    pointsAwarded: Number(data.points_awarded),
+    userIds: data.user_ids || []
+  };
+}
+
+/**
+ * Write a re-grade in one transaction and record it as a score correction.
+ * The stored score must still be previousScore, so a correction is only
+ * applied once even if two runs race.
+ */
+export async function applyScoreCorrection(
+  game: { id: number; espn_game_id: string | null },
+  previousScore: { home_score: number | null; away_score: number | null },
+  gameResult: GameResult,
+  plan: GameScoringPlan,
+  reason: ScoreCorrectionReason
+): Promise<ScoreCorrectionOutcome> {
+  const { data, error } = await supabaseAdmin.rpc('apply_score_correction', {
+    p_game_id: game.id,
+    p_espn_game_id: game.espn_game_id,
+    p_old_home_score: previousScore.home_score,
+    p_old_away_score: previousScore.away_score,
+    p_home_score: gameResult.home_score,
+    p_away_score: gameResult.away_score,
+    p_reason: reason,
+    p_pick_results: plan.picks,
+    p_leg_results: plan.legs
+  });
+
+  if (error || !data) {
+    throw new Error(`Failed to apply score correction for game ${game.id}: ${error?.message ?? 'no result returned'}`);
+  }
+
+  return {
+    alreadyApplied: data.already_applied,
+    scoreCorrectionId: data.score_correction_id,
+    picksChanged: data.picks_changed,
+    pointsDelta: Number(data.points_delta)
+  };
+}
+
+const SCORING_RECORDS = {
+  event: { table: 'scoring_events', auditColumn: 'scoring_event_id' },
+  correction: { table: 'score_corrections', auditColumn: 'score_correction_id' }
+} as const;
+
+/**
+ * Recalculate season stats for everyone whose picks a scoring event or score
+ * correction changed, then mark it finished. Returns false (leaving it
+ * pending) if any user's stats failed.
+ */
+async function finishScoringRecord(kind: keyof typeof SCORING_RECORDS, id: number): Promise<boolean> {
+  const { table, auditColumn } = SCORING_RECORDS[kind];
+
+  const { data: record, error: recordError } = await supabaseAdmin
+    .from(table)
+    .select('id, game_id')
+    .eq('id', id)
+    .single();
+
+  if (recordError || !record?.game_id) {
+    console.error(`Failed to load ${table} row ${id}:`, recordError);
+    return false;
+  }
+
+  const { data: game } = await supabaseAdmin
+    .from('games')
+    .select('season_id')
+    .eq('id', record.game_id)
+    .single();
+
+  const { data: audits, error: auditError } = await supabaseAdmin
+    .from('pick_scoring_audit')
+    .select('picks!inner(user_id)')
+    .eq(auditColumn, id);
+
+  if (auditError) {
+    console.error(`Failed to load audit rows for ${table} row ${id}:`, auditError);
+    return false;
+  }
+
+  const userIds = new Set<string>();
+  for (const audit of audits || []) {
+    const pick = Array.isArray(audit.picks) ? audit.picks[0] : audit.picks;
+    if (pick?.user_id) {
+      userIds.add(pick.user_id);
+    }
+  }
+
+  let failed = false;
+  if (game?.season_id) {
+    for (const userId of userIds) {
+      try {
+        await recalculateUserSeasonStats(userId, game.season_id);
+      } catch (error) {
+        failed = true;
+        console.error(`Failed to recalculate stats for user ${userId}:`, error);
+      }
+    }
+  }
+
+  if (failed) {
+    return false;
+  }
+
+  const { error: updateError } = await supabaseAdmin
+    .from(table)
+    .update({ stats_updated_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (updateError) {
+    console.error(`Failed to mark ${table} row ${id} finished:`, updateError);
+    return false;
+  }
+
+  return true;
+}
+
+export async function finishScoringEvent(scoringEventId: number): Promise<boolean> {
+  return finishScoringRecord('event', scoringEventId);
+}
+
+export async function finishScoreCorrection(scoreCorrectionId: number): Promise<boolean> {
+  return finishScoringRecord('correction', scoreCorrectionId);
+}
+
+/**
+ * Finish scoring events and score corrections whose stats recalculation never
+ * completed, such as when a previous run crashed right after its transaction
+ * committed
+ */
+async function finishPendingRecords(kind: keyof typeof SCORING_RECORDS): Promise<number> {
+  const { table } = SCORING_RECORDS[kind];
+
+  let query = supabaseAdmin
+    .from(table)
+    .select('id')
+    .is('stats_updated_at', null)
+    .not('game_id', 'is', null);
+
+  // Failed scoring attempts never changed any picks
+  if (kind === 'event') {
+    query = query.is('error_message', null);
+  }
+
+  const { data: records, error } = await query.order('id', { ascending: true });
+
+  if (error) {
+    console.error(`Failed to load pending ${table} rows:`, error);
+    return 0;
+  }
+
+  let finished = 0;
+  for (const record of records || []) {
+    if (await finishScoringRecord(kind, record.id)) {
+      finished++;
+    }
+  }
+
+  return finished;
+}
+
+export async function finishPendingScoringEvents(): Promise<number> {
+  return finishPendingRecords('event');
+}
+
+export async function finishPendingScoreCorrections(): Promise<number> {
+  return finishPendingRecords('correction');
+}
@@ -0,0 +1,197 @@
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import { ScoringCalculator, getLeagueScoringRules, recalculateUserSeasonStats } from '@/lib/scoring';
+import { settleParlay } from '@/lib/parlay-scoring';
+import { getLeaguePickRules } from '@/lib/pick-rules';
+import { getSeasonLeagueFormat } from '@/lib/league-format';
+
+/**
+ * Picks on games that won't be played as scheduled. /api/cron/sync-game-status
+ * calls these when ESPN cancels a game or moves its kickoff:
+ *
+ * - cancelled: open straight picks are voided, or refunded in leagues whose
+ *   cancelled_game_policy is 'refund', and open parlay legs are voided
+ * - rescheduled: picks and parlays made at or after the new kickoff would have
+ *   been locked out, so they are voided
+ *
+ * void_game_picks writes the picks, legs and pick_scoring_audit rows together.
+ * Parlays with a voided leg are then settled and season stats recalculated.
+ */
+
+export interface VoidedPicksSummary {
+  game_id: number;
+  picks_voided: number;
+  picks_refunded: number;
+  legs_voided: number;
+  parlays_settled: number;
+}
+
+interface OpenPickRow {
+  id: number;
+  user_id: string;
+  season_id: number;
+  created_at: string;
+}
+
+interface OpenLegRow {
+  id: number;
+  pick_id: number;
+  picks: OpenPickRow;
+}
+
+/**
+ * League settings for the seasons picks belong to, looked up once per season
+ */
+async function getSeasonLeagues(seasonIds: number[]) {
+  const leagues = new Map<number, { leagueId: number; refunds: boolean }>();
+
+  for (const seasonId of new Set(seasonIds)) {
+    const format = await getSeasonLeagueFormat(seasonId);
+    if (!format) continue;
+
+    // Cancelled game policies are a weekly-league pick rule
+    const refunds = format.format === 'weekly' &&
+      (await getLeaguePickRules(format.league_id)).cancelled_game_policy === 'refund';
+
+    leagues.set(seasonId, { leagueId: format.league_id, refunds });
+  }
+
+  return leagues;
+}
+
+async function voidGamePicks(
+  gameId: number,
+  source: 'cancelled_game' | 'rescheduled_game',
+  explanation: string,
+  picks: OpenPickRow[],
+  legs: OpenLegRow[]
+): Promise<VoidedPicksSummary> {
+  const summary: VoidedPicksSummary = {
+    game_id: gameId,
+    picks_voided: 0,
+    picks_refunded: 0,
+    legs_voided: 0,
+    parlays_settled: 0
+  };
+
+  if (picks.length === 0 && legs.length === 0) {
+    return summary;
+  }
+
+  const seasonLeagues = await getSeasonLeagues([
+    ...picks.map(pick => pick.season_id),
+    ...legs.map(leg => leg.picks.season_id)
+  ]);
+
+  // Only cancellations are refunded; late picks on a rescheduled game shouldn't have been made
+  const refundIds = source === 'cancelled_game'
+    ? picks.filter(pick => seasonLeagues.get(pick.season_id)?.refunds).map(pick => pick.id)
+    : [];
+  const voidIds = picks.map(pick => pick.id).filter(id => !refundIds.includes(id));
+
+  const { data, error } = await supabaseAdmin.rpc('void_game_picks', {
+    p_game_id: gameId,
+    p_source: source,
+    p_explanation: explanation,
+    p_pick_ids: voidIds,
+    p_refund_pick_ids: refundIds,
+    p_leg_ids: legs.map(leg => leg.id)
+  });
+
+  if (error) {
+    throw new Error(`Failed to void picks on game ${gameId}: ${error.message}`);
+  }
+
+  summary.picks_voided = data?.picks_voided ?? 0;
+  summary.picks_refunded = refundIds.length;
+  summary.legs_voided = data?.legs_voided ?? 0;
+
+  const affected = new Map<string, number>();
+  for (const pick of picks) {
+    affected.set(pick.user_id, pick.season_id);
+  }
+
+  // A voided leg can finish a parlay whose other legs were already graded
+  const calculators = new Map<number, ScoringCalculator>();
+  for (const parlay of new Map(legs.map(leg => [leg.pick_id, leg.picks])).values()) {
+    const leagueId = seasonLeagues.get(parlay.season_id)?.leagueId || 1;
+    let calculator = calculators.get(leagueId);
+    if (!calculator) {
+      calculator = new ScoringCalculator(await getLeagueScoringRules(leagueId));
+      calculators.set(leagueId, calculator);
+    }
+
+    const settled = await settleParlay(parlay.id, calculator);
+    if (settled) {
+      summary.parlays_settled++;
+      affected.set(parlay.user_id, parlay.season_id);
+    }
+  }
+
+  for (const [userId, seasonId] of affected) {
+    try {
+      await recalculateUserSeasonStats(userId, seasonId);
+    } catch (statsError) {
+      console.error(`Failed to recalculate stats for user ${userId}:`, statsError);
+    }
+  }
+
+  return summary;
+}
+
+async function getOpenPicks(gameId: number): Promise<{ picks: OpenPickRow[]; legs: OpenLegRow[] }> {
+  const { data: picks, error: picksError } = await supabaseAdmin
+    .from('picks')
+    .select('id, user_id, season_id, created_at')
+    .eq('game_id', gameId)
+    .eq('pick_type', 'straight')
+    .is('result', null);
+
+  if (picksError) {
+    throw new Error(`Failed to load picks for game ${gameId}: ${picksError.message}`);
+  }
+
+  const { data: legs, error: legsError } = await supabaseAdmin
+    .from('pick_legs')
+    .select('id, pick_id, picks!inner(id, user_id, season_id, created_at)')
+    .eq('game_id', gameId)
+    .is('result', null);
+
+  if (legsError) {
+    throw new Error(`Failed to load parlay legs for game ${gameId}: ${legsError.message}`);
+  }
+
+  return {
+    picks: (picks || []) as OpenPickRow[],
+    legs: ((legs || []) as unknown as Array<OpenLegRow & { picks: OpenPickRow | OpenPickRow[] }>).map(leg => ({
+      ...leg,
+      picks: Array.isArray(leg.picks) ? leg.picks[0] : leg.picks
+    }))
+  };
+}
+
+/**
+ * Void (or refund) every open pick and parlay leg on a cancelled game
+ */
+export async function voidCancelledGamePicks(gameId: number): Promise<VoidedPicksSummary> {
+  const { picks, legs } = await getOpenPicks(gameId);
+
+  return voidGamePicks(gameId, 'cancelled_game', 'Game cancelled', picks, legs);
+}
+
+/**
+ * Re-check picks on a game whose kickoff moved. Anything made at or after the
+ * new kickoff is voided; earlier picks stand.
+ */
+export async function voidPicksAfterKickoff(gameId: number, startTime: string): Promise<VoidedPicksSummary> {
+  const { picks, legs } = await getOpenPicks(gameId);
+  const kickoff = new Date(startTime).getTime();
+  const madeLate = (pick: OpenPickRow) => new Date(pick.created_at).getTime() >= kickoff;
+
+  return voidGamePicks(
+    gameId,
+    'rescheduled_game',
+    `Game rescheduled; pick made after the new kickoff (${startTime})`,
+    picks.filter(madeLate),
+    legs.filter(leg => madeLate(leg.picks))
+  );
+}
@@ -0,0 +1,117 @@
+import { supabaseAdmin } from './supabase-admin';
+
+/**
+ * How a league plays its season. 'weekly' is the original pick-and-score
+ * format; the others swap in their own pick rules and standings.
+ */
+export type LeagueFormat = 'weekly' | 'survivor' | 'confidence';
+
+export const LEAGUE_FORMATS: LeagueFormat[] = ['weekly', 'survivor', 'confidence'];
+
+// How a survivor pick on a tied game counts
+export type SurvivorTieRule = 'loss' | 'win';
+
+export const SURVIVOR_TIE_RULES: SurvivorTieRule[] = ['loss', 'win'];
+
+export const MAX_SURVIVOR_STRIKES = 5;
+
+// Which market confidence pool picks are graded on
+export type ConfidenceBetType = 'moneyline' | 'spread';
+
+export const CONFIDENCE_BET_TYPES: ConfidenceBetType[] = ['moneyline', 'spread'];
+
+export interface SurvivorSettings {
+  // Losses a member can take before they are eliminated
+  strikes_allowed: number;
+  tie_rule: SurvivorTieRule;
+}
+
+export interface ConfidenceSettings {
+  bet_type: ConfidenceBetType;
+}
+
+export interface LeagueFormatSettings {
+  format: LeagueFormat;
+  survivor: SurvivorSettings;
+  confidence: ConfidenceSettings;
+}
+
+export const DEFAULT_SURVIVOR_SETTINGS: SurvivorSettings = {
+  strikes_allowed: 1,
+  tie_rule: 'loss'
+};
+
+export function isLeagueFormat(value: unknown): value is LeagueFormat {
+  return typeof value === 'string' && (LEAGUE_FORMATS as string[]).includes(value);
+}
+
+/**
+ * Validate the format fields of a league create request
+ */
+export function validateLeagueFormatSettings(input: {
+  format?: unknown;
+  survivor_strikes?: unknown;
+  survivor_tie_rule?: unknown;
+  confidence_bet_type?: unknown;
+}): { isValid: boolean; errorMessage?: string } {
+  if (input.format !== undefined && !isLeagueFormat(input.format)) {
+    return { isValid: false, errorMessage: `Format must be one of: ${LEAGUE_FORMATS.join(', ')}` };
+  }
+
+  if (input.survivor_strikes !== undefined) {
+    const strikes = Number(input.survivor_strikes);
+    if (!Number.isInteger(strikes) || strikes < 1 || strikes > MAX_SURVIVOR_STRIKES) {
+      return { isValid: false, errorMessage: `Survivor strikes must be between 1 and ${MAX_SURVIVOR_STRIKES}` };
+    }
+  }
+
+  if (input.survivor_tie_rule !== undefined && !(SURVIVOR_TIE_RULES as unknown[]).includes(input.survivor_tie_rule)) {
+    return { isValid: false, errorMessage: `Survivor tie rule must be one of: ${SURVIVOR_TIE_RULES.join(', ')}` };
+  }
+
+  if (input.confidence_bet_type !== undefined && !(CONFIDENCE_BET_TYPES as unknown[]).includes(input.confidence_bet_type)) {
+    return { isValid: false, errorMessage: `Confidence bet type must be one of: ${CONFIDENCE_BET_TYPES.join(', ')}` };
+  }
+
+  return { isValid: true };
+}
+
+export function toLeagueFormatSettings(league: {
+  format?: string | null;
+  survivor_strikes?: number | null;
+  survivor_tie_rule?: string | null;
+  confidence_bet_type?: string | null;
+}): LeagueFormatSettings {
+  return {
+    format: isLeagueFormat(league.format) ? league.format : 'weekly',
+    survivor: {
+      strikes_allowed: league.survivor_strikes ?? DEFAULT_SURVIVOR_SETTINGS.strikes_allowed,
+      tie_rule: league.survivor_tie_rule === 'win' ? 'win' : DEFAULT_SURVIVOR_SETTINGS.tie_rule
+    },
+    confidence: {
+      bet_type: league.confidence_bet_type === 'spread' ? 'spread' : 'moneyline'
+    }
+  };
+}
+
+/**
+ * Format settings for the league a season belongs to
+ */
+export async function getSeasonLeagueFormat(seasonId: number | string): Promise<LeagueFormatSettings & { league_id: number } | null> {
+  const { data: season, error } = await supabaseAdmin
+    .from('seasons')
+    .select('league_id, leagues!inner(format, survivor_strikes, survivor_tie_rule, confidence_bet_type)')
+    .eq('id', seasonId)
+    .single();
+
+  if (error || !season) {
+    return null;
+  }
+
+  const league = Array.isArray(season.leagues) ? season.leagues[0] : season.leagues;
+
+  return {
+    league_id: season.league_id,
+    ...toLeagueFormatSettings(league || {})
+  };
+}
@@ -0,0 +1,245 @@
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import { getImpliedProbability, getSelectionPrice, getSelectionPoint, type OddsLine } from '@/lib/odds';
+import { formatSelectionLabel, type PickSelection } from '@/lib/selection';
+
+// How far the market may move between the user seeing a line and submitting it.
+// Prices are compared as implied probability, since the same move in American
+// odds means much less on a long shot (+300 to +320) than near even money.
+export const LINE_POINT_TOLERANCE = 0.5;
+export const LINE_PRICE_TOLERANCE = 0.03;
+
+export interface LineLock {
+  odds_snapshot_id: number | null;
+  locked_sportsbook: string | null;
+  locked_point: number | null;
+  odds_price: number | null;
+  locked_at: string;
+  // Player props only: what the prop was on, since player_props rows are replaced on sync
+  prop_athlete_id?: string;
+  prop_market_key?: string;
+}
+
+export interface LineLockRequest {
+  gameId: number;
+  selection: PickSelection;
+  sportsbook?: string | null;
+  expectedPoint?: number | null;
+  expectedPrice?: number | null;
+}
+
+export interface CurrentLine {
+  sportsbook: string | null;
+  point: number | null;
+  price: number | null;
+}
+
+// On success the selection is returned with the locked line and prop details filled in
+export type LineLockResult =
+  | { success: true; lock: LineLock; selection: PickSelection; label: string }
+  | { success: false; error: string; currentLine: CurrentLine | null };
+
+interface OddsRow extends OddsLine {
+  sportsbook: string;
+  last_update: string;
+}
+
+/**
+ * Resolve the line a selection is being taken at and check it against what the
+ * user saw. Fails when the current market has moved beyond the tolerance.
+ */
+export async function lockLine(request: LineLockRequest): Promise<LineLockResult> {
+  const lockedAt = new Date().toISOString();
+
+  const { selection } = request;
+
+  if (selection.market === 'player_prop') {
+    return lockPlayerPropLine(request, lockedAt);
+  }
+
+  const { data: game, error: gameError } = await supabaseAdmin
+    .from('games')
+    .select(`
+      home_team:teams!games_home_team_id_fkey(name, abbreviation),
+      away_team:teams!games_away_team_id_fkey(name, abbreviation),
+      odds(
+        sportsbook,
+        last_update,
+        moneyline_home,
+        moneyline_away,
+        spread_home,
+        spread_away,
+        spread_home_price,
+        spread_away_price,
+        total_over,
+        total_under,
+        total_over_price,
+        total_under_price
+      ),
+      period_odds(
+        period,
+        sportsbook,
+        last_update,
+        moneyline_home,
+        moneyline_away,
+        spread_home,
+        spread_away,
+        spread_home_price,
+        spread_away_price,
+        total_over,
+        total_under,
+        total_over_price,
+        total_under_price
+      )
+    `)
+    .eq('id', request.gameId)
+    .single();
+
+  if (gameError || !game) {
+    return { success: false, error: 'Game not found', currentLine: null };
+  }
+
+  // Half and quarter selections are taken at that period's line
+  const oddsRows = selection.period
+    ? ((game.period_odds || []) as Array<OddsRow & { period: string }>).filter(row => row.period === selection.period)
+    : (game.odds || []) as OddsRow[];
+  const homeTeam = Array.isArray(game.home_team) ? game.home_team[0] : game.home_team;
+  const awayTeam = Array.isArray(game.away_team) ? game.away_team[0] : game.away_team;
+
+  // Use the requested book, otherwise the most recently updated one
+  const oddsRow = request.sportsbook
+    ? oddsRows.find(row => row.sportsbook === request.sportsbook)
+    : [...oddsRows].sort((a, b) =>
+        new Date(b.last_update).getTime() - new Date(a.last_update).getTime()
+      )[0];
+
+  const teams = homeTeam && awayTeam ? { home: homeTeam, away: awayTeam } : null;
+
+  if (!oddsRow) {
+    // Full-game moneylines were always pickable without a posted price; points and periods are not
+    if (selection.market === 'moneyline' && !selection.period) {
+      return {
+        success: true,
+        lock: { odds_snapshot_id: null, locked_sportsbook: null, locked_point: null, odds_price: null, locked_at: lockedAt },
+        selection,
+        label: formatSelectionLabel(selection, teams)
+      };
+    }
+    return { success: false, error: 'No current line is available for this market', currentLine: null };
+  }
+
+  const currentPoint = getSelectionPoint(oddsRow, selection.market, selection.side);
+  const currentPrice = getSelectionPrice(oddsRow, selection.market, selection.side);
+  const currentLine: CurrentLine = { sportsbook: oddsRow.sportsbook, point: currentPoint, price: currentPrice };
+
+  if (selection.market !== 'moneyline') {
+    if (currentPoint === null) {
+      return { success: false, error: 'No current line is available for this market', currentLine };
+    }
+
+    const expectedPoint = request.expectedPoint ?? selection.line;
+    if (expectedPoint !== null && Math.abs(expectedPoint - currentPoint) > LINE_POINT_TOLERANCE) {
+      return { success: false, error: `The line has moved from ${expectedPoint} to ${currentPoint}`, currentLine };
+    }
+  }
+
+  const priceMismatch = lineFailsPriceTolerance(request.expectedPrice, currentPrice);
+  if (priceMismatch) {
+    return { success: false, error: priceMismatch, currentLine };
+  }
+
+  // Only full-game lines have a snapshot history
+  const snapshotId = selection.period ? null : await getLatestSnapshotId(request.gameId, oddsRow.sportsbook);
+  const lockedSelection = { ...selection, line: currentPoint };
+
+  return {
+    success: true,
+    lock: {
+      odds_snapshot_id: snapshotId,
+      locked_sportsbook: oddsRow.sportsbook,
+      locked_point: currentPoint,
+      odds_price: currentPrice,
+      locked_at: lockedAt
+    },
+    selection: lockedSelection,
+    label: formatSelectionLabel(lockedSelection, teams)
+  };
+}
+
+async function lockPlayerPropLine(request: LineLockRequest, lockedAt: string): Promise<LineLockResult> {
+  const { selection } = request;
+
+  if (!selection.player_prop_id) {
+    return { success: false, error: 'Player prop picks require a player_prop_id', currentLine: null };
+  }
+
+  const { data: prop } = await supabaseAdmin
+    .from('player_props')
+    .select('game_id, athlete_id, athlete_name, market_key, sportsbook, point, over_price, under_price')
+    .eq('id', selection.player_prop_id)
+    .single();
+
+  if (!prop || prop.game_id !== request.gameId) {
+    return { success: false, error: 'Player prop is no longer available', currentLine: null };
+  }
+
+  const currentPrice = selection.side === 'under' ? prop.under_price : prop.over_price;
+  const currentLine: CurrentLine = { sportsbook: prop.sportsbook, point: prop.point, price: currentPrice };
+
+  const expectedPoint = request.expectedPoint ?? selection.line;
+  if (expectedPoint != null && prop.point != null &&
+      Math.abs(expectedPoint - prop.point) > LINE_POINT_TOLERANCE) {
+    return { success: false, error: `The line has moved from ${expectedPoint} to ${prop.point}`, currentLine };
+  }
+
+  const priceMismatch = lineFailsPriceTolerance(request.expectedPrice, currentPrice);
+  if (priceMismatch) {
+    return { success: false, error: priceMismatch, currentLine };
+  }
+
+  const lockedSelection: PickSelection = {
+    ...selection,
+    line: prop.point ?? null,
+    athlete_id: prop.athlete_id,
+    prop_market: prop.market_key
+  };
+
+  return {
+    success: true,
+    lock: {
+      odds_snapshot_id: null,
+      locked_sportsbook: prop.sportsbook,
+      locked_point: prop.point,
+      odds_price: currentPrice,
+      locked_at: lockedAt,
+      prop_athlete_id: prop.athlete_id,
+      prop_market_key: prop.market_key
+    },
+    selection: lockedSelection,
+    label: formatSelectionLabel(lockedSelection, null, prop.athlete_name)
+  };
+}
+
+function lineFailsPriceTolerance(expectedPrice: number | null | undefined, currentPrice: number | null): string | null {
+  if (expectedPrice == null || currentPrice == null) {
+    return null;
+  }
+  const expectedProbability = getImpliedProbability(expectedPrice) as number;
+  const currentProbability = getImpliedProbability(currentPrice) as number;
+  if (Math.abs(expectedProbability - currentProbability) > LINE_PRICE_TOLERANCE) {
+    return `The price has moved from ${expectedPrice} to ${currentPrice}`;
+  }
+  return null;
+}
+
+async function getLatestSnapshotId(gameId: number, sportsbook: string): Promise<number | null> {
+  const { data: snapshot } = await supabaseAdmin
+    .from('odds_snapshots')
+    .select('id')
+    .eq('game_id', gameId)
+    .eq('sportsbook', sportsbook)
+    .order('captured_at', { ascending: false })
+    .limit(1)
+    .single();
+
+  return snapshot?.id ?? null;
+}
@@ -0,0 +1,189 @@
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import { ScoringCalculator, getLeagueScoringRules, type LivePickStatus } from '@/lib/scoring';
+import { MARKET_STAT_MAPPING, getPropMargin } from '@/lib/player-prop-scoring';
+import { formatPropMarket, type PickSelection } from '@/lib/selection';
+
+/**
+ * Provisional status of open picks on games in progress, for the live pick
+ * tracker in LeaguePicksDisplay. Game lines are graded by ScoringCalculator
+ * against the scores /api/cron/sync-live-scores writes; player props against
+ * the in-game box score it stores in player_game_stats. Nothing is written.
+ */
+
+export interface LiveGame {
+  id: number;
+  status: string;
+  home_score: number | null;
+  away_score: number | null;
+  home_linescores?: number[] | null;
+  away_linescores?: number[] | null;
+}
+
+export interface LiveSelection {
+  bet_type: string;
+  selection: string;
+  selection_data?: PickSelection | null;
+  locked_point?: number | null;
+  prop_athlete_id?: string | null;
+  prop_market_key?: string | null;
+  result: string | null;
+  games: LiveGame;
+}
+
+const isOpenOnLiveGame = (selection: LiveSelection) =>
+  selection.result === null && selection.games?.status === 'live';
+
+/**
+ * Athlete and market of a prop selection, from the structured selection when there is one
+ */
+const getPropTarget = (selection: LiveSelection) => {
+  const athleteId = selection.selection_data?.athlete_id ?? selection.prop_athlete_id;
+  const marketKey = selection.selection_data?.prop_market ?? selection.prop_market_key;
+  return athleteId && marketKey ? { athleteId, marketKey } : null;
+};
+
+/**
+ * In-game stats for the athletes on open prop selections, keyed by
+ * game, athlete and stat. Games without a box score yet aren't listed.
+ */
+async function getLivePropStats(selections: LiveSelection[]) {
+  const propSelections = selections.filter(selection =>
+    selection.bet_type === 'player_prop' && isOpenOnLiveGame(selection)
+  );
+  const gameIds = [...new Set(propSelections.map(selection => selection.games.id))];
+  const stats = new Map<string, number>();
+  const gamesWithStats = new Set<number>();
+
+  if (gameIds.length === 0) {
+    return { stats, gamesWithStats };
+  }
+
+  const athleteIds = [...new Set(propSelections
+    .map(selection => getPropTarget(selection)?.athleteId)
+    .filter((athleteId): athleteId is string => !!athleteId))];
+
+  const { data, error } = await supabaseAdmin
+    .from('player_game_stats')
+    .select('game_id, athlete_id, stat_key, value')
+    .in('game_id', gameIds);
+
+  if (error) {
+    console.error('Failed to load live player stats:', error);
+    return { stats, gamesWithStats };
+  }
+
+  for (const row of data || []) {
+    gamesWithStats.add(row.game_id);
+    if (athleteIds.includes(row.athlete_id)) {
+      stats.set(`${row.game_id}:${row.athlete_id}:${row.stat_key}`, Number(row.value));
+    }
+  }
+
+  return { stats, gamesWithStats };
+}
+
+/**
+ * Load what's needed to grade a league's open picks on live games, and return
+ * a function giving each pick or parlay leg its provisional status (null when
+ * the pick is settled, its game isn't live or there's nothing to grade yet).
+ */
+export async function createLivePickTracker(
+  leagueId: number,
+  selections: LiveSelection[]
+): Promise<(selection: LiveSelection) => LivePickStatus | null> {
+  if (!selections.some(isOpenOnLiveGame)) {
+    return () => null;
+  }
+
+  const calculator = new ScoringCalculator(await getLeagueScoringRules(leagueId));
+  const { stats, gamesWithStats } = await getLivePropStats(selections);
+
+  return (selection: LiveSelection) => {
+    if (!isOpenOnLiveGame(selection)) {
+      return null;
+    }
+
+    if (selection.bet_type === 'player_prop') {
+      return getLivePropStatus(selection, stats, gamesWithStats);
+    }
+
+    const { games: game } = selection;
+    if (game.home_score === null || game.away_score === null) {
+      return null;
+    }
+
+    return calculator.calculateLivePick(
+      {
+        id: 0,
+        user_id: '',
+        game_id: game.id,
+        bet_type: selection.bet_type,
+        selection: selection.selection,
+        selection_data: selection.selection_data,
+        locked_point: selection.locked_point,
+        result: null,
+        points_awarded: 0,
+        week: 0
+      },
+      {
+        home_score: game.home_score,
+        away_score: game.away_score,
+        status: game.status,
+        home_linescores: game.home_linescores,
+        away_linescores: game.away_linescores
+      }
+    );
+  };
+}
+
+function getLivePropStatus(
+  selection: LiveSelection,
+  stats: Map<string, number>,
+  gamesWithStats: Set<number>
+): LivePickStatus | null {
+  const target = getPropTarget(selection);
+  const statKey = target ? MARKET_STAT_MAPPING[target.marketKey] : undefined;
+  const side = selection.selection_data?.side;
+
+  if (!target || !statKey || (side !== 'over' && side !== 'under') || !gamesWithStats.has(selection.games.id)) {
+    return null;
+  }
+
+  // Athletes only appear in the box score once they've recorded a stat
+  const actualValue = stats.get(`${selection.games.id}:${target.athleteId}:${statKey}`) ?? 0;
+  const line = selection.locked_point ?? selection.selection_data?.line ?? null;
+  const margin = getPropMargin(side, line != null ? Number(line) : null, actualValue);
+
+  return {
+    result: margin > 0 ? 'win' : margin < 0 ? 'loss' : 'push',
+    margin,
+    explanation: `${actualValue} ${formatPropMarket(target.marketKey)}`
+  };
+}
+
+/**
+ * True when a game has ungraded player prop picks or parlay legs, so its
+ * box score is worth refreshing while it's being played
+ */
+export async function hasOpenPlayerProps(gameId: number): Promise<boolean> {
+  const [{ count: pickCount, error: picksError }, { count: legCount, error: legsError }] = await Promise.all([
+    supabaseAdmin
+      .from('picks')
+      .select('id', { count: 'exact', head: true })
+      .eq('game_id', gameId)
+      .eq('bet_type', 'player_prop')
+      .is('result', null),
+    supabaseAdmin
+      .from('pick_legs')
+      .select('id', { count: 'exact', head: true })
+      .eq('game_id', gameId)
+      .eq('bet_type', 'player_prop')
+      .is('result', null)
+  ]);
+
+  if (picksError || legsError) {
+    throw new Error(`Failed to check prop picks for game ${gameId}: ${(picksError || legsError)?.message}`);
+  }
+
+  return (pickCount ?? 0) + (legCount ?? 0) > 0;
+}
@@ -1,65 +1,352 @@
+import { supabaseAdmin } from './supabase-admin';
+
+const ESPN_API_BASE = 'https://site.api.espn.com/apis/site/v2/sports/football/nfl';
+
+/**
+ * ESPN season types. Week numbers restart in each part of the season, so a
+ * week is only identified by (season_year, season_type, week).
+ */
+export const SEASON_TYPES = {
+  PRESEASON: 1,
+  REGULAR_SEASON: 2,
+  POSTSEASON: 3
+} as const;
+
+export type NFLSeasonType = typeof SEASON_TYPES[keyof typeof SEASON_TYPES];
+
+/**
+ * One week of the NFL calendar, as stored in nfl_weeks
+ */
+export interface NFLWeek {
+  season_year: number;
+  season_type: NFLSeasonType;
+  week: number;
+  label: string;
+  start_date: string;
+  end_date: string;
+  bye_teams: string[];
+}
+
+export interface NFLWeekRef {
+  season_year: number;
+  season_type: NFLSeasonType;
+  week: number;
+}
+
+interface ESPNCalendarEntry {
+  label: string;
+  alternateLabel?: string;
+  detail?: string;
+  value: string;
+  startDate: string;
+  endDate: string;
+}
+
+interface ESPNCalendarSection {
+  label: string;
+  value: string;
+  startDate: string;
+  endDate: string;
+  entries?: ESPNCalendarEntry[];
+}
+
+interface ESPNCalendarResponse {
+  leagues?: Array<{
+    calendar?: ESPNCalendarSection[];
+  }>;
+  season?: {
+    year: number;
+  };
+}
+
+const NFL_WEEK_COLUMNS = 'season_year, season_type, week, label, start_date, end_date, bye_teams';
+
+export function isNFLSeasonType(value: number): value is NFLSeasonType {
+  return (Object.values(SEASON_TYPES) as number[]).includes(value);
+}
+
+/**
+ * Fetch the week calendar (preseason, regular season and postseason) that ESPN
+ * publishes on its scoreboard. Omitting the year returns ESPN's current season.
+ */
+export async function fetchESPNCalendar(seasonYear?: number): Promise<NFLWeek[]> {
+  const params = new URLSearchParams({ seasontype: String(SEASON_TYPES.REGULAR_SEASON), week: '1' });
+  if (seasonYear) {
+    params.set('dates', String(seasonYear));
+  }
+
+  const response = await fetch(`${ESPN_API_BASE}/scoreboard?${params}`, {
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (compatible; ParlayChallenge/1.0)',
+    },
+    signal: AbortSignal.timeout(10000),
+  });
+
+  if (!response.ok) {
+    throw new Error(`ESPN API error: ${response.status} ${response.statusText}`);
+  }
+
+  const data: ESPNCalendarResponse = await response.json();
+  const year = data.season?.year ?? seasonYear;
+  const sections = data.leagues?.[0]?.calendar || [];
+
+  if (!year || sections.length === 0) {
+    throw new Error('ESPN scoreboard did not include a season calendar');
+  }
+
+  const weeks: NFLWeek[] = [];
+  for (const section of sections) {
+    const seasonType = parseInt(section.value);
+    // ESPN also lists the off season (type 4), which has no games
+    if (!isNFLSeasonType(seasonType)) continue;
+
+    for (const entry of section.entries || []) {
+      weeks.push({
+        season_year: year,
+        season_type: seasonType,
+        week: parseInt(entry.value),
+        label: entry.label,
+        start_date: entry.startDate,
+        end_date: entry.endDate,
+        bye_teams: []
+      });
+    }
+  }
+
+  return weeks;
+}
+
+/**
+ * Store a season calendar in nfl_weeks. Bye teams are keyed by regular-season
+ * week and come from the weekly scoreboards the season ingestion already fetches.
+ */
+export async function saveNFLCalendar(
+  weeks: NFLWeek[],
+  byeTeams: Record<number, string[]> = {}
+): Promise<NFLWeek[]> {
+  const updatedAt = new Date().toISOString();
+
+  const rows = weeks.map(week => ({
+    ...week,
+    bye_teams: week.season_type === SEASON_TYPES.REGULAR_SEASON ? byeTeams[week.week] || [] : [],
+    updated_at: updatedAt
+  }));
+
+  const { error } = await supabaseAdmin
+    .from('nfl_weeks')
+    .upsert(rows, { onConflict: 'season_year,season_type,week' });
+
+  if (error) {
+    throw new Error(`Failed to save NFL calendar: ${error.message}`);
+  }
+
+  return rows;
+}
+
+/**
+ * The calendar week containing a date, or null if it falls outside every
+ * synced week (the off season, or the calendar hasn't been ingested)
+ */
+export async function getNFLWeekForDate(date: Date | string): Promise<NFLWeek | null> {
+  const timestamp = new Date(date).toISOString();
+
+  const { data, error } = await supabaseAdmin
+    .from('nfl_weeks')
+    .select(NFL_WEEK_COLUMNS)
+    .lte('start_date', timestamp)
+    .gte('end_date', timestamp)
+    .order('start_date', { ascending: false })
+    .limit(1)
+    .single();
+
+  if (error && error.code !== 'PGRST116') {
+    throw new Error(`Failed to look up NFL week: ${error.message}`);
+  }
+
+  return data as NFLWeek | null;
+}
+
 /**
- * Calculate the current NFL week based on the date
- * NFL season typically starts in early September and runs 18 weeks
+ * The week in progress. Between weeks or in the off season this is the next
+ * week to be played, and after the last synced week it is that final week.
+ * Returns null only when the calendar has never been synced.
  */
+export async function getCurrentNFLWeek(now: Date = new Date()): Promise<NFLWeek | null> {
+  const current = await getNFLWeekForDate(now);
+  if (current) {
+    return current;
+  }
 
-export function getCurrentNFLWeek(): number {
-  const now = new Date();
-  const currentYear = now.getFullYear();
+  const { data: upcoming } = await supabaseAdmin
+    .from('nfl_weeks')
+    .select(NFL_WEEK_COLUMNS)
+    .gt('start_date', now.toISOString())
+    .order('start_date', { ascending: true })
+    .limit(1)
+    .single();
 
-  // NFL season start dates (Week 1 typically starts first Thursday of September)
-  // 2024: September 5th, 2025: September 4th
-  let seasonStartDay = 5; // Default September 5th
-  if (currentYear === 2025) {
-    seasonStartDay = 4; // September 4th, 2025
+  if (upcoming) {
+    return upcoming as NFLWeek;
   }
 
-  const seasonStart = new Date(currentYear, 8, seasonStartDay); // September (month is 0-indexed)
+  const { data: latest } = await supabaseAdmin
+    .from('nfl_weeks')
+    .select(NFL_WEEK_COLUMNS)
+    .order('end_date', { ascending: false })
+    .limit(1)
+    .single();
+
+  return (latest as NFLWeek | null) ?? null;
+}
+
+export async function getNFLWeek(
+  seasonYear: number,
+  seasonType: NFLSeasonType,
+  week: number
+): Promise<NFLWeek | null> {
+  const { data, error } = await supabaseAdmin
+    .from('nfl_weeks')
+    .select(NFL_WEEK_COLUMNS)
+    .eq('season_year', seasonYear)
+    .eq('season_type', seasonType)
+    .eq('week', week)
+    .single();
 
-  // If we're before the season start, we're in preseason or previous season
-  if (now < seasonStart) {
-    return 1; // Default to week 1
+  if (error && error.code !== 'PGRST116') {
+    throw new Error(`Failed to look up NFL week: ${error.message}`);
   }
 
-  // Calculate days since season start
-  const daysSinceStart = Math.floor((now.getTime() - seasonStart.getTime()) / (1000 * 60 * 60 * 24));
+  return data as NFLWeek | null;
+}
+
+/**
+ * The week that follows another, crossing into the next season type if needed
+ */
+export async function getNextNFLWeek(week: NFLWeek): Promise<NFLWeek | null> {
+  const { data } = await supabaseAdmin
+    .from('nfl_weeks')
+    .select(NFL_WEEK_COLUMNS)
+    .gt('start_date', week.start_date)
+    .order('start_date', { ascending: true })
+    .limit(1)
+    .single();
+
+  return (data as NFLWeek | null) ?? null;
+}
+
+/**
+ * The week before another, crossing back into the previous season type if needed
+ */
+export async function getPreviousNFLWeek(week: NFLWeek): Promise<NFLWeek | null> {
+  const { data } = await supabaseAdmin
+    .from('nfl_weeks')
+    .select(NFL_WEEK_COLUMNS)
+    .lt('start_date', week.start_date)
+    .order('start_date', { ascending: false })
+    .limit(1)
+    .single();
+
+  return (data as NFLWeek | null) ?? null;
+}
+
+/**
+ * Every week of a season in calendar order, preseason through postseason
+ */
+export async function getNFLSeasonWeeks(seasonYear: number): Promise<NFLWeek[]> {
+  const { data, error } = await supabaseAdmin
+    .from('nfl_weeks')
+    .select(NFL_WEEK_COLUMNS)
+    .eq('season_year', seasonYear)
+    .order('start_date', { ascending: true });
 
-  // Each NFL week is 7 days, starting Tuesday and ending Monday
-  const weekNumber = Math.floor(daysSinceStart / 7) + 1;
+  if (error) {
+    throw new Error(`Failed to fetch NFL calendar: ${error.message}`);
+  }
 
-  // NFL regular season is 18 weeks, then playoffs
-  return Math.min(weekNumber, 18);
+  return (data || []) as NFLWeek[];
 }
 
-export function getNFLWeekDateRange(week: number, year?: number): { start: Date; end: Date } {
-  const currentYear = year || new Date().getFullYear();
+/**
+ * The NFL season year a league season is played in: that of the first
+ * calendar week overlapping the season's dates. Games are filed under the
+ * ingest season rather than the league's, so league seasons find their weeks
+ * through the calendar. Null when the season or its calendar isn't known.
+ */
+export async function getSeasonNFLYear(seasonId: number | string): Promise<number | null> {
+  const { data: season, error: seasonError } = await supabaseAdmin
+    .from('seasons')
+    .select('start_date, end_date')
+    .eq('id', seasonId)
+    .maybeSingle();
+
+  if (seasonError) {
+    throw new Error(`Failed to look up season: ${seasonError.message}`);
+  }
 
-  // Use same logic as getCurrentNFLWeek
-  let seasonStartDay = 5; // Default September 5th
-  if (currentYear === 2025) {
-    seasonStartDay = 4; // September 4th, 2025
+  if (!season?.start_date) {
+    return null;
   }
 
-  const seasonStart = new Date(currentYear, 8, seasonStartDay);
+  let query = supabaseAdmin
+    .from('nfl_weeks')
+    .select('season_year')
+    .gte('end_date', season.start_date);
+
+  if (season.end_date) {
+    query = query.lte('start_date', season.end_date);
+  }
 
-  // Calculate week start (Tuesday)
-  const weekStart = new Date(seasonStart);
-  weekStart.setDate(seasonStart.getDate() + (week - 1) * 7);
+  const { data: week, error: weekError } = await query
+    .order('start_date', { ascending: true })
+    .limit(1)
+    .maybeSingle();
 
-  // Week ends on Monday (6 days later)
-  const weekEnd = new Date(weekStart);
-  weekEnd.setDate(weekStart.getDate() + 6);
-  weekEnd.setHours(23, 59, 59, 999);
+  if (weekError) {
+    throw new Error(`Failed to look up the season's NFL year: ${weekError.message}`);
+  }
 
-  return { start: weekStart, end: weekEnd };
+  return week?.season_year ?? null;
 }
 
-export function isGameInCurrentWeek(gameDate: string): boolean {
-  const currentWeek = getCurrentNFLWeek();
-  const { start } = getNFLWeekDateRange(currentWeek);
-  const { end: nextWeekEnd } = getNFLWeekDateRange(currentWeek + 1);
-  const game = new Date(gameDate);
+/**
+ * Which week a game belongs to. Games ingested from ESPN carry their own week;
+ * anything else is placed by kickoff date.
+ */
+export async function getGameWeek(game: {
+  start_time: string;
+  week?: number | null;
+  season_year?: number | null;
+  season_type?: number | null;
+}): Promise<NFLWeekRef | null> {
+  if (game.week && game.season_year && game.season_type && isNFLSeasonType(game.season_type)) {
+    return { season_year: game.season_year, season_type: game.season_type, week: game.week };
+  }
+
+  const calendarWeek = await getNFLWeekForDate(game.start_time);
+  return calendarWeek
+    ? { season_year: calendarWeek.season_year, season_type: calendarWeek.season_type, week: calendarWeek.week }
+    : null;
+}
+
+/**
+ * Kickoff times of every game in a calendar week, earliest first
+ */
+export async function getNFLWeekKickoffs(week: Pick<NFLWeek, 'start_date' | 'end_date'>): Promise<string[]> {
+  const { data, error } = await supabaseAdmin
+    .from('games')
+    .select('start_time')
+    .gte('start_time', week.start_date)
+    .lte('start_time', week.end_date)
+    .order('start_time', { ascending: true });
 
-  // Show games from current week and next week
-  return game >= start && game <= nextWeekEnd;
-}
\ No newline at end of file
+  if (error) {
+    throw new Error(`Failed to load the week's kickoffs: ${error.message}`);
+  }
+
+  return (data || []).map(game => game.start_time as string);
+}
+
+export function isDateInNFLWeek(date: Date | string, week: Pick<NFLWeek, 'start_date' | 'end_date'>): boolean {
+  const time = new Date(date).getTime();
+  return time >= new Date(week.start_date).getTime() && time <= new Date(week.end_date).getTime();
+}
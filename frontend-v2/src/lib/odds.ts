@@ -0,0 +1,155 @@
+import type { SelectionSide } from '@/lib/selection';
+
+export interface OddsPrices {
+  moneyline_home: number | null;
+  moneyline_away: number | null;
+  spread_home_price: number | null;
+  spread_away_price: number | null;
+  total_over_price: number | null;
+  total_under_price: number | null;
+}
+
+export interface SelectionTeams {
+  home: { name: string; abbreviation?: string };
+  away: { name: string; abbreviation?: string };
+}
+
+/**
+ * Convert American odds to decimal odds (stake included).
+ * +250 -> 3.5, -300 -> 1.333
+ */
+export function americanToDecimal(price: number): number {
+  if (price >= 100) {
+    return 1 + price / 100;
+  }
+  if (price <= -100) {
+    return 1 + 100 / Math.abs(price);
+  }
+  // Prices between -100 and +100 aren't valid American odds; treat as even money
+  return 2;
+}
+
+/**
+ * Profit per unit risked at an American price (+250 -> 2.5, -300 -> 0.333)
+ */
+export function americanToProfitMultiplier(price: number): number {
+  return americanToDecimal(price) - 1;
+}
+
+/**
+ * Chance of winning implied by an American price. With the other side's price
+ * the bookmaker's margin is removed, so the two sides add up to 1.
+ */
+export function getImpliedProbability(price: number | null, opposingPrice: number | null = null): number | null {
+  if (price === null) return null;
+
+  const implied = 1 / americanToDecimal(price);
+  if (opposingPrice === null) return implied;
+
+  return implied / (implied + 1 / americanToDecimal(opposingPrice));
+}
+
+/**
+ * Look up the American price for one side of a game-line market in an odds row
+ */
+export function getSelectionPrice(
+  odds: OddsPrices,
+  betType: string,
+  side: SelectionSide | null
+): number | null {
+  switch (betType) {
+    case 'moneyline':
+      if (side === 'home') return odds.moneyline_home;
+      if (side === 'away') return odds.moneyline_away;
+      return null;
+    case 'spread':
+      if (side === 'home') return odds.spread_home_price;
+      if (side === 'away') return odds.spread_away_price;
+      return null;
+    case 'total':
+      if (side === 'over') return odds.total_over_price;
+      if (side === 'under') return odds.total_under_price;
+      return null;
+    default:
+      return null;
+  }
+}
+
+export function formatAmericanOdds(price: number | null | undefined): string {
+  if (price === null || price === undefined) return '';
+  return price > 0 ? `+${price}` : `${price}`;
+}
+
+export interface OddsLine extends OddsPrices {
+  spread_home: number | null;
+  spread_away: number | null;
+  total_over: number | null;
+  total_under: number | null;
+}
+
+const ODDS_LINE_FIELDS: Array<keyof OddsLine> = [
+  'moneyline_home',
+  'moneyline_away',
+  'spread_home',
+  'spread_away',
+  'spread_home_price',
+  'spread_away_price',
+  'total_over',
+  'total_under',
+  'total_over_price',
+  'total_under_price'
+];
+
+/**
+ * True when any point or price differs between two odds rows.
+ * Used to keep the snapshot history to actual line moves.
+ */
+export function hasLineChanged(previous: Partial<OddsLine> | null, next: OddsLine): boolean {
+  if (!previous) return true;
+
+  // NUMERIC columns can come back as strings, so compare as numbers
+  const normalize = (value: number | null | undefined) => value == null ? null : Number(value);
+  return ODDS_LINE_FIELDS.some(field => normalize(previous[field]) !== normalize(next[field]));
+}
+
+/**
+ * Look up the point (spread or total) for a game-line selection.
+ * Moneylines have no point.
+ */
+export function getSelectionPoint(
+  line: OddsLine,
+  betType: string,
+  side: SelectionSide | null
+): number | null {
+  if (betType === 'spread') {
+    if (side === 'home') return line.spread_home;
+    if (side === 'away') return line.spread_away;
+  }
+  if (betType === 'total') {
+    if (side === 'over') return line.total_over;
+    if (side === 'under') return line.total_under;
+  }
+  return null;
+}
+
+export interface QuotedLine {
+  sportsbook: string;
+  expected_point: number | null;
+  expected_price: number | null;
+}
+
+/**
+ * The line a user is looking at when they make a selection. Sent with the pick
+ * so the server can refuse it if the market has since moved.
+ */
+export function getQuotedLine(
+  odds: OddsLine & { sportsbook: string },
+  betType: string,
+  side: SelectionSide
+): QuotedLine {
+  return {
+    sportsbook: odds.sportsbook,
+    expected_point: getSelectionPoint(odds, betType, side),
+    expected_price: getSelectionPrice(odds, betType, side)
+  };
+}
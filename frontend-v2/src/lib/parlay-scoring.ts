@@ -0,0 +1,91 @@
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import {
+  ScoringCalculator,
+  type GameResult,
+  type LegResult,
+  type Pick,
+  type PickLeg,
+  type PickResult
+} from '@/lib/scoring';
+
+/**
+ * Grade one parlay leg against the final score. Returns null for player prop
+ * legs, which are graded from box scores, and for legs that can't be graded yet.
+ */
+export function gradeParlayLeg(
+  leg: PickLeg & { picks: { user_id: string; week: number } },
+  gameResult: GameResult,
+  calculator: ScoringCalculator
+): PickResult | null {
+  if (leg.bet_type === 'player_prop') {
+    return null;
+  }
+
+  const legAsPick: Pick = {
+    id: leg.id,
+    user_id: leg.picks.user_id,
+    game_id: leg.game_id,
+    bet_type: leg.bet_type,
+    selection: leg.selection,
+    selection_data: leg.selection_data,
+    result: null,
+    points_awarded: 0,
+    week: leg.picks.week,
+    odds_price: leg.odds_price,
+    locked_point: leg.locked_point
+  };
+
+  const legResult = calculator.calculatePick(legAsPick, gameResult);
+  return legResult.result === 'pending' ? null : legResult;
+}
+
+/**
+ * Resolve a parlay pick from its graded legs and write the result back.
+ * Returns null while the parlay is still pending.
+ */
+export async function settleParlay(
+  pickId: number,
+  calculator: ScoringCalculator
+): Promise<{ userId: string; result: string; points: number } | null> {
+  const { data: pick, error: pickError } = await supabaseAdmin
+    .from('picks')
+    .select('id, user_id, result, week, season_type, pick_legs(result, odds_price)')
+    .eq('id', pickId)
+    .eq('pick_type', 'parlay')
+    // An admin override decides the parlay instead of its legs
+    .is('overridden_at', null)
+    .maybeSingle();
+
+  if (pickError) {
+    console.error(`Failed to load parlay ${pickId}:`, pickError);
+    return null;
+  }
+
+  if (!pick) {
+    return null;
+  }
+
+  const legs = (pick.pick_legs || []) as Array<{ result: LegResult | null; odds_price: number | null }>;
+  const parlayResult = calculator.resolveParlay(legs, pick);
+
+  if (parlayResult.result === 'pending') {
+    return null;
+  }
+
+  const { error: updateError } = await supabaseAdmin
+    .from('picks')
+    .update({
+      result: parlayResult.result,
+      points_awarded: parlayResult.points
+    })
+    .eq('id', pickId);
+
+  if (updateError) {
+    console.error(`Failed to settle parlay ${pickId}:`, updateError);
+    return null;
+  }
+
+  console.log(`Parlay ${pickId} -> ${parlayResult.result} (${parlayResult.points} pts) - ${parlayResult.explanation}`);
+
+  return { userId: pick.user_id, result: parlayResult.result, points: parlayResult.points };
+}
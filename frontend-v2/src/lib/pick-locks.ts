@@ -0,0 +1,120 @@
+import type { PickLockMode } from './pick-rules';
+
+/**
+ * When a league's picks lock. Leagues lock each game at kickoff, or the whole
+ * week at once: at the first Sunday kickoff, or at a day and time the
+ * commissioner picks. A game that kicks off before its week locks still locks
+ * at its own kickoff. Shared by the API and the pick screens, so nothing here
+ * touches the database.
+ */
+
+// Commissioner lock times are wall-clock times in the NFL's home time zone
+export const LOCK_TIME_ZONE = 'America/New_York';
+
+export interface PickLockRules {
+  lock_mode: PickLockMode;
+  // custom: day of the week (0 = Sunday) and 'HH:MM' Eastern
+  lock_day: number;
+  lock_time: string;
+}
+
+export interface LockWeek {
+  start_date: string;
+  end_date: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const easternFormat = new Intl.DateTimeFormat('en-US', {
+  timeZone: LOCK_TIME_ZONE,
+  weekday: 'short',
+  year: 'numeric',
+  month: 'numeric',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: 'numeric',
+  hourCycle: 'h23'
+});
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Eastern calendar date, time and weekday (0 = Sunday) of an instant
+ */
+function getEasternParts(date: Date) {
+  const parts = Object.fromEntries(easternFormat.formatToParts(date).map(part => [part.type, part.value]));
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAYS.indexOf(parts.weekday)
+  };
+}
+
+/**
+ * The instant an Eastern wall-clock time falls on
+ */
+function fromEasternTime(year: number, month: number, day: number, hour: number, minute: number): Date {
+  const asUTC = Date.UTC(year, month - 1, day, hour, minute);
+  const eastern = getEasternParts(new Date(asUTC));
+  const offset = Date.UTC(eastern.year, eastern.month - 1, eastern.day, eastern.hour, eastern.minute) - asUTC;
+  return new Date(asUTC - offset);
+}
+
+/**
+ * When every pick in a calendar week locks, or null when each game locks at
+ * its own kickoff. kickoffs are the start times of the week's games; only
+ * first_sunday needs them.
+ */
+export function getWeekLockTime(rules: PickLockRules, week: LockWeek, kickoffs: string[]): Date | null {
+  const start = new Date(week.start_date).getTime();
+  const end = new Date(week.end_date).getTime();
+
+  if (rules.lock_mode === 'first_sunday') {
+    const sundayKickoffs = kickoffs
+      .map(kickoff => new Date(kickoff))
+      .filter(kickoff => kickoff.getTime() >= start && kickoff.getTime() <= end && getEasternParts(kickoff).weekday === 0)
+      .map(kickoff => kickoff.getTime());
+
+    // Weeks without a Sunday game (some playoff rounds) lock game by game
+    return sundayKickoffs.length > 0 ? new Date(Math.min(...sundayKickoffs)) : null;
+  }
+
+  if (rules.lock_mode === 'custom') {
+    const [hour, minute] = rules.lock_time.split(':').map(Number);
+
+    for (let time = start; time <= end; time += DAY_MS) {
+      const day = getEasternParts(new Date(time));
+      if (day.weekday !== rules.lock_day) continue;
+
+      const lockTime = fromEasternTime(day.year, day.month, day.day, hour, minute);
+      if (lockTime.getTime() >= start && lockTime.getTime() <= end) {
+        return lockTime;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * When a pick on a game locks: its kickoff, or the week's lock if that comes first
+ */
+export function getPickDeadline(kickoff: string | Date, weekLock: Date | null): Date {
+  const kickoffTime = new Date(kickoff);
+  return weekLock && weekLock < kickoffTime ? weekLock : kickoffTime;
+}
+
+/**
+ * "Sun 1:00 PM ET" style label for a lock time
+ */
+export function formatLockTime(lockTime: Date): string {
+  return `${lockTime.toLocaleString('en-US', {
+    timeZone: LOCK_TIME_ZONE,
+    weekday: 'short',
+    hour: 'numeric',
+    minute: '2-digit'
+  })} ET`;
+}
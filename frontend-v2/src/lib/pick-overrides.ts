@@ -0,0 +1,298 @@
+import { supabaseAdmin } from './supabase-admin';
+import { ScoringCalculator, getLeagueScoringRules, recalculateUserSeasonStats, type Pick } from './scoring';
+import { getConfidencePoints } from './confidence-pool';
+import { formatSelectionLabel, validateSelection } from './selection';
+import { getGameWeek } from './nfl-week';
+
+/**
+ * Admin pick overrides. A league admin can void, re-grade, add or reassign a
+ * member's pick. apply_pick_override writes the change and an append-only
+ * pick_overrides row together; stats for everyone involved are recalculated
+ * afterwards.
+ */
+
+//   void:     the pick no longer counts (result 'void', no points)
+//   regrade:  set the result, and points unless they're worked out from the league's rules
+//   add:      create a straight pick for a member, graded if the game is over
+//   reassign: move the pick to another member
+export type PickOverrideAction = 'void' | 'regrade' | 'add' | 'reassign';
+
+export const PICK_OVERRIDE_ACTIONS: PickOverrideAction[] = ['void', 'regrade', 'add', 'reassign'];
+
+export const MAX_OVERRIDE_REASON_LENGTH = 500;
+
+// Admin-added picks are game lines; props and parlays need their line locked at pick time
+const ADDABLE_BET_TYPES = ['moneyline', 'spread', 'total'];
+
+const GRADED_RESULTS = ['win', 'loss', 'push'] as const;
+type GradedResult = typeof GRADED_RESULTS[number];
+
+export interface PickOverrideRequest {
+  action: PickOverrideAction;
+  reason: string;
+  pick_id?: number;
+  // regrade
+  result?: string;
+  points_awarded?: number | null;
+  // add / reassign
+  user_id?: string;
+  // add: the league season the pick is filed under
+  season_id?: number;
+  game_id?: number;
+  bet_type?: string;
+  selection_data?: unknown;
+}
+
+export type PickOverrideResult =
+  | { success: true; pickId: number; before: Record<string, unknown> | null; after: Record<string, unknown> }
+  | { success: false; error: string; status: number };
+
+interface OverridePick extends Pick {
+  season_id: number;
+}
+
+const fail = (error: string, status = 400): PickOverrideResult => ({ success: false, error, status });
+
+async function isLeagueMember(leagueId: number, userId: string): Promise<boolean> {
+  const { data: membership } = await supabaseAdmin
+    .from('league_memberships')
+    .select('user_id')
+    .eq('league_id', leagueId)
+    .eq('user_id', userId)
+    .single();
+
+  return !!membership;
+}
+
+async function getLeagueSeasonIds(leagueId: number): Promise<number[]> {
+  const { data: seasons } = await supabaseAdmin
+    .from('seasons')
+    .select('id')
+    .eq('league_id', leagueId);
+
+  return (seasons || []).map(season => season.id);
+}
+
+/**
+ * Points for a result set by an admin, using the same rules the scorer would
+ */
+function pointsForResult(calculator: ScoringCalculator, pick: Pick, result: GradedResult): number {
+  return pick.confidence
+    ? getConfidencePoints(result, pick.confidence, calculator.getPointsMultiplier(pick))
+    : calculator.scoreResult(result, pick.odds_price, pick);
+}
+
+/**
+ * Check an override request and work out the changes apply_pick_override
+ * should make
+ */
+async function buildOverrideChanges(
+  leagueId: number,
+  request: PickOverrideRequest,
+  seasonIds: number[]
+): Promise<{ changes: Record<string, unknown>; pick: OverridePick | null } | PickOverrideResult> {
+  if (request.action === 'add') {
+    if (!request.user_id || !await isLeagueMember(leagueId, request.user_id)) {
+      return fail('Member not found in this league');
+    }
+
+    if (!request.bet_type || !ADDABLE_BET_TYPES.includes(request.bet_type)) {
+      return fail(`Admin picks must be one of: ${ADDABLE_BET_TYPES.join(', ')}`);
+    }
+
+    const selectionValidation = validateSelection(request.selection_data, request.bet_type);
+    if (!selectionValidation.isValid || !selectionValidation.selection) {
+      return fail(selectionValidation.errorMessage || 'Invalid selection');
+    }
+
+    const seasonId = Number(request.season_id);
+    if (!seasonIds.includes(seasonId)) {
+      return fail('Season not found in this league', 404);
+    }
+
+    const { data: game } = await supabaseAdmin
+      .from('games')
+      .select(`
+        id,
+        start_time,
+        week,
+        season_year,
+        season_type,
+        status,
+        home_score,
+        away_score,
+        home_linescores,
+        away_linescores,
+        home_team:teams!games_home_team_id_fkey(name, abbreviation),
+        away_team:teams!games_away_team_id_fkey(name, abbreviation)
+      `)
+      .eq('id', request.game_id)
+      .single();
+
+    if (!game) {
+      return fail('Game not found', 404);
+    }
+
+    // Games are shared by every league; the pick's week comes from the NFL calendar
+    const week = await getGameWeek(game);
+    if (!week) {
+      return fail('This game is not on the NFL calendar yet');
+    }
+
+    const homeTeam = Array.isArray(game.home_team) ? game.home_team[0] : game.home_team;
+    const awayTeam = Array.isArray(game.away_team) ? game.away_team[0] : game.away_team;
+    const selection = selectionValidation.selection;
+
+    const changes: Record<string, unknown> = {
+      user_id: request.user_id,
+      game_id: game.id,
+      season_id: seasonId,
+      week: week.week,
+      season_type: week.season_type,
+      bet_type: request.bet_type,
+      selection: formatSelectionLabel(selection, homeTeam && awayTeam ? { home: homeTeam, away: awayTeam } : null),
+      selection_data: selection,
+      result: null,
+      points_awarded: 0
+    };
+
+    // A pick on a finished game is graded straight away
+    if (game.status === 'completed' && game.home_score !== null && game.away_score !== null) {
+      const calculator = new ScoringCalculator(await getLeagueScoringRules(leagueId));
+      const graded = calculator.calculatePick(
+        { ...changes, id: 0, result: null, points_awarded: 0 } as unknown as Pick,
+        {
+          home_score: game.home_score,
+          away_score: game.away_score,
+          status: 'completed',
+          home_linescores: game.home_linescores,
+          away_linescores: game.away_linescores
+        }
+      );
+      if (graded.result !== 'pending') {
+        changes.result = graded.result;
+        changes.points_awarded = graded.points;
+      }
+    }
+
+    return { changes, pick: null };
+  }
+
+  if (!request.pick_id) {
+    return fail('Pick ID is required');
+  }
+
+  const { data: pick } = await supabaseAdmin
+    .from('picks')
+    .select('*')
+    .eq('id', request.pick_id)
+    .single();
+
+  if (!pick || !seasonIds.includes(pick.season_id)) {
+    return fail('Pick not found in this league', 404);
+  }
+
+  const typedPick = pick as OverridePick;
+
+  switch (request.action) {
+    case 'void':
+      if (typedPick.result === 'void') {
+        return fail('Pick is already void');
+      }
+      return { changes: {}, pick: typedPick };
+
+    case 'regrade': {
+      if (!(GRADED_RESULTS as readonly string[]).includes(request.result ?? '')) {
+        return fail(`Result must be one of: ${GRADED_RESULTS.join(', ')}`);
+      }
+
+      const result = request.result as GradedResult;
+      let points = request.points_awarded;
+
+      if (points === undefined || points === null) {
+        const calculator = new ScoringCalculator(await getLeagueScoringRules(leagueId));
+        points = pointsForResult(calculator, typedPick, result);
+      } else if (typeof points !== 'number' || !Number.isFinite(points)) {
+        return fail('Points must be a number');
+      }
+
+      return { changes: { result, points_awarded: points }, pick: typedPick };
+    }
+
+    case 'reassign':
+      if (!request.user_id || !await isLeagueMember(leagueId, request.user_id)) {
+        return fail('Member not found in this league');
+      }
+      if (request.user_id === typedPick.user_id) {
+        return fail('Pick already belongs to that member');
+      }
+      return { changes: { user_id: request.user_id }, pick: typedPick };
+
+    default:
+      return fail(`Action must be one of: ${PICK_OVERRIDE_ACTIONS.join(', ')}`);
+  }
+}
+
+/**
+ * Apply an admin override to a pick in a league and recalculate season stats
+ * for every member it touched. The caller must already have checked the user
+ * is the league's admin.
+ */
+export async function applyPickOverride(
+  leagueId: number,
+  adminId: string,
+  request: PickOverrideRequest
+): Promise<PickOverrideResult> {
+  if (!PICK_OVERRIDE_ACTIONS.includes(request.action)) {
+    return fail(`Action must be one of: ${PICK_OVERRIDE_ACTIONS.join(', ')}`);
+  }
+
+  const reason = typeof request.reason === 'string' ? request.reason.trim() : '';
+  if (!reason) {
+    return fail('A reason is required for every override');
+  }
+  if (reason.length > MAX_OVERRIDE_REASON_LENGTH) {
+    return fail(`Reason must be ${MAX_OVERRIDE_REASON_LENGTH} characters or fewer`);
+  }
+
+  const seasonIds = await getLeagueSeasonIds(leagueId);
+  const built = await buildOverrideChanges(leagueId, request, seasonIds);
+  if ('success' in built) {
+    return built;
+  }
+
+  const { data, error } = await supabaseAdmin.rpc('apply_pick_override', {
+    p_league_id: leagueId,
+    p_admin_id: adminId,
+    p_action: request.action,
+    p_reason: reason,
+    p_pick_id: built.pick?.id ?? null,
+    p_changes: built.changes
+  });
+
+  if (error || !data) {
+    console.error('Pick override failed:', error);
+    return fail(error?.message || 'Failed to apply override', 500);
+  }
+
+  const before = data.before as Record<string, unknown> | null;
+  const after = data.after as Record<string, unknown>;
+
+  // Reassigning changes two members' records
+  const affected = new Map<string, number>();
+  for (const row of [before, after]) {
+    if (row?.user_id && row.season_id) {
+      affected.set(row.user_id as string, row.season_id as number);
+    }
+  }
+
+  for (const [userId, seasonId] of affected) {
+    try {
+      await recalculateUserSeasonStats(userId, seasonId);
+    } catch (statsError) {
+      console.error(`Failed to recalculate stats for user ${userId}:`, statsError);
+    }
+  }
+
+  return { success: true, pickId: data.pick_id, before, after };
+}
@@ -0,0 +1,214 @@
+import { supabaseAdmin } from './supabase-admin';
+import { getTicketColumns, prepareTicket, validateTicket } from './pick-tickets';
+import { getSeasonLeagueFormat } from './league-format';
+import { getLeaguePickRules, getLeagueWeekLock } from './pick-rules';
+import { getNFLWeekForDate } from './nfl-week';
+import { formatLockTime } from './pick-locks';
+
+/**
+ * Member pick edits and withdrawals. A member can change or withdraw their own
+ * pick until it locks: its game (or any parlay leg's game) starts, or the
+ * league's weekly lock passes. revise_pick writes the change and an
+ * append-only pick_revisions row together.
+ */
+
+export type PickRevisionAction = 'edit' | 'cancel';
+
+export type PickRevisionResult =
+  | { success: true; pickId: number; before: Record<string, unknown>; after: Record<string, unknown> | null }
+  | { success: false; error: string; status: number; details?: Record<string, unknown> };
+
+interface RevisablePick {
+  id: number;
+  user_id: string;
+  game_id: number;
+  season_id: number;
+  week: number;
+  season_type: number;
+  pick_type: 'straight' | 'parlay';
+  result: string | null;
+  confidence: number | null;
+  games: { start_time: string };
+  pick_legs: Array<{ games: { start_time: string } }>;
+  // The league's weekly lock, checked again inside revise_pick
+  week_lock: Date | null;
+}
+
+const fail = (error: string, status = 400, details?: Record<string, unknown>): PickRevisionResult =>
+  ({ success: false, error, status, details });
+
+/**
+ * Load a member's own pick and check it can still be changed
+ */
+async function getRevisablePick(pickId: number, userId: string): Promise<RevisablePick | PickRevisionResult> {
+  const { data: pick } = await supabaseAdmin
+    .from('picks')
+    .select(`
+      id,
+      user_id,
+      game_id,
+      season_id,
+      week,
+      season_type,
+      pick_type,
+      result,
+      confidence,
+      games!inner(start_time),
+      pick_legs(games(start_time))
+    `)
+    .eq('id', pickId)
+    .eq('user_id', userId)
+    .single();
+
+  if (!pick) {
+    return fail('Pick not found', 404);
+  }
+
+  const typedPick = { ...pick, week_lock: null } as unknown as RevisablePick;
+
+  if (typedPick.result !== null) {
+    return fail(typedPick.result === 'void'
+      ? 'This pick was voided and can no longer be changed'
+      : 'This pick has already been graded');
+  }
+
+  // Confidence pools rank the whole week, so they're changed by resubmitting it
+  if (typedPick.confidence !== null) {
+    return fail('Confidence pool picks are changed by resubmitting the week');
+  }
+
+  const now = new Date();
+  const startTimes = [typedPick.games.start_time, ...(typedPick.pick_legs || []).map(leg => leg.games.start_time)];
+  if (startTimes.some(startTime => now >= new Date(startTime))) {
+    return fail('This pick is locked. Its game has already started.');
+  }
+
+  // Weekly leagues can lock the whole week before its games start
+  const leagueFormat = await getSeasonLeagueFormat(typedPick.season_id);
+  if (leagueFormat?.format === 'weekly') {
+    const pickRules = await getLeaguePickRules(leagueFormat.league_id);
+    const calendarWeek = pickRules.lock_mode === 'game_start' ? null : await getNFLWeekForDate(typedPick.games.start_time);
+    const weekLock = calendarWeek ? await getLeagueWeekLock(pickRules, calendarWeek) : null;
+
+    if (weekLock && now >= weekLock) {
+      return fail(`This pick is locked. ${calendarWeek?.label ?? 'This week'} picks locked ${formatLockTime(weekLock)}.`);
+    }
+
+    typedPick.week_lock = weekLock;
+  }
+
+  return typedPick;
+}
+
+async function revisePick(
+  pick: RevisablePick,
+  userId: string,
+  action: PickRevisionAction,
+  changes: Record<string, unknown> | null = null,
+  legs: Record<string, unknown>[] | null = null
+): Promise<PickRevisionResult> {
+  const { data, error } = await supabaseAdmin.rpc('revise_pick', {
+    p_pick_id: pick.id,
+    p_user_id: userId,
+    p_action: action,
+    p_changes: changes,
+    p_legs: legs,
+    p_week_lock: pick.week_lock?.toISOString() ?? null
+  });
+
+  // The pick locked between the check above and the write
+  if (error?.message.includes('is locked')) {
+    return fail('This pick is locked and can no longer be changed.');
+  }
+
+  if (error || !data) {
+    console.error(`Pick ${action} failed:`, error);
+    return fail(action === 'cancel' ? 'Failed to withdraw pick' : 'Failed to update pick', 500);
+  }
+
+  return {
+    success: true,
+    pickId: data.pick_id,
+    before: data.before as Record<string, unknown>,
+    after: data.after as Record<string, unknown> | null
+  };
+}
+
+/**
+ * Withdraw a member's own pick before it locks
+ */
+export async function withdrawPick(pickId: number, userId: string): Promise<PickRevisionResult> {
+  const pick = await getRevisablePick(pickId, userId);
+  if ('success' in pick) {
+    return pick;
+  }
+
+  return revisePick(pick, userId, 'cancel');
+}
+
+/**
+ * Change a member's own pick before it locks. The new ticket goes
+ * through the same checks as a new pick and must stay in the pick's week; a
+ * straight pick stays straight and a parlay stays a parlay.
+ */
+export async function editPick(
+  pickId: number,
+  userId: string,
+  body: Record<string, unknown>
+): Promise<PickRevisionResult> {
+  const pick = await getRevisablePick(pickId, userId);
+  if ('success' in pick) {
+    return pick;
+  }
+
+  const ticketValidation = validateTicket(body, pick.pick_type);
+  if (!ticketValidation.isValid || !ticketValidation.ticket) {
+    return fail(ticketValidation.errorMessage || 'Invalid pick');
+  }
+  const ticket = ticketValidation.ticket;
+
+  const prepared = await prepareTicket(ticket, pick.season_id.toString(), userId);
+  if (!prepared.success) {
+    const { error, ...details } = prepared.body;
+    return fail(error, prepared.status, details);
+  }
+
+  const { game, week, pickRules } = prepared;
+
+  if (week.week !== pick.week || week.season_type !== pick.season_type) {
+    return fail(`Picks can only be moved within Week ${pick.week}`);
+  }
+
+  // Moving to another game has to respect that game's quota
+  if (game.id !== pick.game_id) {
+    const { count, error: countError } = await supabaseAdmin
+      .from('picks')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('season_id', pick.season_id)
+      .eq('week', pick.week)
+      .eq('season_type', pick.season_type)
+      .eq('game_id', game.id)
+      .eq('refunded', false)
+      .neq('id', pick.id);
+
+    if (countError) {
+      console.error('Error checking existing picks:', countError);
+      return fail('Error checking existing picks', 500);
+    }
+
+    if ((count ?? 0) >= pickRules.max_picks_per_game) {
+      return fail(`This league allows ${pickRules.max_picks_per_game} pick${pickRules.max_picks_per_game > 1 ? 's' : ''} per game`);
+    }
+  }
+
+  const columns = getTicketColumns(ticket, prepared.locks);
+
+  return revisePick(
+    pick,
+    userId,
+    'edit',
+    { ...columns.pick, game_id: game.id },
+    ticket.pick_type === 'parlay' ? columns.legs : null
+  );
+}
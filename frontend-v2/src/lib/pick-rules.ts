@@ -0,0 +1,291 @@
+import { supabaseAdmin } from './supabase-admin';
+import type { PickSelection } from './selection';
+import { getNFLWeekKickoffs, type NFLWeek } from './nfl-week';
+import { getWeekLockTime } from './pick-locks';
+
+/**
+ * League pick rules: how many picks a member makes each week, which bets
+ * they may use and when they lock. Stored per league in league_pick_rules,
+ * next to league_scoring_rules, and enforced by POST /api/picks.
+ */
+
+// picks.bet_type values a league can allow; 'parlay' covers the whole ticket
+export type PickRuleBetType = 'moneyline' | 'spread' | 'total' | 'player_prop' | 'parlay';
+
+export const PICK_RULE_BET_TYPES: PickRuleBetType[] = ['moneyline', 'spread', 'total', 'player_prop', 'parlay'];
+
+export const PLAYER_PROP_MARKETS = [
+  'player_pass_yds',
+  'player_rush_yds',
+  'player_reception_yds',
+  'player_anytime_td',
+  'player_pass_tds',
+  'player_rush_tds',
+  'player_reception_tds',
+  'player_receptions'
+];
+
+// What a member who misses a week's deadline gets:
+//   none:          nothing, the week is simply missing
+//   home_favorite: the biggest home favorite on the slate, straight up
+//   closest_game:  the favorite in the game with the smallest spread
+//   no_pick_loss:  a graded loss worth zero points
+//   penalty:       a graded loss worth -missed_pick_penalty points
+export type MissedPickPolicy = 'none' | 'home_favorite' | 'closest_game' | 'no_pick_loss' | 'penalty';
+
+export const MISSED_PICK_POLICIES: MissedPickPolicy[] = ['none', 'home_favorite', 'closest_game', 'no_pick_loss', 'penalty'];
+
+// What happens to a straight pick on a cancelled game:
+//   void:   the pick is void and still uses up its slot for the week
+//   refund: the pick is void and the member can make another pick in its place
+export type CancelledGamePolicy = 'void' | 'refund';
+
+export const CANCELLED_GAME_POLICIES: CancelledGamePolicy[] = ['void', 'refund'];
+
+// When members can see each other's picks; their own are always visible:
+//   game_start: once the pick locks: its game kicks off (a parlay's last leg) or its week locks
+//   week_start: once the week's first game kicks off or the week locks
+//   always:     as soon as the pick is made
+export type PickVisibility = 'game_start' | 'week_start' | 'always';
+
+export const PICK_VISIBILITIES: PickVisibility[] = ['game_start', 'week_start', 'always'];
+
+// When picks lock; a game kicking off before its week locks still locks at kickoff:
+//   game_start:   each game locks at its own kickoff
+//   first_sunday: the whole week locks at its first Sunday kickoff
+//   custom:       the whole week locks at lock_day and lock_time, Eastern
+export type PickLockMode = 'game_start' | 'first_sunday' | 'custom';
+
+export const PICK_LOCK_MODES: PickLockMode[] = ['game_start', 'first_sunday', 'custom'];
+
+export const MAX_PICKS_PER_WEEK = 20;
+export const MAX_FAVORITE_SPREAD = 30;
+export const MAX_MISSED_PICK_PENALTY = 10;
+
+export interface PickRules {
+  min_picks_per_week: number;
+  max_picks_per_week: number;
+  max_picks_per_game: number;
+  allowed_bet_types: PickRuleBetType[];
+  // Empty means every prop market is allowed
+  allowed_prop_markets: string[];
+  // Favorites laying more than this many points can't be picked; null means no limit
+  max_favorite_spread: number | null;
+  missed_pick_policy: MissedPickPolicy;
+  missed_pick_penalty: number;
+  cancelled_game_policy: CancelledGamePolicy;
+  pick_visibility: PickVisibility;
+  lock_mode: PickLockMode;
+  // custom lock mode: day of the week (0 = Sunday) and 'HH:MM' Eastern
+  lock_day: number;
+  lock_time: string;
+}
+
+export const DEFAULT_PICK_RULES: PickRules = {
+  min_picks_per_week: 1,
+  max_picks_per_week: 1,
+  max_picks_per_game: 1,
+  allowed_bet_types: PICK_RULE_BET_TYPES,
+  allowed_prop_markets: [],
+  max_favorite_spread: null,
+  missed_pick_policy: 'none',
+  missed_pick_penalty: 0,
+  cancelled_game_policy: 'void',
+  pick_visibility: 'game_start',
+  lock_mode: 'game_start',
+  lock_day: 0,
+  lock_time: '13:00'
+};
+
+/**
+ * Validate a pick rules update. Returns the complete rules with defaults
+ * filled in for any field that wasn't sent.
+ */
+export function validatePickRules(input: Partial<Record<keyof PickRules, unknown>>): {
+  isValid: boolean;
+  errorMessage?: string;
+  rules?: PickRules;
+} {
+  const rules = {
+    min_picks_per_week: input.min_picks_per_week ?? DEFAULT_PICK_RULES.min_picks_per_week,
+    max_picks_per_week: input.max_picks_per_week ?? DEFAULT_PICK_RULES.max_picks_per_week,
+    max_picks_per_game: input.max_picks_per_game ?? DEFAULT_PICK_RULES.max_picks_per_game,
+    allowed_bet_types: input.allowed_bet_types ?? DEFAULT_PICK_RULES.allowed_bet_types,
+    allowed_prop_markets: input.allowed_prop_markets ?? DEFAULT_PICK_RULES.allowed_prop_markets,
+    max_favorite_spread: input.max_favorite_spread === undefined ? DEFAULT_PICK_RULES.max_favorite_spread : input.max_favorite_spread,
+    missed_pick_policy: input.missed_pick_policy ?? DEFAULT_PICK_RULES.missed_pick_policy,
+    missed_pick_penalty: input.missed_pick_penalty ?? DEFAULT_PICK_RULES.missed_pick_penalty,
+    cancelled_game_policy: input.cancelled_game_policy ?? DEFAULT_PICK_RULES.cancelled_game_policy,
+    pick_visibility: input.pick_visibility ?? DEFAULT_PICK_RULES.pick_visibility,
+    lock_mode: input.lock_mode ?? DEFAULT_PICK_RULES.lock_mode,
+    lock_day: input.lock_day ?? DEFAULT_PICK_RULES.lock_day,
+    lock_time: input.lock_time ?? DEFAULT_PICK_RULES.lock_time
+  };
+
+  const isWholeNumber = (value: unknown, min: number, max: number): value is number =>
+    typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+  if (!isWholeNumber(rules.max_picks_per_week, 1, MAX_PICKS_PER_WEEK)) {
+    return { isValid: false, errorMessage: `Max picks per week must be between 1 and ${MAX_PICKS_PER_WEEK}` };
+  }
+
+  if (!isWholeNumber(rules.min_picks_per_week, 0, rules.max_picks_per_week)) {
+    return { isValid: false, errorMessage: 'Min picks per week must be between 0 and the max picks per week' };
+  }
+
+  if (!isWholeNumber(rules.max_picks_per_game, 1, rules.max_picks_per_week)) {
+    return { isValid: false, errorMessage: 'Max picks per game must be between 1 and the max picks per week' };
+  }
+
+  if (!Array.isArray(rules.allowed_bet_types) || rules.allowed_bet_types.length === 0) {
+    return { isValid: false, errorMessage: 'At least one bet type must be allowed' };
+  }
+
+  if (!rules.allowed_bet_types.every(betType => (PICK_RULE_BET_TYPES as unknown[]).includes(betType))) {
+    return { isValid: false, errorMessage: `Allowed bet types must be from: ${PICK_RULE_BET_TYPES.join(', ')}` };
+  }
+
+  if (!Array.isArray(rules.allowed_prop_markets) ||
+      !rules.allowed_prop_markets.every(market => PLAYER_PROP_MARKETS.includes(market as string))) {
+    return { isValid: false, errorMessage: 'Allowed prop markets contain an unknown market' };
+  }
+
+  if (rules.max_favorite_spread !== null &&
+      (typeof rules.max_favorite_spread !== 'number' || rules.max_favorite_spread < 0 || rules.max_favorite_spread > MAX_FAVORITE_SPREAD)) {
+    return { isValid: false, errorMessage: `Max favorite spread must be between 0 and ${MAX_FAVORITE_SPREAD}` };
+  }
+
+  if (!(MISSED_PICK_POLICIES as unknown[]).includes(rules.missed_pick_policy)) {
+    return { isValid: false, errorMessage: `Missed pick policy must be one of: ${MISSED_PICK_POLICIES.join(', ')}` };
+  }
+
+  if (typeof rules.missed_pick_penalty !== 'number' || rules.missed_pick_penalty < 0 || rules.missed_pick_penalty > MAX_MISSED_PICK_PENALTY) {
+    return { isValid: false, errorMessage: `Missed pick penalty must be between 0 and ${MAX_MISSED_PICK_PENALTY}` };
+  }
+
+  if (!(CANCELLED_GAME_POLICIES as unknown[]).includes(rules.cancelled_game_policy)) {
+    return { isValid: false, errorMessage: `Cancelled game policy must be one of: ${CANCELLED_GAME_POLICIES.join(', ')}` };
+  }
+
+  if (!(PICK_VISIBILITIES as unknown[]).includes(rules.pick_visibility)) {
+    return { isValid: false, errorMessage: `Pick visibility must be one of: ${PICK_VISIBILITIES.join(', ')}` };
+  }
+
+  if (!(PICK_LOCK_MODES as unknown[]).includes(rules.lock_mode)) {
+    return { isValid: false, errorMessage: `Lock mode must be one of: ${PICK_LOCK_MODES.join(', ')}` };
+  }
+
+  if (!isWholeNumber(rules.lock_day, 0, 6)) {
+    return { isValid: false, errorMessage: 'Lock day must be between 0 (Sunday) and 6 (Saturday)' };
+  }
+
+  if (typeof rules.lock_time !== 'string' || !/^([01]\d|2[0-3]):[0-5]\d$/.test(rules.lock_time)) {
+    return { isValid: false, errorMessage: 'Lock time must be in HH:MM format' };
+  }
+
+  return {
+    isValid: true,
+    rules: {
+      ...rules,
+      allowed_bet_types: Array.from(new Set(rules.allowed_bet_types as PickRuleBetType[])),
+      allowed_prop_markets: Array.from(new Set(rules.allowed_prop_markets as string[]))
+    } as PickRules
+  };
+}
+
+export async function getLeaguePickRules(leagueId: number): Promise<PickRules> {
+  const { data: rules, error } = await supabaseAdmin
+    .from('league_pick_rules')
+    .select('*')
+    .eq('league_id', leagueId)
+    .single();
+
+  if (error || !rules) {
+    return DEFAULT_PICK_RULES;
+  }
+
+  return {
+    min_picks_per_week: rules.min_picks_per_week ?? DEFAULT_PICK_RULES.min_picks_per_week,
+    max_picks_per_week: rules.max_picks_per_week ?? DEFAULT_PICK_RULES.max_picks_per_week,
+    max_picks_per_game: rules.max_picks_per_game ?? DEFAULT_PICK_RULES.max_picks_per_game,
+    allowed_bet_types: rules.allowed_bet_types ?? DEFAULT_PICK_RULES.allowed_bet_types,
+    allowed_prop_markets: rules.allowed_prop_markets ?? [],
+    max_favorite_spread: rules.max_favorite_spread ?? null,
+    missed_pick_policy: rules.missed_pick_policy ?? DEFAULT_PICK_RULES.missed_pick_policy,
+    missed_pick_penalty: rules.missed_pick_penalty ?? DEFAULT_PICK_RULES.missed_pick_penalty,
+    cancelled_game_policy: rules.cancelled_game_policy ?? DEFAULT_PICK_RULES.cancelled_game_policy,
+    pick_visibility: rules.pick_visibility ?? DEFAULT_PICK_RULES.pick_visibility,
+    lock_mode: rules.lock_mode ?? DEFAULT_PICK_RULES.lock_mode,
+    lock_day: rules.lock_day ?? DEFAULT_PICK_RULES.lock_day,
+    lock_time: rules.lock_time ?? DEFAULT_PICK_RULES.lock_time
+  };
+}
+
+/**
+ * When every pick in a calendar week locks under the league's lock mode, or
+ * null when each game locks at its own kickoff
+ */
+export async function getLeagueWeekLock(rules: PickRules, week: NFLWeek): Promise<Date | null> {
+  if (rules.lock_mode === 'game_start') {
+    return null;
+  }
+
+  const kickoffs = rules.lock_mode === 'first_sunday' ? await getNFLWeekKickoffs(week) : [];
+  return getWeekLockTime(rules, week, kickoffs);
+}
+
+/**
+ * Check one selection (a straight pick or a parlay leg) against the league's
+ * bet type, prop market and favorite restrictions. The selection should be the
+ * locked one so prop markets and spread lines are filled in.
+ */
+export async function checkSelectionAllowed(
+  rules: PickRules,
+  gameId: number,
+  selection: PickSelection
+): Promise<{ isValid: boolean; errorMessage?: string }> {
+  if (!rules.allowed_bet_types.includes(selection.market)) {
+    return { isValid: false, errorMessage: `This league doesn't allow ${selection.market.replace('_', ' ')} picks` };
+  }
+
+  if (selection.market === 'player_prop' && rules.allowed_prop_markets.length > 0 &&
+      !rules.allowed_prop_markets.includes(selection.prop_market ?? '')) {
+    return { isValid: false, errorMessage: "This league doesn't allow picks on that prop market" };
+  }
+
+  if (rules.max_favorite_spread === null ||
+      (selection.market !== 'spread' && selection.market !== 'moneyline')) {
+    return { isValid: true };
+  }
+
+  // Moneylines have no line of their own, so use the side's current spread.
+  // The limit is on full-game favorites, so half and quarter picks use it too.
+  const spread = selection.market === 'spread' && !selection.period
+    ? selection.line
+    : await getCurrentSpread(gameId, selection.side as 'home' | 'away');
+
+  if (spread !== null && spread < -rules.max_favorite_spread) {
+    return {
+      isValid: false,
+      errorMessage: `This league doesn't allow favorites laying more than ${rules.max_favorite_spread} points`
+    };
+  }
+
+  return { isValid: true };
+}
+
+async function getCurrentSpread(gameId: number, side: 'home' | 'away'): Promise<number | null> {
+  const { data: odds } = await supabaseAdmin
+    .from('odds')
+    .select('spread_home, spread_away')
+    .eq('game_id', gameId)
+    .order('last_update', { ascending: false })
+    .limit(1)
+    .single();
+
+  if (!odds) {
+    return null;
+  }
+
+  return side === 'home' ? odds.spread_home : odds.spread_away;
+}
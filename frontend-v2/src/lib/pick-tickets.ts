@@ -0,0 +1,387 @@
+import { supabaseAdmin } from './supabase-admin';
+import { validateId, validateRequestBody } from './validation';
+import { validateSelection, type PickSelection } from './selection';
+import { lockLine, type CurrentLine, type LineLock } from './line-lock';
+import { getGameWeek, getNFLWeek, type NFLWeekRef } from './nfl-week';
+import { UNPLAYABLE_GAME_STATUSES } from './espn-monitor';
+import { getSeasonLeagueFormat } from './league-format';
+import { validateSurvivorPick } from './survivor';
+import { DEFAULT_PICK_RULES, checkSelectionAllowed, getLeagueWeekLock, getLeaguePickRules, type PickRules } from './pick-rules';
+import { formatLockTime } from './pick-locks';
+
+/**
+ * What a member submits as a pick: one straight bet, or a parlay of legs on
+ * different games. Shared by POST /api/picks and PATCH /api/picks/[pickId].
+ * A straight pick is handled as a ticket with a single leg.
+ */
+
+export const STRAIGHT_BET_TYPES = ['moneyline', 'spread', 'total', 'player_prop'];
+const PARLAY_LEG_BET_TYPES = STRAIGHT_BET_TYPES;
+const MIN_PARLAY_LEGS = 2;
+const MAX_PARLAY_LEGS = 10;
+
+interface TicketLegInput {
+  game_id: number | string;
+  bet_type: string;
+  selection: unknown;
+  sportsbook?: string | null;
+  expected_point?: number | null;
+  expected_price?: number | null;
+}
+
+export interface TicketLeg {
+  game_id: number;
+  bet_type: string;
+  selection: PickSelection;
+  // The line the member saw, so the lock can reject a moved market
+  sportsbook: string | null;
+  expected_point: number | null;
+  expected_price: number | null;
+}
+
+export interface Ticket {
+  pick_type: 'straight' | 'parlay';
+  legs: TicketLeg[];
+}
+
+export interface TicketLock {
+  lock: LineLock;
+  selection: PickSelection;
+  label: string;
+}
+
+export interface TicketGame {
+  id: number;
+  start_time: string;
+  status: string;
+  week: number | null;
+  season_year: number | null;
+  season_type: number | null;
+  home_team_id: number;
+  away_team_id: number;
+}
+
+export type PreparedTicket =
+  | {
+      success: true;
+      // A parlay is anchored to its earliest leg so week and lock checks follow the first kickoff
+      game: TicketGame;
+      week: NFLWeekRef;
+      pickRules: PickRules;
+      locks: TicketLock[];
+    }
+  | { success: false; status: number; body: { error: string } & Record<string, unknown> };
+
+function toOptionalNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = Number(value);
+  return isNaN(parsed) ? null : parsed;
+}
+
+function validateLeg(
+  leg: TicketLegInput,
+  betTypes: string[],
+  labels: { gameId: string; betType: string }
+): { isValid: boolean; errorMessage?: string; leg?: TicketLeg } {
+  const gameIdValidation = validateId(leg?.game_id?.toString() ?? null, labels.gameId);
+  if (!gameIdValidation.isValid) {
+    return gameIdValidation;
+  }
+
+  const bodyValidation = validateRequestBody({ bet_type: leg.bet_type }, { bet_type: 'string' });
+  if (!bodyValidation.isValid) {
+    return bodyValidation;
+  }
+
+  if (!betTypes.includes(leg.bet_type)) {
+    return { isValid: false, errorMessage: labels.betType };
+  }
+
+  const selectionValidation = validateSelection(leg.selection, leg.bet_type);
+  if (!selectionValidation.isValid || !selectionValidation.selection) {
+    return { isValid: false, errorMessage: selectionValidation.errorMessage };
+  }
+
+  return {
+    isValid: true,
+    leg: {
+      game_id: Number(leg.game_id),
+      bet_type: leg.bet_type,
+      selection: selectionValidation.selection,
+      sportsbook: typeof leg.sportsbook === 'string' ? leg.sportsbook : null,
+      expected_point: toOptionalNumber(leg.expected_point),
+      expected_price: toOptionalNumber(leg.expected_price)
+    }
+  };
+}
+
+/**
+ * Validate a pick request body: game_id, bet_type and selection for a straight
+ * pick, or legs for a parlay. Both take the optional sportsbook and expected
+ * point and price the member was quoted.
+ */
+export function validateTicket(
+  body: Record<string, unknown>,
+  pickType: unknown
+): { isValid: boolean; errorMessage?: string; ticket?: Ticket } {
+  if (pickType !== 'straight' && pickType !== 'parlay') {
+    return { isValid: false, errorMessage: 'Invalid pick type' };
+  }
+
+  if (pickType === 'straight') {
+    const legValidation = validateLeg(body as unknown as TicketLegInput, STRAIGHT_BET_TYPES, {
+      gameId: 'Game ID',
+      betType: 'Invalid bet type'
+    });
+    if (!legValidation.isValid || !legValidation.leg) {
+      return { isValid: false, errorMessage: legValidation.errorMessage };
+    }
+    return { isValid: true, ticket: { pick_type: 'straight', legs: [legValidation.leg] } };
+  }
+
+  const legs = body.legs;
+  if (!Array.isArray(legs)) {
+    return { isValid: false, errorMessage: 'Parlay legs are required' };
+  }
+
+  if (legs.length < MIN_PARLAY_LEGS || legs.length > MAX_PARLAY_LEGS) {
+    return { isValid: false, errorMessage: `Parlays must have between ${MIN_PARLAY_LEGS} and ${MAX_PARLAY_LEGS} legs` };
+  }
+
+  const seenGames = new Set<number>();
+  const validatedLegs: TicketLeg[] = [];
+
+  for (const leg of legs as TicketLegInput[]) {
+    const legValidation = validateLeg(leg, PARLAY_LEG_BET_TYPES, {
+      gameId: 'Leg game ID',
+      betType: 'Invalid bet type for parlay leg'
+    });
+    if (!legValidation.isValid || !legValidation.leg) {
+      return { isValid: false, errorMessage: legValidation.errorMessage };
+    }
+
+    // Same-game parlays are correlated, so each leg must be on a different game
+    if (seenGames.has(legValidation.leg.game_id)) {
+      return { isValid: false, errorMessage: 'Each parlay leg must be on a different game' };
+    }
+    seenGames.add(legValidation.leg.game_id);
+
+    validatedLegs.push(legValidation.leg);
+  }
+
+  return { isValid: true, ticket: { pick_type: 'parlay', legs: validatedLegs } };
+}
+
+/**
+ * Lock the line for every leg of a ticket. Fails on the first leg whose market
+ * has moved past what the member saw, so they can re-confirm.
+ */
+async function lockTicket(ticket: Ticket): Promise<
+  | { success: true; locks: TicketLock[] }
+  | { success: false; error: string; current_line: CurrentLine | null; leg_index?: number }
+> {
+  const isParlay = ticket.pick_type === 'parlay';
+  const lockResults = await Promise.all(ticket.legs.map(leg => lockLine({
+    gameId: leg.game_id,
+    selection: leg.selection,
+    sportsbook: leg.sportsbook,
+    expectedPoint: leg.expected_point,
+    expectedPrice: leg.expected_price
+  })));
+
+  const locks: TicketLock[] = [];
+  for (const [index, lockResult] of lockResults.entries()) {
+    if (!lockResult.success) {
+      return {
+        success: false,
+        error: isParlay ? `Leg ${index + 1}: ${lockResult.error}` : lockResult.error,
+        current_line: lockResult.currentLine,
+        leg_index: isParlay ? index : undefined
+      };
+    }
+    locks.push(lockResult);
+  }
+
+  return { success: true, locks };
+}
+
+/**
+ * Run the checks every new or changed ticket goes through: its games exist,
+ * are playable and haven't locked, its lines can be locked, and the season's
+ * league allows it. Weekly quotas are left to the caller.
+ */
+export async function prepareTicket(ticket: Ticket, seasonId: string, userId: string): Promise<PreparedTicket> {
+  const isParlay = ticket.pick_type === 'parlay';
+  const fail = (status: number, body: { error: string } & Record<string, unknown>): PreparedTicket =>
+    ({ success: false, status, body });
+
+  // Check that every game on the ticket exists and hasn't started
+  const gameIds = ticket.legs.map(leg => leg.game_id);
+  const { data: games, error: gameError } = await supabaseAdmin
+    .from('games')
+    .select('id, start_time, status, week, season_year, season_type, home_team_id, away_team_id')
+    .in('id', gameIds);
+
+  if (gameError || !games || games.length !== gameIds.length) {
+    return fail(404, { error: 'Game not found' });
+  }
+
+  // Check if any game has started (deadline enforcement)
+  const now = new Date();
+  const startedGame = games.find(g => now >= new Date(g.start_time));
+
+  if (startedGame) {
+    return fail(400, {
+      error: isParlay
+        ? 'One or more parlay legs have already started. Picks are no longer allowed.'
+        : 'Game has already started. Picks are no longer allowed.'
+    });
+  }
+
+  // Postponed, suspended and cancelled games can't be picked until ESPN reschedules them
+  const unplayableGame = games.find(g => UNPLAYABLE_GAME_STATUSES.includes(g.status));
+
+  if (unplayableGame) {
+    return fail(400, {
+      error: isParlay
+        ? `One or more parlay legs are on a ${unplayableGame.status} game. Picks are not allowed.`
+        : `This game has been ${unplayableGame.status}. Picks are not allowed.`
+    });
+  }
+
+  // Lock the line the user is taking. If the market has moved past what they
+  // saw, reject before touching any existing pick so they can re-confirm.
+  const lockResult = await lockTicket(ticket);
+  if (!lockResult.success) {
+    return fail(409, {
+      error: lockResult.error,
+      current_line: lockResult.current_line,
+      leg_index: lockResult.leg_index
+    });
+  }
+
+  const game = (games as TicketGame[]).reduce((earliest, g) =>
+    new Date(g.start_time) < new Date(earliest.start_time) ? g : earliest
+  );
+
+  const { data: season, error: seasonError } = await supabaseAdmin
+    .from('seasons')
+    .select('id')
+    .eq('id', seasonId)
+    .single();
+
+  if (seasonError || !season) {
+    return fail(404, { error: 'Season not found' });
+  }
+
+  // The pick's week comes from the NFL calendar
+  const week = await getGameWeek(game);
+  if (!week) {
+    return fail(400, { error: 'This game is not on the NFL calendar yet' });
+  }
+
+  // A parlay is filed under its first game's week, so every leg must be in it
+  if (isParlay) {
+    for (const legGame of games as TicketGame[]) {
+      if (legGame.id === game.id) continue;
+
+      const legWeek = await getGameWeek(legGame);
+      if (!legWeek ||
+          legWeek.season_year !== week.season_year ||
+          legWeek.season_type !== week.season_type ||
+          legWeek.week !== week.week) {
+        return fail(400, { error: 'All parlay legs must be in the same NFL week' });
+      }
+    }
+  }
+
+  // Survivor leagues pick one team to win straight up, never the same team twice
+  const leagueFormat = await getSeasonLeagueFormat(seasonId);
+  if (leagueFormat?.format === 'confidence') {
+    return fail(400, { error: 'Confidence pools submit the whole week at once' });
+  }
+
+  const [firstLeg] = ticket.legs;
+
+  if (leagueFormat?.format === 'survivor') {
+    if (isParlay || firstLeg.bet_type !== 'moneyline') {
+      return fail(400, { error: 'Survivor leagues only allow a straight-up (moneyline) pick on one team' });
+    }
+
+    const survivorValidation = await validateSurvivorPick({
+      seasonId,
+      leagueId: leagueFormat.league_id,
+      userId,
+      teamId: firstLeg.selection.side === 'home' ? game.home_team_id : game.away_team_id,
+      week: { week: week.week, season_type: week.season_type },
+      settings: leagueFormat.survivor
+    });
+
+    if (!survivorValidation.isValid) {
+      return fail(400, { error: survivorValidation.errorMessage || 'Invalid survivor pick' });
+    }
+  }
+
+  // Weekly leagues apply their own quotas and bet restrictions
+  const pickRules = leagueFormat?.format === 'weekly'
+    ? await getLeaguePickRules(leagueFormat.league_id)
+    : DEFAULT_PICK_RULES;
+
+  // Leagues that lock the whole week at once close it before its later games kick off
+  if (pickRules.lock_mode !== 'game_start') {
+    const calendarWeek = await getNFLWeek(week.season_year, week.season_type, week.week);
+    const weekLock = calendarWeek ? await getLeagueWeekLock(pickRules, calendarWeek) : null;
+
+    if (weekLock && now >= weekLock) {
+      return fail(400, {
+        error: `${calendarWeek?.label ?? `Week ${week.week}`} picks locked ${formatLockTime(weekLock)}. Picks are no longer allowed.`,
+        locked_at: weekLock.toISOString()
+      });
+    }
+  }
+
+  if (isParlay && !pickRules.allowed_bet_types.includes('parlay')) {
+    return fail(400, { error: "This league doesn't allow parlays" });
+  }
+
+  for (const [index, lineLock] of lockResult.locks.entries()) {
+    const ruleCheck = await checkSelectionAllowed(pickRules, gameIds[index], lineLock.selection);
+    if (!ruleCheck.isValid) {
+      return fail(400, {
+        error: isParlay ? `Leg ${index + 1}: ${ruleCheck.errorMessage}` : ruleCheck.errorMessage || 'Pick not allowed'
+      });
+    }
+  }
+
+  return { success: true, game, week, pickRules, locks: lockResult.locks };
+}
+
+/**
+ * Columns a ticket's locked lines write to picks (and pick_legs for parlays)
+ */
+export function getTicketColumns(ticket: Ticket, locks: TicketLock[]) {
+  const isParlay = ticket.pick_type === 'parlay';
+
+  return {
+    pick: {
+      pick_type: ticket.pick_type,
+      bet_type: isParlay ? 'parlay' : ticket.legs[0].bet_type,
+      selection: isParlay ? `${ticket.legs.length}-leg parlay` : locks[0].label,
+      selection_data: isParlay ? null : locks[0].selection,
+      player_prop_id: isParlay ? null : locks[0].selection.player_prop_id ?? null,
+      ...(isParlay ? { locked_at: locks[0].lock.locked_at } : locks[0].lock)
+    },
+    legs: isParlay
+      ? ticket.legs.map((leg, index) => ({
+          game_id: leg.game_id,
+          bet_type: leg.bet_type,
+          selection: locks[index].label,
+          selection_data: locks[index].selection,
+          player_prop_id: locks[index].selection.player_prop_id ?? null,
+          leg_order: index,
+          ...locks[index].lock,
+          result: null
+        }))
+      : []
+  };
+}
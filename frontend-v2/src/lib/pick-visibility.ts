@@ -0,0 +1,116 @@
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import { DEFAULT_PICK_RULES, getLeaguePickRules, type PickRules } from '@/lib/pick-rules';
+import { getNFLWeekForDate, getNFLWeekKickoffs, type NFLWeek } from '@/lib/nfl-week';
+import { getWeekLockTime } from '@/lib/pick-locks';
+
+/**
+ * Whether one member can see another's pick yet, under the league's
+ * pick_visibility rule. Members always see their own picks, and graded picks
+ * are always visible. Under game_start a parlay stays hidden until its last leg
+ * kicks off, so no leg can be copied. In leagues that lock the whole week at
+ * once, every pick in the week is revealed when the week locks.
+ */
+
+type GameRef = { start_time: string } | Array<{ start_time: string }> | null;
+
+export interface VisibilityPick {
+  user_id: string;
+  season_id: number;
+  result: string | null;
+  games: GameRef;
+  pick_legs?: Array<{ games: GameRef }> | null;
+}
+
+const getStartTime = (game: GameRef) =>
+  (Array.isArray(game) ? game[0] : game)?.start_time ?? null;
+
+/**
+ * Kickoffs of the games a pick is on, in order
+ */
+const getKickoffs = (pick: VisibilityPick) =>
+  [getStartTime(pick.games), ...(pick.pick_legs || []).map(leg => getStartTime(leg.games))]
+    .filter((startTime): startTime is string => !!startTime)
+    .map(startTime => new Date(startTime).getTime())
+    .sort((a, b) => a - b);
+
+/**
+ * Load the visibility rules for every league the picks belong to and return a
+ * check for the viewer. Picks in leagues that can't be looked up stay hidden.
+ */
+export async function createPickVisibilityCheck(
+  viewerId: string,
+  picks: VisibilityPick[],
+  now: Date = new Date()
+): Promise<(pick: VisibilityPick) => boolean> {
+  const isOwnOrGraded = (pick: VisibilityPick) => pick.user_id === viewerId || pick.result !== null;
+  const otherPicks = picks.filter(pick => !isOwnOrGraded(pick));
+
+  const rulesBySeason = new Map<number, PickRules>();
+  const seasonIds = [...new Set(otherPicks.map(pick => pick.season_id))];
+
+  if (seasonIds.length > 0) {
+    const { data: seasons, error } = await supabaseAdmin
+      .from('seasons')
+      .select('id, league_id')
+      .in('id', seasonIds);
+
+    if (error) {
+      throw new Error(`Failed to load seasons for pick visibility: ${error.message}`);
+    }
+
+    const leagueIds = [...new Set((seasons || []).map(season => season.league_id as number))];
+    const rules = await Promise.all(leagueIds.map(leagueId => getLeaguePickRules(leagueId)));
+    const rulesByLeague = new Map(leagueIds.map((leagueId, index) => [leagueId, rules[index]]));
+
+    for (const season of seasons || []) {
+      rulesBySeason.set(season.id, rulesByLeague.get(season.league_id) ?? DEFAULT_PICK_RULES);
+    }
+  }
+
+  // Calendar week of each pick's first kickoff, and every kickoff in that week
+  const weeksByKickoff = new Map<number, NFLWeek | null>();
+  const kickoffsByWeek = new Map<string, number[]>();
+  const getWeekKey = (week: NFLWeek) => `${week.start_date}:${week.end_date}`;
+
+  for (const pick of otherPicks) {
+    const rules = rulesBySeason.get(pick.season_id);
+    const kickoff = getKickoffs(pick)[0];
+    const needsWeek = rules && rules.pick_visibility !== 'always' &&
+      (rules.pick_visibility === 'week_start' || rules.lock_mode !== 'game_start');
+
+    if (!needsWeek || kickoff === undefined || weeksByKickoff.has(kickoff)) {
+      continue;
+    }
+
+    const calendarWeek = await getNFLWeekForDate(new Date(kickoff));
+    weeksByKickoff.set(kickoff, calendarWeek);
+
+    if (calendarWeek && !kickoffsByWeek.has(getWeekKey(calendarWeek))) {
+      const weekKickoffs = await getNFLWeekKickoffs(calendarWeek);
+      kickoffsByWeek.set(getWeekKey(calendarWeek), weekKickoffs.map(startTime => new Date(startTime).getTime()));
+    }
+  }
+
+  return (pick: VisibilityPick) => {
+    const rules = rulesBySeason.get(pick.season_id);
+    if (isOwnOrGraded(pick) || rules?.pick_visibility === 'always') return true;
+    if (!rules) return false;
+
+    const kickoffs = getKickoffs(pick);
+    if (kickoffs.length === 0) return false;
+
+    // Outside the synced calendar, a pick's week is just its own games
+    const calendarWeek = weeksByKickoff.get(kickoffs[0]) ?? null;
+    const weekKickoffs = calendarWeek ? kickoffsByWeek.get(getWeekKey(calendarWeek)) ?? [] : [];
+
+    const revealAt = rules.pick_visibility === 'week_start'
+      ? Math.min(kickoffs[0], ...weekKickoffs)
+      : kickoffs[kickoffs.length - 1];
+
+    const weekLock = calendarWeek
+      ? getWeekLockTime(rules, calendarWeek, weekKickoffs.map(kickoff => new Date(kickoff).toISOString()))
+      : null;
+
+    return now.getTime() >= Math.min(revealAt, weekLock?.getTime() ?? Infinity);
+  };
+}
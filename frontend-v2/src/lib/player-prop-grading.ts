@@ -0,0 +1,227 @@
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import { createSeasonCalculators, type SeasonCalculators } from '@/lib/scoring';
+import {
+  applyLateGameScoring,
+  settleParlaysForPlan,
+  type GameScoringPlan
+} from '@/lib/game-scoring';
+import { syncPlayerGameStats } from '@/lib/espn-box-score';
+import { scorePlayerProp, getPlayerStatFromESPN } from '@/lib/player-prop-scoring';
+import type { PickSelection } from '@/lib/selection';
+
+export interface PlayerPropGradingResult {
+  athletesSynced: number;
+  picksGraded: number;
+  legsGraded: number;
+  parlaysSettled: number;
+  pointsAwarded: number;
+  affectedUsers: string[];
+}
+
+interface PropSelection {
+  id: number;
+  bet_type: string;
+  selection: string;
+  selection_data: PickSelection | null;
+  player_prop_id: number | null;
+  prop_athlete_id: string | null;
+  prop_market_key: string | null;
+  locked_point: number | null;
+  odds_price: number | null;
+}
+
+interface OpenPropPick extends PropSelection {
+  user_id: string;
+  season_id: number;
+  week: number;
+  season_type: number | null;
+}
+
+interface OpenPropLeg extends PropSelection {
+  pick_id: number;
+  picks: { season_id: number };
+}
+
+interface PropDetails {
+  id: number;
+  athlete_id: string;
+  market_key: string;
+  point?: number;
+}
+
+/**
+ * Pull a completed game's box score from ESPN, grade every open player prop
+ * pick and parlay leg on it, and settle any parlays that are now complete.
+ * Each pick is scored with the rules of the league its season belongs to, and
+ * the results are written in one audited transaction attached to the game's
+ * scoring event.
+ */
+export async function gradePlayerPropsForGame(
+  gameId: number,
+  espnGameId: string,
+  calculators: SeasonCalculators = createSeasonCalculators()
+): Promise<PlayerPropGradingResult> {
+  const { data: picks, error: picksError } = await supabaseAdmin
+    .from('picks')
+    .select('id, user_id, season_id, week, season_type, bet_type, selection, selection_data, player_prop_id, prop_athlete_id, prop_market_key, locked_point, odds_price')
+    .eq('game_id', gameId)
+    .eq('pick_type', 'straight')
+    .eq('bet_type', 'player_prop')
+    .is('result', null)
+    .is('overridden_at', null);
+
+  if (picksError) {
+    throw new Error(`Failed to fetch prop picks for game ${gameId}: ${picksError.message}`);
+  }
+
+  const { data: legs, error: legsError } = await supabaseAdmin
+    .from('pick_legs')
+    .select('id, pick_id, bet_type, selection, selection_data, player_prop_id, prop_athlete_id, prop_market_key, locked_point, odds_price, picks!inner(season_id)')
+    .eq('game_id', gameId)
+    .eq('bet_type', 'player_prop')
+    .is('result', null);
+
+  if (legsError) {
+    throw new Error(`Failed to fetch prop legs for game ${gameId}: ${legsError.message}`);
+  }
+
+  if ((!picks || picks.length === 0) && (!legs || legs.length === 0)) {
+    return { athletesSynced: 0, picksGraded: 0, legsGraded: 0, parlaysSettled: 0, pointsAwarded: 0, affectedUsers: [] };
+  }
+
+  // Without a box score every prop would grade as void, so wait for ESPN instead
+  const athletesSynced = await syncPlayerGameStats(gameId, espnGameId);
+  if (athletesSynced === 0) {
+    throw new Error(`ESPN box score for game ${gameId} is not available yet`);
+  }
+
+  const plan: GameScoringPlan = { picks: [], legs: [] };
+
+  for (const pick of (picks || []) as OpenPropPick[]) {
+    const propResult = await gradeProp(pick, gameId);
+    if (!propResult) continue;
+
+    // Straight picks have no void result; a void prop is refunded as a push
+    const result = propResult === 'void' ? 'push' : propResult;
+    const { calculator, ruleVersion } = await calculators(pick.season_id);
+
+    plan.picks.push({
+      pick_id: pick.id,
+      user_id: pick.user_id,
+      old_result: null,
+      new_result: result,
+      points: calculator.scoreResult(result, pick.odds_price, pick),
+      explanation: `${pick.selection} graded ${propResult} from the box score`,
+      rule_version: ruleVersion
+    });
+  }
+
+  for (const leg of (legs || []) as unknown as OpenPropLeg[]) {
+    const legResult = await gradeProp(leg, gameId);
+    if (!legResult) continue;
+
+    const { ruleVersion } = await calculators(leg.picks.season_id);
+    plan.legs.push({
+      leg_id: leg.id,
+      pick_id: leg.pick_id,
+      old_result: null,
+      new_result: legResult,
+      explanation: `${leg.selection} graded ${legResult} from the box score`,
+      rule_version: ruleVersion
+    });
+  }
+
+  const picksGraded = plan.picks.length;
+  const settlements = await settleParlaysForPlan(plan.legs, calculators, false);
+  plan.picks.push(...settlements);
+
+  if (plan.picks.length === 0 && plan.legs.length === 0) {
+    return { athletesSynced, picksGraded: 0, legsGraded: 0, parlaysSettled: 0, pointsAwarded: 0, affectedUsers: [] };
+  }
+
+  // Props are added to the game's scoring event, so the game lines go first
+  const outcome = await applyLateGameScoring(gameId, 'player_prop', plan);
+  if (!outcome) {
+    throw new Error(`Game ${gameId} has not been scored yet`);
+  }
+
+  return {
+    athletesSynced,
+    picksGraded,
+    legsGraded: plan.legs.length,
+    parlaysSettled: settlements.length,
+    pointsAwarded: outcome.pointsAwarded,
+    affectedUsers: outcome.userIds
+  };
+}
+
+/**
+ * Grade a single prop selection against the stored box score.
+ * Returns null when the prop can't be identified, leaving it pending for review.
+ */
+async function gradeProp(
+  pick: PropSelection,
+  gameId: number
+): Promise<'win' | 'loss' | 'push' | 'void' | null> {
+  const prop = await getPropDetails(pick);
+  if (!prop || pick.player_prop_id == null) {
+    console.warn(`Prop pick ${pick.id} has no athlete/market recorded, skipping`);
+    return null;
+  }
+
+  const actualValue = await getPlayerStatFromESPN(prop.athlete_id, gameId, prop.market_key);
+
+  // Athlete isn't in the box score (inactive) or the market has no stat: void
+  if (actualValue === null) {
+    return 'void';
+  }
+
+  return scorePlayerProp(
+    {
+      id: pick.id,
+      player_prop_id: pick.player_prop_id,
+      selection: pick.selection,
+      selection_data: pick.selection_data,
+      bet_type: pick.bet_type
+    },
+    prop,
+    { athleteId: prop.athlete_id, marketKey: prop.market_key, actualValue }
+  );
+}
+
+async function getPropDetails(pick: PropSelection): Promise<PropDetails | null> {
+  // Prefer what was locked onto the pick; older picks fall back to the live prop row
+  const athleteId = pick.selection_data?.athlete_id ?? pick.prop_athlete_id;
+  const marketKey = pick.selection_data?.prop_market ?? pick.prop_market_key;
+  const point = pick.locked_point ?? pick.selection_data?.line ?? null;
+
+  if (athleteId && marketKey && pick.player_prop_id != null) {
+    return {
+      id: pick.player_prop_id,
+      athlete_id: athleteId,
+      market_key: marketKey,
+      point: point != null ? Number(point) : undefined
+    };
+  }
+
+  if (pick.player_prop_id == null) {
+    return null;
+  }
+
+  const { data: prop } = await supabaseAdmin
+    .from('player_props')
+    .select('id, athlete_id, market_key, point')
+    .eq('id', pick.player_prop_id)
+    .single();
+
+  if (!prop) {
+    return null;
+  }
+
+  return {
+    id: prop.id,
+    athlete_id: prop.athlete_id,
+    market_key: prop.market_key,
+    point: pick.locked_point != null ? Number(pick.locked_point) : prop.point ?? undefined
+  };
+}
@@ -1,3 +1,6 @@
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import type { PickSelection } from '@/lib/selection';
+
 interface PlayerPropResult {
   athleteId: string;
   marketKey: string;
@@ -15,6 +18,7 @@ interface PlayerPropPick {
   id: number;
   player_prop_id: number;
   selection: string;
+  selection_data?: PickSelection | null;
   bet_type: string;
 }
 
@@ -35,13 +39,17 @@ export function scorePlayerProp(
   const actualValue = result.actualValue;
   const line = prop.point;
 
-  if (pick.selection.toLowerCase().includes('over')) {
+  // Structured picks carry their side; older picks only have the label text
+  const side = pick.selection_data?.side ??
+    (/\bover\b/i.test(pick.selection) ? 'over' : /\bunder\b/i.test(pick.selection) ? 'under' : null);
+
+  if (side === 'over') {
     if (actualValue > line) return 'win';
     if (actualValue < line) return 'loss';
     return 'push';
   }
 
-  if (pick.selection.toLowerCase().includes('under')) {
+  if (side === 'under') {
     if (actualValue < line) return 'win';
     if (actualValue > line) return 'loss';
     return 'push';
@@ -50,6 +58,15 @@ export function scorePlayerProp(
   return 'void';
 }
 
+/**
+ * How far a prop selection is ahead of (+) or behind (-) its line. Yes/no
+ * props like anytime touchdowns are measured against half a point.
+ */
+export function getPropMargin(side: 'over' | 'under', line: number | null, actualValue: number): number {
+  const point = line ?? 0.5;
+  return side === 'over' ? actualValue - point : point - actualValue;
+}
+
 export const MARKET_STAT_MAPPING: Record<string, string> = {
   'player_pass_yds': 'passing_yards',
   'player_pass_tds': 'passing_touchdowns',
@@ -67,6 +84,11 @@ export const MARKET_STAT_MAPPING: Record<string, string> = {
   'player_tackles_assists': 'total_tackles'
 };
 
+/**
+ * Look up an athlete's stat for a prop market from the ESPN box score stored in
+ * player_game_stats (see syncPlayerGameStats). Returns null when the market is
+ * unmapped or the athlete doesn't appear in the box score, i.e. didn't play.
+ */
 export async function getPlayerStatFromESPN(
   athleteId: string,
   gameId: number,
@@ -78,27 +100,18 @@ export async function getPlayerStatFromESPN(
     return null;
   }
 
-  return null;
-}
-
-export function parsePlayerPropSelection(selection: string): {
-  playerName: string;
-  marketKey: string;
-  betType: 'over' | 'under' | 'anytime';
-  point?: number;
-} | null {
-  const parts = selection.split(' ');
-  if (parts.length < 3) return null;
+  const { data: stat, error } = await supabaseAdmin
+    .from('player_game_stats')
+    .select('value')
+    .eq('game_id', gameId)
+    .eq('athlete_id', athleteId)
+    .eq('stat_key', statType)
+    .single();
 
-  const playerName = parts[0] + ' ' + parts[1];
-  const marketKey = parts[2];
-  const betType = parts[3]?.toLowerCase() as 'over' | 'under' | 'anytime';
-  const point = parts[4] ? parseFloat(parts[4]) : undefined;
+  // PGRST116 = no row: the athlete isn't in the box score
+  if (error && error.code !== 'PGRST116') {
+    throw new Error(`Failed to fetch ${statType} for athlete ${athleteId}: ${error.message}`);
+  }
 
-  return {
-    playerName,
-    marketKey,
-    betType,
-    point
-  };
-}
\ No newline at end of file
+  return stat ? Number(stat.value) : null;
+}
@@ -0,0 +1,313 @@
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import { ScoringCalculator, getLeagueScoringRules, type LegResult } from '@/lib/scoring';
+import { getConfidencePoints } from '@/lib/confidence-pool';
+import { getImpliedProbability, getSelectionPrice, type OddsPrices } from '@/lib/odds';
+import type { PickSelection, SelectionSide } from '@/lib/selection';
+
+/**
+ * Monte Carlo projections for the weekly and season leaderboards. Every
+ * pending pick and parlay leg is settled at random, weighted by the chance its
+ * current odds give it, and points are scored with the league's rules. Picks on
+ * the same game share one draw, so opposite sides can't both win.
+ *
+ * Projections only cover picks already made: settled points plus whatever the
+ * pending picks add. Weekly bonuses (streaks, weekly winner) aren't simulated.
+ */
+
+export const DEFAULT_SIMULATIONS = 5000;
+
+export interface MemberProjection {
+  user_id: string;
+  username: string;
+  current_points: number;
+  projected_points: number;
+  // Share of simulations the member finished first in; ties split the win
+  win_probability: number;
+  pending_picks: number;
+}
+
+export interface StandingsProjection {
+  simulations: number;
+  week_standings: MemberProjection[];
+  season_standings: MemberProjection[];
+}
+
+interface PendingLeg {
+  game_id: number;
+  bet_type: string;
+  selection_data: PickSelection | null;
+  result: LegResult | null;
+  odds_price: number | null;
+}
+
+interface PendingPick {
+  id: number;
+  user_id: string;
+  pick_type: 'straight' | 'parlay';
+  bet_type: string;
+  game_id: number;
+  selection_data: PickSelection | null;
+  odds_price: number | null;
+  confidence: number | null;
+  week: number;
+  season_type: number | null;
+  pick_legs: PendingLeg[];
+  profiles: { username: string } | Array<{ username: string }>;
+}
+
+interface SimulatedSelection {
+  game_id: number;
+  // Which shared draw decides the selection; props and unstructured picks draw on their own
+  draw: 'side' | 'total' | 'own';
+  // Whether winning means the draw lands below (home/over) or above (away/under) 1 - probability
+  favorsLow: boolean;
+  probability: number;
+}
+
+const OPPOSITE_SIDES: Record<SelectionSide, SelectionSide> = {
+  home: 'away',
+  away: 'home',
+  over: 'under',
+  under: 'over'
+};
+
+const getUsername = (profiles: PendingPick['profiles']) =>
+  (Array.isArray(profiles) ? profiles[0]?.username : profiles?.username) || 'Unknown';
+
+const roundTo = (value: number, places: number) => {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Chance a selection wins: the de-vigged price from the game's current odds for
+ * full-game lines, otherwise the price the pick was locked at, otherwise a coin flip
+ */
+function toSimulatedSelection(
+  gameId: number,
+  selection: PickSelection | null,
+  lockedPrice: number | null,
+  odds: OddsPrices | undefined
+): SimulatedSelection {
+  const fallback = getImpliedProbability(lockedPrice) ?? 0.5;
+
+  if (!selection || selection.market === 'player_prop') {
+    return { game_id: gameId, draw: 'own', favorsLow: true, probability: fallback };
+  }
+
+  const quoted = selection.period || !odds
+    ? null
+    : getImpliedProbability(
+        getSelectionPrice(odds, selection.market, selection.side),
+        getSelectionPrice(odds, selection.market, OPPOSITE_SIDES[selection.side])
+      );
+
+  return {
+    game_id: gameId,
+    // Period markets move with the full game, so they share its draw too
+    draw: selection.market === 'total' ? 'total' : 'side',
+    favorsLow: selection.side === 'home' || selection.side === 'over',
+    probability: quoted ?? fallback
+  };
+}
+
+/**
+ * Run the simulations for a season, reporting the given week alongside the season
+ */
+export async function projectStandings(
+  seasonId: number,
+  leagueId: number,
+  week: number,
+  seasonType: number,
+  simulations = DEFAULT_SIMULATIONS
+): Promise<StandingsProjection> {
+  const calculator = new ScoringCalculator(await getLeagueScoringRules(leagueId));
+
+  const [seasonStats, weekPicks, pendingPicks] = await Promise.all([
+    supabaseAdmin
+      .from('user_season_stats')
+      .select('user_id, total_points, profiles!inner(username)')
+      .eq('season_id', seasonId),
+    supabaseAdmin
+      .from('picks')
+      .select('user_id, points_awarded')
+      .eq('season_id', seasonId)
+      .eq('week', week)
+      .eq('season_type', seasonType)
+      .not('result', 'is', null)
+      .neq('result', 'void'),
+    supabaseAdmin
+      .from('picks')
+      .select(`
+        id,
+        user_id,
+        pick_type,
+        bet_type,
+        game_id,
+        selection_data,
+        odds_price,
+        confidence,
+        week,
+        season_type,
+        pick_legs(game_id, bet_type, selection_data, result, odds_price),
+        profiles!inner(username)
+      `)
+      .eq('season_id', seasonId)
+      .is('result', null)
+  ]);
+
+  const queryError = seasonStats.error || weekPicks.error || pendingPicks.error;
+  if (queryError) {
+    throw new Error(`Failed to load picks for projections: ${queryError.message}`);
+  }
+
+  const pending = (pendingPicks.data || []) as unknown as PendingPick[];
+
+  const gameIds = [...new Set(pending.flatMap(pick =>
+    pick.pick_type === 'parlay' ? pick.pick_legs.map(leg => leg.game_id) : [pick.game_id]
+  ))];
+  const oddsByGame = new Map<number, OddsPrices>();
+
+  if (gameIds.length > 0) {
+    const { data: odds, error: oddsError } = await supabaseAdmin
+      .from('odds')
+      .select('game_id, moneyline_home, moneyline_away, spread_home_price, spread_away_price, total_over_price, total_under_price')
+      .in('game_id', gameIds);
+
+    if (oddsError) {
+      throw new Error(`Failed to load odds for projections: ${oddsError.message}`);
+    }
+
+    // First sportsbook per game, as on the pick screen
+    for (const row of odds || []) {
+      if (!oddsByGame.has(row.game_id)) oddsByGame.set(row.game_id, row);
+    }
+  }
+
+  // Members and the points they've already banked
+  const usernames = new Map<string, string>();
+  const seasonPoints = new Map<string, number>();
+  const weekPoints = new Map<string, number>();
+
+  for (const stat of (seasonStats.data || []) as unknown as Array<{ user_id: string; total_points: number; profiles: PendingPick['profiles'] }>) {
+    usernames.set(stat.user_id, getUsername(stat.profiles));
+    seasonPoints.set(stat.user_id, Number(stat.total_points) || 0);
+  }
+  for (const pick of weekPicks.data || []) {
+    weekPoints.set(pick.user_id, (weekPoints.get(pick.user_id) || 0) + (Number(pick.points_awarded) || 0));
+  }
+  for (const pick of pending) {
+    usernames.set(pick.user_id, getUsername(pick.profiles));
+  }
+
+  const isThisWeek = (pick: PendingPick) => pick.week === week && (pick.season_type ?? 2) === seasonType;
+  const weekMembers = [...usernames.keys()].filter(userId =>
+    weekPoints.has(userId) || pending.some(pick => pick.user_id === userId && isThisWeek(pick))
+  );
+
+  // Precompute how each pending pick can settle
+  const simulatedPicks = pending.map(pick => {
+    const multiplier = calculator.getPointsMultiplier(pick);
+    const pointsFor = (result: 'win' | 'loss') => pick.confidence
+      ? getConfidencePoints(result, pick.confidence, multiplier)
+      : calculator.scoreResult(result, pick.odds_price, pick);
+
+    return {
+      pick,
+      thisWeek: isThisWeek(pick),
+      straight: pick.pick_type === 'parlay'
+        ? null
+        : {
+            selection: toSimulatedSelection(pick.game_id, pick.selection_data, pick.odds_price, oddsByGame.get(pick.game_id)),
+            winPoints: pointsFor('win'),
+            lossPoints: pointsFor('loss')
+          },
+      legs: pick.pick_type === 'parlay'
+        ? pick.pick_legs.map(leg => ({
+            leg,
+            selection: toSimulatedSelection(leg.game_id, leg.selection_data, leg.odds_price, oddsByGame.get(leg.game_id))
+          }))
+        : []
+    };
+  });
+
+  const totals = {
+    week: new Map<string, { points: number; wins: number }>(),
+    season: new Map<string, { points: number; wins: number }>()
+  };
+  for (const userId of usernames.keys()) {
+    totals.season.set(userId, { points: 0, wins: 0 });
+    if (weekMembers.includes(userId)) totals.week.set(userId, { points: 0, wins: 0 });
+  }
+
+  const creditWinners = (scores: Map<string, number>, scope: Map<string, { points: number; wins: number }>) => {
+    let best = -Infinity;
+    for (const points of scores.values()) best = Math.max(best, points);
+    const leaders = [...scores.entries()].filter(([, points]) => points === best).map(([userId]) => userId);
+
+    for (const [userId, points] of scores) {
+      const total = scope.get(userId);
+      if (!total) continue;
+      total.points += points;
+      if (leaders.includes(userId)) total.wins += 1 / leaders.length;
+    }
+  };
+
+  for (let run = 0; run < simulations; run++) {
+    const draws = new Map<string, number>();
+    const wins = ({ game_id, draw, favorsLow, probability }: SimulatedSelection) => {
+      let value = Math.random();
+      if (draw !== 'own') {
+        const key = `${game_id}:${draw}`;
+        value = draws.get(key) ?? value;
+        draws.set(key, value);
+      }
+      return favorsLow ? value < probability : value >= 1 - probability;
+    };
+
+    const weekScores = new Map(weekMembers.map(userId => [userId, weekPoints.get(userId) || 0]));
+    const seasonScores = new Map([...usernames.keys()].map(userId => [userId, seasonPoints.get(userId) || 0]));
+
+    for (const { pick, thisWeek, straight, legs } of simulatedPicks) {
+      let points: number;
+      if (straight) {
+        points = wins(straight.selection) ? straight.winPoints : straight.lossPoints;
+      } else {
+        const legResults = legs.map(({ leg, selection }) => ({
+          result: leg.result ?? (wins(selection) ? 'win' : 'loss') as LegResult,
+          odds_price: leg.odds_price
+        }));
+        points = calculator.resolveParlay(legResults, pick).points;
+      }
+
+      seasonScores.set(pick.user_id, (seasonScores.get(pick.user_id) || 0) + points);
+      if (thisWeek) {
+        weekScores.set(pick.user_id, (weekScores.get(pick.user_id) || 0) + points);
+      }
+    }
+
+    creditWinners(weekScores, totals.week);
+    creditWinners(seasonScores, totals.season);
+  }
+
+  const toProjections = (
+    scope: Map<string, { points: number; wins: number }>,
+    current: Map<string, number>,
+    countsPick: (pick: PendingPick) => boolean
+  ): MemberProjection[] => [...scope.entries()]
+    .map(([userId, total]) => ({
+      user_id: userId,
+      username: usernames.get(userId) || 'Unknown',
+      current_points: roundTo(current.get(userId) || 0, 2),
+      projected_points: roundTo(simulations > 0 ? total.points / simulations : current.get(userId) || 0, 1),
+      win_probability: roundTo(simulations > 0 ? total.wins / simulations : 0, 3),
+      pending_picks: pending.filter(pick => pick.user_id === userId && countsPick(pick)).length
+    }))
+    .sort((a, b) => b.win_probability - a.win_probability || b.projected_points - a.projected_points);
+
+  return {
+    simulations,
+    week_standings: toProjections(totals.week, weekPoints, isThisWeek),
+    season_standings: toProjections(totals.season, seasonPoints, () => true)
+  };
+}
@@ -0,0 +1,176 @@
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import { fetchESPNScoreboard, processESPNGames, getCompletedGames } from '@/lib/espn-monitor';
+import {
+  buildGameRegradePlan,
+  applyScoreCorrection,
+  finishScoreCorrection,
+  type ScoreCorrectionReason
+} from '@/lib/game-scoring';
+import type { NFLWeek } from '@/lib/nfl-week';
+
+/**
+ * Score corrections. ESPN sometimes changes a final score after the game was
+ * scored; reconcileWeekScores compares each scored game with ESPN and
+ * re-grades the ones that differ. Every re-grade is recorded in
+ * score_corrections so league members can see what changed and why.
+ */
+
+export interface ScoredGame {
+  id: number;
+  espn_game_id: string | null;
+  season_id: number | null;
+  home_score: number | null;
+  away_score: number | null;
+  home_linescores?: number[] | null;
+  away_linescores?: number[] | null;
+}
+
+export interface FinalScore {
+  home_score: number;
+  away_score: number;
+  home_linescores?: number[] | null;
+  away_linescores?: number[] | null;
+}
+
+export interface GameCorrectionSummary {
+  game_id: number;
+  espn_game_id: string | null;
+  old_score: string;
+  new_score: string;
+  picks_changed: number;
+  points_delta: number;
+}
+
+const formatScore = (home: number | null, away: number | null) => `${home ?? '-'}-${away ?? '-'}`;
+
+/**
+ * Re-grade every pick on a scored game against a (possibly new) final score.
+ * Returns null when another run already applied the same correction.
+ */
+export async function regradeGame(
+  game: ScoredGame,
+  newScore: FinalScore,
+  reason: ScoreCorrectionReason
+): Promise<GameCorrectionSummary | null> {
+  // Period picks are graded on the newest linescores we have
+  const gameResult = {
+    home_score: newScore.home_score,
+    away_score: newScore.away_score,
+    status: 'completed',
+    home_linescores: newScore.home_linescores ?? game.home_linescores ?? null,
+    away_linescores: newScore.away_linescores ?? game.away_linescores ?? null
+  };
+
+  if (newScore.home_linescores && newScore.away_linescores) {
+    await supabaseAdmin
+      .from('games')
+      .update({ home_linescores: newScore.home_linescores, away_linescores: newScore.away_linescores })
+      .eq('id', game.id);
+  }
+
+  // Each pick is re-graded with its own league's rules
+  const plan = await buildGameRegradePlan(game.id, gameResult);
+
+  const outcome = await applyScoreCorrection(
+    game,
+    { home_score: game.home_score, away_score: game.away_score },
+    gameResult,
+    plan,
+    reason
+  );
+
+  if (outcome.alreadyApplied) {
+    return null;
+  }
+
+  await finishScoreCorrection(outcome.scoreCorrectionId);
+
+  console.log(`Corrected game ${game.id} (${reason}): ${formatScore(game.home_score, game.away_score)} -> ${formatScore(newScore.home_score, newScore.away_score)}, ${outcome.picksChanged} picks changed`);
+
+  return {
+    game_id: game.id,
+    espn_game_id: game.espn_game_id,
+    old_score: formatScore(game.home_score, game.away_score),
+    new_score: formatScore(newScore.home_score, newScore.away_score),
+    picks_changed: outcome.picksChanged,
+    points_delta: outcome.pointsDelta
+  };
+}
+
+/**
+ * Compare a week's scored games with ESPN's final scores and re-grade any
+ * that changed. Games that haven't been scored yet are left to /api/scoring/auto.
+ */
+export async function reconcileWeekScores(week: NFLWeek): Promise<{
+  gamesChecked: number;
+  corrections: GameCorrectionSummary[];
+}> {
+  const espnData = await fetchESPNScoreboard(week.week, week.season_type);
+  const completedGames = getCompletedGames(processESPNGames(espnData));
+
+  if (completedGames.length === 0) {
+    return { gamesChecked: 0, corrections: [] };
+  }
+
+  const { data: games, error: gamesError } = await supabaseAdmin
+    .from('games')
+    .select('id, espn_game_id, season_id, home_score, away_score, home_linescores, away_linescores')
+    .in('espn_game_id', completedGames.map(game => game.espnGameId))
+    .eq('status', 'completed');
+
+  if (gamesError) {
+    throw new Error(`Failed to load games for ${week.label}: ${gamesError.message}`);
+  }
+
+  const { data: scoredEvents, error: eventsError } = await supabaseAdmin
+    .from('scoring_events')
+    .select('game_id')
+    .in('game_id', (games || []).map(game => game.id))
+    .is('error_message', null);
+
+  if (eventsError) {
+    throw new Error(`Failed to load scoring events for ${week.label}: ${eventsError.message}`);
+  }
+
+  const scoredGameIds = new Set((scoredEvents || []).map(event => event.game_id));
+  const gamesByEspnId = new Map((games || []).map(game => [game.espn_game_id, game as ScoredGame]));
+  const corrections: GameCorrectionSummary[] = [];
+  let gamesChecked = 0;
+
+  for (const espnGame of completedGames) {
+    const game = gamesByEspnId.get(espnGame.espnGameId);
+    if (!game || !scoredGameIds.has(game.id)) {
+      continue;
+    }
+
+    gamesChecked++;
+
+    // Same defaults /api/scoring/auto used when it scored the game
+    const homeScore = espnGame.homeTeam.score || 0;
+    const awayScore = espnGame.awayTeam.score || 0;
+
+    if (homeScore === game.home_score && awayScore === game.away_score) {
+      continue;
+    }
+
+    try {
+      const correction = await regradeGame(
+        game,
+        {
+          home_score: homeScore,
+          away_score: awayScore,
+          home_linescores: espnGame.homeTeam.linescores,
+          away_linescores: espnGame.awayTeam.linescores
+        },
+        'espn_correction'
+      );
+      if (correction) {
+        corrections.push(correction);
+      }
+    } catch (error) {
+      console.error(`Failed to correct game ${game.id}:`, error);
+    }
+  }
+
+  return { gamesChecked, corrections };
+}
@@ -1,4 +1,16 @@
 import { supabaseAdmin } from '@/lib/supabase-admin';
+import { americanToProfitMultiplier } from '@/lib/odds';
+import { getConfidencePoints } from '@/lib/confidence-pool';
+import { UNPLAYABLE_GAME_STATUSES, type GameStatus } from '@/lib/espn-monitor';
+import { MARKET_PERIOD_LABELS, type MarketPeriod, type PickSelection } from '@/lib/selection';
+import { DEFAULT_TIEBREAKERS, type Tiebreaker } from '@/lib/tiebreakers';
+
+export type ParlayPushRule = 'reduce' | 'push' | 'loss';
+
+// Whether overtime points count toward full-game and second-half markets
+export type OvertimeRule = 'include_ot' | 'regulation_only';
+
+export type ScoringMode = 'flat' | 'odds_weighted';
 
 export interface ScoringRules {
   points_per_win: number;
@@ -6,34 +18,98 @@ export interface ScoringRules {
   points_per_push: number;
   streak_bonus: number;
   weekly_winner_bonus: number;
+  parlay_push_rule: ParlayPushRule;
+  scoring_mode: ScoringMode;
+  // Postseason week ("1" = Wild Card ... "5" = Super Bowl) -> points multiplier
+  playoff_multipliers: Record<string, number>;
+  overtime_rule: OvertimeRule;
+  // Applied in order to members level on points in weekly and season standings
+  tiebreakers: Tiebreaker[];
+  // league_scoring_rules.version, bumped on every edit; unset for the built-in defaults
+  version?: number;
+}
+
+/**
+ * The part of the season a pick belongs to, which decides its points multiplier
+ */
+export interface ScoringWeek {
+  season_type?: number | null;
+  week?: number | null;
 }
 
 export interface GameResult {
   home_score: number;
   away_score: number;
   status: string;
+  // Points per period from ESPN: [Q1, Q2, Q3, Q4, OT...]. Needed for period markets.
+  home_linescores?: number[] | null;
+  away_linescores?: number[] | null;
 }
 
+// Quarters in regulation
+const REGULATION_PERIODS = 4;
+
 export interface Pick {
   id: number;
   user_id: string;
   game_id: number;
   bet_type: string;
   selection: string;
+  selection_data?: PickSelection | null;
   result: string | null;
   points_awarded: number;
   week: number;
+  season_type?: number | null;
+  pick_type?: 'straight' | 'parlay';
+  odds_price?: number | null;
+  locked_point?: number | null;
+  // Confidence pools only: the points this pick is worth if it wins
+  confidence?: number | null;
   created_at?: string;
 }
 
+export interface PickLeg {
+  id: number;
+  pick_id: number;
+  game_id: number;
+  bet_type: string;
+  selection: string;
+  selection_data?: PickSelection | null;
+  player_prop_id?: number | null;
+  leg_order: number;
+  odds_price?: number | null;
+  locked_point?: number | null;
+  result: LegResult | null;
+}
+
+export type LegResult = 'win' | 'loss' | 'push' | 'void';
+
 export interface PickResult {
   result: 'win' | 'loss' | 'push' | 'pending';
   points: number;
   explanation?: string;
 }
 
+/**
+ * Where a pick stands while its game is still being played
+ */
+export interface LivePickStatus {
+  result: 'win' | 'loss' | 'push';
+  // Points the selection is ahead (+) or behind (-) of its line: the cover
+  // margin for spreads and moneylines, the distance from the number for
+  // totals and props. Null for picks without a structured selection.
+  margin: number | null;
+  explanation: string;
+}
+
 export type BetType = 'moneyline' | 'spread' | 'total';
 
+// Standard juice, used when a pick has no locked price
+const DEFAULT_AMERICAN_PRICE = -110;
+
+// ESPN season type for the playoffs
+const POSTSEASON = 3;
+
 /**
  * Enhanced scoring calculator with robust parsing and validation
  */
@@ -51,17 +127,33 @@ export class ScoringCalculator {
     if (gameResult.status !== 'completed' ||
         gameResult.home_score === null ||
         gameResult.away_score === null) {
-      return { result: 'pending', points: 0, explanation: 'Game not completed' };
+      // Picks on cancelled games are voided by /api/cron/sync-game-status rather than graded
+      const explanation = UNPLAYABLE_GAME_STATUSES.includes(gameResult.status as GameStatus)
+        ? `Game ${gameResult.status}`
+        : 'Game not completed';
+      return { result: 'pending', points: 0, explanation };
+    }
+
+    const period = pick.selection_data?.period ?? null;
+    const settlement = this.getSettlementScore(gameResult, period);
+    if (!settlement) {
+      return { result: 'pending', points: 0, explanation: `${MARKET_PERIOD_LABELS[period as MarketPeriod]} score not available` };
     }
 
     try {
-      const result = this.determinePickResult(pick, gameResult);
-      const points = this.calculatePoints(result);
+      const settledResult = { ...gameResult, ...settlement.score };
+      const result = this.determinePickResult(pick, settledResult);
+      const multiplier = this.getPointsMultiplier(pick);
+      const points = pick.confidence
+        ? this.roundPoints(getConfidencePoints(result, pick.confidence, multiplier))
+        : this.calculatePoints(result, pick.odds_price, multiplier);
+
+      const explanation = this.getResultExplanation(pick, settledResult, result);
 
       return {
         result,
         points,
-        explanation: this.getResultExplanation(pick, gameResult, result)
+        explanation: settlement.label ? `${settlement.label}: ${explanation}` : explanation
       };
     } catch (error) {
       console.error('Error calculating pick:', error);
@@ -74,26 +166,260 @@ export class ScoringCalculator {
   }
 
   /**
-   * Determine the result of a pick based on game outcome
+   * Grade a pick against the current score of a game in progress, as if the
+   * game ended now. Returns null when the game isn't live or the pick's period
+   * hasn't started. Nothing is written; picks are still settled by calculatePick.
+   */
+  calculateLivePick(pick: Pick, gameResult: GameResult): LivePickStatus | null {
+    if (gameResult.status !== 'live' ||
+        gameResult.home_score === null ||
+        gameResult.away_score === null) {
+      return null;
+    }
+
+    const settlement = this.getSettlementScore(gameResult, pick.selection_data?.period ?? null, true);
+    if (!settlement) {
+      return null;
+    }
+
+    try {
+      const { home_score, away_score } = settlement.score;
+      const result = this.determinePickResult(pick, { ...gameResult, home_score, away_score });
+      const margin = pick.selection_data
+        ? this.getSelectionMargin(pick.selection_data, pick.locked_point, home_score, away_score)
+        : null;
+      const explanation = `${settlement.label ? `${settlement.label} ` : ''}${away_score}-${home_score}`;
+
+      return { result, margin, explanation };
+    } catch (error) {
+      console.error('Error calculating live pick:', error);
+      return null;
+    }
+  }
+
+  /**
+   * How far a structured selection is ahead of (+) or behind (-) its line
+   */
+  private getSelectionMargin(
+    selection: PickSelection,
+    lockedPoint: number | null | undefined,
+    homeScore: number,
+    awayScore: number
+  ): number | null {
+    const line = lockedPoint != null ? Number(lockedPoint) : selection.line;
+    const sideMargin = selection.side === 'home' ? homeScore - awayScore : awayScore - homeScore;
+
+    switch (selection.market) {
+      case 'moneyline':
+        return sideMargin;
+      case 'spread':
+        return line === null ? null : sideMargin + line;
+      case 'total':
+        if (line === null) return null;
+        return selection.side === 'over' ? homeScore + awayScore - line : line - (homeScore + awayScore);
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * The score a selection is settled on: one period's points, or the full game
+   * with or without overtime. Returns null when a period market can't be graded
+   * because ESPN's linescores aren't stored for the game, or for a game in
+   * progress, when the period hasn't started yet.
+   */
+  getSettlementScore(
+    gameResult: GameResult,
+    period: MarketPeriod | null,
+    inProgress = false
+  ): { score: { home_score: number; away_score: number }; label: string | null } | null {
+    const home = gameResult.home_linescores;
+    const away = gameResult.away_linescores;
+    // A game in progress only has linescores for the periods played so far
+    const minPeriods = inProgress ? 1 : REGULATION_PERIODS;
+    const hasLinescores = !!home && !!away &&
+      home.length >= minPeriods && away.length >= minPeriods;
+    const includeOvertime = this.scoringRules.overtime_rule !== 'regulation_only';
+
+    const sumPeriods = (from: number, to?: number) => ({
+      home_score: (home as number[]).slice(from, to).reduce((total, points) => total + points, 0),
+      away_score: (away as number[]).slice(from, to).reduce((total, points) => total + points, 0)
+    });
+
+    if (!period) {
+      // Without linescores there's no way to tell an overtime game apart, so the final score stands
+      const wentToOvertime = hasLinescores && (home.length > REGULATION_PERIODS || away.length > REGULATION_PERIODS);
+      if (includeOvertime || !wentToOvertime) {
+        return { score: { home_score: gameResult.home_score, away_score: gameResult.away_score }, label: null };
+      }
+      return { score: sumPeriods(0, REGULATION_PERIODS), label: 'Regulation' };
+    }
+
+    if (!hasLinescores) {
+      return null;
+    }
+
+    const firstPeriod = period === 'h1' ? 1 : period === 'h2' ? 3 : Number(period.slice(1));
+    if (home.length < firstPeriod) {
+      return null;
+    }
+
+    switch (period) {
+      case 'h1':
+        return { score: sumPeriods(0, 2), label: MARKET_PERIOD_LABELS.h1 };
+      case 'h2':
+        // Second-half markets include overtime unless the league says otherwise
+        return { score: sumPeriods(2, includeOvertime ? undefined : REGULATION_PERIODS), label: MARKET_PERIOD_LABELS.h2 };
+      default: {
+        const quarter = Number(period.slice(1));
+        return { score: sumPeriods(quarter - 1, quarter), label: MARKET_PERIOD_LABELS[period] };
+      }
+    }
+  }
+
+  /**
+   * Points for a result decided outside the calculator, such as a graded player prop
+   */
+  scoreResult(result: 'win' | 'loss' | 'push', price?: number | null, week?: ScoringWeek): number {
+    return this.calculatePoints(result, price, this.getPointsMultiplier(week));
+  }
+
+  /**
+   * Playoff rounds can be worth more than regular-season weeks
+   */
+  getPointsMultiplier(week?: ScoringWeek): number {
+    if (week?.season_type !== POSTSEASON || !week.week) {
+      return 1;
+    }
+    return this.scoringRules.playoff_multipliers?.[String(week.week)] ?? 1;
+  }
+
+  /**
+   * Resolve a parlay from the results of its legs.
+   * A losing leg settles the parlay immediately; otherwise every leg must be graded.
+   * Pushed/void legs are handled according to the league's parlay_push_rule.
+   */
+  resolveParlay(
+    legs: Array<{ result: LegResult | null; odds_price?: number | null }>,
+    week?: ScoringWeek
+  ): PickResult & { legsCounted: number } {
+    const results = legs.map(leg => leg.result);
+    const multiplier = this.getPointsMultiplier(week);
+
+    if (results.includes('loss')) {
+      return {
+        result: 'loss',
+        points: this.calculatePoints('loss', null, multiplier),
+        legsCounted: legs.length,
+        explanation: `Parlay lost (${results.filter(r => r === 'loss').length} of ${legs.length} legs lost)`
+      };
+    }
+
+    if (results.some(r => r === null)) {
+      return { result: 'pending', points: 0, legsCounted: 0, explanation: 'Parlay has legs still pending' };
+    }
+
+    const wins = results.filter(r => r === 'win').length;
+    const pushes = legs.length - wins;
+
+    if (pushes > 0 && this.scoringRules.parlay_push_rule === 'loss') {
+      return {
+        result: 'loss',
+        points: this.calculatePoints('loss', null, multiplier),
+        legsCounted: legs.length,
+        explanation: `Parlay lost (${pushes} pushed leg${pushes > 1 ? 's' : ''} count as losses)`
+      };
+    }
+
+    if (wins === 0 || (pushes > 0 && this.scoringRules.parlay_push_rule === 'push')) {
+      return {
+        result: 'push',
+        points: this.calculatePoints('push', null, multiplier),
+        legsCounted: 0,
+        explanation: `Parlay pushed (${pushes} of ${legs.length} legs pushed)`
+      };
+    }
+
+    // Each winning leg is worth a win, so a reduced parlay pays less than the full ticket.
+    // Odds-weighted leagues pay the combined price of the winning legs instead.
+    const winningLegs = legs.filter(leg => leg.result === 'win');
+    const points = this.scoringRules.scoring_mode === 'odds_weighted'
+      ? this.roundPoints(this.scoringRules.points_per_win * multiplier * (winningLegs.reduce(
+          (decimal, leg) => decimal * (1 + americanToProfitMultiplier(leg.odds_price ?? DEFAULT_AMERICAN_PRICE)),
+          1
+        ) - 1))
+      : this.calculatePoints('win', null, multiplier) * wins;
+
+    return {
+      result: 'win',
+      points,
+      legsCounted: wins,
+      explanation: pushes > 0
+        ? `Parlay won, reduced from ${legs.length} to ${wins} legs`
+        : `Parlay won (${wins} legs)`
+    };
+  }
+
+  /**
+   * Determine the result of a pick based on game outcome.
+   * Structured selections are graded directly; picks made before selection_data
+   * existed (and not backfilled) fall back to parsing the selection text.
    */
   private determinePickResult(pick: Pick, gameResult: GameResult): 'win' | 'loss' | 'push' {
     const { home_score, away_score } = gameResult;
 
+    if (pick.selection_data) {
+      return this.calculateStructuredResult(pick.selection_data, pick.locked_point, home_score, away_score);
+    }
+
     switch (pick.bet_type.toLowerCase()) {
       case 'moneyline':
         return this.calculateMoneylineResult(pick.selection, home_score, away_score);
 
       case 'spread':
-        return this.calculateSpreadResult(pick.selection, home_score, away_score);
+        return this.calculateSpreadResult(pick.selection, home_score, away_score, pick.locked_point);
 
       case 'total':
-        return this.calculateTotalResult(pick.selection, home_score, away_score);
+        return this.calculateTotalResult(pick.selection, home_score, away_score, pick.locked_point);
 
       default:
         throw new Error(`Unknown bet type: ${pick.bet_type}`);
     }
   }
 
+  /**
+   * Grade a structured selection. The locked point wins over the selection's own line.
+   */
+  private calculateStructuredResult(
+    selection: PickSelection,
+    lockedPoint: number | null | undefined,
+    homeScore: number,
+    awayScore: number
+  ): 'win' | 'loss' | 'push' {
+    const line = lockedPoint != null ? Number(lockedPoint) : selection.line;
+
+    switch (selection.market) {
+      case 'moneyline':
+        if (homeScore === awayScore) return 'push';
+        return (homeScore > awayScore) === (selection.side === 'home') ? 'win' : 'loss';
+
+      case 'spread':
+        if (line === null || (selection.side !== 'home' && selection.side !== 'away')) {
+          throw new Error(`Invalid spread selection: ${JSON.stringify(selection)}`);
+        }
+        return this.gradeSpread(selection.side, line, homeScore, awayScore);
+
+      case 'total':
+        if (line === null || (selection.side !== 'over' && selection.side !== 'under')) {
+          throw new Error(`Invalid total selection: ${JSON.stringify(selection)}`);
+        }
+        return this.gradeTotal(selection.side, line, homeScore, awayScore);
+
+      default:
+        throw new Error(`Unknown bet type: ${selection.market}`);
+    }
+  }
+
   /**
    * Calculate moneyline bet result
    */
@@ -121,16 +447,25 @@ export class ScoringCalculator {
   }
 
   /**
-   * Calculate spread bet result with robust parsing
+   * Calculate spread bet result with robust parsing.
+   * A locked point takes precedence over the number written in the selection.
    */
-  private calculateSpreadResult(selection: string, homeScore: number, awayScore: number): 'win' | 'loss' | 'push' {
+  private calculateSpreadResult(
+    selection: string,
+    homeScore: number,
+    awayScore: number,
+    lockedPoint?: number | null
+  ): 'win' | 'loss' | 'push' {
     const parsed = this.parseSpreadSelection(selection);
     if (!parsed) {
       throw new Error(`Invalid spread selection format: ${selection}`);
     }
 
-    const { team, spread } = parsed;
+    const spread = lockedPoint != null ? Number(lockedPoint) : parsed.spread;
+    return this.gradeSpread(parsed.team, spread, homeScore, awayScore);
+  }
 
+  private gradeSpread(team: 'home' | 'away', spread: number, homeScore: number, awayScore: number): 'win' | 'loss' | 'push' {
     if (team === 'home') {
       const adjustedScore = homeScore + spread;
       if (adjustedScore === awayScore) return 'push';
@@ -143,15 +478,24 @@ export class ScoringCalculator {
   }
 
   /**
-   * Calculate total (over/under) bet result
+   * Calculate total (over/under) bet result against the locked total when there is one
    */
-  private calculateTotalResult(selection: string, homeScore: number, awayScore: number): 'win' | 'loss' | 'push' {
+  private calculateTotalResult(
+    selection: string,
+    homeScore: number,
+    awayScore: number,
+    lockedPoint?: number | null
+  ): 'win' | 'loss' | 'push' {
     const parsed = this.parseTotalSelection(selection);
     if (!parsed) {
       throw new Error(`Invalid total selection format: ${selection}`);
     }
 
-    const { direction, total } = parsed;
+    const total = lockedPoint != null ? Number(lockedPoint) : parsed.total;
+    return this.gradeTotal(parsed.direction, total, homeScore, awayScore);
+  }
+
+  private gradeTotal(direction: 'over' | 'under', total: number, homeScore: number, awayScore: number): 'win' | 'loss' | 'push' {
     const gameTotal = homeScore + awayScore;
 
     if (gameTotal === total) return 'push';
@@ -242,21 +586,31 @@ export class ScoringCalculator {
   }
 
   /**
-   * Calculate points based on result
+   * Calculate points based on result. In odds-weighted mode a win pays
+   * points_per_win per unit of profit at the locked price.
    */
-  private calculatePoints(result: 'win' | 'loss' | 'push'): number {
+  private calculatePoints(result: 'win' | 'loss' | 'push', price?: number | null, multiplier = 1): number {
     switch (result) {
       case 'win':
-        return this.scoringRules.points_per_win;
+        if (this.scoringRules.scoring_mode === 'odds_weighted') {
+          return this.roundPoints(
+            this.scoringRules.points_per_win * multiplier * americanToProfitMultiplier(price ?? DEFAULT_AMERICAN_PRICE)
+          );
+        }
+        return this.roundPoints(this.scoringRules.points_per_win * multiplier);
       case 'loss':
-        return this.scoringRules.points_per_loss;
+        return this.roundPoints(this.scoringRules.points_per_loss * multiplier);
       case 'push':
-        return this.scoringRules.points_per_push;
+        return this.roundPoints(this.scoringRules.points_per_push * multiplier);
       default:
         return 0;
     }
   }
 
+  private roundPoints(points: number): number {
+    return Math.round(points * 100) / 100;
+  }
+
   /**
    * Generate human-readable explanation of the result
    */
@@ -283,6 +637,19 @@ export class ScoringCalculator {
   }
 }
 
+const DEFAULT_SCORING_RULES: ScoringRules = {
+  points_per_win: 1,
+  points_per_loss: 0,
+  points_per_push: 0,
+  streak_bonus: 0,
+  weekly_winner_bonus: 0,
+  parlay_push_rule: 'reduce',
+  scoring_mode: 'flat',
+  playoff_multipliers: {},
+  overtime_rule: 'include_ot',
+  tiebreakers: DEFAULT_TIEBREAKERS
+};
+
 /**
  * Get scoring rules for a league
  */
@@ -295,13 +662,7 @@ export async function getLeagueScoringRules(leagueId: number): Promise<ScoringRu
 
   if (error || !rules) {
     // Return default scoring rules
-    return {
-      points_per_win: 1,
-      points_per_loss: 0,
-      points_per_push: 0,
-      streak_bonus: 0,
-      weekly_winner_bonus: 0
-    };
+    return { ...DEFAULT_SCORING_RULES };
   }
 
   return {
@@ -309,7 +670,63 @@ export async function getLeagueScoringRules(leagueId: number): Promise<ScoringRu
     points_per_loss: rules.points_per_loss,
     points_per_push: rules.points_per_push,
     streak_bonus: rules.streak_bonus,
-    weekly_winner_bonus: rules.weekly_winner_bonus
+    weekly_winner_bonus: rules.weekly_winner_bonus,
+    parlay_push_rule: rules.parlay_push_rule || 'reduce',
+    scoring_mode: rules.scoring_mode || 'flat',
+    playoff_multipliers: rules.playoff_multipliers || {},
+    overtime_rule: rules.overtime_rule || 'include_ot',
+    tiebreakers: rules.tiebreakers ?? DEFAULT_TIEBREAKERS,
+    version: rules.version ?? undefined
+  };
+}
+
+export interface SeasonCalculator {
+  calculator: ScoringCalculator;
+  // league_scoring_rules.version, recorded with every grade; null for the defaults
+  ruleVersion: number | null;
+}
+
+export type SeasonCalculators = (seasonId: number) => Promise<SeasonCalculator>;
+
+/**
+ * Calculators for the leagues that picks belong to, keyed by the pick's
+ * season. Games are shared by every league, so each pick on a game is graded
+ * with its own league's rules. Each season and league is only looked up once.
+ */
+export function createSeasonCalculators(): SeasonCalculators {
+  const seasonLeagues = new Map<number, Promise<number | null>>();
+  const leagueCalculators = new Map<number | null, Promise<SeasonCalculator>>();
+
+  const getSeasonLeague = async (seasonId: number): Promise<number | null> => {
+    const { data: season } = await supabaseAdmin
+      .from('seasons')
+      .select('league_id')
+      .eq('id', seasonId)
+      .maybeSingle();
+
+    return season?.league_id ?? null;
+  };
+
+  const getLeagueCalculator = async (leagueId: number | null): Promise<SeasonCalculator> => {
+    const rules = leagueId === null ? DEFAULT_SCORING_RULES : await getLeagueScoringRules(leagueId);
+    return { calculator: new ScoringCalculator(rules), ruleVersion: rules.version ?? null };
+  };
+
+  return async (seasonId: number) => {
+    let leagueId = seasonLeagues.get(seasonId);
+    if (!leagueId) {
+      leagueId = getSeasonLeague(seasonId);
+      seasonLeagues.set(seasonId, leagueId);
+    }
+
+    const league = await leagueId;
+    let calculator = leagueCalculators.get(league);
+    if (!calculator) {
+      calculator = getLeagueCalculator(league);
+      leagueCalculators.set(league, calculator);
+    }
+
+    return calculator;
   };
 }
 
@@ -380,7 +797,9 @@ export async function recalculateUserSeasonStats(userId: string, seasonId: numbe
     `)
     .eq('user_id', userId)
     .eq('games.season_id', seasonId)
-    .not('result', 'is', null);
+    .not('result', 'is', null)
+    // Picks voided by an admin don't count
+    .neq('result', 'void');
 
   if (picksError) {
     throw new Error(`Failed to fetch picks: ${picksError.message}`);
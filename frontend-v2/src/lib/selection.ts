@@ -0,0 +1,164 @@
+import type { SelectionTeams } from '@/lib/odds';
+
+export type SelectionMarket = 'moneyline' | 'spread' | 'total' | 'player_prop';
+export type SelectionSide = 'home' | 'away' | 'over' | 'under';
+
+// Part of the game a moneyline, spread or total is settled on; no period means the full game
+export type MarketPeriod = 'h1' | 'h2' | 'q1' | 'q2' | 'q3' | 'q4';
+
+export const MARKET_PERIODS: MarketPeriod[] = ['h1', 'h2', 'q1', 'q2', 'q3', 'q4'];
+
+export const MARKET_PERIOD_LABELS: Record<MarketPeriod, string> = {
+  h1: '1st Half',
+  h2: '2nd Half',
+  q1: '1st Quarter',
+  q2: '2nd Quarter',
+  q3: '3rd Quarter',
+  q4: '4th Quarter'
+};
+
+// Prefix for selection labels, e.g. "1H Chiefs -3.5"
+const MARKET_PERIOD_PREFIXES: Record<MarketPeriod, string> = {
+  h1: '1H',
+  h2: '2H',
+  q1: 'Q1',
+  q2: 'Q2',
+  q3: 'Q3',
+  q4: 'Q4'
+};
+
+/**
+ * Structured form of a pick's selection, stored in picks.selection_data and
+ * pick_legs.selection_data. The text `selection` column is only a display label.
+ */
+export interface PickSelection {
+  market: SelectionMarket;
+  side: SelectionSide;
+  // Spread, total or prop line; null for moneylines and yes/no props
+  line: number | null;
+  player_prop_id?: number | null;
+  athlete_id?: string | null;
+  prop_market?: string | null;
+  period?: MarketPeriod | null;
+}
+
+export const SELECTION_SIDES: Record<SelectionMarket, SelectionSide[]> = {
+  moneyline: ['home', 'away'],
+  spread: ['home', 'away'],
+  total: ['over', 'under'],
+  player_prop: ['over', 'under']
+};
+
+/**
+ * Validate a structured selection from a request body against its bet type.
+ * Only known fields are copied onto the returned selection.
+ */
+export function validateSelection(
+  input: unknown,
+  betType: string
+): { isValid: boolean; errorMessage?: string; selection?: PickSelection } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { isValid: false, errorMessage: 'Selection must be an object' };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const market = raw.market as SelectionMarket;
+
+  if (!(market in SELECTION_SIDES) || market !== betType) {
+    return { isValid: false, errorMessage: 'Selection market does not match bet type' };
+  }
+
+  const side = raw.side as SelectionSide;
+  if (!SELECTION_SIDES[market].includes(side)) {
+    return { isValid: false, errorMessage: `Invalid side for ${market} selection` };
+  }
+
+  let line: number | null = null;
+  if (raw.line !== null && raw.line !== undefined) {
+    if (typeof raw.line !== 'number' || !Number.isFinite(raw.line)) {
+      return { isValid: false, errorMessage: 'Selection line must be a number' };
+    }
+    line = raw.line;
+  }
+
+  if (market === 'moneyline' && line !== null) {
+    return { isValid: false, errorMessage: 'Moneyline selections do not have a line' };
+  }
+
+  if ((market === 'spread' || market === 'total') && line === null) {
+    return { isValid: false, errorMessage: `${market === 'spread' ? 'Spread' : 'Total'} selections require a line` };
+  }
+
+  if (market !== 'player_prop') {
+    const period = raw.period ?? null;
+    if (period !== null && !MARKET_PERIODS.includes(period as MarketPeriod)) {
+      return { isValid: false, errorMessage: `Selection period must be one of: ${MARKET_PERIODS.join(', ')}` };
+    }
+
+    return {
+      isValid: true,
+      selection: period ? { market, side, line, period: period as MarketPeriod } : { market, side, line }
+    };
+  }
+
+  const propId = raw.player_prop_id;
+  if (typeof propId !== 'number' || !Number.isSafeInteger(propId) || propId <= 0) {
+    return { isValid: false, errorMessage: 'Player prop selections require a player_prop_id' };
+  }
+
+  return {
+    isValid: true,
+    selection: {
+      market,
+      side,
+      line,
+      player_prop_id: propId,
+      athlete_id: typeof raw.athlete_id === 'string' ? raw.athlete_id : null,
+      prop_market: typeof raw.prop_market === 'string' ? raw.prop_market : null
+    }
+  };
+}
+
+const formatLine = (line: number) => line > 0 ? `+${line}` : `${line}`;
+
+/**
+ * "player_pass_yds" -> "pass yds"
+ */
+export function formatPropMarket(marketKey: string): string {
+  return marketKey.replace(/^player_/, '').replace(/_/g, ' ');
+}
+
+/**
+ * Human-readable label for a selection, stored alongside it for display
+ */
+export function formatSelectionLabel(
+  selection: PickSelection,
+  teams: SelectionTeams | null,
+  athleteName?: string | null
+): string {
+  const side = selection.side.charAt(0).toUpperCase() + selection.side.slice(1);
+  const teamName = (teamSide: SelectionSide) => {
+    if (!teams) return side;
+    return teamSide === 'home' ? teams.home.name : teams.away.name;
+  };
+
+  const prefix = selection.period ? `${MARKET_PERIOD_PREFIXES[selection.period]} ` : '';
+
+  switch (selection.market) {
+    case 'moneyline':
+      return `${prefix}${teamName(selection.side)}`;
+    case 'spread': {
+      const team = teamName(selection.side);
+      return `${prefix}${selection.line !== null ? `${team} ${formatLine(selection.line)}` : team}`;
+    }
+    case 'total':
+      return `${prefix}${side} ${selection.line ?? ''}`.trim();
+    case 'player_prop':
+      return [
+        athleteName,
+        selection.prop_market ? formatPropMarket(selection.prop_market) : null,
+        side,
+        selection.line
+      ].filter(part => part !== null && part !== undefined && part !== '').join(' ');
+  }
+}
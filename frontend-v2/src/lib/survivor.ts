@@ -0,0 +1,278 @@
+import { supabaseAdmin } from './supabase-admin';
+import { getSeasonNFLYear } from './nfl-week';
+import type { SurvivorSettings } from './league-format';
+import type { PickSelection } from './selection';
+
+/**
+ * Survivor / eliminator leagues. Each member picks one team per week to win
+ * straight up and can't pick the same team twice. Picks are ordinary moneyline
+ * picks, so they are graded by /api/scoring/auto like any other pick; standings
+ * and eliminations are derived from those graded results.
+ */
+
+export interface SurvivorWeekRef {
+  week: number;
+  season_type: number;
+}
+
+export interface SurvivorPick extends SurvivorWeekRef {
+  team_id: number | null;
+  team: string | null;
+  result: 'win' | 'loss' | 'push' | null;
+  // Whether the pick cost the member a strike
+  strike: boolean;
+}
+
+export interface SurvivorEntry {
+  user_id: string;
+  username: string;
+  avatar_url: string | null;
+  status: 'alive' | 'eliminated';
+  strikes: number;
+  eliminated_in: SurvivorWeekRef | null;
+  picks: SurvivorPick[];
+  // Completed weeks the member didn't pick in, each costing a strike
+  missed_weeks: SurvivorWeekRef[];
+  used_team_ids: number[];
+}
+
+interface SurvivorPickRow extends SurvivorWeekRef {
+  user_id: string;
+  result: 'win' | 'loss' | 'push' | null;
+  selection_data: PickSelection | null;
+  games: {
+    home_team_id: number;
+    away_team_id: number;
+    home_team: { abbreviation: string } | null;
+    away_team: { abbreviation: string } | null;
+  } | null;
+}
+
+interface MemberRow {
+  user_id: string;
+  profiles: { username: string; avatar_url: string | null } | { username: string; avatar_url: string | null }[] | null;
+}
+
+const weekKey = (week: SurvivorWeekRef) => `${week.season_type}-${week.week}`;
+
+const compareWeeks = (a: SurvivorWeekRef, b: SurvivorWeekRef) =>
+  a.season_type - b.season_type || a.week - b.week;
+
+function isStrike(result: SurvivorPick['result'], settings: SurvivorSettings): boolean {
+  return result === 'loss' || (result === 'push' && settings.tie_rule === 'loss');
+}
+
+function getPickedTeam(row: SurvivorPickRow): { team_id: number | null; team: string | null } {
+  const side = row.selection_data?.side;
+  if (!row.games || (side !== 'home' && side !== 'away')) {
+    return { team_id: null, team: null };
+  }
+
+  return side === 'home'
+    ? { team_id: row.games.home_team_id, team: row.games.home_team?.abbreviation ?? null }
+    : { team_id: row.games.away_team_id, team: row.games.away_team?.abbreviation ?? null };
+}
+
+/**
+ * Walk each member's season week by week, counting strikes for losses, ties
+ * (when the league counts them as losses) and completed weeks with no pick.
+ * Members are eliminated once they reach the league's strike limit.
+ */
+export function buildSurvivorStandings(
+  members: MemberRow[],
+  picks: SurvivorPickRow[],
+  completedWeeks: SurvivorWeekRef[],
+  settings: SurvivorSettings
+): SurvivorEntry[] {
+  // Only weeks the league actually played count as missed
+  const leagueWeeks = new Set(picks.map(weekKey));
+  const closedWeeks = completedWeeks.filter(week => leagueWeeks.has(weekKey(week)));
+
+  const entries = members.map(member => {
+    const profile = Array.isArray(member.profiles) ? member.profiles[0] : member.profiles;
+    const memberPicks = picks
+      .filter(pick => pick.user_id === member.user_id)
+      .sort(compareWeeks);
+
+    const pickedWeeks = new Set(memberPicks.map(weekKey));
+    const timeline = [
+      ...memberPicks.map(pick => ({ week: pick as SurvivorWeekRef, pick })),
+      ...closedWeeks
+        .filter(week => !pickedWeeks.has(weekKey(week)))
+        .map(week => ({ week, pick: null as SurvivorPickRow | null }))
+    ].sort((a, b) => compareWeeks(a.week, b.week));
+
+    const entry: SurvivorEntry = {
+      user_id: member.user_id,
+      username: profile?.username ?? 'Unknown',
+      avatar_url: profile?.avatar_url ?? null,
+      status: 'alive',
+      strikes: 0,
+      eliminated_in: null,
+      picks: [],
+      missed_weeks: [],
+      used_team_ids: []
+    };
+
+    for (const { week, pick } of timeline) {
+      if (entry.status === 'eliminated') break;
+
+      const ref = { week: week.week, season_type: week.season_type };
+      let strike: boolean;
+
+      if (pick) {
+        const { team_id, team } = getPickedTeam(pick);
+        strike = isStrike(pick.result, settings);
+        entry.picks.push({ ...ref, team_id, team, result: pick.result, strike });
+        if (team_id !== null) {
+          entry.used_team_ids.push(team_id);
+        }
+      } else {
+        strike = true;
+        entry.missed_weeks.push(ref);
+      }
+
+      if (strike) {
+        entry.strikes++;
+        if (entry.strikes >= settings.strikes_allowed) {
+          entry.status = 'eliminated';
+          entry.eliminated_in = ref;
+        }
+      }
+    }
+
+    return entry;
+  });
+
+  const wins = (entry: SurvivorEntry) => entry.picks.filter(pick => pick.result === 'win').length;
+
+  // Survivors first, then whoever lasted longest
+  return entries.sort((a, b) => {
+    if (a.status !== b.status) return a.status === 'alive' ? -1 : 1;
+    if (a.eliminated_in && b.eliminated_in) {
+      const lasted = compareWeeks(b.eliminated_in, a.eliminated_in);
+      if (lasted !== 0) return lasted;
+    }
+    return a.strikes - b.strikes || wins(b) - wins(a);
+  });
+}
+
+/**
+ * Calendar weeks of a season that have ended: its NFL year, from the season's
+ * start onward
+ */
+async function getClosedSeasonWeeks(seasonId: number | string) {
+  const { data: season, error: seasonError } = await supabaseAdmin
+    .from('seasons')
+    .select('start_date')
+    .eq('id', seasonId)
+    .single();
+
+  if (seasonError) {
+    return { data: null, error: seasonError };
+  }
+
+  // A season outside the synced calendar has no weeks to miss
+  const seasonYear = await getSeasonNFLYear(seasonId);
+  if (!seasonYear) {
+    return { data: [] as SurvivorWeekRef[], error: null };
+  }
+
+  let query = supabaseAdmin
+    .from('nfl_weeks')
+    .select('week, season_type')
+    .eq('season_year', seasonYear)
+    .lt('end_date', new Date().toISOString());
+
+  if (season?.start_date) {
+    query = query.gte('start_date', season.start_date);
+  }
+
+  const { data, error } = await query;
+  return { data: data as SurvivorWeekRef[] | null, error };
+}
+
+/**
+ * Survivor standings for a season
+ */
+export async function getSurvivorStandings(
+  seasonId: number | string,
+  leagueId: number,
+  settings: SurvivorSettings
+): Promise<SurvivorEntry[]> {
+  const [membersResult, picksResult, weeksResult] = await Promise.all([
+    supabaseAdmin
+      .from('league_memberships')
+      .select('user_id, profiles!inner(username, avatar_url)')
+      .eq('league_id', leagueId),
+    supabaseAdmin
+      .from('picks')
+      .select(`
+        user_id,
+        week,
+        season_type,
+        result,
+        selection_data,
+        games!inner(
+          home_team_id,
+          away_team_id,
+          home_team:teams!games_home_team_id_fkey(abbreviation),
+          away_team:teams!games_away_team_id_fkey(abbreviation)
+        )
+      `)
+      .eq('season_id', seasonId),
+    getClosedSeasonWeeks(seasonId)
+  ]);
+
+  if (membersResult.error || picksResult.error || weeksResult.error) {
+    throw new Error(
+      `Failed to load survivor standings: ${(membersResult.error || picksResult.error || weeksResult.error)?.message}`
+    );
+  }
+
+  return buildSurvivorStandings(
+    (membersResult.data || []) as unknown as MemberRow[],
+    (picksResult.data || []) as unknown as SurvivorPickRow[],
+    // nfl_weeks keeps every year's calendar, so each week key appears once at most
+    [...new Map((weeksResult.data || []).map(week => [weekKey(week), week])).values()],
+    settings
+  );
+}
+
+/**
+ * Check a member can take a team in a survivor week: they must still be alive
+ * and can't have used the team in any other week. Replacing their pick for the
+ * same week is allowed.
+ */
+export async function validateSurvivorPick(params: {
+  seasonId: number | string;
+  leagueId: number;
+  userId: string;
+  teamId: number;
+  week: SurvivorWeekRef;
+  settings: SurvivorSettings;
+}): Promise<{ isValid: boolean; errorMessage?: string }> {
+  const standings = await getSurvivorStandings(params.seasonId, params.leagueId, params.settings);
+  const entry = standings.find(e => e.user_id === params.userId);
+
+  if (!entry) {
+    return { isValid: true };
+  }
+
+  if (entry.status === 'eliminated') {
+    return { isValid: false, errorMessage: 'You have been eliminated from this survivor pool' };
+  }
+
+  const reused = entry.picks.find(pick =>
+    pick.team_id === params.teamId && weekKey(pick) !== weekKey(params.week)
+  );
+
+  if (reused) {
+    return {
+      isValid: false,
+      errorMessage: `You already used ${reused.team ?? 'this team'} in ${reused.season_type === 3 ? 'the playoffs' : `Week ${reused.week}`}`
+    };
+  }
+
+  return { isValid: true };
+}
@@ -0,0 +1,358 @@
+import { supabaseAdmin } from './supabase-admin';
+import { getSeasonLeagueFormat } from './league-format';
+import { getLeaguePickRules, getLeagueWeekLock } from './pick-rules';
+import { getNFLWeek, getNFLWeekForDate, getSeasonNFLYear, isNFLSeasonType } from './nfl-week';
+import { formatLockTime, getPickDeadline } from './pick-locks';
+import { UNPLAYABLE_GAME_STATUSES, type GameStatus } from './espn-monitor';
+
+/**
+ * Tiebreakers for members level on points. With their picks, members guess the
+ * combined score of the week's last game (usually Monday night). The league's
+ * chain of tiebreakers is applied in order, in weekly standings (so one member
+ * takes the weekly_winner_bonus) and on the season leaderboard. Members still
+ * level after the whole chain share a rank.
+ */
+
+export type Tiebreaker = 'closest_guess' | 'fewer_losses' | 'earliest_submission';
+
+export const TIEBREAKERS: Tiebreaker[] = ['closest_guess', 'fewer_losses', 'earliest_submission'];
+
+export const DEFAULT_TIEBREAKERS: Tiebreaker[] = ['closest_guess', 'fewer_losses', 'earliest_submission'];
+
+export const MAX_TIEBREAKER_GUESS = 200;
+
+export interface TiebreakerGame {
+  id: number;
+  start_time: string;
+  status: GameStatus | null;
+  home_score: number | null;
+  away_score: number | null;
+  home_team: { name: string; abbreviation: string } | null;
+  away_team: { name: string; abbreviation: string } | null;
+}
+
+export interface TiebreakerGuess {
+  user_id: string;
+  game_id: number;
+  total_points: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * What the chain compares for one member over a week or a season
+ */
+export interface TiebreakerStats {
+  total_points: number;
+  losses: number;
+  // How far the member's guess missed the tiebreaker game's combined score
+  // (averaged over the season); null without a guess or before the game is final
+  guess_difference: number | null;
+  // When the member's first counted pick was made
+  submitted_at: string | null;
+}
+
+export type TiebreakerGuessResult =
+  | { success: true; guess: TiebreakerGuess; game: TiebreakerGame; deadline: Date }
+  | { success: false; error: string; status: number };
+
+const fail = (error: string, status = 400): TiebreakerGuessResult => ({ success: false, error, status });
+
+export function isTiebreaker(value: unknown): value is Tiebreaker {
+  return typeof value === 'string' && (TIEBREAKERS as string[]).includes(value);
+}
+
+/**
+ * Validate a league's tiebreaker chain: known tiebreakers, each used once.
+ * An empty chain leaves members level on points sharing their rank.
+ */
+export function validateTiebreakers(value: unknown): { isValid: boolean; errorMessage?: string } {
+  if (!Array.isArray(value) || !value.every(isTiebreaker)) {
+    return { isValid: false, errorMessage: `Tiebreakers must be a list of: ${TIEBREAKERS.join(', ')}` };
+  }
+
+  if (new Set(value).size !== value.length) {
+    return { isValid: false, errorMessage: 'Each tiebreaker can only be used once' };
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Compare two members level on points by one tiebreaker. Negative when a ranks
+ * above b; a member with nothing to compare ranks below one who has it.
+ */
+function compareByTiebreaker(a: TiebreakerStats, b: TiebreakerStats, tiebreaker: Tiebreaker): number {
+  const compareMissing = (aValue: unknown, bValue: unknown) =>
+    aValue === null ? (bValue === null ? 0 : 1) : bValue === null ? -1 : null;
+
+  switch (tiebreaker) {
+    case 'closest_guess':
+      return compareMissing(a.guess_difference, b.guess_difference)
+        ?? (a.guess_difference as number) - (b.guess_difference as number);
+    case 'fewer_losses':
+      return a.losses - b.losses;
+    case 'earliest_submission':
+      return compareMissing(a.submitted_at, b.submitted_at)
+        ?? new Date(a.submitted_at as string).getTime() - new Date(b.submitted_at as string).getTime();
+  }
+}
+
+/**
+ * The first tiebreaker in the chain that separates two members level on
+ * points, or null when they're still level after the whole chain
+ */
+export function getDecidingTiebreaker(a: TiebreakerStats, b: TiebreakerStats, tiebreakers: Tiebreaker[]): Tiebreaker | null {
+  if (a.total_points !== b.total_points) {
+    return null;
+  }
+
+  return tiebreakers.find(tiebreaker => compareByTiebreaker(a, b, tiebreaker) !== 0) ?? null;
+}
+
+/**
+ * Standings order: points, then the league's tiebreakers in order
+ */
+export function compareWithTiebreakers(a: TiebreakerStats, b: TiebreakerStats, tiebreakers: Tiebreaker[]): number {
+  if (a.total_points !== b.total_points) {
+    return b.total_points - a.total_points;
+  }
+
+  const deciding = getDecidingTiebreaker(a, b, tiebreakers);
+  return deciding ? compareByTiebreaker(a, b, deciding) : 0;
+}
+
+/**
+ * Sort standings in place and rank them. Members still level after the whole
+ * chain share a rank.
+ */
+export function rankWithTiebreakers<T extends TiebreakerStats & { rank: number }>(standings: T[], tiebreakers: Tiebreaker[]): T[] {
+  standings.sort((a, b) => compareWithTiebreakers(a, b, tiebreakers));
+
+  standings.forEach((standing, index) => {
+    const previous = standings[index - 1];
+    standing.rank = previous && compareWithTiebreakers(previous, standing, tiebreakers) === 0
+      ? previous.rank
+      : index + 1;
+  });
+
+  return standings;
+}
+
+/**
+ * How far a guess missed, once the tiebreaker game is final
+ */
+export function getGuessDifference(
+  guess: number,
+  game: Pick<TiebreakerGame, 'status' | 'home_score' | 'away_score'> | null
+): number | null {
+  if (!game || game.status !== 'completed' || game.home_score === null || game.away_score === null) {
+    return null;
+  }
+
+  return Math.abs(guess - (game.home_score + game.away_score));
+}
+
+/**
+ * The week's tiebreaker game: the last kickoff of the season's calendar week
+ * that will be played
+ */
+export async function getTiebreakerGame(seasonId: number, week: number, seasonType: number): Promise<TiebreakerGame | null> {
+  if (!isNFLSeasonType(seasonType)) {
+    return null;
+  }
+
+  const seasonYear = await getSeasonNFLYear(seasonId);
+  const calendarWeek = seasonYear ? await getNFLWeek(seasonYear, seasonType, week) : null;
+  if (!calendarWeek) {
+    return null;
+  }
+
+  const { data: games, error } = await supabaseAdmin
+    .from('games')
+    .select(`
+      id,
+      start_time,
+      status,
+      home_score,
+      away_score,
+      home_team:teams!games_home_team_id_fkey(name, abbreviation),
+      away_team:teams!games_away_team_id_fkey(name, abbreviation)
+    `)
+    .gte('start_time', calendarWeek.start_date)
+    .lte('start_time', calendarWeek.end_date)
+    .order('start_time', { ascending: false })
+    .order('id', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load the tiebreaker game: ${error.message}`);
+  }
+
+  const lastGame = (games || []).find(game => !UNPLAYABLE_GAME_STATUSES.includes(game.status as GameStatus));
+  if (!lastGame) {
+    return null;
+  }
+
+  return {
+    ...lastGame,
+    home_team: Array.isArray(lastGame.home_team) ? lastGame.home_team[0] : lastGame.home_team,
+    away_team: Array.isArray(lastGame.away_team) ? lastGame.away_team[0] : lastGame.away_team
+  } as TiebreakerGame;
+}
+
+/**
+ * When guesses on the tiebreaker game lock: its kickoff, or the league's
+ * weekly lock if that comes first
+ */
+export async function getTiebreakerDeadline(seasonId: number, game: TiebreakerGame): Promise<Date> {
+  const leagueFormat = await getSeasonLeagueFormat(seasonId);
+  if (leagueFormat?.format !== 'weekly') {
+    return new Date(game.start_time);
+  }
+
+  const pickRules = await getLeaguePickRules(leagueFormat.league_id);
+  const calendarWeek = pickRules.lock_mode === 'game_start' ? null : await getNFLWeekForDate(game.start_time);
+  const weekLock = calendarWeek ? await getLeagueWeekLock(pickRules, calendarWeek) : null;
+
+  return getPickDeadline(game.start_time, weekLock);
+}
+
+/**
+ * A member's guess for a week, if they've made one
+ */
+export async function getTiebreakerGuess(
+  seasonId: number,
+  userId: string,
+  week: number,
+  seasonType: number
+): Promise<TiebreakerGuess | null> {
+  const { data, error } = await supabaseAdmin
+    .from('tiebreaker_guesses')
+    .select('user_id, game_id, total_points, created_at, updated_at')
+    .eq('season_id', seasonId)
+    .eq('user_id', userId)
+    .eq('week', week)
+    .eq('season_type', seasonType)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load tiebreaker guess: ${error.message}`);
+  }
+
+  return data as TiebreakerGuess | null;
+}
+
+/**
+ * Make or change a member's guess for a week until the tiebreaker game locks
+ */
+export async function saveTiebreakerGuess(
+  seasonId: number,
+  userId: string,
+  week: number,
+  seasonType: number,
+  totalPoints: unknown
+): Promise<TiebreakerGuessResult> {
+  if (typeof totalPoints !== 'number' || !Number.isInteger(totalPoints) || totalPoints < 0 || totalPoints > MAX_TIEBREAKER_GUESS) {
+    return fail(`Tiebreaker guess must be a whole number between 0 and ${MAX_TIEBREAKER_GUESS}`);
+  }
+
+  const game = await getTiebreakerGame(seasonId, week, seasonType);
+  if (!game) {
+    return fail(`Week ${week} has no games to break ties with`, 404);
+  }
+
+  const deadline = await getTiebreakerDeadline(seasonId, game);
+  if (new Date() >= deadline) {
+    return fail(`Tiebreaker guesses for Week ${week} locked ${formatLockTime(deadline)}`);
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('tiebreaker_guesses')
+    .upsert({
+      season_id: seasonId,
+      user_id: userId,
+      week,
+      season_type: seasonType,
+      game_id: game.id,
+      total_points: totalPoints,
+      updated_at: new Date().toISOString()
+    }, {
+      onConflict: 'season_id,user_id,season_type,week'
+    })
+    .select('user_id, game_id, total_points, created_at, updated_at')
+    .single();
+
+  if (error || !data) {
+    console.error('Failed to save tiebreaker guess:', error);
+    return fail('Failed to save tiebreaker guess', 500);
+  }
+
+  return { success: true, guess: data as TiebreakerGuess, game, deadline };
+}
+
+interface GuessRow extends TiebreakerGuess {
+  week: number;
+  season_type: number;
+  games: Pick<TiebreakerGame, 'status' | 'home_score' | 'away_score'> | Array<Pick<TiebreakerGame, 'status' | 'home_score' | 'away_score'>> | null;
+}
+
+async function getGuessRows(seasonId: number, week?: { week: number; season_type: number }): Promise<GuessRow[]> {
+  let query = supabaseAdmin
+    .from('tiebreaker_guesses')
+    .select('user_id, game_id, total_points, created_at, updated_at, week, season_type, games(status, home_score, away_score)')
+    .eq('season_id', seasonId);
+
+  if (week) {
+    query = query.eq('week', week.week).eq('season_type', week.season_type);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to load tiebreaker guesses: ${error.message}`);
+  }
+
+  return (data || []) as GuessRow[];
+}
+
+const getGuessGame = (row: GuessRow) => (Array.isArray(row.games) ? row.games[0] : row.games) ?? null;
+
+/**
+ * Every member's guess for a week, with how far it missed once the game is final
+ */
+export async function getWeekTiebreakerGuesses(
+  seasonId: number,
+  week: number,
+  seasonType: number
+): Promise<Map<string, TiebreakerGuess & { difference: number | null }>> {
+  const rows = await getGuessRows(seasonId, { week, season_type: seasonType });
+
+  return new Map(rows.map(row => [row.user_id, {
+    user_id: row.user_id,
+    game_id: row.game_id,
+    total_points: row.total_points,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    difference: getGuessDifference(row.total_points, getGuessGame(row))
+  }]));
+}
+
+/**
+ * Each member's average guess miss over the season's finished tiebreaker games
+ */
+export async function getSeasonGuessDifferences(seasonId: number): Promise<Map<string, number>> {
+  const rows = await getGuessRows(seasonId);
+  const totals = new Map<string, { sum: number; count: number }>();
+
+  for (const row of rows) {
+    const difference = getGuessDifference(row.total_points, getGuessGame(row));
+    if (difference === null) continue;
+
+    const total = totals.get(row.user_id) ?? { sum: 0, count: 0 };
+    total.sum += difference;
+    total.count++;
+    totals.set(row.user_id, total);
+  }
+
+  return new Map([...totals].map(([userId, total]) => [userId, total.sum / total.count]));
+}
@@ -110,6 +110,21 @@ export function validateWeek(week: string | null | undefined): { isValid: boolea
   return { isValid: true };
 }
 
+/**
+ * Validates an ESPN season type (1 preseason, 2 regular season, 3 postseason)
+ */
+export function validateSeasonType(seasonType: string | null | undefined): { isValid: boolean; errorMessage?: string } {
+  if (!seasonType) {
+    return { isValid: false, errorMessage: 'Season type is required' };
+  }
+
+  if (!['1', '2', '3'].includes(seasonType)) {
+    return { isValid: false, errorMessage: 'Season type must be 1 (preseason), 2 (regular season) or 3 (postseason)' };
+  }
+
+  return { isValid: true };
+}
+
 /**
  * Validates multiple IDs from request body
  */
@@ -0,0 +1,45 @@
+'use client';
+
+import { create } from 'zustand';
+import type { PickSelection } from '@/lib/selection';
+
+export interface ParlaySlipLeg {
+  game_id: number;
+  bet_type: 'moneyline' | 'spread' | 'total' | 'player_prop';
+  selection: PickSelection;
+  // The line the leg was added at, checked again on submit
+  sportsbook?: string;
+  expected_point?: number | null;
+  expected_price?: number | null;
+  // Display-only fields, not sent to the API
+  label: string;
+  matchup: string;
+  start_time: string;
+}
+
+export const MAX_PARLAY_LEGS = 10;
+
+interface ParlayStore {
+  legs: ParlaySlipLeg[];
+
+  // Adding a leg for a game already on the slip replaces that game's leg
+  addLeg: (leg: ParlaySlipLeg) => void;
+  removeLeg: (gameId: number) => void;
+  clearSlip: () => void;
+}
+
+export const useParlayStore = create<ParlayStore>((set) => ({
+  legs: [],
+
+  addLeg: (leg: ParlaySlipLeg) => set((state) => {
+    const otherLegs = state.legs.filter(l => l.game_id !== leg.game_id);
+    if (otherLegs.length >= MAX_PARLAY_LEGS) {
+      return state;
+    }
+    return { legs: [...otherLegs, leg] };
+  }),
+  removeLeg: (gameId: number) => set((state) => ({
+    legs: state.legs.filter(l => l.game_id !== gameId)
+  })),
+  clearSlip: () => set({ legs: [] }),
+}));
@@ -0,0 +1,32 @@
+'use client';
+
+import { create } from 'zustand';
+
+export type RealtimeStatus = 'connecting' | 'connected' | 'disconnected';
+
+interface RealtimeStore {
+  // Channel status per season id; seasons without a subscription aren't listed
+  seasons: Record<string, RealtimeStatus>;
+
+  setStatus: (seasonId: string, status: RealtimeStatus) => void;
+  clearStatus: (seasonId: string) => void;
+}
+
+export const useRealtimeStore = create<RealtimeStore>((set) => ({
+  seasons: {},
+
+  setStatus: (seasonId: string, status: RealtimeStatus) => set((state) => ({
+    seasons: { ...state.seasons, [seasonId]: status }
+  })),
+  clearStatus: (seasonId: string) => set((state) => {
+    const seasons = { ...state.seasons };
+    delete seasons[seasonId];
+    return { seasons };
+  }),
+}));
+
+/**
+ * True while a season's Realtime channel is delivering changes
+ */
+export const useIsRealtimeConnected = (seasonId: string) =>
+  useRealtimeStore((state) => state.seasons[seasonId] === 'connected');
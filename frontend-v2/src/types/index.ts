@@ -1,3 +1,6 @@
+import type { MarketPeriod, PickSelection } from '@/lib/selection';
+import type { ConfidenceBetType, LeagueFormat, SurvivorTieRule } from '@/lib/league-format';
+
 export interface Odds {
   id: number;
   sportsbook: string;
@@ -6,8 +9,17 @@ export interface Odds {
   moneyline_away: number | null;
   spread_home: number | null;
   spread_away: number | null;
+  spread_home_price: number | null;
+  spread_away_price: number | null;
   total_over: number | null;
   total_under: number | null;
+  total_over_price: number | null;
+  total_under_price: number | null;
+}
+
+// A half or quarter line from period_odds
+export interface PeriodOdds extends Odds {
+  period: MarketPeriod;
 }
 
 export interface Game {
@@ -43,6 +55,7 @@ export interface Game {
     venue_name?: string;
   };
   odds: Odds[];
+  period_odds?: PeriodOdds[];
 }
 
 export interface Season {
@@ -55,16 +68,43 @@ export interface Season {
     id: number;
     name: string;
     admin_id: string;
+    format?: LeagueFormat;
+    survivor_strikes?: number;
+    survivor_tie_rule?: SurvivorTieRule;
+    confidence_bet_type?: ConfidenceBetType;
   };
 }
 
+export interface PickLeg {
+  id: number;
+  game_id: number;
+  bet_type: string;
+  selection: string;
+  selection_data?: PickSelection | null;
+  player_prop_id?: number | null;
+  leg_order: number;
+  odds_price?: number | null;
+  locked_sportsbook?: string | null;
+  locked_point?: number | null;
+  result: 'win' | 'loss' | 'push' | 'void' | null;
+}
+
 export interface Pick {
   id: number;
   game_id: number;
   bet_type: string;
   selection: string;
+  selection_data?: PickSelection | null;
   result: string | null;
   created_at: string;
+  pick_type: 'straight' | 'parlay';
+  pick_legs?: PickLeg[];
+  odds_price?: number | null;
+  locked_sportsbook?: string | null;
+  locked_point?: number | null;
+  locked_at?: string | null;
+  // Set when an admin decided the result; grading leaves the pick alone
+  overridden_at?: string | null;
   games: {
     id: number;
     start_time: string;